@@ -0,0 +1,18 @@
+// Per-app permission scopes for embedded dock apps
+// Scopes (lib/appScopes) are granted by the user on connect and enforced by the client-side WalletBridge
+
+// Create user_app_permissions table if it doesn't exist (databases created before app scopes)
+export async function ensureAppPermissionsTable(db: D1Database): Promise<void> {
+  await db.prepare(
+    `CREATE TABLE IF NOT EXISTS user_app_permissions (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      app_id TEXT NOT NULL,
+      scope TEXT NOT NULL,
+      granted_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (app_id) REFERENCES apps(id) ON DELETE CASCADE,
+      UNIQUE(user_id, app_id, scope)
+    )`
+  ).run();
+}
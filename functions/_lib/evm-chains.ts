@@ -0,0 +1,155 @@
+// EVM chain registry shared by the config, superadmin, EVM transaction and token metadata APIs
+
+import { DEFAULT_EVM_CHAINS, EvmChain } from '../../lib/evmChains';
+
+export interface EvmChainRow {
+  chain_id: number;
+  name: string;
+  native_symbol: string;
+  native_decimals: number;
+  explorer_url: string | null;
+  supports_eip1559: number;
+  icon: string | null;
+  is_testnet: number;
+  testnet_chain_id: number | null;
+  is_enabled: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Create evm_chains if it doesn't exist (databases created before the chain registry), seeded with the defaults
+export async function ensureEvmChainsTable(db: D1Database): Promise<void> {
+  await db.prepare(
+    `CREATE TABLE IF NOT EXISTS evm_chains (
+      chain_id INTEGER PRIMARY KEY,
+      name TEXT NOT NULL UNIQUE,
+      native_symbol TEXT NOT NULL,
+      native_decimals INTEGER DEFAULT 18,
+      explorer_url TEXT,
+      supports_eip1559 INTEGER DEFAULT 1,
+      icon TEXT,
+      is_testnet INTEGER DEFAULT 0,
+      testnet_chain_id INTEGER,
+      is_enabled INTEGER DEFAULT 1,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`
+  ).run();
+
+  const count = await db.prepare('SELECT COUNT(*) as count FROM evm_chains').first<{ count: number }>();
+  if (count && count.count > 0) return;
+
+  for (const chain of DEFAULT_EVM_CHAINS) {
+    await db.prepare(
+      `INSERT OR IGNORE INTO evm_chains (chain_id, name, native_symbol, native_decimals, explorer_url, supports_eip1559, icon, is_testnet, testnet_chain_id, is_enabled)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).bind(
+      chain.chainId,
+      chain.name,
+      chain.nativeSymbol,
+      chain.nativeDecimals,
+      chain.explorerUrl,
+      chain.supportsEip1559 ? 1 : 0,
+      chain.icon,
+      chain.isTestnet ? 1 : 0,
+      chain.testnetChainId,
+      chain.isEnabled ? 1 : 0
+    ).run();
+  }
+}
+
+export function toEvmChain(row: EvmChainRow): EvmChain {
+  return {
+    chainId: row.chain_id,
+    name: row.name,
+    nativeSymbol: row.native_symbol,
+    nativeDecimals: row.native_decimals,
+    explorerUrl: row.explorer_url,
+    supportsEip1559: row.supports_eip1559 === 1,
+    icon: row.icon,
+    isTestnet: row.is_testnet === 1,
+    testnetChainId: row.testnet_chain_id,
+    isEnabled: row.is_enabled === 1,
+  };
+}
+
+// Enabled chains, mainnets first
+export async function getEnabledEvmChains(db: D1Database): Promise<EvmChain[]> {
+  await ensureEvmChainsTable(db);
+  const result = await db.prepare(
+    `SELECT * FROM evm_chains WHERE is_enabled = 1 ORDER BY is_testnet, chain_id`
+  ).all();
+  return (result.results as unknown as EvmChainRow[]).map(toEvmChain);
+}
+
+// RPC endpoint of an enabled registry chain, or null when the chain is unsupported
+export async function getEvmRpcUrl(db: D1Database, chainId: number): Promise<string | null> {
+  await ensureEvmChainsTable(db);
+  const row = await db.prepare(
+    `SELECT r.rpc_url FROM rpc_endpoints r
+     JOIN evm_chains c ON c.chain_id = CAST(r.chain_id AS INTEGER)
+     WHERE r.chain_type = 'evm' AND r.chain_id = ? AND r.is_enabled = 1 AND c.is_enabled = 1
+     ORDER BY r.priority
+     LIMIT 1`
+  ).bind(String(chainId)).first<{ rpc_url: string }>();
+  return row?.rpc_url ?? null;
+}
+
+// JSON-RPC call to an EVM node
+export async function evmRpcCall(rpcUrl: string, method: string, params: any[]): Promise<any> {
+  const response = await fetch(rpcUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method,
+      params
+    })
+  });
+
+  const result = await response.json() as { result?: any; error?: { message: string } };
+  if (result.error) {
+    throw new Error(result.error.message);
+  }
+  return result.result;
+}
+
+// Validate a chain before it is stored. Returns an error message or null.
+export function validateEvmChain(chain: {
+  chain_id: number;
+  name: string;
+  native_symbol: string;
+  native_decimals?: number;
+  explorer_url?: string | null;
+  is_testnet?: boolean;
+  testnet_chain_id?: number | null;
+}): string | null {
+  if (!Number.isSafeInteger(chain.chain_id) || chain.chain_id <= 0) {
+    return 'chain_id must be a positive integer';
+  }
+  if (!chain.name?.trim() || !chain.native_symbol?.trim()) {
+    return 'name and native_symbol are required';
+  }
+  if (chain.native_decimals !== undefined && (!Number.isInteger(chain.native_decimals) || chain.native_decimals < 0 || chain.native_decimals > 36)) {
+    return 'native_decimals must be an integer between 0 and 36';
+  }
+  if (chain.explorer_url) {
+    try {
+      if (new URL(chain.explorer_url).protocol !== 'https:') {
+        return 'explorer_url must be an https URL';
+      }
+    } catch {
+      return 'Invalid explorer_url format';
+    }
+  }
+  if (chain.testnet_chain_id != null) {
+    if (chain.is_testnet) {
+      return 'A testnet chain cannot have a testnet_chain_id';
+    }
+    if (!Number.isSafeInteger(chain.testnet_chain_id) || chain.testnet_chain_id <= 0) {
+      return 'testnet_chain_id must be a positive integer';
+    }
+  }
+  return null;
+}
@@ -0,0 +1,11 @@
+// RPC endpoint configuration shared by the config, superadmin and sync APIs
+
+// Add rpc_endpoints.provider_type if missing (databases created before pluggable Bitcoin providers)
+// NULL means the chain's default JSON-RPC API; Bitcoin rows can also be 'esplora'
+export async function ensureRpcProviderTypeColumn(db: D1Database): Promise<void> {
+  try {
+    await db.prepare('SELECT provider_type FROM rpc_endpoints LIMIT 0').all();
+  } catch {
+    await db.prepare('ALTER TABLE rpc_endpoints ADD COLUMN provider_type TEXT').run();
+  }
+}
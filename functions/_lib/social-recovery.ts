@@ -0,0 +1,199 @@
+// Guardian-based social recovery
+// The owner's wallet key is split client-side with Shamir secret sharing; each guardian's share
+// is encrypted to that guardian's public key. A recovery request collects shares re-encrypted by
+// guardians to a key held by the recovering device, and can only complete after a time delay
+// during which the owner can cancel it. The recovering device only asks for a recovery; one of the
+// owner's guardians has to start it, so strangers cannot hold an account's recovery hostage.
+
+import type { Env } from './utils';
+
+export const MAX_GUARDIANS = 10;
+
+// Hours between a recovery request and the earliest time it can complete, unless overridden
+export const DEFAULT_RECOVERY_DELAY_HOURS = '48';
+
+// Registration code type minted for a recovery that has enough approvals and has waited out the delay
+export const RECOVERY_CODE_TYPE = 'recovery';
+
+// Hours a guardian has to start a request after the recovering device asked for it
+export const REQUESTED_RECOVERY_TTL_HOURS = 24;
+
+// 'requested' until a guardian starts it with the device's start code; only 'pending' requests count
+export type RecoveryStatus = 'requested' | 'pending' | 'cancelled' | 'completed';
+
+export interface RecoveryRequestRow {
+  id: string;
+  user_id: string;
+  recovery_public_key: string;
+  secret_hash: string;
+  threshold: number;
+  status: RecoveryStatus;
+  available_at: string;
+  registration_code_id: string | null;
+  start_code: string | null;
+  created_at: string;
+  cancelled_at: string | null;
+  completed_at: string | null;
+}
+
+// Create the social recovery tables if they don't exist (databases created before social recovery)
+export async function ensureRecoveryTables(db: D1Database): Promise<void> {
+  await db.prepare(
+    `CREATE TABLE IF NOT EXISTS guardian_keys (
+      user_id TEXT PRIMARY KEY,
+      public_key TEXT NOT NULL,
+      private_key_encrypted TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )`
+  ).run();
+  await db.prepare(
+    `CREATE TABLE IF NOT EXISTS recovery_configs (
+      user_id TEXT PRIMARY KEY,
+      threshold INTEGER NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )`
+  ).run();
+  await db.prepare(
+    `CREATE TABLE IF NOT EXISTS recovery_guardians (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      guardian_user_id TEXT NOT NULL,
+      encrypted_share TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (guardian_user_id) REFERENCES users(id) ON DELETE CASCADE,
+      UNIQUE(user_id, guardian_user_id)
+    )`
+  ).run();
+  await db.prepare(
+    `CREATE TABLE IF NOT EXISTS recovery_requests (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      recovery_public_key TEXT NOT NULL,
+      secret_hash TEXT NOT NULL,
+      threshold INTEGER NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      available_at DATETIME NOT NULL,
+      registration_code_id TEXT,
+      start_code TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      cancelled_at DATETIME,
+      completed_at DATETIME,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )`
+  ).run();
+  await db.prepare(
+    `CREATE TABLE IF NOT EXISTS recovery_approvals (
+      id TEXT PRIMARY KEY,
+      request_id TEXT NOT NULL,
+      guardian_user_id TEXT NOT NULL,
+      encrypted_share TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (request_id) REFERENCES recovery_requests(id) ON DELETE CASCADE,
+      FOREIGN KEY (guardian_user_id) REFERENCES users(id) ON DELETE CASCADE,
+      UNIQUE(request_id, guardian_user_id)
+    )`
+  ).run();
+  // Requests created before guardians had to start them
+  try {
+    await db.prepare('SELECT start_code FROM recovery_requests LIMIT 0').all();
+  } catch {
+    await db.prepare('ALTER TABLE recovery_requests ADD COLUMN start_code TEXT').run();
+  }
+}
+
+// Uncompressed P-256 public key, hex encoded
+export function isPublicKeyHex(value: unknown): value is string {
+  return typeof value === 'string' && /^04[0-9a-fA-F]{128}$/.test(value);
+}
+
+export async function getRecoveryDelayHours(db: D1Database): Promise<number> {
+  const override = await db.prepare(
+    `SELECT value FROM config_overrides WHERE key = 'RECOVERY_DELAY_HOURS'`
+  ).first<{ value: string }>();
+  return parseInt(override?.value || DEFAULT_RECOVERY_DELAY_HOURS, 10);
+}
+
+// SHA-256 of the request secret; only the recovering device knows the secret itself
+export async function hashRecoverySecret(secret: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function generateRecoverySecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Single-use registration code for the recovering device; longer than invite codes since it is never typed
+export function generateRecoveryCode(): string {
+  const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  const bytes = crypto.getRandomValues(new Uint8Array(20));
+  return Array.from(bytes).map(b => chars.charAt(b % chars.length)).join('');
+}
+
+// Short code the recovering device shows and the person recovering reads out to a guardian
+export function generateStartCode(): string {
+  const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  const bytes = crypto.getRandomValues(new Uint8Array(8));
+  return Array.from(bytes).map(b => chars.charAt(b % chars.length)).join('');
+}
+
+export async function countApprovals(db: D1Database, requestId: string): Promise<number> {
+  const row = await db.prepare(
+    'SELECT COUNT(*) as count FROM recovery_approvals WHERE request_id = ?'
+  ).bind(requestId).first<{ count: number }>();
+  return row?.count || 0;
+}
+
+// Cancel every open request for a user, e.g. when the owner cancels or replaces their guardians
+export async function cancelPendingRecoveries(db: D1Database, userId: string, requestId?: string): Promise<number> {
+  const pending = await db.prepare(
+    `SELECT id, registration_code_id FROM recovery_requests
+     WHERE user_id = ? AND status IN ('requested', 'pending') AND (? IS NULL OR id = ?)`
+  ).bind(userId, requestId || null, requestId || null).all();
+
+  for (const row of (pending.results || []) as Array<{ id: string; registration_code_id: string | null }>) {
+    await db.prepare(
+      `UPDATE recovery_requests SET status = 'cancelled', cancelled_at = datetime('now') WHERE id = ?`
+    ).bind(row.id).run();
+    if (row.registration_code_id) {
+      await db.prepare(
+        'UPDATE registration_codes SET uses_remaining = 0 WHERE id = ?'
+      ).bind(row.registration_code_id).run();
+    }
+  }
+  return (pending.results || []).length;
+}
+
+// Tell the owner a recovery of their account has started. Accounts have no contact details, so the
+// event goes to the operator's RECOVERY_WEBHOOK_URL, which forwards it to the owner. Best effort:
+// the owner also sees the request on any passkey they still have.
+export async function notifyRecoveryStarted(
+  db: D1Database,
+  env: Env,
+  event: { userId: string; username: string; startedBy: string; requestId: string; availableAt: string }
+): Promise<void> {
+  try {
+    const override = await db.prepare(
+      `SELECT value FROM config_overrides WHERE key = 'RECOVERY_WEBHOOK_URL'`
+    ).first<{ value: string }>();
+    const webhookUrl = override?.value || env.RECOVERY_WEBHOOK_URL;
+    if (!webhookUrl) {
+      console.warn('[Recovery] RECOVERY_WEBHOOK_URL not configured; owner not notified of request', event.requestId);
+      return;
+    }
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ type: 'recovery_started', ...event })
+    });
+    if (!response.ok) {
+      console.error('[Recovery] Webhook error:', response.status, await response.text());
+    }
+  } catch (error) {
+    console.error('[Recovery] Failed to notify owner:', error);
+  }
+}
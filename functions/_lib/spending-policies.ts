@@ -0,0 +1,110 @@
+// Spending limits and transfer policies
+// Policies with a NULL user_id apply to every user (org-level); others apply to one user.
+// The rules themselves live in src/spendingPolicy.ts: the client evaluates them before
+// signing and the server re-checks them when a send is recorded.
+
+import { POLICY_TYPES, isPolicyType, spentKey, SpendingPolicy } from '../../lib/spendingPolicy';
+
+export interface SpendingPolicyRow extends SpendingPolicy {
+  created_at: string;
+  updated_at: string;
+}
+
+// Create spending_policies table if it doesn't exist (databases created before spending policies)
+export async function ensureSpendingPoliciesTable(db: D1Database): Promise<void> {
+  await db.prepare(
+    `CREATE TABLE IF NOT EXISTS spending_policies (
+      id TEXT PRIMARY KEY,
+      user_id TEXT,
+      policy_type TEXT NOT NULL,
+      chain_type TEXT,
+      asset_symbol TEXT,
+      value TEXT NOT NULL,
+      description TEXT,
+      is_enabled INTEGER DEFAULT 1,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )`
+  ).run();
+}
+
+// Validate a policy before it is stored. Returns an error message or null.
+export function validatePolicy(policy: {
+  policy_type: string;
+  chain_type?: string | null;
+  asset_symbol?: string | null;
+  value: string;
+}): string | null {
+  if (!isPolicyType(policy.policy_type)) {
+    return `policy_type must be one of: ${POLICY_TYPES.join(', ')}`;
+  }
+  if (!policy.value) {
+    return 'value is required';
+  }
+  switch (policy.policy_type) {
+    case 'tx_limit':
+    case 'daily_limit':
+      if (!policy.asset_symbol) {
+        return 'Limits need an asset_symbol';
+      }
+      if (!/^\d+(\.\d+)?$/.test(policy.value)) {
+        return 'Limit value must be a decimal amount';
+      }
+      return null;
+    case 'allow_selector':
+      if (policy.chain_type && policy.chain_type !== 'evm') {
+        return 'Selector allowlists only apply to EVM';
+      }
+      if (!/^0x[0-9a-fA-F]{8}$/.test(policy.value)) {
+        return 'Selector must be 4 bytes of hex, e.g. 0xa9059cbb';
+      }
+      return null;
+    default:
+      return null;
+  }
+}
+
+// Enabled policies for a user: their own plus org-level ones
+export async function getUserPolicies(db: D1Database, userId: string): Promise<SpendingPolicyRow[]> {
+  await ensureSpendingPoliciesTable(db);
+  const result = await db.prepare(
+    `SELECT * FROM spending_policies
+     WHERE (user_id = ? OR user_id IS NULL) AND is_enabled = 1`
+  ).bind(userId).all();
+  return (result.results || []) as unknown as SpendingPolicyRow[];
+}
+
+// Amount of an asset sent in the last 24 hours, excluding failed and replaced sends.
+// A null chainType sums the asset across every chain.
+async function getSpentToday(
+  db: D1Database,
+  userId: string,
+  chainType: string | null,
+  assetSymbol: string
+): Promise<number> {
+  const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+  const row = await db.prepare(
+    `SELECT COALESCE(SUM(CAST(amount AS REAL)), 0) as total FROM transactions
+     WHERE user_id = ? AND tx_type = 'send' AND status NOT IN ('failed', 'replaced')
+       AND (? IS NULL OR chain_type = ?) AND UPPER(asset_symbol) = UPPER(?)
+       AND COALESCE(block_timestamp, created_at) >= ?`
+  ).bind(userId, chainType, chainType, assetSymbol, since).first<{ total: number }>();
+  return row?.total || 0;
+}
+
+// Amounts already used by each of the given daily limits, keyed by spentKey()
+export async function getDailySpending(
+  db: D1Database,
+  userId: string,
+  policies: SpendingPolicyRow[]
+): Promise<Record<string, number>> {
+  const spent: Record<string, number> = {};
+  for (const policy of policies) {
+    if (policy.policy_type !== 'daily_limit' || !policy.asset_symbol) continue;
+    const key = spentKey(policy.chain_type, policy.asset_symbol);
+    if (key in spent) continue;
+    spent[key] = await getSpentToday(db, userId, policy.chain_type, policy.asset_symbol);
+  }
+  return spent;
+}
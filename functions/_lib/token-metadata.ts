@@ -0,0 +1,195 @@
+// Token contract metadata shared by the token metadata and custom asset APIs
+
+import { ensureEvmChainsTable, getEvmRpcUrl, evmRpcCall, EvmChainRow } from './evm-chains';
+import { decodeAbiString } from '../../lib/evmAbi';
+
+export interface TokenMetadata {
+  symbol: string | null;
+  name: string | null;
+  decimals: number;
+}
+
+// notFound: the address is not a token contract on the chain. Otherwise the
+// chain could not be asked (no RPC endpoint, node error) and nothing is known.
+export type TokenMetadataResult =
+  | { ok: true; metadata: TokenMetadata }
+  | { ok: false; notFound: boolean; error: string };
+
+const SPL_TOKEN_PROGRAMS = [
+  'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
+  'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb'  // Token-2022
+];
+
+function notFound(error: string): TokenMetadataResult {
+  return { ok: false, notFound: true, error };
+}
+
+function unavailable(error: string): TokenMetadataResult {
+  return { ok: false, notFound: false, error };
+}
+
+// Highest-priority RPC endpoint for a non-EVM chain type
+async function getRpcUrl(db: D1Database, chainType: string, network: 'mainnet' | 'testnet'): Promise<string | null> {
+  const row = await db.prepare(
+    `SELECT rpc_url FROM rpc_endpoints
+     WHERE chain_type = ? AND network = ? AND is_enabled = 1
+     ORDER BY priority
+     LIMIT 1`
+  ).bind(chainType, network).first<{ rpc_url: string }>();
+  return row?.rpc_url ?? null;
+}
+
+async function lookupEvmToken(db: D1Database, chain: string, contractAddress: string, network: 'mainnet' | 'testnet'): Promise<TokenMetadataResult> {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(contractAddress)) {
+    return notFound('Invalid EVM contract address');
+  }
+
+  await ensureEvmChainsTable(db);
+  const registryChain = await db.prepare(
+    `SELECT * FROM evm_chains WHERE LOWER(name) = LOWER(?) AND is_enabled = 1`
+  ).bind(chain).first<EvmChainRow>();
+  const chainId = registryChain && (network === 'testnet' && !registryChain.is_testnet ? registryChain.testnet_chain_id : registryChain.chain_id);
+  if (!chainId) {
+    return unavailable(`${chain} is not an enabled ${network} EVM chain`);
+  }
+  const rpcUrl = await getEvmRpcUrl(db, chainId);
+  if (!rpcUrl) {
+    return unavailable(`No RPC endpoint configured for ${chain}`);
+  }
+
+  const code = await evmRpcCall(rpcUrl, 'eth_getCode', [contractAddress, 'latest']);
+  if (!code || code === '0x') {
+    return notFound(`No contract at this address on ${chain}`);
+  }
+
+  // decimals(), symbol() and name()
+  const call = (data: string) => evmRpcCall(rpcUrl, 'eth_call', [{ to: contractAddress, data }, 'latest']);
+  const [decimals, symbol, name] = await Promise.all([
+    call('0x313ce567').then((result: string) => Number(BigInt(result))).catch(() => null),
+    call('0x95d89b41').then(decodeAbiString).catch(() => null),
+    call('0x06fdde03').then(decodeAbiString).catch(() => null),
+  ]);
+  if (decimals === null || !Number.isInteger(decimals) || decimals > 255) {
+    return notFound('Contract does not implement ERC-20 decimals()');
+  }
+  return { ok: true, metadata: { symbol, name, decimals } };
+}
+
+async function lookupSplToken(db: D1Database, mint: string, network: 'mainnet' | 'testnet'): Promise<TokenMetadataResult> {
+  if (!/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(mint)) {
+    return notFound('Invalid Solana mint address');
+  }
+  const rpcUrl = await getRpcUrl(db, 'svm', network);
+  if (!rpcUrl) {
+    return unavailable('No RPC endpoint configured for Solana');
+  }
+
+  const response = await fetch(rpcUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      jsonrpc: '2.0', id: 1,
+      method: 'getAccountInfo',
+      params: [mint, { encoding: 'jsonParsed' }]
+    })
+  });
+  const data = await response.json() as { result?: { value: any }; error?: { message: string } };
+  if (data.error) {
+    return unavailable(data.error.message);
+  }
+
+  const account = data.result?.value;
+  if (!account) {
+    return notFound('No account at this address on Solana');
+  }
+  const parsed = account.data?.parsed;
+  if (!SPL_TOKEN_PROGRAMS.includes(account.owner) || parsed?.type !== 'mint') {
+    return notFound('Address is not an SPL token mint');
+  }
+
+  // Token-2022 mints can carry their name and symbol in the metadata extension
+  const tokenMetadata = (parsed.info.extensions || []).find((ext: any) => ext.extension === 'tokenMetadata')?.state;
+  return {
+    ok: true,
+    metadata: {
+      symbol: tokenMetadata?.symbol || null,
+      name: tokenMetadata?.name || null,
+      decimals: parsed.info.decimals
+    }
+  };
+}
+
+async function lookupTrc20Token(db: D1Database, contractAddress: string, network: 'mainnet' | 'testnet'): Promise<TokenMetadataResult> {
+  if (!/^T[1-9A-HJ-NP-Za-km-z]{33}$/.test(contractAddress)) {
+    return notFound('Invalid Tron contract address');
+  }
+  const rpcUrl = await getRpcUrl(db, 'tron', network);
+  if (!rpcUrl) {
+    return unavailable('No RPC endpoint configured for Tron');
+  }
+
+  const post = async (endpoint: string, body: object) => {
+    const response = await fetch(`${rpcUrl}${endpoint}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    return await response.json() as any;
+  };
+
+  const contract = await post('/wallet/getcontract', { value: contractAddress, visible: true });
+  if (!contract?.contract_address) {
+    return notFound('No contract at this address on Tron');
+  }
+
+  // Constant calls need an owner address; the contract itself will do
+  const call = async (functionSelector: string): Promise<string | null> => {
+    const result = await post('/wallet/triggerconstantcontract', {
+      owner_address: contractAddress,
+      contract_address: contractAddress,
+      function_selector: functionSelector,
+      visible: true
+    });
+    return result?.result?.result && result.constant_result?.[0] ? '0x' + result.constant_result[0] : null;
+  };
+  const [decimals, symbol, name] = await Promise.all([
+    call('decimals()').then(result => (result ? Number(BigInt(result)) : null)).catch(() => null),
+    call('symbol()').then(result => (result ? decodeAbiString(result) : null)).catch(() => null),
+    call('name()').then(result => (result ? decodeAbiString(result) : null)).catch(() => null),
+  ]);
+  if (decimals === null || !Number.isInteger(decimals) || decimals > 255) {
+    return notFound('Contract does not implement TRC-20 decimals()');
+  }
+  return { ok: true, metadata: { symbol, name, decimals } };
+}
+
+/**
+ * Read a token's symbol, name and decimals from its chain
+ *
+ * EVM tokens are read with ERC-20 calls, SPL tokens from the mint account and
+ * TRC-20 tokens with constant calls. Other chain types have no lookup.
+ */
+export async function lookupTokenMetadata(
+  db: D1Database,
+  chain: string,
+  chainType: string,
+  contractAddress: string,
+  network: 'mainnet' | 'testnet' = 'mainnet'
+): Promise<TokenMetadataResult> {
+  try {
+    switch (chainType) {
+      case 'evm':
+      case 'base':  // custom assets saved before the EVM chain registry
+        return await lookupEvmToken(db, chain, contractAddress, network);
+      case 'svm':
+        return await lookupSplToken(db, contractAddress, network);
+      case 'tron':
+        return await lookupTrc20Token(db, contractAddress, network);
+      default:
+        return unavailable(`Token metadata lookup is not supported for ${chainType}`);
+    }
+  } catch (error) {
+    console.error('Token metadata lookup error:', error);
+    return unavailable(error instanceof Error ? error.message : 'Token metadata lookup failed');
+  }
+}
@@ -1,3 +1,4 @@
+import { verifyAuthenticationResponse } from '@simplewebauthn/server';
 import { SpliceClient } from './splice-client';
 import { CantonJsonClient } from './canton-json-client';
 
@@ -18,6 +19,7 @@ export interface Env {
   DOCK_APPS?: string;
   ALLOWED_IFRAME_ORIGINS?: string;
   CHAT_AGENT_WEBHOOK_URL?: string;
+  RECOVERY_WEBHOOK_URL?: string;
 }
 
 export function getSpliceClientForUser(env: Env, username?: string): SpliceClient {
@@ -98,6 +100,9 @@ export function generateId(): string {
   return crypto.randomUUID();
 }
 
+// Longest unlocked signing session users may choose; '0' disables signing sessions
+export const DEFAULT_SIGNING_SESSION_MAX_MINUTES = '15';
+
 export interface SessionUser {
   id: string;
   username: string;
@@ -190,6 +195,69 @@ export async function requireAuth(request: Request, db: D1Database): Promise<{ u
   return { user };
 }
 
+// Verify an assertion one of the user's passkeys just made for a PRF challenge
+// issued to them (see /api/auth/passkey/prf-options), for changes a session
+// token alone must not make. The challenge is used up. With credentialId the
+// assertion must come from that passkey.
+export async function verifyFreshAssertion(
+  request: Request,
+  db: D1Database,
+  userId: string,
+  assertion: any,
+  credentialId?: string
+): Promise<boolean> {
+  if (!assertion?.response?.clientDataJSON || !assertion.id || (credentialId && assertion.id !== credentialId)) {
+    return false;
+  }
+  const passkey = await db.prepare(
+    'SELECT id, credential_id, public_key, counter FROM passkeys WHERE credential_id = ? AND user_id = ?'
+  ).bind(assertion.id, userId).first();
+  if (!passkey) {
+    return false;
+  }
+
+  let challenge: string;
+  try {
+    const clientData = JSON.parse(atob(assertion.response.clientDataJSON.replace(/-/g, '+').replace(/_/g, '/')));
+    challenge = clientData.challenge;
+  } catch {
+    return false;
+  }
+  const stored = await db.prepare(
+    'SELECT id FROM challenges WHERE challenge = ? AND user_id = ? AND type = ? AND expires_at > datetime("now")'
+  ).bind(challenge, userId, 'prf-auth').first<{ id: string }>();
+  if (!stored) {
+    return false;
+  }
+  await db.prepare('DELETE FROM challenges WHERE id = ?').bind(stored.id).run();
+
+  const origin = request.headers.get('origin') || '';
+  try {
+    const verification = await verifyAuthenticationResponse({
+      response: assertion,
+      expectedChallenge: challenge,
+      expectedOrigin: origin,
+      expectedRPID: new URL(origin).hostname,
+      credential: {
+        id: passkey.credential_id as string,
+        publicKey: Uint8Array.from(Buffer.from(passkey.public_key as string, 'base64')),
+        counter: passkey.counter as number,
+      },
+      requireUserVerification: true,
+    });
+    if (!verification.verified) {
+      return false;
+    }
+    await db.prepare(
+      'UPDATE passkeys SET counter = ?, last_used_at = datetime("now") WHERE id = ?'
+    ).bind(verification.authenticationInfo.newCounter, passkey.id).run();
+    return true;
+  } catch (error) {
+    console.error('Passkey assertion check failed:', error);
+    return false;
+  }
+}
+
 export async function validateAdminToken(db: D1Database, token: string | null): Promise<boolean> {
   if (!token) return false;
 
@@ -319,7 +387,7 @@ export async function recordTransaction(db: D1Database, params: RecordTransactio
 export async function updateTransactionStatus(
   db: D1Database,
   txId: string,
-  status: 'pending' | 'confirmed' | 'failed',
+  status: 'pending' | 'confirmed' | 'failed' | 'replaced',
   txHash?: string
 ): Promise<void> {
   const now = new Date().toISOString();
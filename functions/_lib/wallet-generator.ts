@@ -1,46 +1,202 @@
 // Wallet address storage utilities
 // All key generation and encryption is done client-side using WebAuthn PRF
 
+import { hexToBytes } from '@noble/hashes/utils.js';
 import { generateId } from './utils';
+import { convertAddressNetwork, getAddressesFromPublicKey as getBtcAddressesFromPublicKey } from '../../lib/btcAddress';
+import {
+  getAddressesFromPublicKey as getTonAddressesFromPublicKey,
+  isSameAddress as isSameTonAddress,
+  parseAddress as parseTonAddress,
+  toNonBounceableAddress
+} from '../../lib/tonAddress';
 
 export interface WalletAddress {
   chainType: 'evm' | 'svm' | 'btc' | 'tron' | 'ton';
   address: string;
   privateKeyEncrypted: string;
+  derivationPath?: string | null;
+  publicKey?: string | null;
 }
 
-// Store wallet addresses in database
+export const WALLET_CHAIN_TYPES = ['evm', 'svm', 'btc', 'tron', 'ton'] as const;
+
+// Create wallet_seeds table if it doesn't exist (databases created before HD wallets)
+export async function ensureWalletSeedsTable(db: D1Database): Promise<void> {
+  await db.prepare(
+    `CREATE TABLE IF NOT EXISTS wallet_seeds (
+      id TEXT PRIMARY KEY,
+      user_id TEXT UNIQUE NOT NULL,
+      seed_encrypted TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )`
+  ).run();
+}
+
+// Compressed secp256k1 public key, hex encoded
+export function isCompressedPublicKeyHex(value: unknown): value is string {
+  return typeof value === 'string' && /^0[23][0-9a-fA-F]{64}$/.test(value);
+}
+
+// Ed25519 public key, hex encoded
+export function isEd25519PublicKeyHex(value: unknown): value is string {
+  return typeof value === 'string' && /^[0-9a-fA-F]{64}$/.test(value);
+}
+
+// Public key to store with a wallet, or null. A BTC key is only kept when one
+// of its address types is the stored address; a TON key only when one of its
+// wallet contracts has the stored address, so wallets with a pre-StateInit
+// address are left for migration.
+function getStorablePublicKey(wallet: WalletAddress): string | null {
+  if (wallet.chainType === 'btc' && isCompressedPublicKeyHex(wallet.publicKey)) {
+    const addresses = Object.values(getBtcAddressesFromPublicKey(wallet.publicKey, 'mainnet'));
+    return addresses.includes(wallet.address) ? wallet.publicKey.toLowerCase() : null;
+  }
+  if (wallet.chainType === 'ton' && isEd25519PublicKeyHex(wallet.publicKey)) {
+    const addresses = Object.values(getTonAddressesFromPublicKey(hexToBytes(wallet.publicKey)));
+    return addresses.some(address => isSameTonAddress(address, wallet.address)) ? wallet.publicKey.toLowerCase() : null;
+  }
+  return null;
+}
+
+// Add wallet_addresses.public_key if missing (databases created before SegWit/Taproot addresses)
+export async function ensureWalletPublicKeyColumn(db: D1Database): Promise<void> {
+  try {
+    await db.prepare('SELECT public_key FROM wallet_addresses LIMIT 0').all();
+  } catch {
+    await db.prepare('ALTER TABLE wallet_addresses ADD COLUMN public_key TEXT').run();
+  }
+}
+
+// Add wallet_addresses.testnet_address if missing (databases created before testnet BTC addresses)
+export async function ensureWalletTestnetAddressColumn(db: D1Database): Promise<void> {
+  try {
+    await db.prepare('SELECT testnet_address FROM wallet_addresses LIMIT 0').all();
+  } catch {
+    await db.prepare('ALTER TABLE wallet_addresses ADD COLUMN testnet_address TEXT').run();
+  }
+}
+
+// Add wallet_addresses.legacy_address if missing (databases created before TON wallet contract addresses)
+export async function ensureWalletLegacyAddressColumn(db: D1Database): Promise<void> {
+  try {
+    await db.prepare('SELECT legacy_address FROM wallet_addresses LIMIT 0').all();
+  } catch {
+    await db.prepare('ALTER TABLE wallet_addresses ADD COLUMN legacy_address TEXT').run();
+  }
+}
+
+// Testnet reuses the BTC key, so its address is the stored one encoded for testnet
+function getTestnetAddress(chainType: string, address: string): string | null {
+  if (chainType !== 'btc') return null;
+  try {
+    return convertAddressNetwork(address, 'testnet');
+  } catch {
+    return null;
+  }
+}
+
+// Create passkey_key_wraps table if it doesn't exist (databases created before key wrapping)
+export async function ensureKeyWrapsTable(db: D1Database): Promise<void> {
+  await db.prepare(
+    `CREATE TABLE IF NOT EXISTS passkey_key_wraps (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      credential_id TEXT UNIQUE NOT NULL,
+      wrapped_key TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (credential_id) REFERENCES passkeys(credential_id) ON DELETE CASCADE
+    )`
+  ).run();
+}
+
+// Store wallet addresses in database (existing chain types are left untouched)
 export async function storeWalletAddresses(
   db: D1Database,
   userId: string,
   addresses: WalletAddress[]
 ): Promise<void> {
-  for (const wallet of addresses) {
-    const id = generateId();
-    await db.prepare(
-      `INSERT INTO wallet_addresses (id, user_id, chain_type, address, private_key_encrypted)
-       VALUES (?, ?, ?, ?, ?)`
-    ).bind(
-      id,
-      userId,
-      wallet.chainType,
-      wallet.address,
-      wallet.privateKeyEncrypted
-    ).run();
-  }
-}
-
-// Get wallet addresses for a user
+  const inserts = await prepareWalletAddressInserts(db, userId, addresses);
+  if (inserts.length > 0) {
+    await db.batch(inserts);
+  }
+}
+
+// INSERT statements for wallet addresses, for callers that batch them with other writes
+export async function prepareWalletAddressInserts(
+  db: D1Database,
+  userId: string,
+  addresses: WalletAddress[]
+): Promise<D1PreparedStatement[]> {
+  await ensureWalletPublicKeyColumn(db);
+  await ensureWalletTestnetAddressColumn(db);
+  return addresses.map(wallet => db.prepare(
+    `INSERT INTO wallet_addresses (id, user_id, chain_type, address, private_key_encrypted, derivation_path, public_key, testnet_address)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(user_id, chain_type) DO NOTHING`
+  ).bind(
+    generateId(),
+    userId,
+    wallet.chainType,
+    wallet.address,
+    wallet.privateKeyEncrypted,
+    wallet.derivationPath || null,
+    getStorablePublicKey(wallet),
+    getTestnetAddress(wallet.chainType, wallet.address)
+  ));
+}
+
+// TON wallet contracts stored in bounceable form (EQ…), which returns transfers sent before the
+// wallet is deployed; legacy addresses without a public key are left for migration
+function isBounceableTonWallet(row: Record<string, unknown>): boolean {
+  if (row.chain_type !== 'ton' || !row.public_key) return false;
+  try {
+    return parseTonAddress(row.address as string).bounceable;
+  } catch {
+    return false;
+  }
+}
+
+// Get wallet addresses for a user (BTC rows stored without a testnet address get it filled in,
+// TON wallets stored bounceable are moved to the non-bounceable form)
 export async function getWalletAddresses(
   db: D1Database,
   userId: string
-): Promise<{ chainType: string; address: string }[]> {
+): Promise<{ chainType: string; address: string; derivationPath: string | null; publicKey: string | null; testnetAddress: string | null; legacyAddress: string | null }[]> {
+  await ensureWalletPublicKeyColumn(db);
+  await ensureWalletTestnetAddressColumn(db);
+  await ensureWalletLegacyAddressColumn(db);
   const result = await db.prepare(
-    'SELECT chain_type, address FROM wallet_addresses WHERE user_id = ?'
+    'SELECT id, chain_type, address, derivation_path, public_key, testnet_address, legacy_address FROM wallet_addresses WHERE user_id = ?'
   ).bind(userId).all();
 
-  return (result.results || []).map(row => ({
-    chainType: row.chain_type as string,
-    address: row.address as string
-  }));
+  const wallets = [];
+  for (const row of result.results || []) {
+    if (isBounceableTonWallet(row)) {
+      row.address = toNonBounceableAddress(row.address as string);
+      await db.prepare(
+        'UPDATE wallet_addresses SET address = ? WHERE id = ?'
+      ).bind(row.address, row.id).run();
+    }
+    let testnetAddress = (row.testnet_address as string | null) || null;
+    if (!testnetAddress) {
+      testnetAddress = getTestnetAddress(row.chain_type as string, row.address as string);
+      if (testnetAddress) {
+        await db.prepare(
+          'UPDATE wallet_addresses SET testnet_address = ? WHERE id = ?'
+        ).bind(testnetAddress, row.id).run();
+      }
+    }
+    wallets.push({
+      chainType: row.chain_type as string,
+      address: row.address as string,
+      derivationPath: (row.derivation_path as string | null) || null,
+      publicKey: (row.public_key as string | null) || null,
+      testnetAddress,
+      legacyAddress: (row.legacy_address as string | null) || null
+    });
+  }
+  return wallets;
 }
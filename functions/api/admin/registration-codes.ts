@@ -31,6 +31,7 @@ export async function onRequestGet(context: { request: Request; env: Env }) {
               (SELECT COUNT(*) FROM registration_code_uses WHERE code_id = rc.id) as total_uses
        FROM registration_codes rc
        LEFT JOIN users u ON rc.created_by = u.id
+       WHERE rc.code_type IS NULL OR rc.code_type != 'recovery'
        ORDER BY rc.created_at DESC`
     ).all();
 
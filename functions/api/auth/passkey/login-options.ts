@@ -50,25 +50,10 @@ export async function onRequestPost(context: { request: Request; env: Env }) {
       'INSERT INTO challenges (id, challenge, user_id, type, expires_at) VALUES (?, ?, ?, ?, ?)'
     ).bind(challengeId, options.challenge, userId, 'authentication', expiresAt).run();
 
-    // Check which wallet chain types are missing for this user
-    const allChainTypes = ['evm', 'svm', 'btc', 'tron', 'ton'];
-    let missingChainTypes: string[] = allChainTypes;
-
-    if (userId) {
-      const existingWallets = await context.env.DB.prepare(
-        'SELECT chain_type FROM wallet_addresses WHERE user_id = ?'
-      ).bind(userId).all();
-
-      const existingChainTypes = new Set(existingWallets.results.map((w: any) => w.chain_type));
-      missingChainTypes = allChainTypes.filter(ct => !existingChainTypes.has(ct));
-    }
-
     return jsonResponse({
       success: true,
       data: {
-        options,
-        needsWallets: missingChainTypes.length > 0,
-        missingChainTypes
+        options
       }
     });
   } catch (error) {
@@ -6,14 +6,7 @@ export async function onRequestPost(context: { request: Request; env: Env }) {
   if (corsResponse) return corsResponse;
 
   try {
-    const { response, walletAddresses } = await context.request.json() as {
-      response: any;
-      walletAddresses?: Array<{
-        chainType: string;
-        address: string;
-        privateKeyEncrypted: string;
-      }>;
-    };
+    const { response } = await context.request.json() as { response: any };
 
     if (!response) {
       return errorResponse('response is required', 400);
@@ -115,30 +108,6 @@ export async function onRequestPost(context: { request: Request; env: Env }) {
       }
     }
 
-    // Store client-generated wallet addresses if provided
-    if (walletAddresses && walletAddresses.length > 0) {
-      console.log(`Storing ${walletAddresses.length} client-generated wallet addresses for user: ${passkey.user_id}`);
-      for (const wallet of walletAddresses) {
-        const walletId = generateId();
-        try {
-          await context.env.DB.prepare(
-            `INSERT INTO wallet_addresses (id, user_id, chain_type, address, private_key_encrypted)
-             VALUES (?, ?, ?, ?, ?)
-             ON CONFLICT(user_id, chain_type) DO NOTHING`
-          ).bind(
-            walletId,
-            passkey.user_id,
-            wallet.chainType,
-            wallet.address,
-            wallet.privateKeyEncrypted
-          ).run();
-        } catch (e) {
-          // Ignore duplicate key errors
-          console.log(`Wallet for ${wallet.chainType} already exists, skipping`);
-        }
-      }
-    }
-
     // Create session
     const sessionId = generateId();
     const sessionExpires = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
@@ -1,5 +1,6 @@
 import { generateRegistrationOptions } from '@simplewebauthn/server';
 import { jsonResponse, errorResponse, handleCors, generateId, Env } from '../../../_lib/utils';
+import { RECOVERY_CODE_TYPE } from '../../../_lib/social-recovery';
 
 export async function onRequestPost(context: { request: Request; env: Env }) {
   const corsResponse = handleCors(context.request);
@@ -39,8 +40,8 @@ export async function onRequestPost(context: { request: Request; env: Env }) {
       return errorResponse('Registration code has been fully used', 400);
     }
 
-    // Enforce username match for reserved_username codes
-    if (codeResult.code_type === 'reserved_username' && codeResult.reserved_username) {
+    // Enforce username match for reserved_username and social recovery codes
+    if ((codeResult.code_type === 'reserved_username' || codeResult.code_type === RECOVERY_CODE_TYPE) && codeResult.reserved_username) {
       if (username.trim() !== (codeResult.reserved_username as string).trim()) {
         return errorResponse('This registration code is reserved for a specific username', 400);
       }
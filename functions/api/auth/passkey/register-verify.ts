@@ -1,5 +1,6 @@
 import { verifyRegistrationResponse } from '@simplewebauthn/server';
 import { jsonResponse, errorResponse, handleCors, generateId, Env, getCantonJsonClient, getSpliceAdminClient } from '../../../_lib/utils';
+import { ensureRecoveryTables, RECOVERY_CODE_TYPE } from '../../../_lib/social-recovery';
 
 export async function onRequestPost(context: { request: Request; env: Env }) {
   const corsResponse = handleCors(context.request);
@@ -43,9 +44,10 @@ export async function onRequestPost(context: { request: Request; env: Env }) {
     }
 
     // Validate registration code is still valid
+    let isRecovery = false;
     if (registrationCodeId) {
       const codeResult = await context.env.DB.prepare(
-        `SELECT id, uses_remaining, expires_at FROM registration_codes WHERE id = ?`
+        `SELECT id, uses_remaining, expires_at, code_type FROM registration_codes WHERE id = ?`
       ).bind(registrationCodeId).first();
 
       if (!codeResult) {
@@ -59,6 +61,8 @@ export async function onRequestPost(context: { request: Request; env: Env }) {
       if ((codeResult.uses_remaining as number) <= 0) {
         return errorResponse('Registration code has been fully used', 400);
       }
+
+      isRecovery = codeResult.code_type === RECOVERY_CODE_TYPE;
     }
 
     // Get RP_ID from request origin
@@ -114,6 +118,15 @@ export async function onRequestPost(context: { request: Request; env: Env }) {
       await context.env.DB.prepare(
         'INSERT INTO registration_code_uses (id, code_id, user_id) VALUES (?, ?, ?)'
       ).bind(useLogId, registrationCodeId, userId).run();
+
+      // A passkey added through social recovery completes the recovery request
+      if (isRecovery) {
+        await ensureRecoveryTables(context.env.DB);
+        await context.env.DB.prepare(
+          `UPDATE recovery_requests SET status = 'completed', completed_at = datetime('now')
+           WHERE registration_code_id = ? AND status = 'pending'`
+        ).bind(registrationCodeId).run();
+      }
     }
 
     // Store client-generated wallet addresses (PRF-encrypted)
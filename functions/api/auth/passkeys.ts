@@ -1,4 +1,5 @@
 import { jsonResponse, errorResponse, handleCors, requireAuth, Env } from '../../_lib/utils';
+import { ensureKeyWrapsTable } from '../../_lib/wallet-generator';
 
 async function ensureNameColumn(db: D1Database) {
   try {
@@ -19,17 +20,22 @@ export async function onRequestGet(context: { request: Request; env: Env }) {
     const { user } = authResult;
 
     await ensureNameColumn(context.env.DB);
+    await ensureKeyWrapsTable(context.env.DB);
 
     const result = await context.env.DB.prepare(
-      `SELECT id, credential_id, device_type, backed_up, transports, name, created_at
-       FROM passkeys
-       WHERE user_id = ?
-       ORDER BY created_at ASC`
+      `SELECT p.id, p.credential_id, p.device_type, p.backed_up, p.transports, p.name, p.created_at,
+              w.id as wrap_id
+       FROM passkeys p
+       LEFT JOIN passkey_key_wraps w ON w.credential_id = p.credential_id
+       WHERE p.user_id = ?
+       ORDER BY p.created_at ASC`
     ).bind(user.id).all();
 
     const passkeys = (result.results || []).map((row: any, index: number) => ({
       id: row.id,
+      credentialId: row.credential_id,
       name: row.name || `Passkey ${index + 1}`,
+      canUnlock: !!row.wrap_id,
       deviceType: row.device_type,
       backedUp: row.backed_up === 1,
       transports: JSON.parse(row.transports || '[]'),
@@ -65,7 +71,7 @@ export async function onRequestDelete(context: { request: Request; env: Env }) {
 
     // Verify the passkey belongs to this user
     const passkey = await context.env.DB.prepare(
-      'SELECT id FROM passkeys WHERE id = ? AND user_id = ?'
+      'SELECT id, credential_id FROM passkeys WHERE id = ? AND user_id = ?'
     ).bind(passkeyId, user.id).first();
 
     if (!passkey) {
@@ -81,6 +87,21 @@ export async function onRequestDelete(context: { request: Request; env: Env }) {
       return errorResponse('Cannot delete your last passkey', 400);
     }
 
+    // Prevent deleting the last passkey that can unlock the wallet key
+    await ensureKeyWrapsTable(context.env.DB);
+    const wraps = await context.env.DB.prepare(
+      'SELECT credential_id FROM passkey_key_wraps WHERE user_id = ?'
+    ).bind(user.id).all();
+    const wrappedCredentials = (wraps.results || []).map((row: any) => row.credential_id as string);
+
+    if (wrappedCredentials.length === 1 && wrappedCredentials[0] === passkey.credential_id) {
+      return errorResponse('Cannot delete the only passkey that can unlock your wallet', 400);
+    }
+
+    await context.env.DB.prepare(
+      'DELETE FROM passkey_key_wraps WHERE credential_id = ? AND user_id = ?'
+    ).bind(passkey.credential_id, user.id).run();
+
     await context.env.DB.prepare(
       'DELETE FROM passkeys WHERE id = ? AND user_id = ?'
     ).bind(passkeyId, user.id).run();
@@ -0,0 +1,228 @@
+/**
+ * Social Recovery API (recovering device)
+ *
+ * Used from the login screen by someone who lost every passkey. The device
+ * generates a key pair and keeps the private key; guardians re-encrypt their
+ * shares to the public key. The device only asks for a recovery: it shows a
+ * start code that one of the owner's guardians enters to start it. Once
+ * enough guardians approved and the delay has passed, the device receives the
+ * shares and a single-use recovery registration code to add a new passkey to
+ * the account.
+ *
+ * POST   - Asks for a recovery ({ username, recoveryPublicKey }), returns the request secret and start code
+ * GET    - Returns the request's progress (?id=&secret=), plus shares and code when ready
+ * DELETE - Withdraws the request from the recovering device (?id=&secret=)
+ */
+
+import { jsonResponse, errorResponse, handleCors, generateId, Env } from '../../_lib/utils';
+import {
+  ensureRecoveryTables,
+  isPublicKeyHex,
+  getRecoveryDelayHours,
+  hashRecoverySecret,
+  generateRecoverySecret,
+  generateRecoveryCode,
+  generateStartCode,
+  countApprovals,
+  cancelPendingRecoveries,
+  RecoveryRequestRow,
+  RECOVERY_CODE_TYPE
+} from '../../_lib/social-recovery';
+import { ensureWalletSeedsTable } from '../../_lib/wallet-generator';
+
+export async function onRequestPost(context: { request: Request; env: Env }) {
+  const corsResponse = handleCors(context.request);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const { username, recoveryPublicKey } = await context.request.json() as {
+      username: string;
+      recoveryPublicKey: string;
+    };
+
+    if (!username || !isPublicKeyHex(recoveryPublicKey)) {
+      return errorResponse('username and recoveryPublicKey (uncompressed P-256, hex) are required', 400);
+    }
+
+    await ensureRecoveryTables(context.env.DB);
+
+    const user = await context.env.DB.prepare(
+      `SELECT u.id, c.threshold
+       FROM users u
+       JOIN recovery_configs c ON c.user_id = u.id
+       WHERE u.username = ?`
+    ).bind(username.trim()).first<{ id: string; threshold: number }>();
+
+    if (!user) {
+      return errorResponse('Social recovery is not set up for this account', 404);
+    }
+
+    // Nothing waits on a request until a guardian starts it, so asking never blocks another recovery.
+    // The delay is counted again from the moment it starts.
+    const delayHours = await getRecoveryDelayHours(context.env.DB);
+    const availableAt = new Date(Date.now() + delayHours * 60 * 60 * 1000).toISOString();
+    const secret = generateRecoverySecret();
+    const startCode = generateStartCode();
+    const requestId = generateId();
+
+    await context.env.DB.prepare(
+      `INSERT INTO recovery_requests (id, user_id, recovery_public_key, secret_hash, threshold, status, available_at, start_code)
+       VALUES (?, ?, ?, ?, ?, 'requested', ?, ?)`
+    ).bind(
+      requestId,
+      user.id,
+      recoveryPublicKey.toLowerCase(),
+      await hashRecoverySecret(secret),
+      user.threshold,
+      availableAt,
+      startCode
+    ).run();
+
+    return jsonResponse({
+      success: true,
+      data: {
+        requestId,
+        secret,
+        startCode,
+        threshold: user.threshold
+      }
+    });
+  } catch (error) {
+    console.error('Error requesting recovery:', error);
+    return errorResponse(error instanceof Error ? error.message : 'Failed to request recovery');
+  }
+}
+
+export async function onRequestGet(context: { request: Request; env: Env }) {
+  const corsResponse = handleCors(context.request);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const url = new URL(context.request.url);
+    const id = url.searchParams.get('id');
+    const secret = url.searchParams.get('secret');
+
+    if (!id || !secret) {
+      return errorResponse('id and secret are required', 400);
+    }
+
+    await ensureRecoveryTables(context.env.DB);
+
+    const request = await context.env.DB.prepare(
+      'SELECT * FROM recovery_requests WHERE id = ?'
+    ).bind(id).first<RecoveryRequestRow>();
+
+    if (!request || request.secret_hash !== await hashRecoverySecret(secret)) {
+      return errorResponse('Recovery request not found', 404);
+    }
+
+    const approvals = await countApprovals(context.env.DB, id);
+    const ready = request.status === 'pending' &&
+      approvals >= request.threshold &&
+      new Date(request.available_at) <= new Date();
+
+    const progress = {
+      status: request.status,
+      threshold: request.threshold,
+      approvals,
+      availableAt: request.available_at,
+      ready
+    };
+
+    if (!ready) {
+      return jsonResponse({ success: true, data: progress });
+    }
+
+    // Mint the single-use code the new passkey registers with (again if the last one expired)
+    let code: string | null = null;
+    if (request.registration_code_id) {
+      const existing = await context.env.DB.prepare(
+        'SELECT code FROM registration_codes WHERE id = ? AND uses_remaining > 0 AND expires_at > ?'
+      ).bind(request.registration_code_id, new Date().toISOString()).first<{ code: string }>();
+      code = existing?.code || null;
+    }
+
+    const user = await context.env.DB.prepare(
+      'SELECT username FROM users WHERE id = ?'
+    ).bind(request.user_id).first<{ username: string }>();
+
+    if (!code) {
+      const codeId = generateId();
+      code = generateRecoveryCode();
+      const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+      await context.env.DB.prepare(
+        `INSERT INTO registration_codes (id, code, max_uses, uses_remaining, created_by, expires_at, code_type, reserved_username)
+         VALUES (?, ?, 1, 1, NULL, ?, ?, ?)`
+      ).bind(codeId, code, expiresAt, RECOVERY_CODE_TYPE, user?.username || null).run();
+      await context.env.DB.prepare(
+        'UPDATE recovery_requests SET registration_code_id = ? WHERE id = ?'
+      ).bind(codeId, id).run();
+    }
+
+    const shares = await context.env.DB.prepare(
+      'SELECT encrypted_share FROM recovery_approvals WHERE request_id = ?'
+    ).bind(id).all();
+
+    // Lets the device check the combined key before wrapping it for the new passkey
+    await ensureWalletSeedsTable(context.env.DB);
+    const seed = await context.env.DB.prepare(
+      'SELECT seed_encrypted FROM wallet_seeds WHERE user_id = ?'
+    ).bind(request.user_id).first<{ seed_encrypted: string }>();
+    const wallet = await context.env.DB.prepare(
+      'SELECT private_key_encrypted FROM wallet_addresses WHERE user_id = ? AND private_key_encrypted IS NOT NULL LIMIT 1'
+    ).bind(request.user_id).first<{ private_key_encrypted: string }>();
+
+    return jsonResponse({
+      success: true,
+      data: {
+        ...progress,
+        username: user?.username,
+        registrationCode: code,
+        shares: (shares.results || []).map((row: any) => row.encrypted_share as string),
+        checkCiphertext: seed?.seed_encrypted || wallet?.private_key_encrypted || null
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching recovery status:', error);
+    return errorResponse('Failed to fetch recovery status');
+  }
+}
+
+export async function onRequestDelete(context: { request: Request; env: Env }) {
+  const corsResponse = handleCors(context.request);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const url = new URL(context.request.url);
+    const id = url.searchParams.get('id');
+    const secret = url.searchParams.get('secret');
+
+    if (!id || !secret) {
+      return errorResponse('id and secret are required', 400);
+    }
+
+    await ensureRecoveryTables(context.env.DB);
+
+    const request = await context.env.DB.prepare(
+      'SELECT * FROM recovery_requests WHERE id = ?'
+    ).bind(id).first<RecoveryRequestRow>();
+
+    if (!request || request.secret_hash !== await hashRecoverySecret(secret)) {
+      return errorResponse('Recovery request not found', 404);
+    }
+
+    await cancelPendingRecoveries(context.env.DB, request.user_id, id);
+
+    return jsonResponse({
+      success: true,
+      message: 'Recovery request withdrawn'
+    });
+  } catch (error) {
+    console.error('Error withdrawing recovery request:', error);
+    return errorResponse('Failed to withdraw recovery request');
+  }
+}
+
+export async function onRequestOptions(context: { request: Request }) {
+  return handleCors(context.request);
+}
@@ -1,4 +1,7 @@
-import { jsonResponse, handleCors, Env, validateSession } from '../_lib/utils';
+import { jsonResponse, handleCors, Env, validateSession, DEFAULT_SIGNING_SESSION_MAX_MINUTES } from '../_lib/utils';
+import { ensureRpcProviderTypeColumn } from '../_lib/rpc-endpoints';
+import { getEnabledEvmChains } from '../_lib/evm-chains';
+import { EvmChain } from '../../lib/evmChains';
 
 interface DockApp {
   id: string;
@@ -20,6 +23,7 @@ interface RpcEndpoint {
   chain_id: string | null;
   network: string;
   rpc_url: string;
+  provider_type: string | null;
   priority: number;
 }
 
@@ -43,18 +47,25 @@ const TESTNET_NETWORK_NAMES: Record<string, string> = {
 // Returns format expected by signers:
 // - EVM: keyed by chain_id (e.g., { "1": "url", "8453": "url" })
 // - Others: keyed by network (e.g., { "mainnet": "url", "devnet": "url" })
-function buildRpcEndpoints(endpoints: RpcEndpoint[]): Record<string, Record<string, string>> {
+// Provider types of the chosen endpoints are returned under the same keys (only when set)
+// EVM endpoints without a chain_id take it from the registry by chain name;
+// endpoints of chains that are not enabled in the registry are dropped
+function buildRpcEndpoints(endpoints: RpcEndpoint[], evmChains: EvmChain[]): {
+  urls: Record<string, Record<string, string>>;
+  providerTypes: Record<string, Record<string, string>>;
+} {
   const result: Record<string, Record<string, string>> = {};
+  const providerTypes: Record<string, Record<string, string>> = {};
 
   for (const ep of endpoints) {
-    if (!result[ep.chain_type]) {
-      result[ep.chain_type] = {};
-    }
-
     // For EVM chains, key by chain_id; for others, key by network
     let key: string;
-    if (ep.chain_type === 'evm' && ep.chain_id) {
-      key = ep.chain_id;
+    if (ep.chain_type === 'evm') {
+      const chain = ep.chain_id
+        ? evmChains.find(c => String(c.chainId) === ep.chain_id)
+        : evmChains.find(c => c.name.toLowerCase() === ep.chain_name.toLowerCase());
+      if (!chain) continue;
+      key = String(chain.chainId);
     } else if (ep.network === 'testnet' && TESTNET_NETWORK_NAMES[ep.chain_type]) {
       // Map generic "testnet" to chain-specific name (e.g., "devnet", "shasta")
       key = TESTNET_NETWORK_NAMES[ep.chain_type];
@@ -62,17 +73,24 @@ function buildRpcEndpoints(endpoints: RpcEndpoint[]): Record<string, Record<stri
       key = ep.network;
     }
 
+    if (!result[ep.chain_type]) {
+      result[ep.chain_type] = {};
+    }
+
     // Only take the first (lowest priority) endpoint for each key
     if (!result[ep.chain_type][key]) {
       result[ep.chain_type][key] = ep.rpc_url;
+      if (ep.provider_type) {
+        providerTypes[ep.chain_type] = { ...providerTypes[ep.chain_type], [key]: ep.provider_type };
+      }
     }
   }
 
-  return result;
+  return { urls: result, providerTypes };
 }
 
 // Public config endpoint - no auth required
-// Returns theme, org name, dock apps, allowed iframe origins, and RPC endpoints
+// Returns theme, org name, dock apps, allowed iframe origins, RPC endpoints (with provider types), EVM chains and signing session limit
 export async function onRequestGet(context: { request: Request; env: Env }) {
   const corsResponse = handleCors(context.request);
   if (corsResponse) return corsResponse;
@@ -92,18 +110,30 @@ export async function onRequestGet(context: { request: Request; env: Env }) {
     console.error('Failed to fetch config overrides:', e);
   }
 
+  // Fetch the EVM chain registry
+  let evmChains: EvmChain[] = [];
+  try {
+    evmChains = await getEnabledEvmChains(context.env.DB);
+  } catch (e) {
+    console.error('Failed to fetch EVM chains:', e);
+  }
+
   // Fetch RPC endpoints from dedicated table
   let rpcEndpoints: Record<string, Record<string, string>> = {};
+  let rpcProviderTypes: Record<string, Record<string, string>> = {};
   try {
+    await ensureRpcProviderTypeColumn(context.env.DB);
     const rpcResult = await context.env.DB.prepare(
-      `SELECT chain_type, chain_name, chain_id, network, rpc_url, priority
+      `SELECT chain_type, chain_name, chain_id, network, rpc_url, provider_type, priority
        FROM rpc_endpoints
        WHERE is_enabled = 1
        ORDER BY chain_type, chain_name, network, priority`
     ).all();
 
     if (rpcResult.results && rpcResult.results.length > 0) {
-      rpcEndpoints = buildRpcEndpoints(rpcResult.results as unknown as RpcEndpoint[]);
+      const built = buildRpcEndpoints(rpcResult.results as unknown as RpcEndpoint[], evmChains);
+      rpcEndpoints = built.urls;
+      rpcProviderTypes = built.providerTypes;
     }
   } catch (e) {
     // Table might not exist yet
@@ -214,8 +244,11 @@ export async function onRequestGet(context: { request: Request; env: Env }) {
       dockApps,
       allowedIframeOrigins,
       rpcEndpoints,
+      rpcProviderTypes,
+      evmChains,
       chatAgentWebhookUrl: overrides.CHAT_AGENT_WEBHOOK_URL || context.env.CHAT_AGENT_WEBHOOK_URL || null,
-      logo: overrides.LOGO || null
+      logo: overrides.LOGO || null,
+      signingSessionMaxMinutes: parseInt(overrides.SIGNING_SESSION_MAX_MINUTES || DEFAULT_SIGNING_SESSION_MAX_MINUTES, 10)
     }
   });
 }
@@ -1,4 +1,5 @@
-import { jsonResponse, errorResponse, handleCors, Env, requireSuperadmin, requireSuperadminPrivilege } from '../../_lib/utils';
+import { jsonResponse, errorResponse, handleCors, Env, requireSuperadmin, requireSuperadminPrivilege, DEFAULT_SIGNING_SESSION_MAX_MINUTES } from '../../_lib/utils';
+import { DEFAULT_RECOVERY_DELAY_HOURS } from '../../_lib/social-recovery';
 
 // Allowed configuration keys that can be overridden
 // Note: RPC_ENDPOINTS is now managed via dedicated rpc_endpoints table
@@ -9,7 +10,10 @@ const ALLOWED_CONFIG_KEYS = [
   'ORG_NAME',
   'CHAT_AGENT_WEBHOOK_URL',
   'SPLICE_HOST',
-  'CANTON_JSON_HOST'
+  'CANTON_JSON_HOST',
+  'SIGNING_SESSION_MAX_MINUTES',
+  'RECOVERY_DELAY_HOURS',
+  'RECOVERY_WEBHOOK_URL'
 ];
 
 interface ConfigOverride {
@@ -46,7 +50,10 @@ export async function onRequestGet(context: { request: Request; env: Env }) {
       ORG_NAME: overrides.ORG_NAME || context.env.ORG_NAME || 'Organization1',
       CHAT_AGENT_WEBHOOK_URL: overrides.CHAT_AGENT_WEBHOOK_URL || context.env.CHAT_AGENT_WEBHOOK_URL || '',
       SPLICE_HOST: overrides.SPLICE_HOST || context.env.SPLICE_HOST || '',
-      CANTON_JSON_HOST: overrides.CANTON_JSON_HOST || context.env.CANTON_JSON_HOST || ''
+      CANTON_JSON_HOST: overrides.CANTON_JSON_HOST || context.env.CANTON_JSON_HOST || '',
+      SIGNING_SESSION_MAX_MINUTES: overrides.SIGNING_SESSION_MAX_MINUTES || DEFAULT_SIGNING_SESSION_MAX_MINUTES,
+      RECOVERY_DELAY_HOURS: overrides.RECOVERY_DELAY_HOURS || DEFAULT_RECOVERY_DELAY_HOURS,
+      RECOVERY_WEBHOOK_URL: overrides.RECOVERY_WEBHOOK_URL || context.env.RECOVERY_WEBHOOK_URL || ''
     };
 
     // Also return which values are overridden
@@ -129,6 +136,12 @@ export async function onRequestPut(context: { request: Request; env: Env }) {
         if (key === 'THEME' && !['purple', 'teal', 'blue', 'green', 'orange', 'rose', 'slate', 'light'].includes(value)) {
           return errorResponse('Invalid theme value', 400);
         }
+        if (key === 'SIGNING_SESSION_MAX_MINUTES' && (!/^\d+$/.test(value) || Number(value) > 1440)) {
+          return errorResponse('SIGNING_SESSION_MAX_MINUTES must be a whole number of minutes between 0 and 1440', 400);
+        }
+        if (key === 'RECOVERY_DELAY_HOURS' && (!/^\d+$/.test(value) || Number(value) < 1 || Number(value) > 720)) {
+          return errorResponse('RECOVERY_DELAY_HOURS must be a whole number of hours between 1 and 720', 400);
+        }
         updates.push({ key, value });
       }
     }
@@ -168,7 +181,10 @@ export async function onRequestPut(context: { request: Request; env: Env }) {
       ORG_NAME: overrides.ORG_NAME || context.env.ORG_NAME || 'Organization1',
       CHAT_AGENT_WEBHOOK_URL: overrides.CHAT_AGENT_WEBHOOK_URL || context.env.CHAT_AGENT_WEBHOOK_URL || '',
       SPLICE_HOST: overrides.SPLICE_HOST || context.env.SPLICE_HOST || '',
-      CANTON_JSON_HOST: overrides.CANTON_JSON_HOST || context.env.CANTON_JSON_HOST || ''
+      CANTON_JSON_HOST: overrides.CANTON_JSON_HOST || context.env.CANTON_JSON_HOST || '',
+      SIGNING_SESSION_MAX_MINUTES: overrides.SIGNING_SESSION_MAX_MINUTES || DEFAULT_SIGNING_SESSION_MAX_MINUTES,
+      RECOVERY_DELAY_HOURS: overrides.RECOVERY_DELAY_HOURS || DEFAULT_RECOVERY_DELAY_HOURS,
+      RECOVERY_WEBHOOK_URL: overrides.RECOVERY_WEBHOOK_URL || context.env.RECOVERY_WEBHOOK_URL || ''
     };
 
     return jsonResponse({
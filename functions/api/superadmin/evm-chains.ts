@@ -0,0 +1,220 @@
+import { jsonResponse, errorResponse, handleCors, Env, requireSuperadmin, requireSuperadminPrivilege } from '../../_lib/utils';
+import { ensureEvmChainsTable, validateEvmChain, EvmChainRow } from '../../_lib/evm-chains';
+
+interface EvmChainBody {
+  chain_id: number;
+  name: string;
+  native_symbol: string;
+  native_decimals?: number;
+  explorer_url?: string | null;
+  supports_eip1559?: boolean;
+  icon?: string | null;
+  is_testnet?: boolean;
+  testnet_chain_id?: number | null;
+  is_enabled?: boolean;
+}
+
+// GET - List all EVM chains
+export async function onRequestGet(context: { request: Request; env: Env }) {
+  const corsResponse = handleCors(context.request);
+  if (corsResponse) return corsResponse;
+
+  // Require superadmin auth
+  const authResult = await requireSuperadmin(context.request, context.env.DB);
+  if (authResult instanceof Response) return authResult;
+
+  try {
+    await ensureEvmChainsTable(context.env.DB);
+
+    const result = await context.env.DB.prepare(
+      `SELECT * FROM evm_chains ORDER BY is_testnet, chain_id`
+    ).all();
+
+    return jsonResponse({
+      success: true,
+      data: result.results as unknown as EvmChainRow[]
+    });
+  } catch (error) {
+    console.error('Get EVM chains error:', error);
+    return errorResponse('Failed to fetch EVM chains');
+  }
+}
+
+// POST - Add a new EVM chain
+export async function onRequestPost(context: { request: Request; env: Env }) {
+  const corsResponse = handleCors(context.request);
+  if (corsResponse) return corsResponse;
+
+  // Require superadmin privilege
+  const authResult = await requireSuperadminPrivilege(context.request, context.env.DB);
+  if (authResult instanceof Response) return authResult;
+
+  try {
+    const body = await context.request.json() as EvmChainBody;
+
+    const validationError = validateEvmChain(body);
+    if (validationError) {
+      return errorResponse(validationError, 400);
+    }
+
+    await ensureEvmChainsTable(context.env.DB);
+
+    await context.env.DB.prepare(
+      `INSERT INTO evm_chains (chain_id, name, native_symbol, native_decimals, explorer_url, supports_eip1559, icon, is_testnet, testnet_chain_id, is_enabled)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).bind(
+      body.chain_id,
+      body.name.trim(),
+      body.native_symbol.trim(),
+      body.native_decimals ?? 18,
+      body.explorer_url || null,
+      body.supports_eip1559 !== false ? 1 : 0,
+      body.icon || null,
+      body.is_testnet ? 1 : 0,
+      body.testnet_chain_id ?? null,
+      body.is_enabled !== false ? 1 : 0
+    ).run();
+
+    const created = await context.env.DB.prepare(
+      `SELECT * FROM evm_chains WHERE chain_id = ?`
+    ).bind(body.chain_id).first<EvmChainRow>();
+
+    return jsonResponse({
+      success: true,
+      data: created
+    });
+  } catch (error: any) {
+    console.error('Create EVM chain error:', error);
+    if (error.message?.includes('UNIQUE constraint failed')) {
+      return errorResponse('A chain with this chain_id or name already exists', 400);
+    }
+    return errorResponse('Failed to create EVM chain');
+  }
+}
+
+// PUT - Update an EVM chain
+export async function onRequestPut(context: { request: Request; env: Env }) {
+  const corsResponse = handleCors(context.request);
+  if (corsResponse) return corsResponse;
+
+  // Require superadmin privilege
+  const authResult = await requireSuperadminPrivilege(context.request, context.env.DB);
+  if (authResult instanceof Response) return authResult;
+
+  try {
+    const url = new URL(context.request.url);
+    const chainId = parseInt(url.searchParams.get('chainId') || '', 10);
+
+    if (!chainId) {
+      return errorResponse('Chain ID required', 400);
+    }
+
+    const body = await context.request.json() as Partial<EvmChainBody>;
+
+    await ensureEvmChainsTable(context.env.DB);
+
+    const existing = await context.env.DB.prepare(
+      `SELECT * FROM evm_chains WHERE chain_id = ?`
+    ).bind(chainId).first<EvmChainRow>();
+
+    if (!existing) {
+      return errorResponse('EVM chain not found', 404);
+    }
+
+    // Validate the chain as it will be stored; the chain ID itself cannot change
+    const merged = {
+      chain_id: chainId,
+      name: body.name ?? existing.name,
+      native_symbol: body.native_symbol ?? existing.native_symbol,
+      native_decimals: body.native_decimals ?? existing.native_decimals,
+      explorer_url: body.explorer_url !== undefined ? body.explorer_url : existing.explorer_url,
+      supports_eip1559: body.supports_eip1559 !== undefined ? body.supports_eip1559 : existing.supports_eip1559 === 1,
+      icon: body.icon !== undefined ? body.icon : existing.icon,
+      is_testnet: body.is_testnet !== undefined ? body.is_testnet : existing.is_testnet === 1,
+      testnet_chain_id: body.testnet_chain_id !== undefined ? body.testnet_chain_id : existing.testnet_chain_id,
+      is_enabled: body.is_enabled !== undefined ? body.is_enabled : existing.is_enabled === 1,
+    };
+    const validationError = validateEvmChain(merged);
+    if (validationError) {
+      return errorResponse(validationError, 400);
+    }
+
+    await context.env.DB.prepare(
+      `UPDATE evm_chains
+       SET name = ?, native_symbol = ?, native_decimals = ?, explorer_url = ?, supports_eip1559 = ?, icon = ?,
+           is_testnet = ?, testnet_chain_id = ?, is_enabled = ?, updated_at = datetime('now')
+       WHERE chain_id = ?`
+    ).bind(
+      merged.name.trim(),
+      merged.native_symbol.trim(),
+      merged.native_decimals,
+      merged.explorer_url || null,
+      merged.supports_eip1559 ? 1 : 0,
+      merged.icon || null,
+      merged.is_testnet ? 1 : 0,
+      merged.testnet_chain_id ?? null,
+      merged.is_enabled ? 1 : 0,
+      chainId
+    ).run();
+
+    const updated = await context.env.DB.prepare(
+      `SELECT * FROM evm_chains WHERE chain_id = ?`
+    ).bind(chainId).first<EvmChainRow>();
+
+    return jsonResponse({
+      success: true,
+      data: updated
+    });
+  } catch (error: any) {
+    console.error('Update EVM chain error:', error);
+    if (error.message?.includes('UNIQUE constraint failed')) {
+      return errorResponse('A chain with this name already exists', 400);
+    }
+    return errorResponse('Failed to update EVM chain');
+  }
+}
+
+// DELETE - Remove an EVM chain
+export async function onRequestDelete(context: { request: Request; env: Env }) {
+  const corsResponse = handleCors(context.request);
+  if (corsResponse) return corsResponse;
+
+  // Require superadmin privilege
+  const authResult = await requireSuperadminPrivilege(context.request, context.env.DB);
+  if (authResult instanceof Response) return authResult;
+
+  try {
+    const url = new URL(context.request.url);
+    const chainId = parseInt(url.searchParams.get('chainId') || '', 10);
+
+    if (!chainId) {
+      return errorResponse('Chain ID required', 400);
+    }
+
+    await ensureEvmChainsTable(context.env.DB);
+
+    const existing = await context.env.DB.prepare(
+      `SELECT chain_id FROM evm_chains WHERE chain_id = ?`
+    ).bind(chainId).first();
+
+    if (!existing) {
+      return errorResponse('EVM chain not found', 404);
+    }
+
+    await context.env.DB.prepare(
+      `DELETE FROM evm_chains WHERE chain_id = ?`
+    ).bind(chainId).run();
+
+    return jsonResponse({
+      success: true,
+      message: 'EVM chain deleted'
+    });
+  } catch (error) {
+    console.error('Delete EVM chain error:', error);
+    return errorResponse('Failed to delete EVM chain');
+  }
+}
+
+export async function onRequestOptions(context: { request: Request }) {
+  return handleCors(context.request);
+}
@@ -1,4 +1,6 @@
 import { jsonResponse, errorResponse, handleCors, Env, requireSuperadmin, requireSuperadminPrivilege } from '../../_lib/utils';
+import { ensureRpcProviderTypeColumn } from '../../_lib/rpc-endpoints';
+import { BTC_PROVIDER_TYPES } from '../../../lib/btcProvider';
 
 interface RpcEndpoint {
   id: string;
@@ -8,6 +10,7 @@ interface RpcEndpoint {
   network: string;
   name: string | null;
   rpc_url: string;
+  provider_type: string | null;
   priority: number;
   is_enabled: number;
   created_at: string;
@@ -24,6 +27,8 @@ export async function onRequestGet(context: { request: Request; env: Env }) {
   if (authResult instanceof Response) return authResult;
 
   try {
+    await ensureRpcProviderTypeColumn(context.env.DB);
+
     // Fetch all endpoints ordered by chain_type, chain_name, network, priority
     const result = await context.env.DB.prepare(
       `SELECT * FROM rpc_endpoints ORDER BY chain_type, chain_name, network, priority`
@@ -56,6 +61,7 @@ export async function onRequestPost(context: { request: Request; env: Env }) {
       network: string;
       name?: string;
       rpc_url: string;
+      provider_type?: string | null;
       priority?: number;
       is_enabled?: boolean;
     };
@@ -83,14 +89,21 @@ export async function onRequestPost(context: { request: Request; env: Env }) {
       return errorResponse('Invalid rpc_url format', 400);
     }
 
+    const providerError = validateProviderType(body.chain_type, body.provider_type);
+    if (providerError) {
+      return errorResponse(providerError, 400);
+    }
+
     const id = crypto.randomUUID();
     const priority = body.priority ?? 0;
     const isEnabled = body.is_enabled !== false ? 1 : 0;
 
+    await ensureRpcProviderTypeColumn(context.env.DB);
+
     await context.env.DB.prepare(
-      `INSERT INTO rpc_endpoints (id, chain_type, chain_name, chain_id, network, name, rpc_url, priority, is_enabled)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
-    ).bind(id, body.chain_type, body.chain_name, body.chain_id || null, body.network, body.name || null, body.rpc_url, priority, isEnabled).run();
+      `INSERT INTO rpc_endpoints (id, chain_type, chain_name, chain_id, network, name, rpc_url, provider_type, priority, is_enabled)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).bind(id, body.chain_type, body.chain_name, body.chain_id || null, body.network, body.name || null, body.rpc_url, body.provider_type || null, priority, isEnabled).run();
 
     // Fetch the created endpoint
     const created = await context.env.DB.prepare(
@@ -134,10 +147,13 @@ export async function onRequestPut(context: { request: Request; env: Env }) {
       network?: string;
       name?: string;
       rpc_url?: string;
+      provider_type?: string | null;
       priority?: number;
       is_enabled?: boolean;
     };
 
+    await ensureRpcProviderTypeColumn(context.env.DB);
+
     // Check if endpoint exists
     const existing = await context.env.DB.prepare(
       `SELECT * FROM rpc_endpoints WHERE id = ?`
@@ -149,7 +165,7 @@ export async function onRequestPut(context: { request: Request; env: Env }) {
 
     // Build update query
     const updates: string[] = [];
-    const values: (string | number)[] = [];
+    const values: (string | number | null)[] = [];
 
     if (body.chain_type !== undefined) {
       const validChainTypes = ['evm', 'btc', 'svm', 'tron', 'ton'];
@@ -193,6 +209,20 @@ export async function onRequestPut(context: { request: Request; env: Env }) {
       values.push(body.rpc_url);
     }
 
+    if (body.provider_type !== undefined || body.chain_type !== undefined) {
+      // A Bitcoin provider type does not carry over when the endpoint moves to another chain
+      const chainType = body.chain_type ?? existing.chain_type;
+      const providerType = body.provider_type !== undefined
+        ? body.provider_type
+        : chainType === 'btc' ? existing.provider_type : null;
+      const providerError = validateProviderType(chainType, providerType);
+      if (providerError) {
+        return errorResponse(providerError, 400);
+      }
+      updates.push('provider_type = ?');
+      values.push(providerType || null);
+    }
+
     if (body.priority !== undefined) {
       updates.push('priority = ?');
       values.push(body.priority);
@@ -275,3 +305,15 @@ export async function onRequestDelete(context: { request: Request; env: Env }) {
 export async function onRequestOptions(context: { request: Request }) {
   return handleCors(context.request);
 }
+
+// Only Bitcoin endpoints have a choice of API; other chains always use their default
+function validateProviderType(chainType: string, providerType: string | null | undefined): string | null {
+  if (!providerType) return null;
+  if (chainType !== 'btc') {
+    return 'provider_type can only be set for btc endpoints';
+  }
+  if (!(BTC_PROVIDER_TYPES as string[]).includes(providerType)) {
+    return `Invalid provider_type. Must be one of: ${BTC_PROVIDER_TYPES.join(', ')}`;
+  }
+  return null;
+}
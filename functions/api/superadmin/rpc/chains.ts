@@ -1,4 +1,6 @@
 import { jsonResponse, handleCors, Env, requireSuperadmin } from '../../../_lib/utils';
+import { getEnabledEvmChains } from '../../../_lib/evm-chains';
+import { EvmChain } from '../../../../lib/evmChains';
 
 interface AssetChain {
   chain: string;
@@ -7,27 +9,24 @@ interface AssetChain {
   network: string;
 }
 
-// Default supported chains - used as fallback if asset_chains is empty
+// Default non-EVM chains - used as fallback if asset_chains is empty
 const DEFAULT_CHAINS: AssetChain[] = [
-  { chain: 'Ethereum', chain_type: 'evm', chain_id: '1', network: 'mainnet' },
-  { chain: 'Sepolia', chain_type: 'evm', chain_id: '11155111', network: 'mainnet' },
-  { chain: 'Base', chain_type: 'evm', chain_id: '8453', network: 'mainnet' },
-  { chain: 'Base Sepolia', chain_type: 'evm', chain_id: '84532', network: 'mainnet' },
   { chain: 'Bitcoin', chain_type: 'btc', chain_id: null, network: 'mainnet' },
   { chain: 'Solana', chain_type: 'svm', chain_id: null, network: 'mainnet' },
   { chain: 'Tron', chain_type: 'tron', chain_id: null, network: 'mainnet' },
   { chain: 'TON', chain_type: 'ton', chain_id: null, network: 'mainnet' }
 ];
 
-// Map of known EVM chain IDs
-const CHAIN_IDS: Record<string, string> = {
-  'Ethereum': '1',
-  'Base': '8453',
-  'Sepolia': '11155111',
-  'Base Sepolia': '84532'
-};
+function toAssetChain(chain: EvmChain): AssetChain {
+  return {
+    chain: chain.name,
+    chain_type: 'evm',
+    chain_id: String(chain.chainId),
+    network: chain.isTestnet ? 'testnet' : 'mainnet'
+  };
+}
 
-// GET - List all unique chains from asset_chains table
+// GET - List every chain in the EVM registry plus the non-EVM chains from asset_chains
 export async function onRequestGet(context: { request: Request; env: Env }) {
   const corsResponse = handleCors(context.request);
   if (corsResponse) return corsResponse;
@@ -36,12 +35,19 @@ export async function onRequestGet(context: { request: Request; env: Env }) {
   const authResult = await requireSuperadmin(context.request, context.env.DB);
   if (authResult instanceof Response) return authResult;
 
+  let evmChains: AssetChain[] = [];
+  try {
+    evmChains = (await getEnabledEvmChains(context.env.DB)).map(toAssetChain);
+  } catch (error) {
+    console.error('Get EVM chains error:', error);
+  }
+
   try {
-    // Fetch distinct chains with their chain_type
+    // Fetch distinct non-EVM chains with their chain_type
     const result = await context.env.DB.prepare(
       `SELECT DISTINCT chain, chain_type
        FROM asset_chains
-       WHERE is_enabled = 1
+       WHERE is_enabled = 1 AND chain_type != 'evm'
        ORDER BY chain_type, chain`
     ).all();
 
@@ -49,28 +55,27 @@ export async function onRequestGet(context: { request: Request; env: Env }) {
     if (!result.results || result.results.length === 0) {
       return jsonResponse({
         success: true,
-        data: DEFAULT_CHAINS
+        data: [...evmChains, ...DEFAULT_CHAINS]
       });
     }
 
-    // Enhance with chain_id for EVM chains
     const chains: AssetChain[] = (result.results as Array<{ chain: string; chain_type: string }>).map(row => ({
       chain: row.chain,
       chain_type: row.chain_type,
-      chain_id: row.chain_type === 'evm' ? (CHAIN_IDS[row.chain] || null) : null,
+      chain_id: null,
       network: 'mainnet' // Default to mainnet, user will select network when adding RPC
     }));
 
     return jsonResponse({
       success: true,
-      data: chains
+      data: [...evmChains, ...chains]
     });
   } catch (error) {
     console.error('Get chains error:', error);
     // Return default chains on error
     return jsonResponse({
       success: true,
-      data: DEFAULT_CHAINS
+      data: [...evmChains, ...DEFAULT_CHAINS]
     });
   }
 }
@@ -0,0 +1,219 @@
+import { jsonResponse, errorResponse, handleCors, Env, requireSuperadmin, requireSuperadminPrivilege } from '../../_lib/utils';
+import { ensureSpendingPoliciesTable, validatePolicy, SpendingPolicyRow } from '../../_lib/spending-policies';
+
+// GET - List all spending policies (org-level first, then per user)
+export async function onRequestGet(context: { request: Request; env: Env }) {
+  const corsResponse = handleCors(context.request);
+  if (corsResponse) return corsResponse;
+
+  const authResult = await requireSuperadmin(context.request, context.env.DB);
+  if (authResult instanceof Response) return authResult;
+
+  try {
+    await ensureSpendingPoliciesTable(context.env.DB);
+
+    const result = await context.env.DB.prepare(
+      `SELECT sp.*, u.username
+       FROM spending_policies sp
+       LEFT JOIN users u ON sp.user_id = u.id
+       ORDER BY sp.user_id IS NOT NULL, u.username, sp.policy_type, sp.created_at`
+    ).all();
+
+    return jsonResponse({
+      success: true,
+      data: result.results as unknown as Array<SpendingPolicyRow & { username: string | null }>
+    });
+  } catch (error) {
+    console.error('Get spending policies error:', error);
+    return errorResponse('Failed to fetch spending policies');
+  }
+}
+
+// POST - Add a spending policy
+export async function onRequestPost(context: { request: Request; env: Env }) {
+  const corsResponse = handleCors(context.request);
+  if (corsResponse) return corsResponse;
+
+  const authResult = await requireSuperadminPrivilege(context.request, context.env.DB);
+  if (authResult instanceof Response) return authResult;
+
+  try {
+    const body = await context.request.json() as {
+      user_id?: string | null;
+      policy_type: string;
+      chain_type?: string | null;
+      asset_symbol?: string | null;
+      value: string;
+      description?: string;
+      is_enabled?: boolean;
+    };
+
+    const value = body.value?.trim();
+    const validationError = validatePolicy({ ...body, value });
+    if (validationError) {
+      return errorResponse(validationError, 400);
+    }
+
+    await ensureSpendingPoliciesTable(context.env.DB);
+
+    if (body.user_id) {
+      const user = await context.env.DB.prepare(
+        'SELECT id FROM users WHERE id = ?'
+      ).bind(body.user_id).first();
+      if (!user) {
+        return errorResponse('User not found', 404);
+      }
+    }
+
+    const id = crypto.randomUUID();
+    await context.env.DB.prepare(
+      `INSERT INTO spending_policies (id, user_id, policy_type, chain_type, asset_symbol, value, description, is_enabled)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    ).bind(
+      id,
+      body.user_id || null,
+      body.policy_type,
+      body.chain_type || null,
+      body.asset_symbol ? body.asset_symbol.toUpperCase() : null,
+      value,
+      body.description || null,
+      body.is_enabled !== false ? 1 : 0
+    ).run();
+
+    const created = await context.env.DB.prepare(
+      `SELECT * FROM spending_policies WHERE id = ?`
+    ).bind(id).first<SpendingPolicyRow>();
+
+    return jsonResponse({
+      success: true,
+      data: created
+    });
+  } catch (error) {
+    console.error('Create spending policy error:', error);
+    return errorResponse('Failed to create spending policy');
+  }
+}
+
+// PUT - Update a policy's value, description or enabled state
+export async function onRequestPut(context: { request: Request; env: Env }) {
+  const corsResponse = handleCors(context.request);
+  if (corsResponse) return corsResponse;
+
+  const authResult = await requireSuperadminPrivilege(context.request, context.env.DB);
+  if (authResult instanceof Response) return authResult;
+
+  try {
+    const url = new URL(context.request.url);
+    const id = url.searchParams.get('id');
+
+    if (!id) {
+      return errorResponse('Policy ID required', 400);
+    }
+
+    const body = await context.request.json() as {
+      value?: string;
+      description?: string | null;
+      is_enabled?: boolean;
+    };
+
+    await ensureSpendingPoliciesTable(context.env.DB);
+
+    const existing = await context.env.DB.prepare(
+      `SELECT * FROM spending_policies WHERE id = ?`
+    ).bind(id).first<SpendingPolicyRow>();
+
+    if (!existing) {
+      return errorResponse('Policy not found', 404);
+    }
+
+    const updates: string[] = [];
+    const values: (string | number | null)[] = [];
+
+    if (body.value !== undefined) {
+      const value = body.value.trim();
+      const validationError = validatePolicy({ ...existing, value });
+      if (validationError) {
+        return errorResponse(validationError, 400);
+      }
+      updates.push('value = ?');
+      values.push(value);
+    }
+
+    if (body.description !== undefined) {
+      updates.push('description = ?');
+      values.push(body.description || null);
+    }
+
+    if (body.is_enabled !== undefined) {
+      updates.push('is_enabled = ?');
+      values.push(body.is_enabled ? 1 : 0);
+    }
+
+    if (updates.length === 0) {
+      return errorResponse('No fields to update', 400);
+    }
+
+    updates.push("updated_at = datetime('now')");
+    values.push(id);
+
+    await context.env.DB.prepare(
+      `UPDATE spending_policies SET ${updates.join(', ')} WHERE id = ?`
+    ).bind(...values).run();
+
+    const updated = await context.env.DB.prepare(
+      `SELECT * FROM spending_policies WHERE id = ?`
+    ).bind(id).first<SpendingPolicyRow>();
+
+    return jsonResponse({
+      success: true,
+      data: updated
+    });
+  } catch (error) {
+    console.error('Update spending policy error:', error);
+    return errorResponse('Failed to update spending policy');
+  }
+}
+
+// DELETE - Remove a policy
+export async function onRequestDelete(context: { request: Request; env: Env }) {
+  const corsResponse = handleCors(context.request);
+  if (corsResponse) return corsResponse;
+
+  const authResult = await requireSuperadminPrivilege(context.request, context.env.DB);
+  if (authResult instanceof Response) return authResult;
+
+  try {
+    const url = new URL(context.request.url);
+    const id = url.searchParams.get('id');
+
+    if (!id) {
+      return errorResponse('Policy ID required', 400);
+    }
+
+    await ensureSpendingPoliciesTable(context.env.DB);
+
+    const existing = await context.env.DB.prepare(
+      `SELECT id FROM spending_policies WHERE id = ?`
+    ).bind(id).first();
+
+    if (!existing) {
+      return errorResponse('Policy not found', 404);
+    }
+
+    await context.env.DB.prepare(
+      `DELETE FROM spending_policies WHERE id = ?`
+    ).bind(id).run();
+
+    return jsonResponse({
+      success: true,
+      message: 'Policy deleted'
+    });
+  } catch (error) {
+    console.error('Delete spending policy error:', error);
+    return errorResponse('Failed to delete spending policy');
+  }
+}
+
+export async function onRequestOptions(context: { request: Request }) {
+  return handleCors(context.request);
+}
@@ -0,0 +1,158 @@
+/**
+ * App Permissions API
+ *
+ * Scopes the user has granted to embedded dock apps. Grants are made on the
+ * app's first connect request and can be reviewed and revoked from Settings.
+ *
+ * GET    - Returns the user's grants, grouped by app
+ * POST   - Grants scopes to an app ({ appId, scopes })
+ * DELETE - Revokes one scope (?appId=&scope=) or every scope of an app (?appId=)
+ */
+
+import { jsonResponse, errorResponse, handleCors, requireAuth, generateId, Env } from '../../_lib/utils';
+import { ensureAppPermissionsTable } from '../../_lib/app-permissions';
+import { isAppScope } from '../../../lib/appScopes';
+
+interface AppPermissionRow {
+  app_id: string;
+  app_name: string | null;
+  scope: string;
+  granted_at: string;
+}
+
+export async function onRequestGet(context: { request: Request; env: Env }) {
+  const corsResponse = handleCors(context.request);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const authResult = await requireAuth(context.request, context.env.DB);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    await ensureAppPermissionsTable(context.env.DB);
+
+    const result = await context.env.DB.prepare(
+      `SELECT p.app_id, a.name as app_name, p.scope, p.granted_at
+       FROM user_app_permissions p
+       LEFT JOIN apps a ON p.app_id = a.id
+       WHERE p.user_id = ?
+       ORDER BY a.name, p.granted_at`
+    ).bind(user.id).all();
+
+    const grouped = new Map<string, { appId: string; appName: string | null; scopes: string[]; grantedAt: string }>();
+    for (const row of (result.results || []) as unknown as AppPermissionRow[]) {
+      const entry = grouped.get(row.app_id);
+      if (entry) {
+        entry.scopes.push(row.scope);
+      } else {
+        grouped.set(row.app_id, {
+          appId: row.app_id,
+          appName: row.app_name,
+          scopes: [row.scope],
+          grantedAt: row.granted_at
+        });
+      }
+    }
+
+    return jsonResponse({
+      success: true,
+      data: Array.from(grouped.values())
+    });
+  } catch (error) {
+    console.error('Error fetching app permissions:', error);
+    return errorResponse('Failed to fetch app permissions');
+  }
+}
+
+export async function onRequestPost(context: { request: Request; env: Env }) {
+  const corsResponse = handleCors(context.request);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const authResult = await requireAuth(context.request, context.env.DB);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    const { appId, scopes } = await context.request.json() as {
+      appId: string;
+      scopes: string[];
+    };
+
+    if (!appId || !Array.isArray(scopes) || scopes.length === 0) {
+      return errorResponse('appId and scopes are required', 400);
+    }
+
+    const unknown = scopes.filter(scope => !isAppScope(scope));
+    if (unknown.length > 0) {
+      return errorResponse(`Unknown scopes: ${unknown.join(', ')}`, 400);
+    }
+
+    const app = await context.env.DB.prepare(
+      'SELECT id FROM apps WHERE id = ?'
+    ).bind(appId).first();
+    if (!app) {
+      return errorResponse('App not found', 404);
+    }
+
+    await ensureAppPermissionsTable(context.env.DB);
+
+    for (const scope of scopes) {
+      await context.env.DB.prepare(
+        `INSERT INTO user_app_permissions (id, user_id, app_id, scope)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT(user_id, app_id, scope) DO NOTHING`
+      ).bind(generateId(), user.id, appId, scope).run();
+    }
+
+    return jsonResponse({
+      success: true,
+      data: { appId, scopes }
+    });
+  } catch (error) {
+    console.error('Error granting app permissions:', error);
+    return errorResponse(error instanceof Error ? error.message : 'Failed to grant app permissions');
+  }
+}
+
+export async function onRequestDelete(context: { request: Request; env: Env }) {
+  const corsResponse = handleCors(context.request);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const authResult = await requireAuth(context.request, context.env.DB);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    const url = new URL(context.request.url);
+    const appId = url.searchParams.get('appId');
+    const scope = url.searchParams.get('scope');
+
+    if (!appId) {
+      return errorResponse('appId is required', 400);
+    }
+
+    await ensureAppPermissionsTable(context.env.DB);
+
+    if (scope) {
+      await context.env.DB.prepare(
+        'DELETE FROM user_app_permissions WHERE user_id = ? AND app_id = ? AND scope = ?'
+      ).bind(user.id, appId, scope).run();
+    } else {
+      await context.env.DB.prepare(
+        'DELETE FROM user_app_permissions WHERE user_id = ? AND app_id = ?'
+      ).bind(user.id, appId).run();
+    }
+
+    return jsonResponse({
+      success: true,
+      data: { appId, scope }
+    });
+  } catch (error) {
+    console.error('Error revoking app permissions:', error);
+    return errorResponse('Failed to revoke app permissions');
+  }
+}
+
+export async function onRequestOptions(context: { request: Request }) {
+  return handleCors(context.request);
+}
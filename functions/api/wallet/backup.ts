@@ -0,0 +1,132 @@
+/**
+ * Wallet Backup API
+ *
+ * Backups are created and opened client-side: the seed and chain keys are
+ * decrypted with the wallet key and re-encrypted under a user passphrase. The
+ * server only hands out and stores wallet-key ciphertext.
+ *
+ * GET  - Returns the encrypted seed and every encrypted chain key for export
+ * POST - Stores wallets restored from a backup, re-encrypted under the current
+ *        wallet key. Replacing existing wallets requires replace: true and a
+ *        fresh assertion from one of the user's passkeys.
+ */
+
+import { jsonResponse, errorResponse, handleCors, requireAuth, generateId, verifyFreshAssertion, Env } from '../../_lib/utils';
+import { ensureWalletSeedsTable, prepareWalletAddressInserts, WALLET_CHAIN_TYPES, WalletAddress } from '../../_lib/wallet-generator';
+
+export async function onRequestGet(context: { request: Request; env: Env }) {
+  const corsResponse = handleCors(context.request);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const authResult = await requireAuth(context.request, context.env.DB);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    await ensureWalletSeedsTable(context.env.DB);
+
+    const seed = await context.env.DB.prepare(
+      'SELECT seed_encrypted FROM wallet_seeds WHERE user_id = ?'
+    ).bind(user.id).first<{ seed_encrypted: string }>();
+
+    const result = await context.env.DB.prepare(
+      `SELECT chain_type, address, private_key_encrypted, derivation_path
+       FROM wallet_addresses WHERE user_id = ? AND private_key_encrypted IS NOT NULL`
+    ).bind(user.id).all();
+
+    const wallets = (result.results || []).map((row: any) => ({
+      chainType: row.chain_type as string,
+      address: row.address as string,
+      privateKeyEncrypted: row.private_key_encrypted as string,
+      derivationPath: (row.derivation_path as string | null) || null
+    }));
+
+    return jsonResponse({
+      success: true,
+      data: {
+        seedEncrypted: seed?.seed_encrypted || null,
+        wallets
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching wallet backup data:', error);
+    return errorResponse('Failed to fetch wallet backup data');
+  }
+}
+
+export async function onRequestPost(context: { request: Request; env: Env }) {
+  const corsResponse = handleCors(context.request);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const authResult = await requireAuth(context.request, context.env.DB);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    const { seedEncrypted, walletAddresses, replace, assertion } = await context.request.json() as {
+      seedEncrypted?: string | null;
+      walletAddresses: WalletAddress[];
+      replace?: boolean;  // true when restoring over existing wallets from Settings
+      assertion?: any;    // WebAuthn assertion from one of the user's passkeys, required with replace
+    };
+
+    if (!walletAddresses || walletAddresses.length === 0) {
+      return errorResponse('walletAddresses is required', 400);
+    }
+    const invalid = walletAddresses.find(w =>
+      !(WALLET_CHAIN_TYPES as readonly string[]).includes(w.chainType) ||
+      !w.address || !w.privateKeyEncrypted
+    );
+    if (invalid) {
+      return errorResponse('Each wallet needs a valid chainType, address and privateKeyEncrypted', 400);
+    }
+
+    await ensureWalletSeedsTable(context.env.DB);
+
+    const existingSeed = await context.env.DB.prepare(
+      'SELECT id FROM wallet_seeds WHERE user_id = ?'
+    ).bind(user.id).first();
+    const existingWallets = await context.env.DB.prepare(
+      'SELECT COUNT(*) as count FROM wallet_addresses WHERE user_id = ?'
+    ).bind(user.id).first<{ count: number }>();
+
+    if ((existingSeed || (existingWallets?.count || 0) > 0) && !replace) {
+      return errorResponse('This account already has wallets; restore from Settings to replace them', 409);
+    }
+
+    // Replacing swaps every receive address, so a session token alone is not enough
+    if (replace && !await verifyFreshAssertion(context.request, context.env.DB, user.id, assertion)) {
+      return errorResponse('Confirm with your passkey to replace your wallets', 403);
+    }
+
+    // Deletes and inserts run in one batch so a failed restore leaves the old wallets in place
+    const statements: D1PreparedStatement[] = [];
+    if (replace) {
+      statements.push(
+        context.env.DB.prepare('DELETE FROM wallet_addresses WHERE user_id = ?').bind(user.id),
+        context.env.DB.prepare('DELETE FROM wallet_seeds WHERE user_id = ?').bind(user.id)
+      );
+    }
+    if (seedEncrypted) {
+      statements.push(
+        context.env.DB.prepare(
+          'INSERT INTO wallet_seeds (id, user_id, seed_encrypted) VALUES (?, ?, ?)'
+        ).bind(generateId(), user.id, seedEncrypted)
+      );
+    }
+    statements.push(...await prepareWalletAddressInserts(context.env.DB, user.id, walletAddresses));
+    await context.env.DB.batch(statements);
+
+    return jsonResponse({
+      success: true,
+      data: { restored: walletAddresses.length }
+    });
+  } catch (error) {
+    console.error('Error restoring wallet backup:', error);
+    return errorResponse(error instanceof Error ? error.message : 'Failed to restore wallet backup');
+  }
+}
+
+export async function onRequestOptions(context: { request: Request }) {
+  return handleCors(context.request);
+}
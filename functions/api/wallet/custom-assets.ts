@@ -1,4 +1,5 @@
 import { jsonResponse, errorResponse, handleCors, requireAuth, generateId, Env } from '../../_lib/utils';
+import { lookupTokenMetadata } from '../../_lib/token-metadata';
 
 interface CustomAsset {
   id: string;
@@ -67,6 +68,7 @@ export async function onRequestPost(context: { request: Request; env: Env }) {
       chainType: string;
       contractAddress?: string;
       decimals?: number;
+      network?: 'mainnet' | 'testnet';
     };
 
     // Validate required fields
@@ -80,6 +82,28 @@ export async function onRequestPost(context: { request: Request; env: Env }) {
       return errorResponse(`Invalid chainType. Must be one of: ${validChainTypes.join(', ')}`, 400);
     }
 
+    // Check the contract on chain. Decimals that disagree with it would show
+    // wrong balances and build wrong transfer amounts, so they are rejected.
+    // If the chain can't be reached the asset is saved as entered.
+    let decimals = body.decimals ?? 18;
+    if (['evm', 'base', 'svm', 'tron'].includes(body.chainType)) {
+      const lookup = await lookupTokenMetadata(
+        context.env.DB,
+        body.chain,
+        body.chainType,
+        body.contractAddress.trim(),
+        body.network === 'testnet' ? 'testnet' : 'mainnet'
+      );
+      if (lookup.ok) {
+        if (body.decimals !== undefined && body.decimals !== lookup.metadata.decimals) {
+          return errorResponse(`Decimals do not match the contract (${lookup.metadata.decimals})`, 400);
+        }
+        decimals = lookup.metadata.decimals;
+      } else if (lookup.notFound) {
+        return errorResponse(lookup.error, 400);
+      }
+    }
+
     // Check if asset already exists for this user
     const existing = await context.env.DB.prepare(
       'SELECT id FROM user_custom_assets WHERE user_id = ? AND symbol = ? AND chain_type = ?'
@@ -102,7 +126,7 @@ export async function onRequestPost(context: { request: Request; env: Env }) {
       body.chain,
       body.chainType,
       body.contractAddress || null,
-      body.decimals || 18
+      decimals
     ).run();
 
     return jsonResponse({
@@ -115,7 +139,7 @@ export async function onRequestPost(context: { request: Request; env: Env }) {
         chain: body.chain,
         chainType: body.chainType,
         contractAddress: body.contractAddress || null,
-        decimals: body.decimals || 18
+        decimals
       }
     });
   } catch (error) {
@@ -2,19 +2,12 @@
  * EVM Transaction API
  *
  * Signs and broadcasts EVM transactions using user's stored private key.
- * Uses ZAN.top nodes for RPC access.
+ * Supports the enabled chains of the EVM chain registry, using their
+ * highest-priority endpoint from rpc_endpoints.
  */
 
 import { jsonResponse, errorResponse, handleCors, requireAuth, Env } from '../../_lib/utils';
-
-// ZAN.top RPC endpoints by chain ID
-const ZAN_API_KEY = '4a6373aaef354ba88416fbe73cd1c616';
-
-const RPC_ENDPOINTS: Record<number, string> = {
-  1: `https://api.zan.top/node/v1/eth/mainnet/${ZAN_API_KEY}`,         // Ethereum Mainnet
-  11155111: `https://api.zan.top/node/v1/eth/sepolia/${ZAN_API_KEY}`,  // Ethereum Sepolia (testnet)
-  8453: `https://api.zan.top/node/v1/base/mainnet/${ZAN_API_KEY}`,     // Base
-};
+import { getEvmRpcUrl, evmRpcCall } from '../../_lib/evm-chains';
 
 interface EVMTransactionRequest {
   to: string;
@@ -137,54 +130,29 @@ async function _signWithPrivateKey(_messageHash: Uint8Array, _privateKey: Uint8A
   return { r, s, v: 27 };
 }
 
-// Make RPC call to ZAN node
-async function rpcCall(chainId: number, method: string, params: any[]): Promise<any> {
-  const rpcUrl = RPC_ENDPOINTS[chainId];
-  if (!rpcUrl) {
-    throw new Error(`Unsupported chain ID: ${chainId}`);
-  }
-
-  const response = await fetch(rpcUrl, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      jsonrpc: '2.0',
-      id: 1,
-      method,
-      params
-    })
-  });
-
-  const result = await response.json() as { result?: any; error?: { message: string } };
-  if (result.error) {
-    throw new Error(result.error.message);
-  }
-  return result.result;
-}
-
 // Get nonce for address
-async function getNonce(chainId: number, address: string): Promise<string> {
-  return await rpcCall(chainId, 'eth_getTransactionCount', [address, 'pending']);
+async function getNonce(rpcUrl: string, address: string): Promise<string> {
+  return await evmRpcCall(rpcUrl, 'eth_getTransactionCount', [address, 'pending']);
 }
 
 // Get gas price
-async function getGasPrice(chainId: number): Promise<string> {
-  return await rpcCall(chainId, 'eth_gasPrice', []);
+async function getGasPrice(rpcUrl: string): Promise<string> {
+  return await evmRpcCall(rpcUrl, 'eth_gasPrice', []);
 }
 
 // Estimate gas
-async function estimateGas(chainId: number, tx: any): Promise<string> {
-  return await rpcCall(chainId, 'eth_estimateGas', [tx]);
+async function estimateGas(rpcUrl: string, tx: any): Promise<string> {
+  return await evmRpcCall(rpcUrl, 'eth_estimateGas', [tx]);
 }
 
 // Send raw transaction (kept for future server-side signing)
-async function _sendRawTransaction(chainId: number, signedTx: string): Promise<string> {
-  return await rpcCall(chainId, 'eth_sendRawTransaction', [signedTx]);
+async function _sendRawTransaction(rpcUrl: string, signedTx: string): Promise<string> {
+  return await evmRpcCall(rpcUrl, 'eth_sendRawTransaction', [signedTx]);
 }
 
 // Get chain ID from node (for verification)
-async function _getChainId(chainId: number): Promise<string> {
-  return await rpcCall(chainId, 'eth_chainId', []);
+async function _getChainId(rpcUrl: string): Promise<string> {
+  return await evmRpcCall(rpcUrl, 'eth_chainId', []);
 }
 
 // Export to suppress unused variable warnings
@@ -212,8 +180,9 @@ export async function onRequestPost(context: { request: Request; env: Env }) {
     }
 
     // Check if chain is supported
-    if (!RPC_ENDPOINTS[transaction.chainId]) {
-      return errorResponse(`Unsupported chain ID: ${transaction.chainId}. Supported: ${Object.keys(RPC_ENDPOINTS).join(', ')}`, 400);
+    const rpcUrl = await getEvmRpcUrl(context.env.DB, transaction.chainId);
+    if (!rpcUrl) {
+      return errorResponse(`Unsupported chain ID: ${transaction.chainId}`, 400);
     }
 
     // Get user's EVM wallet from database
@@ -237,20 +206,20 @@ export async function onRequestPost(context: { request: Request; env: Env }) {
     // Get nonce if not provided
     let nonce = transaction.nonce;
     if (nonce === undefined) {
-      nonce = await getNonce(transaction.chainId, fromAddress);
+      nonce = await getNonce(rpcUrl, fromAddress);
     }
 
     // Get gas price if not provided
     let gasPrice = transaction.gasPrice;
     if (!gasPrice && !transaction.maxFeePerGas) {
-      gasPrice = await getGasPrice(transaction.chainId);
+      gasPrice = await getGasPrice(rpcUrl);
     }
 
     // Estimate gas if not provided
     let gasLimit = transaction.gasLimit;
     if (!gasLimit) {
       try {
-        gasLimit = await estimateGas(transaction.chainId, {
+        gasLimit = await estimateGas(rpcUrl, {
           from: fromAddress,
           to: transaction.to,
           value: transaction.value || '0x0',
@@ -0,0 +1,108 @@
+/**
+ * Guardian Key API
+ *
+ * Every user has a P-256 key pair that other users' recovery shares are
+ * encrypted to. The private key is stored encrypted under the user's wallet
+ * key, so only the user can decrypt shares they guard.
+ *
+ * GET  - Returns the user's own key (?username= returns another user's public key)
+ * POST - Stores the user's key pair ({ publicKey, privateKeyEncrypted }) once
+ */
+
+import { jsonResponse, errorResponse, handleCors, requireAuth, Env } from '../../_lib/utils';
+import { ensureRecoveryTables, isPublicKeyHex } from '../../_lib/social-recovery';
+
+export async function onRequestGet(context: { request: Request; env: Env }) {
+  const corsResponse = handleCors(context.request);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const authResult = await requireAuth(context.request, context.env.DB);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    await ensureRecoveryTables(context.env.DB);
+
+    const url = new URL(context.request.url);
+    const username = url.searchParams.get('username');
+
+    if (username) {
+      const guardian = await context.env.DB.prepare(
+        `SELECT u.id, u.username, g.public_key
+         FROM users u
+         LEFT JOIN guardian_keys g ON g.user_id = u.id
+         WHERE u.username = ?`
+      ).bind(username.trim()).first<{ id: string; username: string; public_key: string | null }>();
+
+      if (!guardian) {
+        return errorResponse(`User ${username} not found`, 404);
+      }
+      if (!guardian.public_key) {
+        return errorResponse(`${guardian.username} has not signed in since guardians were introduced and cannot be a guardian yet`, 404);
+      }
+
+      return jsonResponse({
+        success: true,
+        data: { userId: guardian.id, username: guardian.username, publicKey: guardian.public_key }
+      });
+    }
+
+    const key = await context.env.DB.prepare(
+      'SELECT public_key, private_key_encrypted FROM guardian_keys WHERE user_id = ?'
+    ).bind(user.id).first<{ public_key: string; private_key_encrypted: string }>();
+
+    return jsonResponse({
+      success: true,
+      data: key ? { publicKey: key.public_key, privateKeyEncrypted: key.private_key_encrypted } : null
+    });
+  } catch (error) {
+    console.error('Error fetching guardian key:', error);
+    return errorResponse('Failed to fetch guardian key');
+  }
+}
+
+export async function onRequestPost(context: { request: Request; env: Env }) {
+  const corsResponse = handleCors(context.request);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const authResult = await requireAuth(context.request, context.env.DB);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    const { publicKey, privateKeyEncrypted } = await context.request.json() as {
+      publicKey: string;
+      privateKeyEncrypted: string;
+    };
+
+    if (!isPublicKeyHex(publicKey) || !privateKeyEncrypted) {
+      return errorResponse('publicKey (uncompressed P-256, hex) and privateKeyEncrypted are required', 400);
+    }
+
+    await ensureRecoveryTables(context.env.DB);
+
+    // Replacing the key would make shares already encrypted to it unreadable
+    const existing = await context.env.DB.prepare(
+      'SELECT user_id FROM guardian_keys WHERE user_id = ?'
+    ).bind(user.id).first();
+    if (existing) {
+      return errorResponse('Guardian key already exists', 409);
+    }
+
+    await context.env.DB.prepare(
+      'INSERT INTO guardian_keys (user_id, public_key, private_key_encrypted) VALUES (?, ?, ?)'
+    ).bind(user.id, publicKey.toLowerCase(), privateKeyEncrypted).run();
+
+    return jsonResponse({
+      success: true,
+      data: { publicKey: publicKey.toLowerCase() }
+    });
+  } catch (error) {
+    console.error('Error storing guardian key:', error);
+    return errorResponse(error instanceof Error ? error.message : 'Failed to store guardian key');
+  }
+}
+
+export async function onRequestOptions(context: { request: Request }) {
+  return handleCors(context.request);
+}
@@ -0,0 +1,143 @@
+/**
+ * Wallet Key Wraps API
+ *
+ * Chain keys and the wallet seed are encrypted with a single wallet key.
+ * Each passkey stores its own copy of that key, wrapped client-side with a
+ * key derived from the passkey's PRF output. The server never sees the
+ * unwrapped wallet key.
+ *
+ * GET  - Returns the user's wraps, plus a sample ciphertext when no wrap exists yet
+ *        so the client can check a legacy PRF-derived key before wrapping it
+ * POST - Stores the wrap for one of the user's passkeys. A passkey that already
+ *        has a wrap gets 409; replacing it needs rewrap plus a fresh assertion
+ *        from that passkey, so a session token alone cannot swap the key.
+ */
+
+import { jsonResponse, errorResponse, handleCors, requireAuth, generateId, verifyFreshAssertion, Env } from '../../_lib/utils';
+import { ensureKeyWrapsTable, ensureWalletSeedsTable } from '../../_lib/wallet-generator';
+
+export async function onRequestGet(context: { request: Request; env: Env }) {
+  const corsResponse = handleCors(context.request);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const authResult = await requireAuth(context.request, context.env.DB);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    await ensureKeyWrapsTable(context.env.DB);
+    await ensureWalletSeedsTable(context.env.DB);
+
+    const result = await context.env.DB.prepare(
+      'SELECT credential_id, wrapped_key FROM passkey_key_wraps WHERE user_id = ?'
+    ).bind(user.id).all();
+
+    const wraps = (result.results || []).map((row: any) => ({
+      credentialId: row.credential_id as string,
+      wrappedKey: row.wrapped_key as string
+    }));
+
+    // Wallets encrypted before key wrapping: the first wrap must carry the existing key
+    let legacyCiphertext: string | null = null;
+    if (wraps.length === 0) {
+      const seed = await context.env.DB.prepare(
+        'SELECT seed_encrypted FROM wallet_seeds WHERE user_id = ?'
+      ).bind(user.id).first<{ seed_encrypted: string }>();
+      const wallet = await context.env.DB.prepare(
+        'SELECT private_key_encrypted FROM wallet_addresses WHERE user_id = ? AND private_key_encrypted IS NOT NULL LIMIT 1'
+      ).bind(user.id).first<{ private_key_encrypted: string }>();
+      legacyCiphertext = seed?.seed_encrypted || wallet?.private_key_encrypted || null;
+    }
+
+    return jsonResponse({
+      success: true,
+      data: { wraps, legacyCiphertext }
+    });
+  } catch (error) {
+    console.error('Error fetching key wraps:', error);
+    return errorResponse('Failed to fetch key wraps');
+  }
+}
+
+export async function onRequestPost(context: { request: Request; env: Env }) {
+  const corsResponse = handleCors(context.request);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const authResult = await requireAuth(context.request, context.env.DB);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    const { credentialId, wrappedKey, bootstrap, rewrap, assertion } = await context.request.json() as {
+      credentialId: string;
+      wrappedKey: string;
+      bootstrap?: boolean;  // true when creating the user's first wrap
+      rewrap?: boolean;     // true when replacing this passkey's existing wrap
+      assertion?: any;      // WebAuthn assertion from this passkey, required with rewrap
+    };
+
+    if (!credentialId || !wrappedKey) {
+      return errorResponse('credentialId and wrappedKey are required', 400);
+    }
+
+    await ensureKeyWrapsTable(context.env.DB);
+
+    const passkey = await context.env.DB.prepare(
+      'SELECT id FROM passkeys WHERE credential_id = ? AND user_id = ?'
+    ).bind(credentialId, user.id).first();
+
+    if (!passkey) {
+      return errorResponse('Passkey not found', 404);
+    }
+
+    if (bootstrap) {
+      // Two first-time wraps racing would create two different wallet keys, so the
+      // check and the insert are one statement
+      const result = await context.env.DB.prepare(
+        `INSERT INTO passkey_key_wraps (id, user_id, credential_id, wrapped_key)
+         SELECT ?, ?, ?, ?
+         WHERE NOT EXISTS (SELECT 1 FROM passkey_key_wraps WHERE user_id = ?)`
+      ).bind(generateId(), user.id, credentialId, wrappedKey, user.id).run();
+      if (result.meta.changes === 0) {
+        return errorResponse('Wallet key already exists', 409);
+      }
+    } else if (rewrap) {
+      if (!await verifyFreshAssertion(context.request, context.env.DB, user.id, assertion, credentialId)) {
+        return errorResponse('Confirm with this passkey to replace its wallet key', 403);
+      }
+      const result = await context.env.DB.prepare(
+        'UPDATE passkey_key_wraps SET wrapped_key = ? WHERE credential_id = ? AND user_id = ?'
+      ).bind(wrappedKey, credentialId, user.id).run();
+      if (result.meta.changes === 0) {
+        return errorResponse('Passkey has no wallet key to replace', 404);
+      }
+    } else {
+      const count = await context.env.DB.prepare(
+        'SELECT COUNT(*) as count FROM passkey_key_wraps WHERE user_id = ?'
+      ).bind(user.id).first<{ count: number }>();
+      if ((count?.count || 0) === 0) {
+        return errorResponse('No wallet key to re-wrap yet', 400);
+      }
+      const result = await context.env.DB.prepare(
+        `INSERT INTO passkey_key_wraps (id, user_id, credential_id, wrapped_key)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT(credential_id) DO NOTHING`
+      ).bind(generateId(), user.id, credentialId, wrappedKey).run();
+      if (result.meta.changes === 0) {
+        return errorResponse('Passkey already unlocks the wallet', 409);
+      }
+    }
+
+    return jsonResponse({
+      success: true,
+      data: { credentialId }
+    });
+  } catch (error) {
+    console.error('Error storing key wrap:', error);
+    return errorResponse(error instanceof Error ? error.message : 'Failed to store key wrap');
+  }
+}
+
+export async function onRequestOptions(context: { request: Request }) {
+  return handleCors(context.request);
+}
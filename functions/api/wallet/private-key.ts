@@ -2,7 +2,8 @@
  * Private Key Retrieval API
  *
  * Returns the encrypted private key for a specific chain type.
- * The key is encrypted with PRF and must be decrypted client-side.
+ * The key is encrypted with the wallet key, which is unwrapped client-side
+ * with a passkey's PRF output (see key-wraps.ts).
  */
 
 import { jsonResponse, errorResponse, handleCors, requireAuth, Env } from '../../_lib/utils';
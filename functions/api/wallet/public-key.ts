@@ -0,0 +1,136 @@
+/**
+ * Wallet Public Key API
+ *
+ * BTC wallets store their compressed public key so the client can show the
+ * P2PKH, P2WPKH and P2TR addresses of the same key without unlocking it.
+ * Wallets created before address types were introduced get their key filled
+ * in by the client after it decrypted the private key; the key is only
+ * accepted when one of its addresses is the stored address.
+ *
+ * TON wallets store their Ed25519 public key the same way. A TON wallet
+ * created before wallet contract addresses has a hash of its public key as
+ * its address, which no contract lives at; when that key is sent the address
+ * is replaced with the wallet v4R2 address and the old one is kept as
+ * legacy_address so the client can warn about it.
+ *
+ * POST - Sets the public key of one of the user's wallets ({ chainType, publicKey }) once
+ */
+
+import { hexToBytes } from '@noble/hashes/utils.js';
+import { jsonResponse, errorResponse, handleCors, requireAuth, Env } from '../../_lib/utils';
+import {
+  ensureWalletPublicKeyColumn,
+  ensureWalletLegacyAddressColumn,
+  isCompressedPublicKeyHex,
+  isEd25519PublicKeyHex
+} from '../../_lib/wallet-generator';
+import {
+  getAddressFromPublicKey,
+  getAddressesFromPublicKey,
+  getLegacyAddressFromPublicKey,
+  isSameAddress,
+  toNonBounceableAddress
+} from '../../../lib/tonAddress';
+import { getAddressesFromPublicKey as getBtcAddressesFromPublicKey } from '../../../lib/btcAddress';
+
+export async function onRequestPost(context: { request: Request; env: Env }) {
+  const corsResponse = handleCors(context.request);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const authResult = await requireAuth(context.request, context.env.DB);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    const { chainType, publicKey } = await context.request.json() as {
+      chainType: string;
+      publicKey: string;
+    };
+
+    if (chainType === 'btc') {
+      if (!isCompressedPublicKeyHex(publicKey)) {
+        return errorResponse('publicKey (compressed secp256k1, hex) is required', 400);
+      }
+    } else if (chainType === 'ton') {
+      if (!isEd25519PublicKeyHex(publicKey)) {
+        return errorResponse('publicKey (Ed25519, hex) is required', 400);
+      }
+    } else {
+      return errorResponse('Only btc and ton wallets store a public key', 400);
+    }
+
+    await ensureWalletPublicKeyColumn(context.env.DB);
+
+    if (chainType === 'ton') {
+      return await storeTonPublicKey(context.env.DB, user.id, publicKey.toLowerCase());
+    }
+
+    const wallet = await context.env.DB.prepare(
+      'SELECT id, address FROM wallet_addresses WHERE user_id = ? AND chain_type = ? AND public_key IS NULL'
+    ).bind(user.id, chainType).first<{ id: string; address: string }>();
+    if (!wallet) {
+      return errorResponse('Wallet not found or public key already set', 409);
+    }
+    if (!Object.values(getBtcAddressesFromPublicKey(publicKey, 'mainnet')).includes(wallet.address)) {
+      return errorResponse('Public key does not match the stored address', 400);
+    }
+
+    const result = await context.env.DB.prepare(
+      'UPDATE wallet_addresses SET public_key = ? WHERE id = ? AND public_key IS NULL'
+    ).bind(publicKey.toLowerCase(), wallet.id).run();
+
+    if (result.meta.changes === 0) {
+      return errorResponse('Wallet not found or public key already set', 409);
+    }
+
+    return jsonResponse({
+      success: true,
+      data: { chainType, publicKey: publicKey.toLowerCase() }
+    });
+  } catch (error) {
+    console.error('Error storing wallet public key:', error);
+    return errorResponse(error instanceof Error ? error.message : 'Failed to store wallet public key');
+  }
+}
+
+// Store a TON public key, moving a legacy address to the key's v4R2 wallet address (non-bounceable)
+async function storeTonPublicKey(db: D1Database, userId: string, publicKey: string): Promise<Response> {
+  await ensureWalletLegacyAddressColumn(db);
+
+  const wallet = await db.prepare(
+    'SELECT id, address FROM wallet_addresses WHERE user_id = ? AND chain_type = ? AND public_key IS NULL'
+  ).bind(userId, 'ton').first<{ id: string; address: string }>();
+  if (!wallet) {
+    return errorResponse('Wallet not found or public key already set', 409);
+  }
+
+  const key = hexToBytes(publicKey);
+  let address = wallet.address;
+  let legacyAddress: string | null = null;
+
+  if (isSameAddress(wallet.address, getLegacyAddressFromPublicKey(key))) {
+    address = getAddressFromPublicKey(key);
+    legacyAddress = wallet.address;
+  } else if (Object.values(getAddressesFromPublicKey(key)).some(candidate => isSameAddress(candidate, wallet.address))) {
+    address = toNonBounceableAddress(wallet.address);
+  } else {
+    return errorResponse('Public key does not match the stored address', 400);
+  }
+
+  const result = await db.prepare(
+    'UPDATE wallet_addresses SET public_key = ?, address = ?, legacy_address = COALESCE(?, legacy_address) WHERE id = ? AND public_key IS NULL'
+  ).bind(publicKey, address, legacyAddress, wallet.id).run();
+
+  if (result.meta.changes === 0) {
+    return errorResponse('Wallet not found or public key already set', 409);
+  }
+
+  return jsonResponse({
+    success: true,
+    data: { chainType: 'ton', publicKey, address, legacyAddress }
+  });
+}
+
+export async function onRequestOptions(context: { request: Request }) {
+  return handleCors(context.request);
+}
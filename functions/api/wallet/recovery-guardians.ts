@@ -0,0 +1,158 @@
+/**
+ * Recovery Guardians API
+ *
+ * The owner picks M guardians and a threshold N. The wallet key is split
+ * client-side into M Shamir shares, each encrypted to one guardian's public
+ * key; any N guardians can later help restore access to a new passkey.
+ *
+ * GET    - Returns the user's threshold and guardians
+ * POST   - Replaces the guardians ({ threshold, guardians: [{ userId, encryptedShare }] })
+ * DELETE - Removes social recovery for the user
+ */
+
+import { jsonResponse, errorResponse, handleCors, requireAuth, generateId, Env } from '../../_lib/utils';
+import { ensureRecoveryTables, cancelPendingRecoveries, MAX_GUARDIANS } from '../../_lib/social-recovery';
+
+export async function onRequestGet(context: { request: Request; env: Env }) {
+  const corsResponse = handleCors(context.request);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const authResult = await requireAuth(context.request, context.env.DB);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    await ensureRecoveryTables(context.env.DB);
+
+    const config = await context.env.DB.prepare(
+      'SELECT threshold, created_at FROM recovery_configs WHERE user_id = ?'
+    ).bind(user.id).first<{ threshold: number; created_at: string }>();
+
+    const result = await context.env.DB.prepare(
+      `SELECT rg.guardian_user_id, u.username
+       FROM recovery_guardians rg
+       JOIN users u ON u.id = rg.guardian_user_id
+       WHERE rg.user_id = ?
+       ORDER BY u.username`
+    ).bind(user.id).all();
+
+    return jsonResponse({
+      success: true,
+      data: config ? {
+        threshold: config.threshold,
+        createdAt: config.created_at,
+        guardians: (result.results || []).map((row: any) => ({
+          userId: row.guardian_user_id as string,
+          username: row.username as string
+        }))
+      } : null
+    });
+  } catch (error) {
+    console.error('Error fetching recovery guardians:', error);
+    return errorResponse('Failed to fetch recovery guardians');
+  }
+}
+
+export async function onRequestPost(context: { request: Request; env: Env }) {
+  const corsResponse = handleCors(context.request);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const authResult = await requireAuth(context.request, context.env.DB);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    const { threshold, guardians } = await context.request.json() as {
+      threshold: number;
+      guardians: Array<{ userId: string; encryptedShare: string }>;
+    };
+
+    if (!Array.isArray(guardians) || guardians.length === 0 || guardians.length > MAX_GUARDIANS) {
+      return errorResponse(`Choose between 1 and ${MAX_GUARDIANS} guardians`, 400);
+    }
+    if (!Number.isInteger(threshold) || threshold < 1 || threshold > guardians.length) {
+      return errorResponse('threshold must be between 1 and the number of guardians', 400);
+    }
+    if (guardians.some(g => !g.userId || !g.encryptedShare)) {
+      return errorResponse('Each guardian needs a userId and encryptedShare', 400);
+    }
+    if (guardians.some(g => g.userId === user.id)) {
+      return errorResponse('You cannot be your own guardian', 400);
+    }
+    if (new Set(guardians.map(g => g.userId)).size !== guardians.length) {
+      return errorResponse('Each guardian can only be listed once', 400);
+    }
+
+    await ensureRecoveryTables(context.env.DB);
+
+    for (const guardian of guardians) {
+      const key = await context.env.DB.prepare(
+        'SELECT user_id FROM guardian_keys WHERE user_id = ?'
+      ).bind(guardian.userId).first();
+      if (!key) {
+        return errorResponse('Every guardian must have a guardian key', 400);
+      }
+    }
+
+    // Shares from different splits cannot be combined, so in-flight requests are void
+    await cancelPendingRecoveries(context.env.DB, user.id);
+
+    await context.env.DB.prepare(
+      'DELETE FROM recovery_guardians WHERE user_id = ?'
+    ).bind(user.id).run();
+
+    for (const guardian of guardians) {
+      await context.env.DB.prepare(
+        `INSERT INTO recovery_guardians (id, user_id, guardian_user_id, encrypted_share)
+         VALUES (?, ?, ?, ?)`
+      ).bind(generateId(), user.id, guardian.userId, guardian.encryptedShare).run();
+    }
+
+    await context.env.DB.prepare(
+      `INSERT INTO recovery_configs (user_id, threshold, created_at)
+       VALUES (?, ?, datetime('now'))
+       ON CONFLICT(user_id) DO UPDATE SET threshold = excluded.threshold, created_at = excluded.created_at`
+    ).bind(user.id, threshold).run();
+
+    return jsonResponse({
+      success: true,
+      data: { threshold, guardians: guardians.length }
+    });
+  } catch (error) {
+    console.error('Error storing recovery guardians:', error);
+    return errorResponse(error instanceof Error ? error.message : 'Failed to store recovery guardians');
+  }
+}
+
+export async function onRequestDelete(context: { request: Request; env: Env }) {
+  const corsResponse = handleCors(context.request);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const authResult = await requireAuth(context.request, context.env.DB);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    await ensureRecoveryTables(context.env.DB);
+
+    await cancelPendingRecoveries(context.env.DB, user.id);
+    await context.env.DB.prepare(
+      'DELETE FROM recovery_guardians WHERE user_id = ?'
+    ).bind(user.id).run();
+    await context.env.DB.prepare(
+      'DELETE FROM recovery_configs WHERE user_id = ?'
+    ).bind(user.id).run();
+
+    return jsonResponse({
+      success: true,
+      message: 'Social recovery removed'
+    });
+  } catch (error) {
+    console.error('Error removing recovery guardians:', error);
+    return errorResponse('Failed to remove recovery guardians');
+  }
+}
+
+export async function onRequestOptions(context: { request: Request }) {
+  return handleCors(context.request);
+}
@@ -0,0 +1,258 @@
+/**
+ * Recovery Requests API (signed-in side)
+ *
+ * Owners see recovery requests started for their account so they can cancel
+ * ones they did not start. A guardian starts a request with the code the
+ * recovering device shows, which notifies the owner and begins the delay.
+ * Guardians see the requests they can approve; an approval is the guardian's
+ * share, decrypted client-side and re-encrypted to the recovering device's key.
+ *
+ * GET    - Returns { ownRequests, guardianRequests }
+ * PUT    - Starts a requested recovery as a guardian ({ username, startCode })
+ * POST   - Approves a request as a guardian ({ requestId, encryptedShare })
+ * DELETE - Cancels a pending request for the user's own account (?id=)
+ */
+
+import { jsonResponse, errorResponse, handleCors, requireAuth, generateId, Env } from '../../_lib/utils';
+import {
+  ensureRecoveryTables,
+  cancelPendingRecoveries,
+  countApprovals,
+  getRecoveryDelayHours,
+  notifyRecoveryStarted,
+  REQUESTED_RECOVERY_TTL_HOURS,
+  RecoveryRequestRow
+} from '../../_lib/social-recovery';
+
+const STALE_RECOVERY_MS = 7 * 24 * 60 * 60 * 1000;
+
+export async function onRequestGet(context: { request: Request; env: Env }) {
+  const corsResponse = handleCors(context.request);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const authResult = await requireAuth(context.request, context.env.DB);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    await ensureRecoveryTables(context.env.DB);
+
+    const own = await context.env.DB.prepare(
+      `SELECT r.id, r.threshold, r.available_at, r.created_at,
+              (SELECT COUNT(*) FROM recovery_approvals a WHERE a.request_id = r.id) as approvals
+       FROM recovery_requests r
+       WHERE r.user_id = ? AND r.status = 'pending'
+       ORDER BY r.created_at DESC`
+    ).bind(user.id).all();
+
+    const guarded = await context.env.DB.prepare(
+      `SELECT r.id, r.threshold, r.available_at, r.created_at, r.recovery_public_key,
+              u.username, rg.encrypted_share,
+              (SELECT COUNT(*) FROM recovery_approvals a WHERE a.request_id = r.id) as approvals,
+              (SELECT COUNT(*) FROM recovery_approvals a WHERE a.request_id = r.id AND a.guardian_user_id = ?) as approved
+       FROM recovery_requests r
+       JOIN recovery_guardians rg ON rg.user_id = r.user_id AND rg.guardian_user_id = ?
+       JOIN users u ON u.id = r.user_id
+       WHERE r.status = 'pending'
+       ORDER BY r.created_at DESC`
+    ).bind(user.id, user.id).all();
+
+    return jsonResponse({
+      success: true,
+      data: {
+        ownRequests: (own.results || []).map((row: any) => ({
+          id: row.id,
+          threshold: row.threshold,
+          approvals: row.approvals,
+          availableAt: row.available_at,
+          createdAt: row.created_at
+        })),
+        guardianRequests: (guarded.results || []).map((row: any) => ({
+          id: row.id,
+          username: row.username,
+          threshold: row.threshold,
+          approvals: row.approvals,
+          approved: row.approved > 0,
+          recoveryPublicKey: row.recovery_public_key,
+          encryptedShare: row.encrypted_share,
+          availableAt: row.available_at,
+          createdAt: row.created_at
+        }))
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching recovery requests:', error);
+    return errorResponse('Failed to fetch recovery requests');
+  }
+}
+
+export async function onRequestPut(context: { request: Request; env: Env }) {
+  const corsResponse = handleCors(context.request);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const authResult = await requireAuth(context.request, context.env.DB);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    const { username, startCode } = await context.request.json() as {
+      username: string;
+      startCode: string;
+    };
+
+    if (!username || !startCode) {
+      return errorResponse('username and startCode are required', 400);
+    }
+
+    await ensureRecoveryTables(context.env.DB);
+
+    const owner = await context.env.DB.prepare(
+      `SELECT u.id, u.username
+       FROM users u
+       JOIN recovery_guardians rg ON rg.user_id = u.id AND rg.guardian_user_id = ?
+       WHERE u.username = ?`
+    ).bind(user.id, username.trim()).first<{ id: string; username: string }>();
+    if (!owner) {
+      return errorResponse('You are not a guardian for this account', 403);
+    }
+
+    const request = await context.env.DB.prepare(
+      `SELECT * FROM recovery_requests
+       WHERE user_id = ? AND status = 'requested' AND start_code = ? AND created_at > datetime('now', ?)`
+    ).bind(owner.id, startCode.trim().toUpperCase(), `-${REQUESTED_RECOVERY_TTL_HOURS} hours`).first<RecoveryRequestRow>();
+    if (!request) {
+      return errorResponse('No recovery request with this code; ask for a new one', 404);
+    }
+
+    // A request left unfinished for a week after it became available no longer blocks new ones
+    const pending = await context.env.DB.prepare(
+      `SELECT id, available_at FROM recovery_requests WHERE user_id = ? AND status = 'pending'`
+    ).bind(owner.id).first<{ id: string; available_at: string }>();
+    if (pending) {
+      if (new Date(pending.available_at).getTime() + STALE_RECOVERY_MS > Date.now()) {
+        return errorResponse('A recovery is already in progress for this account', 409);
+      }
+      await cancelPendingRecoveries(context.env.DB, owner.id, pending.id);
+    }
+
+    const delayHours = await getRecoveryDelayHours(context.env.DB);
+    const availableAt = new Date(Date.now() + delayHours * 60 * 60 * 1000).toISOString();
+
+    await context.env.DB.prepare(
+      `UPDATE recovery_requests SET status = 'pending', available_at = ?, start_code = NULL WHERE id = ?`
+    ).bind(availableAt, request.id).run();
+
+    await notifyRecoveryStarted(context.env.DB, context.env, {
+      userId: owner.id,
+      username: owner.username,
+      startedBy: user.username,
+      requestId: request.id,
+      availableAt
+    });
+
+    return jsonResponse({
+      success: true,
+      data: { requestId: request.id, availableAt }
+    });
+  } catch (error) {
+    console.error('Error starting recovery request:', error);
+    return errorResponse(error instanceof Error ? error.message : 'Failed to start recovery request');
+  }
+}
+
+export async function onRequestPost(context: { request: Request; env: Env }) {
+  const corsResponse = handleCors(context.request);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const authResult = await requireAuth(context.request, context.env.DB);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    const { requestId, encryptedShare } = await context.request.json() as {
+      requestId: string;
+      encryptedShare: string;
+    };
+
+    if (!requestId || !encryptedShare) {
+      return errorResponse('requestId and encryptedShare are required', 400);
+    }
+
+    await ensureRecoveryTables(context.env.DB);
+
+    const request = await context.env.DB.prepare(
+      'SELECT * FROM recovery_requests WHERE id = ?'
+    ).bind(requestId).first<RecoveryRequestRow>();
+
+    if (!request || request.status !== 'pending') {
+      return errorResponse('Recovery request not found or no longer pending', 404);
+    }
+
+    const guardian = await context.env.DB.prepare(
+      'SELECT id FROM recovery_guardians WHERE user_id = ? AND guardian_user_id = ?'
+    ).bind(request.user_id, user.id).first();
+    if (!guardian) {
+      return errorResponse('You are not a guardian for this account', 403);
+    }
+
+    const existing = await context.env.DB.prepare(
+      'SELECT id FROM recovery_approvals WHERE request_id = ? AND guardian_user_id = ?'
+    ).bind(requestId, user.id).first();
+    if (existing) {
+      return errorResponse('You already approved this request', 409);
+    }
+
+    await context.env.DB.prepare(
+      `INSERT INTO recovery_approvals (id, request_id, guardian_user_id, encrypted_share)
+       VALUES (?, ?, ?, ?)`
+    ).bind(generateId(), requestId, user.id, encryptedShare).run();
+
+    return jsonResponse({
+      success: true,
+      data: {
+        approvals: await countApprovals(context.env.DB, requestId),
+        threshold: request.threshold
+      }
+    });
+  } catch (error) {
+    console.error('Error approving recovery request:', error);
+    return errorResponse(error instanceof Error ? error.message : 'Failed to approve recovery request');
+  }
+}
+
+export async function onRequestDelete(context: { request: Request; env: Env }) {
+  const corsResponse = handleCors(context.request);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const authResult = await requireAuth(context.request, context.env.DB);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    const url = new URL(context.request.url);
+    const id = url.searchParams.get('id');
+
+    if (!id) {
+      return errorResponse('Request ID required', 400);
+    }
+
+    await ensureRecoveryTables(context.env.DB);
+
+    const cancelled = await cancelPendingRecoveries(context.env.DB, user.id, id);
+    if (cancelled === 0) {
+      return errorResponse('Recovery request not found or no longer pending', 404);
+    }
+
+    return jsonResponse({
+      success: true,
+      message: 'Recovery request cancelled'
+    });
+  } catch (error) {
+    console.error('Error cancelling recovery request:', error);
+    return errorResponse('Failed to cancel recovery request');
+  }
+}
+
+export async function onRequestOptions(context: { request: Request }) {
+  return handleCors(context.request);
+}
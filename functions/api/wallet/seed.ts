@@ -0,0 +1,117 @@
+/**
+ * Wallet Seed API
+ *
+ * Stores the user's BIP39 mnemonic (encrypted client-side with PRF) and the
+ * wallets derived from it. The server never sees the plaintext mnemonic.
+ *
+ * GET  - Returns the encrypted seed (or null), chain types without a wallet and
+ *        BTC wallets still missing their public key
+ * POST - Stores a new encrypted seed and/or derived wallet addresses
+ */
+
+import { jsonResponse, errorResponse, handleCors, requireAuth, generateId, Env } from '../../_lib/utils';
+import { ensureWalletSeedsTable, ensureWalletPublicKeyColumn, storeWalletAddresses, WALLET_CHAIN_TYPES, WalletAddress } from '../../_lib/wallet-generator';
+
+export async function onRequestGet(context: { request: Request; env: Env }) {
+  const corsResponse = handleCors(context.request);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const authResult = await requireAuth(context.request, context.env.DB);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    await ensureWalletSeedsTable(context.env.DB);
+
+    const seed = await context.env.DB.prepare(
+      'SELECT seed_encrypted FROM wallet_seeds WHERE user_id = ?'
+    ).bind(user.id).first<{ seed_encrypted: string }>();
+
+    await ensureWalletPublicKeyColumn(context.env.DB);
+    const existingWallets = await context.env.DB.prepare(
+      'SELECT chain_type, address, private_key_encrypted, public_key FROM wallet_addresses WHERE user_id = ?'
+    ).bind(user.id).all();
+
+    const existingChainTypes = new Set(existingWallets.results.map((w: any) => w.chain_type));
+    const missingChainTypes = WALLET_CHAIN_TYPES.filter(ct => !existingChainTypes.has(ct));
+
+    // BTC wallets created before SegWit/Taproot addresses and TON wallets created
+    // before wallet contract addresses; the client fills in the public key
+    const walletsWithoutPublicKey = existingWallets.results
+      .filter((w: any) => (w.chain_type === 'btc' || w.chain_type === 'ton') && !w.public_key && w.private_key_encrypted)
+      .map((w: any) => ({
+        chainType: w.chain_type as string,
+        address: w.address as string,
+        privateKeyEncrypted: w.private_key_encrypted as string
+      }));
+
+    return jsonResponse({
+      success: true,
+      data: {
+        seedEncrypted: seed?.seed_encrypted || null,
+        missingChainTypes,
+        walletsWithoutPublicKey
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching wallet seed:', error);
+    return errorResponse('Failed to fetch wallet seed');
+  }
+}
+
+export async function onRequestPost(context: { request: Request; env: Env }) {
+  const corsResponse = handleCors(context.request);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const authResult = await requireAuth(context.request, context.env.DB);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    const { seedEncrypted, walletAddresses } = await context.request.json() as {
+      seedEncrypted?: string;
+      walletAddresses?: WalletAddress[];
+    };
+
+    await ensureWalletSeedsTable(context.env.DB);
+
+    const existingSeed = await context.env.DB.prepare(
+      'SELECT id FROM wallet_seeds WHERE user_id = ?'
+    ).bind(user.id).first();
+
+    if (seedEncrypted) {
+      // A seed is created once; wallets derived from a second seed would be unrecoverable
+      if (existingSeed) {
+        return errorResponse('Wallet seed already exists', 409);
+      }
+      await context.env.DB.prepare(
+        'INSERT INTO wallet_seeds (id, user_id, seed_encrypted) VALUES (?, ?, ?)'
+      ).bind(generateId(), user.id, seedEncrypted).run();
+    } else if (!existingSeed) {
+      return errorResponse('seedEncrypted is required for the first wallet seed', 400);
+    }
+
+    if (walletAddresses && walletAddresses.length > 0) {
+      const invalid = walletAddresses.find(w =>
+        !(WALLET_CHAIN_TYPES as readonly string[]).includes(w.chainType) ||
+        !w.address || !w.privateKeyEncrypted || !w.derivationPath
+      );
+      if (invalid) {
+        return errorResponse('Each wallet needs a valid chainType, address, privateKeyEncrypted and derivationPath', 400);
+      }
+      await storeWalletAddresses(context.env.DB, user.id, walletAddresses);
+    }
+
+    return jsonResponse({
+      success: true,
+      data: { stored: walletAddresses?.length || 0 }
+    });
+  } catch (error) {
+    console.error('Error storing wallet seed:', error);
+    return errorResponse(error instanceof Error ? error.message : 'Failed to store wallet seed');
+  }
+}
+
+export async function onRequestOptions(context: { request: Request }) {
+  return handleCors(context.request);
+}
@@ -0,0 +1,36 @@
+/**
+ * Spending Policies API
+ *
+ * GET - Returns the enabled policies that apply to the current user (their own
+ *       and org-level ones) and how much of each daily limit is already used,
+ *       so the client can refuse a transfer before asking for a signature
+ */
+
+import { jsonResponse, errorResponse, handleCors, requireAuth, Env } from '../../_lib/utils';
+import { getUserPolicies, getDailySpending } from '../../_lib/spending-policies';
+
+export async function onRequestGet(context: { request: Request; env: Env }) {
+  const corsResponse = handleCors(context.request);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const authResult = await requireAuth(context.request, context.env.DB);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    const policies = await getUserPolicies(context.env.DB, user.id);
+    const spentToday = await getDailySpending(context.env.DB, user.id, policies);
+
+    return jsonResponse({
+      success: true,
+      data: { policies, spentToday }
+    });
+  } catch (error) {
+    console.error('Error fetching spending policies:', error);
+    return errorResponse('Failed to fetch spending policies');
+  }
+}
+
+export async function onRequestOptions(context: { request: Request }) {
+  return handleCors(context.request);
+}
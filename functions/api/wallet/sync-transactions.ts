@@ -3,14 +3,18 @@
  *
  * Fetches transaction history for tracked assets from configured RPC endpoints.
  * Only syncs transactions for assets defined in assets/asset_chains tables.
+ * Bitcoin history goes through the endpoint's data provider (JSON-RPC or Esplora),
+ * for every address type of the wallet's public key (or its one stored address),
+ * encoded for testnet when syncing testnet. TON assets with a
+ * contract address are Jettons, read from the wallet's Jetton wallet.
  */
 
-import { jsonResponse, errorResponse, handleCors, requireAuth, recordTransaction, Env } from '../../_lib/utils';
-
-interface WalletAddress {
-  chain_type: string;
-  address: string;
-}
+import { jsonResponse, errorResponse, handleCors, requireAuth, recordTransaction, updateTransactionStatus, Env } from '../../_lib/utils';
+import { ensureRpcProviderTypeColumn } from '../../_lib/rpc-endpoints';
+import { getWalletAddresses } from '../../_lib/wallet-generator';
+import { createBtcProvider, normalizeBtcProviderType, BTCProviderTransaction } from '../../../lib/btcProvider';
+import { getAddressesFromPublicKey as getBtcAddressesFromPublicKey } from '../../../lib/btcAddress';
+import { getJettonTransactionHistory, TonTransactionHistory } from '../../../lib/tonApi';
 
 interface TrackedAsset {
   symbol: string;
@@ -26,6 +30,7 @@ interface RpcEndpoint {
   chain_type: string;
   chain_name: string | null;
   rpc_url: string;
+  provider_type: string | null;
 }
 
 interface SyncResult {
@@ -73,11 +78,9 @@ export async function onRequestPost(context: { request: Request; env: Env }) {
     }
 
     // Get user's wallet addresses
-    const wallets = await context.env.DB.prepare(
-      'SELECT chain_type, address FROM wallet_addresses WHERE user_id = ?'
-    ).bind(user.id).all<WalletAddress>();
+    const wallets = await getWalletAddresses(context.env.DB, user.id);
 
-    if (!wallets.results || wallets.results.length === 0) {
+    if (wallets.length === 0) {
       return jsonResponse({
         success: true,
         data: { message: 'No wallets found', results: [] }
@@ -95,37 +98,46 @@ export async function onRequestPost(context: { request: Request; env: Env }) {
     const trackedAssets = assetsResult.results || [];
 
     // Get RPC endpoints from database
+    await ensureRpcProviderTypeColumn(context.env.DB);
     const rpcResult = await context.env.DB.prepare(
-      `SELECT chain_type, chain_name, rpc_url
+      `SELECT chain_type, chain_name, rpc_url, provider_type
        FROM rpc_endpoints
        WHERE network = ? AND is_enabled = 1
        ORDER BY priority ASC`
     ).bind(network).all<RpcEndpoint>();
 
     // Group RPC endpoints by chain_type and chain_name
-    const rpcByChain: Record<string, string> = {};
+    const rpcByChain: Record<string, RpcEndpoint> = {};
     for (const rpc of rpcResult.results || []) {
       const key = rpc.chain_name ? `${rpc.chain_type}_${rpc.chain_name}` : rpc.chain_type;
       if (!rpcByChain[key]) {
-        rpcByChain[key] = rpc.rpc_url;
+        rpcByChain[key] = rpc;
       }
     }
 
     // Get existing transaction hashes to avoid duplicates
     // Get existing transactions - include asset_symbol to allow same tx_hash for different assets
     const existingTxs = await context.env.DB.prepare(
-      'SELECT tx_hash, asset_symbol FROM transactions WHERE user_id = ? AND tx_hash IS NOT NULL'
-    ).bind(user.id).all<{ tx_hash: string; asset_symbol: string }>();
+      'SELECT id, tx_hash, asset_symbol, status FROM transactions WHERE user_id = ? AND tx_hash IS NOT NULL'
+    ).bind(user.id).all<{ id: string; tx_hash: string; asset_symbol: string; status: string }>();
 
     // Key by tx_hash + asset_symbol to allow same transaction for different assets
     const existingTxKeys = new Set(existingTxs.results?.map(t => `${t.tx_hash.toLowerCase()}_${t.asset_symbol}`) || []);
 
+    // Sends recorded by the wallet before broadcast stay pending until they are seen on chain
+    const pendingTxIds = new Map(
+      (existingTxs.results || [])
+        .filter(t => t.status === 'pending')
+        .map(t => [`${t.tx_hash.toLowerCase()}_${t.asset_symbol}`, t.id])
+    );
+
     const results: SyncResult[] = [];
 
     // Process each tracked asset
     for (const asset of trackedAssets) {
-      const wallet = wallets.results.find(w => w.chain_type === asset.chain_type);
-      if (!wallet) continue;
+      const wallet = wallets.find(w => w.chainType === asset.chain_type);
+      const walletAddress = network === 'testnet' && wallet?.chainType === 'btc' ? wallet.testnetAddress : wallet?.address;
+      if (!walletAddress) continue;
 
       const result: SyncResult = {
         chain: asset.chain,
@@ -137,18 +149,25 @@ export async function onRequestPost(context: { request: Request; env: Env }) {
 
       try {
         const rpcKey = `${asset.chain_type}_${asset.chain}`;
-        const rpcUrl = rpcByChain[rpcKey] || rpcByChain[asset.chain_type];
+        const rpc = rpcByChain[rpcKey] || rpcByChain[asset.chain_type];
 
-        if (!rpcUrl) {
+        if (!rpc) {
           result.errors.push(`No RPC endpoint configured for ${asset.chain}`);
           results.push(result);
           continue;
         }
 
+        // Balances cover every address type of a BTC key, so history does too
+        const ownAddresses = wallet?.chainType === 'btc' && wallet.publicKey
+          ? Object.values(getBtcAddressesFromPublicKey(wallet.publicKey, network))
+          : [walletAddress];
+
         const transactions = await fetchAssetTransactions(
           asset,
-          wallet.address,
-          rpcUrl
+          walletAddress,
+          rpc,
+          network,
+          ownAddresses
         );
 
         result.fetched = transactions.length;
@@ -158,6 +177,11 @@ export async function onRequestPost(context: { request: Request; env: Env }) {
           const txHash = tx.txHash?.toLowerCase();
           const txKey = txHash ? `${txHash}_${tx.assetSymbol}` : null;
           if (txKey && existingTxKeys.has(txKey)) {
+            const pendingId = pendingTxIds.get(txKey);
+            if (pendingId && tx.status !== 'pending') {
+              await updateTransactionStatus(context.env.DB, pendingId, tx.status);
+              pendingTxIds.delete(txKey);
+            }
             continue;
           }
 
@@ -209,9 +233,12 @@ export async function onRequestPost(context: { request: Request; env: Env }) {
 async function fetchAssetTransactions(
   asset: TrackedAsset,
   walletAddress: string,
-  rpcUrl: string
+  rpc: RpcEndpoint,
+  network: 'mainnet' | 'testnet',
+  ownAddresses: string[] = [walletAddress]
 ): Promise<NormalizedTransaction[]> {
   const transactions: NormalizedTransaction[] = [];
+  const rpcUrl = rpc.rpc_url;
 
   switch (asset.chain_type) {
     case 'evm': {
@@ -389,6 +416,19 @@ async function fetchAssetTransactions(
     }
 
     case 'ton': {
+      // Jettons - transfers through the wallet's Jetton wallet for the master contract
+      if (asset.contract_address) {
+        try {
+          const history = await getJettonTransactionHistory(rpcUrl, walletAddress, asset.contract_address);
+          for (const tx of history) {
+            transactions.push(parseJettonTransaction(tx, asset));
+          }
+        } catch (err) {
+          console.error(`Jetton fetch error for ${asset.symbol}:`, err);
+        }
+        break;
+      }
+
       // TON - fetch transactions
       try {
         const response = await fetch(`${rpcUrl}/getTransactions?address=${walletAddress}&limit=20`);
@@ -408,13 +448,17 @@ async function fetchAssetTransactions(
     }
 
     case 'btc': {
-      // Bitcoin - use REST API
+      // Bitcoin - history from the endpoint's data provider
       try {
-        const response = await fetch(`${rpcUrl}/address/${walletAddress}/txs`);
-        if (response.ok) {
-          const txs = await response.json() as any[];
-          for (const tx of txs.slice(0, 20)) {
-            const parsed = parseBtcTransaction(tx, walletAddress, asset);
+        const provider = createBtcProvider(normalizeBtcProviderType(rpc.provider_type), rpcUrl, network);
+        // A transaction touching several of the addresses is listed once, netted across all of them
+        const seen = new Set<string>();
+        for (const address of ownAddresses) {
+          const txs = await provider.getTransactions(address, 20);
+          for (const tx of txs) {
+            if (seen.has(tx.txid)) continue;
+            seen.add(tx.txid);
+            const parsed = parseBtcTransaction(tx, ownAddresses, asset);
             if (parsed) transactions.push(parsed);
           }
         }
@@ -461,25 +505,28 @@ function parseSolTransaction(tx: any, walletAddress: string, sig: any, asset: Tr
       const preTokenBalances = tx.meta?.preTokenBalances || [];
       const postTokenBalances = tx.meta?.postTokenBalances || [];
 
-      // Find token balance changes for this mint owned by this wallet
-      const findTokenBalance = (balances: any[]) => {
+      // Sum this wallet's accounts for the mint in raw units. Token-2022
+      // balances use the same fields; uiAmount can be null for them, and
+      // a transfer fee withheld on receipt is already left out of amount.
+      const sumTokenBalance = (balances: any[]) => {
+        let total = 0n;
         for (const bal of balances) {
           if (bal.mint === asset.contract_address && bal.owner === walletAddress) {
-            return bal.uiTokenAmount?.uiAmount || 0;
+            total += BigInt(bal.uiTokenAmount?.amount || '0');
           }
         }
-        return 0;
+        return total;
       };
 
-      const preBal = findTokenBalance(preTokenBalances);
-      const postBal = findTokenBalance(postTokenBalances);
+      const preBal = sumTokenBalance(preTokenBalances);
+      const postBal = sumTokenBalance(postTokenBalances);
       const balanceChange = postBal - preBal;
 
       // Skip if no change for this token
-      if (balanceChange === 0) return null;
+      if (balanceChange === 0n) return null;
 
-      const type: 'send' | 'receive' = balanceChange > 0 ? 'receive' : 'send';
-      const amount = Math.abs(balanceChange);
+      const type: 'send' | 'receive' = balanceChange > 0n ? 'receive' : 'send';
+      const amount = Number(balanceChange > 0n ? balanceChange : -balanceChange) / Math.pow(10, asset.decimals);
 
       return {
         txHash: sig.signature,
@@ -623,7 +670,24 @@ function parseTonTransaction(tx: any, walletAddress: string, asset: TrackedAsset
   }
 }
 
-function parseBtcTransaction(tx: any, walletAddress: string, asset: TrackedAsset): NormalizedTransaction | null {
+function parseJettonTransaction(tx: TonTransactionHistory, asset: TrackedAsset): NormalizedTransaction {
+  return {
+    txHash: tx.hash,
+    type: tx.type,
+    status: tx.status,
+    assetSymbol: asset.symbol,
+    chain: asset.chain,
+    amount: (Number(tx.amount) / Math.pow(10, asset.decimals)).toFixed(asset.decimals),
+    from: tx.from,
+    to: tx.to,
+    description: tx.message || undefined,
+    blockTimestamp: tx.timestamp,
+    fee: (Number(tx.fee) / 1e9).toFixed(9),
+    feeAsset: 'TON'
+  };
+}
+
+function parseBtcTransaction(tx: BTCProviderTransaction, ownAddresses: string[], asset: TrackedAsset): NormalizedTransaction | null {
   try {
     let received = 0;
     let sent = 0;
@@ -634,7 +698,7 @@ function parseBtcTransaction(tx: any, walletAddress: string, asset: TrackedAsset
       const prevAddr = vin.prevout?.scriptpubkey_address;
       if (prevAddr) {
         fromAddresses.push(prevAddr);
-        if (prevAddr === walletAddress) {
+        if (ownAddresses.includes(prevAddr)) {
           sent += vin.prevout?.value || 0;
         }
       }
@@ -644,7 +708,7 @@ function parseBtcTransaction(tx: any, walletAddress: string, asset: TrackedAsset
       const outAddr = vout.scriptpubkey_address;
       if (outAddr) {
         toAddresses.push(outAddr);
-        if (outAddr === walletAddress) {
+        if (ownAddresses.includes(outAddr)) {
           received += vout.value || 0;
         }
       }
@@ -674,7 +738,7 @@ function parseBtcTransaction(tx: any, walletAddress: string, asset: TrackedAsset
       chain: asset.chain,
       amount: (amount / Math.pow(10, asset.decimals)).toFixed(asset.decimals),
       from: fromAddresses[0] || 'unknown',
-      to: toAddresses.find(a => a !== walletAddress) || toAddresses[0] || 'unknown',
+      to: toAddresses.find(a => !ownAddresses.includes(a)) || toAddresses[0] || 'unknown',
       blockNumber: tx.status?.block_height,
       blockTimestamp: tx.status?.block_time,
       fee: (fee / Math.pow(10, asset.decimals)).toFixed(asset.decimals),
@@ -0,0 +1,40 @@
+import { jsonResponse, errorResponse, handleCors, requireAuth, Env } from '../../_lib/utils';
+import { lookupTokenMetadata } from '../../_lib/token-metadata';
+
+// GET - Read a token contract's symbol, name and decimals for the Add Asset form
+export async function onRequestGet(context: { request: Request; env: Env }) {
+  const corsResponse = handleCors(context.request);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const authResult = await requireAuth(context.request, context.env.DB);
+    if (authResult instanceof Response) return authResult;
+
+    const url = new URL(context.request.url);
+    const chain = url.searchParams.get('chain');
+    const chainType = url.searchParams.get('chainType');
+    const contractAddress = url.searchParams.get('contractAddress')?.trim();
+    const network = url.searchParams.get('network') === 'testnet' ? 'testnet' : 'mainnet';
+
+    if (!chain || !chainType || !contractAddress) {
+      return errorResponse('chain, chainType, and contractAddress are required', 400);
+    }
+
+    const result = await lookupTokenMetadata(context.env.DB, chain, chainType, contractAddress, network);
+    if (!result.ok) {
+      return errorResponse(result.error, result.notFound ? 400 : 502);
+    }
+
+    return jsonResponse({
+      success: true,
+      data: result.metadata
+    });
+  } catch (error) {
+    console.error('Error looking up token metadata:', error);
+    return errorResponse('Failed to look up token metadata');
+  }
+}
+
+export async function onRequestOptions(context: { request: Request }) {
+  return handleCors(context.request);
+}
@@ -1,4 +1,6 @@
-import { jsonResponse, errorResponse, handleCors, requireAuth, Env } from '../../_lib/utils';
+import { jsonResponse, errorResponse, handleCors, requireAuth, updateTransactionStatus, Env } from '../../_lib/utils';
+import { getUserPolicies, getDailySpending } from '../../_lib/spending-policies';
+import { evaluateSpend } from '../../../lib/spendingPolicy';
 
 interface TransactionRow {
   id: string;
@@ -143,6 +145,23 @@ export async function onRequestPost(context: { request: Request; env: Env }) {
       return errorResponse('Missing required fields: txType, assetSymbol, chain, chainType, amount', 400);
     }
 
+    // Outgoing transfers are recorded before signing so spending policies can refuse them
+    if (body.txType === 'send') {
+      const policies = await getUserPolicies(context.env.DB, user.id);
+      if (policies.length > 0) {
+        const decision = evaluateSpend(policies, {
+          chainType: body.chainType,
+          assetSymbol: body.assetSymbol,
+          amount: body.amount,
+          toAddress: body.toAddress,
+          selector: typeof body.metadata?.selector === 'string' ? body.metadata.selector : undefined
+        }, await getDailySpending(context.env.DB, user.id, policies));
+        if (!decision.allowed) {
+          return jsonResponse({ success: false, error: decision.reason, policyId: decision.policyId }, 403);
+        }
+      }
+    }
+
     const id = crypto.randomUUID();
     const now = new Date().toISOString();
 
@@ -185,6 +204,84 @@ export async function onRequestPost(context: { request: Request; env: Env }) {
   }
 }
 
+// PUT - Update the status, hash and fee of a recorded transaction (e.g. after broadcast).
+// Failed and replaced sends leave the daily limit, so those changes are restricted: a send
+// with a hash is settled by the sync, a replacement must already be recorded, and a
+// confirmed send stays confirmed.
+export async function onRequestPut(context: { request: Request; env: Env }) {
+  const corsResponse = handleCors(context.request);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const authResult = await requireAuth(context.request, context.env.DB);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    const url = new URL(context.request.url);
+    const id = url.searchParams.get('id');
+    if (!id) {
+      return errorResponse('Transaction ID required', 400);
+    }
+
+    const body = await context.request.json() as {
+      status: 'pending' | 'confirmed' | 'failed' | 'replaced';
+      txHash?: string;
+      fee?: string;
+      feeAsset?: string;
+      replacedBy?: string;  // id of the recorded send that replaces this one
+    };
+
+    // replaced: a Bitcoin send superseded by a fee bump (BIP125) that is recorded separately
+    if (!['pending', 'confirmed', 'failed', 'replaced'].includes(body.status)) {
+      return errorResponse('status must be pending, confirmed, failed or replaced', 400);
+    }
+
+    const existing = await context.env.DB.prepare(
+      'SELECT id, tx_hash, status FROM transactions WHERE id = ? AND user_id = ?'
+    ).bind(id, user.id).first<{ id: string; tx_hash: string | null; status: string }>();
+
+    if (!existing) {
+      return errorResponse('Transaction not found', 404);
+    }
+
+    if (existing.status === 'confirmed' && body.status !== 'confirmed') {
+      return errorResponse('A confirmed transaction cannot change status', 409);
+    }
+    if (body.status === 'failed' && (existing.tx_hash || body.txHash)) {
+      return errorResponse('A broadcast transaction is marked failed by the sync, not the wallet', 409);
+    }
+    if (body.status === 'replaced') {
+      if (!body.replacedBy || !existing.tx_hash) {
+        return errorResponse('replacedBy is required to mark a broadcast transaction replaced', 400);
+      }
+      const replacement = await context.env.DB.prepare(
+        'SELECT metadata FROM transactions WHERE id = ? AND user_id = ? AND id != ?'
+      ).bind(body.replacedBy, user.id, id).first<{ metadata: string | null }>();
+      const replaces = replacement?.metadata ? JSON.parse(replacement.metadata).replaces : null;
+      if (!replacement || replaces !== existing.tx_hash) {
+        return errorResponse('Replacing transaction not found', 404);
+      }
+    }
+
+    await updateTransactionStatus(context.env.DB, id, body.status, body.txHash);
+
+    // Fees known only once signed, such as rent for a Solana token account the send created
+    if (body.fee) {
+      await context.env.DB.prepare(
+        'UPDATE transactions SET fee = ?, fee_asset = ? WHERE id = ?'
+      ).bind(body.fee, body.feeAsset || null, id).run();
+    }
+
+    return jsonResponse({
+      success: true,
+      data: { id }
+    });
+  } catch (error) {
+    console.error('Error updating transaction:', error);
+    return errorResponse('Failed to update transaction');
+  }
+}
+
 export async function onRequestOptions(context: { request: Request }) {
   return handleCors(context.request);
 }
@@ -1,4 +1,6 @@
 import { getSpliceClientForUser, jsonResponse, errorResponse, handleCors, requireAuth, recordTransaction, Env } from '../../_lib/utils';
+import { getUserPolicies, getDailySpending } from '../../_lib/spending-policies';
+import { evaluateSpend } from '../../../lib/spendingPolicy';
 
 export async function onRequestPost(context: { request: Request; env: Env }) {
   const corsResponse = handleCors(context.request);
@@ -15,6 +17,19 @@ export async function onRequestPost(context: { request: Request; env: Env }) {
       return errorResponse('Missing required fields: to, amount', 400);
     }
 
+    const policies = await getUserPolicies(context.env.DB, user.id);
+    if (policies.length > 0) {
+      const decision = evaluateSpend(policies, {
+        chainType: 'canton',
+        assetSymbol: 'CC',
+        amount: amount.toString(),
+        toAddress: to
+      }, await getDailySpending(context.env.DB, user.id, policies));
+      if (!decision.allowed) {
+        return jsonResponse({ success: false, error: decision.reason, policyId: decision.policyId }, 403);
+      }
+    }
+
     const senderClient = getSpliceClientForUser(context.env, user.username);
 
     console.log(`Creating transfer offer from ${user.username} to ${to} for ${amount} CC`);
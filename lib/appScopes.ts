@@ -0,0 +1,28 @@
+/**
+ * App Scopes
+ *
+ * Permission scopes an embedded dock app can request on connect. The user
+ * grants them in the wallet, WalletBridge enforces them and
+ * /api/wallet/app-permissions stores them.
+ */
+
+export const APP_SCOPES = [
+  'read_addresses',
+  'read_balances',
+  'canton_read',
+  'canton_act_as',
+  'sign_evm',
+  'sign_solana',
+  'sign_bitcoin',
+  'sign_tron',
+  'sign_ton',
+  'sign_message',
+  'grant_rights',
+  'chat_agent',
+] as const;
+
+export type AppScope = typeof APP_SCOPES[number];
+
+export function isAppScope(scope: string): scope is AppScope {
+  return (APP_SCOPES as readonly string[]).includes(scope);
+}
@@ -0,0 +1,338 @@
+/**
+ * Bitcoin Addresses
+ *
+ * Address encoding (base58check, bech32 and bech32m) for the P2PKH, P2WPKH and
+ * P2TR outputs of a key, and conversion between addresses and output scripts.
+ * Shared by the wallet's signer (src/btcSigner) and the Functions, so it only
+ * depends on the noble libraries.
+ */
+
+import { schnorr } from '@noble/curves/secp256k1.js';
+import { bytesToNumberBE } from '@noble/curves/utils.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { ripemd160 } from '@noble/hashes/legacy.js';
+import { concatBytes, hexToBytes } from '@noble/hashes/utils.js';
+
+export type BTCNetwork = 'mainnet' | 'testnet';
+
+// Output types the wallet can spend from, all derived from the same key
+export type BTCAddressType = 'p2pkh' | 'p2wpkh' | 'p2tr';
+
+// Base58 alphabet
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+function base58Encode(bytes: Uint8Array): string {
+  const digits = [0];
+  for (let i = 0; i < bytes.length; i++) {
+    let carry = bytes[i];
+    for (let j = 0; j < digits.length; j++) {
+      carry += digits[j] << 8;
+      digits[j] = carry % 58;
+      carry = (carry / 58) | 0;
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = (carry / 58) | 0;
+    }
+  }
+  let result = '';
+  for (let i = 0; i < bytes.length && bytes[i] === 0; i++) {
+    result += '1';
+  }
+  for (let i = digits.length - 1; i >= 0; i--) {
+    result += BASE58_ALPHABET[digits[i]];
+  }
+  return result;
+}
+
+function base58Decode(str: string): Uint8Array {
+  const bytes: number[] = [];
+  for (let i = 0; i < str.length; i++) {
+    const value = BASE58_ALPHABET.indexOf(str[i]);
+    if (value < 0) throw new Error('Invalid base58 character');
+
+    let carry = value;
+    for (let j = 0; j < bytes.length; j++) {
+      carry += bytes[j] * 58;
+      bytes[j] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+  // Add leading zeros
+  for (let i = 0; i < str.length && str[i] === '1'; i++) {
+    bytes.push(0);
+  }
+  return new Uint8Array(bytes.reverse());
+}
+
+// Double SHA256
+export function hash256(data: Uint8Array): Uint8Array {
+  return sha256(sha256(data));
+}
+
+// HASH160 = RIPEMD160(SHA256(data))
+export function hash160(data: Uint8Array): Uint8Array {
+  return ripemd160(sha256(data));
+}
+
+// Bech32 (BIP173) and bech32m (BIP350) checksums; witness v0 uses bech32, v1+ uses bech32m
+const BECH32_ALPHABET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const BECH32_CONST = 1;
+const BECH32M_CONST = 0x2bc830a3;
+
+function bech32Polymod(values: number[]): number {
+  const generator = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+  let chk = 1;
+  for (const value of values) {
+    const top = chk >>> 25;
+    chk = ((chk & 0x1ffffff) << 5) ^ value;
+    for (let i = 0; i < 5; i++) {
+      if ((top >>> i) & 1) chk ^= generator[i];
+    }
+  }
+  return chk >>> 0;
+}
+
+function bech32HrpExpand(hrp: string): number[] {
+  const high = Array.from(hrp, c => c.charCodeAt(0) >> 5);
+  const low = Array.from(hrp, c => c.charCodeAt(0) & 31);
+  return [...high, 0, ...low];
+}
+
+// Regroup bits, e.g. 8-bit bytes into 5-bit bech32 words and back
+function convertBits(data: ArrayLike<number>, fromBits: number, toBits: number, pad: boolean): number[] {
+  let acc = 0;
+  let bits = 0;
+  const result: number[] = [];
+  const maxValue = (1 << toBits) - 1;
+  for (let i = 0; i < data.length; i++) {
+    acc = (acc << fromBits) | data[i];
+    bits += fromBits;
+    while (bits >= toBits) {
+      bits -= toBits;
+      result.push((acc >> bits) & maxValue);
+    }
+  }
+  if (pad) {
+    if (bits > 0) result.push((acc << (toBits - bits)) & maxValue);
+  } else if (bits >= fromBits || ((acc << (toBits - bits)) & maxValue)) {
+    throw new Error('Invalid bech32 padding');
+  }
+  return result;
+}
+
+function encodeSegwitAddress(hrp: string, version: number, program: Uint8Array): string {
+  const data = [version, ...convertBits(program, 8, 5, true)];
+  const polymod = bech32Polymod([...bech32HrpExpand(hrp), ...data, 0, 0, 0, 0, 0, 0]) ^ (version === 0 ? BECH32_CONST : BECH32M_CONST);
+  const checksum = [0, 1, 2, 3, 4, 5].map(i => (polymod >>> (5 * (5 - i))) & 31);
+  return hrp + '1' + [...data, ...checksum].map(d => BECH32_ALPHABET[d]).join('');
+}
+
+function decodeSegwitAddress(address: string): { hrp: string; version: number; program: Uint8Array } {
+  if (address !== address.toLowerCase() && address !== address.toUpperCase()) {
+    throw new Error('Mixed-case bech32 address');
+  }
+  const lower = address.toLowerCase();
+  const separator = lower.lastIndexOf('1');
+  if (separator < 1 || separator + 7 > lower.length || lower.length > 90) {
+    throw new Error('Invalid bech32 address');
+  }
+
+  const hrp = lower.slice(0, separator);
+  const data = Array.from(lower.slice(separator + 1), c => {
+    const value = BECH32_ALPHABET.indexOf(c);
+    if (value < 0) throw new Error('Invalid bech32 character');
+    return value;
+  });
+
+  const version = data[0];
+  const expected = version === 0 ? BECH32_CONST : BECH32M_CONST;
+  if (version > 16 || bech32Polymod([...bech32HrpExpand(hrp), ...data]) !== expected) {
+    throw new Error('Invalid bech32 address checksum');
+  }
+
+  const program = new Uint8Array(convertBits(data.slice(1, -6), 5, 8, false));
+  if (program.length < 2 || program.length > 40 || (version === 0 && program.length !== 20 && program.length !== 32)) {
+    throw new Error('Invalid witness program length');
+  }
+  return { hrp, version, program };
+}
+
+function bech32Hrp(network: BTCNetwork): string {
+  return network === 'mainnet' ? 'bc' : 'tb';
+}
+
+// BIP341 key-path tweak: Q = P + H_TapTweak(P)G, with P the even-y internal key
+export function taprootTweak(publicKey: Uint8Array): bigint {
+  const tweak = bytesToNumberBE(schnorr.utils.taggedHash('TapTweak', publicKey.slice(1, 33)));
+  if (tweak >= schnorr.Point.Fn.ORDER) {
+    throw new Error('Invalid taproot tweak');
+  }
+  return tweak;
+}
+
+// x-only Taproot output key for a compressed public key (no script tree)
+export function getTaprootOutputKey(publicKey: Uint8Array): Uint8Array {
+  const internalKey = schnorr.utils.lift_x(bytesToNumberBE(publicKey.slice(1, 33)));
+  const outputKey = internalKey.add(schnorr.Point.BASE.multiply(taprootTweak(publicKey)));
+  return schnorr.utils.pointToBytes(outputKey);
+}
+
+// Get Bitcoin address from a compressed public key (P2PKH unless another type is requested)
+export function getAddressFromPublicKey(
+  publicKey: Uint8Array,
+  network: BTCNetwork = 'mainnet',
+  addressType: BTCAddressType = 'p2pkh'
+): string {
+  if (addressType === 'p2wpkh') {
+    return encodeSegwitAddress(bech32Hrp(network), 0, hash160(publicKey));
+  }
+  if (addressType === 'p2tr') {
+    return encodeSegwitAddress(bech32Hrp(network), 1, getTaprootOutputKey(publicKey));
+  }
+
+  const pubKeyHash = hash160(publicKey);
+  const version = network === 'mainnet' ? 0x00 : 0x6f; // 0x00 for mainnet, 0x6f for testnet
+
+  const versionedPayload = new Uint8Array(21);
+  versionedPayload[0] = version;
+  versionedPayload.set(pubKeyHash, 1);
+
+  const checksum = hash256(versionedPayload).slice(0, 4);
+
+  const fullAddress = new Uint8Array(25);
+  fullAddress.set(versionedPayload);
+  fullAddress.set(checksum, 21);
+
+  return base58Encode(fullAddress);
+}
+
+// Get every address type for a compressed public key (hex or bytes)
+export function getAddressesFromPublicKey(
+  publicKey: Uint8Array | string,
+  network: BTCNetwork = 'mainnet'
+): Record<BTCAddressType, string> {
+  const keyBytes = typeof publicKey === 'string' ? hexToBytes(publicKey) : publicKey;
+  return {
+    p2pkh: getAddressFromPublicKey(keyBytes, network, 'p2pkh'),
+    p2wpkh: getAddressFromPublicKey(keyBytes, network, 'p2wpkh'),
+    p2tr: getAddressFromPublicKey(keyBytes, network, 'p2tr')
+  };
+}
+
+// Decode a base58check address to its version byte and hash
+function decodeBase58Address(address: string): { version: number; hash: Uint8Array } {
+  const decoded = base58Decode(address);
+  if (decoded.length !== 25) {
+    throw new Error('Invalid address length');
+  }
+
+  const version = decoded[0];
+  const hash = decoded.slice(1, 21);
+  const checksum = decoded.slice(21);
+
+  // Verify checksum
+  const expectedChecksum = hash256(decoded.slice(0, 21)).slice(0, 4);
+  for (let i = 0; i < 4; i++) {
+    if (checksum[i] !== expectedChecksum[i]) {
+      throw new Error('Invalid address checksum');
+    }
+  }
+
+  return { version, hash };
+}
+
+// Get the scriptPubKey an address pays to (P2PKH, P2SH or any witness version)
+export function addressToScriptPubKey(address: string): Uint8Array {
+  if (/^(bc|tb|bcrt)1/i.test(address)) {
+    const { version, program } = decodeSegwitAddress(address);
+    const script = new Uint8Array(2 + program.length);
+    script[0] = version === 0 ? 0x00 : 0x50 + version; // OP_0 or OP_1..OP_16
+    script[1] = program.length;
+    script.set(program, 2);
+    return script;
+  }
+
+  const { version, hash } = decodeBase58Address(address);
+  if (version === 0x00 || version === 0x6f) {
+    return createP2PKHScriptPubKey(hash);
+  }
+  if (version === 0x05 || version === 0xc4) {
+    // OP_HASH160 <scriptHash> OP_EQUAL
+    const script = new Uint8Array(23);
+    script[0] = 0xa9;
+    script[1] = 0x14;
+    script.set(hash, 2);
+    script[22] = 0x87;
+    return script;
+  }
+  throw new Error('Unsupported address version');
+}
+
+// Address an output script pays to, or null for scripts without one (e.g. OP_RETURN)
+export function scriptPubKeyToAddress(script: Uint8Array, network: BTCNetwork = 'mainnet'): string | null {
+  const base58Check = (version: number, hash: Uint8Array) => {
+    const payload = concatBytes(new Uint8Array([version]), hash);
+    return base58Encode(concatBytes(payload, hash256(payload).slice(0, 4)));
+  };
+
+  if (script.length === 25 && script[0] === 0x76 && script[1] === 0xa9 && script[2] === 0x14 &&
+      script[23] === 0x88 && script[24] === 0xac) {
+    return base58Check(network === 'mainnet' ? 0x00 : 0x6f, script.slice(3, 23));
+  }
+  if (script.length === 23 && script[0] === 0xa9 && script[1] === 0x14 && script[22] === 0x87) {
+    return base58Check(network === 'mainnet' ? 0x05 : 0xc4, script.slice(2, 22));
+  }
+
+  // Witness program: OP_0..OP_16 followed by a single 2-40 byte push
+  const version = script[0] === 0x00 ? 0 : script[0] >= 0x51 && script[0] <= 0x60 ? script[0] - 0x50 : -1;
+  if (version < 0 || script.length < 4 || script[1] !== script.length - 2 || script[1] > 40) {
+    return null;
+  }
+  if (version === 0 && script[1] !== 20 && script[1] !== 32) {
+    return null;
+  }
+  return encodeSegwitAddress(bech32Hrp(network), version, script.slice(2));
+}
+
+// Network an address is encoded for (null for invalid or regtest addresses)
+export function getAddressNetwork(address: string): BTCNetwork | null {
+  try {
+    if (/^(bc|tb)1/i.test(address)) {
+      const { hrp } = decodeSegwitAddress(address);
+      return hrp === 'bc' ? 'mainnet' : hrp === 'tb' ? 'testnet' : null;
+    }
+    const { version } = decodeBase58Address(address);
+    if (version === 0x00 || version === 0x05) return 'mainnet';
+    if (version === 0x6f || version === 0xc4) return 'testnet';
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+// The same output script encoded for another network (e.g. bc1q… to tb1q…, 1… to m…/n…)
+export function convertAddressNetwork(address: string, network: BTCNetwork): string {
+  const converted = scriptPubKeyToAddress(addressToScriptPubKey(address), network);
+  if (!converted) {
+    throw new Error(`Invalid Bitcoin address: ${address}`);
+  }
+  return converted;
+}
+
+// Create P2PKH scriptPubKey
+export function createP2PKHScriptPubKey(pubKeyHash: Uint8Array): Uint8Array {
+  // OP_DUP OP_HASH160 <pubKeyHash> OP_EQUALVERIFY OP_CHECKSIG
+  const script = new Uint8Array(25);
+  script[0] = 0x76; // OP_DUP
+  script[1] = 0xa9; // OP_HASH160
+  script[2] = 0x14; // Push 20 bytes
+  script.set(pubKeyHash, 3);
+  script[23] = 0x88; // OP_EQUALVERIFY
+  script[24] = 0xac; // OP_CHECKSIG
+  return script;
+}
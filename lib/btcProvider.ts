@@ -0,0 +1,272 @@
+/**
+ * Bitcoin Data Providers
+ *
+ * UTXOs, address history, transaction status, fee estimates and broadcast for
+ * Bitcoin go through a provider chosen per rpc_endpoints row (provider_type):
+ * - jsonrpc: a Bitcoin Core node (scantxoutset, estimatesmartfee, sendrawtransaction)
+ * - esplora: an Esplora REST API (Blockstream, mempool.space or self-hosted)
+ *
+ * Used by btcSigner in the wallet and by /api/wallet/sync-transactions, so it
+ * only depends on fetch.
+ */
+
+import type { BTCNetwork } from './btcAddress';
+
+export type BTCProviderType = 'jsonrpc' | 'esplora';
+
+export const BTC_PROVIDER_TYPES: BTCProviderType[] = ['jsonrpc', 'esplora'];
+
+export const BTC_PROVIDER_TYPE_LABELS: Record<BTCProviderType, string> = {
+  jsonrpc: 'Bitcoin Core JSON-RPC',
+  esplora: 'Esplora REST'
+};
+
+// Public Esplora instances; Bitcoin Core has no address index, so JSON-RPC providers read history here
+const PUBLIC_ESPLORA_URLS: Record<BTCNetwork, string> = {
+  mainnet: 'https://blockstream.info/api',
+  testnet: 'https://blockstream.info/testnet/api'
+};
+
+export interface UTXO {
+  txid: string;
+  vout: number;
+  value: number; // in satoshis
+  scriptPubKey?: string;
+}
+
+/**
+ * Transaction in Esplora's format, which is also what history is normalized to
+ */
+export interface BTCProviderTransaction {
+  txid: string;
+  fee?: number; // in satoshis
+  weight?: number;
+  status?: {
+    confirmed: boolean;
+    block_height?: number;
+    block_time?: number;
+  };
+  vin: Array<{
+    txid: string;
+    vout: number;
+    sequence?: number;
+    prevout?: { scriptpubkey?: string; scriptpubkey_address?: string; value: number } | null;
+  }>;
+  vout: Array<{ scriptpubkey?: string; scriptpubkey_address?: string; value: number }>;
+}
+
+export interface BTCTransactionStatus {
+  confirmed: boolean;
+  blockHeight: number | null;
+  blockTime: number | null;
+}
+
+export interface BTCDataProvider {
+  type: BTCProviderType;
+  getUTXOs(address: string): Promise<UTXO[]>;
+  // Most recent first, including unconfirmed transactions
+  getTransactions(address: string, limit?: number): Promise<BTCProviderTransaction[]>;
+  // With spent outputs (prevout) filled in; null when the provider does not know the transaction
+  getTransaction(txid: string): Promise<BTCProviderTransaction | null>;
+  // null when the provider does not know the transaction (never broadcast, or dropped)
+  getTransactionStatus(txid: string): Promise<BTCTransactionStatus | null>;
+  // sat/vB for confirmation within `targetBlocks`, or null without an estimate
+  estimateFeeRate(targetBlocks: number): Promise<number | null>;
+  // Returns the txid
+  broadcastTransaction(rawTx: string): Promise<string>;
+}
+
+// Rows created before provider types, or with an unknown value, are JSON-RPC
+export function normalizeBtcProviderType(value: string | null | undefined): BTCProviderType {
+  return value === 'esplora' ? 'esplora' : 'jsonrpc';
+}
+
+export function createBtcProvider(type: BTCProviderType, url: string, network: BTCNetwork = 'mainnet'): BTCDataProvider {
+  if (!url) {
+    throw new Error(`No Bitcoin ${network} endpoint configured`);
+  }
+  return type === 'esplora' ? createEsploraProvider(url) : createJsonRpcProvider(url, network);
+}
+
+// ============================================================================
+// Esplora REST
+// ============================================================================
+
+function createEsploraProvider(baseUrl: string): BTCDataProvider {
+  const base = baseUrl.replace(/\/+$/, '');
+
+  async function get(path: string): Promise<Response> {
+    const response = await fetch(`${base}${path}`);
+    if (!response.ok) {
+      throw new Error(`Esplora ${path} failed (${response.status}): ${await response.text()}`);
+    }
+    return response;
+  }
+
+  return {
+    type: 'esplora',
+
+    async getUTXOs(address) {
+      const response = await get(`/address/${address}/utxo`);
+      const utxos = await response.json() as Array<{ txid: string; vout: number; value: number }>;
+      return utxos.map(utxo => ({ txid: utxo.txid, vout: utxo.vout, value: utxo.value }));
+    },
+
+    async getTransactions(address, limit = 25) {
+      const response = await get(`/address/${address}/txs`);
+      const txs = await response.json() as BTCProviderTransaction[];
+      return txs.slice(0, limit);
+    },
+
+    async getTransaction(txid) {
+      const response = await fetch(`${base}/tx/${txid}`);
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`Esplora /tx/${txid} failed (${response.status})`);
+      }
+      return await response.json() as BTCProviderTransaction;
+    },
+
+    async getTransactionStatus(txid) {
+      const response = await fetch(`${base}/tx/${txid}/status`);
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`Esplora /tx/${txid}/status failed (${response.status})`);
+      }
+      const status = await response.json() as { confirmed: boolean; block_height?: number; block_time?: number };
+      return {
+        confirmed: status.confirmed,
+        blockHeight: status.block_height ?? null,
+        blockTime: status.block_time ?? null
+      };
+    },
+
+    async estimateFeeRate(targetBlocks) {
+      // { "<blocks>": sat/vB } for 1-25, 144, 504 and 1008 blocks
+      const response = await get('/fee-estimates');
+      const estimates = await response.json() as Record<string, number>;
+      const targets = Object.keys(estimates).map(Number).filter(t => t <= targetBlocks).sort((a, b) => b - a);
+      if (targets.length === 0) return null;
+      return estimates[String(targets[0])];
+    },
+
+    async broadcastTransaction(rawTx) {
+      const response = await fetch(`${base}/tx`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/plain' },
+        body: rawTx
+      });
+      const text = await response.text();
+      if (!response.ok) {
+        throw new Error(text || `Broadcast failed (${response.status})`);
+      }
+      return text.trim();
+    }
+  };
+}
+
+// ============================================================================
+// Bitcoin Core JSON-RPC
+// ============================================================================
+
+function createJsonRpcProvider(rpcUrl: string, network: BTCNetwork): BTCDataProvider {
+  async function rpcCall(method: string, params: any[]): Promise<any> {
+    const response = await fetch(rpcUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        jsonrpc: '1.0',
+        id: Date.now(),
+        method,
+        params
+      })
+    });
+
+    const result = await response.json() as { result?: any; error?: { message: string } | null };
+    if (result.error) {
+      throw new Error(result.error.message);
+    }
+    return result.result;
+  }
+
+  return {
+    type: 'jsonrpc',
+
+    async getUTXOs(address) {
+      const result = await rpcCall('scantxoutset', ['start', [`addr(${address})`]]);
+      return (result?.unspents || []).map((utxo: any) => ({
+        txid: utxo.txid,
+        vout: utxo.vout,
+        value: Math.round(utxo.amount * 100000000), // BTC to satoshis
+        scriptPubKey: utxo.scriptPubKey
+      }));
+    },
+
+    async getTransactions(address, limit) {
+      return createEsploraProvider(PUBLIC_ESPLORA_URLS[network]).getTransactions(address, limit);
+    },
+
+    async getTransaction(txid) {
+      // Verbosity 2 adds the spent outputs and the fee (Bitcoin Core 25+)
+      let tx: any;
+      try {
+        tx = await rpcCall('getrawtransaction', [txid, 2]);
+      } catch (err) {
+        if (err instanceof Error && err.message.includes('No such')) return null;
+        throw err;
+      }
+      const toSats = (btc: number) => Math.round(btc * 100000000);
+      const height = tx.blockhash && tx.confirmations
+        ? (await rpcCall('getblockheader', [tx.blockhash]) as { height: number }).height
+        : undefined;
+
+      return {
+        txid: tx.txid,
+        fee: tx.fee !== undefined ? toSats(tx.fee) : undefined,
+        weight: tx.weight,
+        status: { confirmed: height !== undefined, block_height: height, block_time: tx.blocktime },
+        vin: (tx.vin || []).map((input: any) => ({
+          txid: input.txid,
+          vout: input.vout,
+          sequence: input.sequence,
+          prevout: input.prevout ? {
+            scriptpubkey: input.prevout.scriptPubKey?.hex,
+            scriptpubkey_address: input.prevout.scriptPubKey?.address,
+            value: toSats(input.prevout.value)
+          } : null
+        })),
+        vout: (tx.vout || []).map((output: any) => ({
+          scriptpubkey: output.scriptPubKey?.hex,
+          scriptpubkey_address: output.scriptPubKey?.address,
+          value: toSats(output.value)
+        }))
+      };
+    },
+
+    async getTransactionStatus(txid) {
+      let tx: { confirmations?: number; blockhash?: string; blocktime?: number };
+      try {
+        tx = await rpcCall('getrawtransaction', [txid, true]);
+      } catch (err) {
+        if (err instanceof Error && err.message.includes('No such')) return null;
+        throw err;
+      }
+      if (!tx.blockhash || !tx.confirmations) {
+        return { confirmed: false, blockHeight: null, blockTime: null };
+      }
+      const header = await rpcCall('getblockheader', [tx.blockhash]) as { height: number };
+      return { confirmed: true, blockHeight: header.height, blockTime: tx.blocktime ?? null };
+    },
+
+    async estimateFeeRate(targetBlocks) {
+      const result = await rpcCall('estimatesmartfee', [targetBlocks]) as { feerate?: number; errors?: string[] };
+      if (!result?.feerate || result.feerate <= 0) return null;
+      // BTC/kvB to sat/vB
+      return result.feerate * 100000000 / 1000;
+    },
+
+    async broadcastTransaction(rawTx) {
+      return await rpcCall('sendrawtransaction', [rawTx]);
+    }
+  };
+}
@@ -0,0 +1,30 @@
+/**
+ * EVM ABI Decoding
+ *
+ * Decoding of eth_call results shared by the wallet's signer (src/evmSigner)
+ * and the token metadata lookups in the Functions.
+ */
+
+import { hexToBytes } from '@noble/hashes/utils.js';
+
+/**
+ * Decode a symbol() or name() result, which is an ABI string or, for older tokens, a bytes32
+ */
+export function decodeAbiString(result: string): string | null {
+  const hex = result.startsWith('0x') ? result.slice(2) : result;
+  let bytesHex: string;
+  if (hex.length === 64) {
+    bytesHex = hex.replace(/(00)+$/, '');
+  } else if (hex.length >= 128) {
+    const offset = Number(BigInt('0x' + hex.slice(0, 64))) * 2;
+    const length = Number(BigInt('0x' + hex.slice(offset, offset + 64))) * 2;
+    bytesHex = hex.slice(offset + 64, offset + 64 + length);
+  } else {
+    return null;
+  }
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(hexToBytes(bytesHex)) || null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * EVM Chains
+ *
+ * The shape of an evm_chains row and the chains new databases are seeded
+ * with. Shared by the wallet's chain registry (src/evmChains) and the
+ * Functions, so it has no dependencies.
+ */
+
+export interface EvmChain {
+  chainId: number;
+  name: string;  // matches asset_chains.chain and rpc_endpoints.chain_name
+  nativeSymbol: string;
+  nativeDecimals: number;
+  explorerUrl: string | null;  // block explorer base URL, e.g. https://etherscan.io
+  supportsEip1559: boolean;
+  icon: string | null;
+  isTestnet: boolean;
+  testnetChainId: number | null;  // chain used in testnet mode (mainnet chains only)
+  isEnabled: boolean;
+}
+
+export const DEFAULT_EVM_CHAINS: EvmChain[] = [
+  { chainId: 1, name: 'Ethereum', nativeSymbol: 'ETH', nativeDecimals: 18, explorerUrl: 'https://etherscan.io', supportsEip1559: true, icon: 'Ξ', isTestnet: false, testnetChainId: 11155111, isEnabled: true },
+  { chainId: 8453, name: 'Base', nativeSymbol: 'ETH', nativeDecimals: 18, explorerUrl: 'https://basescan.org', supportsEip1559: true, icon: '🔵', isTestnet: false, testnetChainId: 84532, isEnabled: true },
+  { chainId: 56, name: 'BNB Smart Chain', nativeSymbol: 'BNB', nativeDecimals: 18, explorerUrl: 'https://bscscan.com', supportsEip1559: false, icon: null, isTestnet: false, testnetChainId: 97, isEnabled: false },
+  { chainId: 11155111, name: 'Sepolia', nativeSymbol: 'ETH', nativeDecimals: 18, explorerUrl: 'https://sepolia.etherscan.io', supportsEip1559: true, icon: 'Ξ', isTestnet: true, testnetChainId: null, isEnabled: true },
+  { chainId: 84532, name: 'Base Sepolia', nativeSymbol: 'ETH', nativeDecimals: 18, explorerUrl: 'https://sepolia.basescan.org', supportsEip1559: true, icon: '🔵', isTestnet: true, testnetChainId: null, isEnabled: true },
+  { chainId: 97, name: 'BSC Testnet', nativeSymbol: 'tBNB', nativeDecimals: 18, explorerUrl: 'https://testnet.bscscan.com', supportsEip1559: false, icon: null, isTestnet: true, testnetChainId: null, isEnabled: false },
+];
@@ -0,0 +1,118 @@
+/**
+ * Spending Policy - Evaluation of spending limits and transfer rules
+ *
+ * Policies are managed by superadmins and stored in D1. The wallet evaluates
+ * them before asking for a passkey signature, and the server evaluates them
+ * again when the outgoing transfer is recorded, both with this module.
+ */
+
+export const POLICY_TYPES = [
+  'tx_limit',           // maximum amount per transaction (asset units)
+  'daily_limit',        // maximum amount sent in a rolling 24 hours (asset units)
+  'allow_destination',  // when any exist for a chain, destinations must be listed
+  'deny_destination',   // destinations that can never receive funds
+  'allow_selector',     // when any exist, EVM contract calls must use a listed 4-byte selector
+] as const;
+
+export type PolicyType = typeof POLICY_TYPES[number];
+
+export function isPolicyType(type: string): type is PolicyType {
+  return (POLICY_TYPES as readonly string[]).includes(type);
+}
+
+export interface SpendingPolicy {
+  id: string;
+  user_id: string | null;
+  policy_type: PolicyType;
+  chain_type: string | null;
+  asset_symbol: string | null;
+  value: string;
+  description: string | null;
+  is_enabled: number;
+}
+
+export interface SpendIntent {
+  chainType: string;
+  chain: string;
+  assetSymbol: string;
+  amount: string;       // asset units, e.g. "0.25"
+  toAddress?: string;
+  selector?: string;    // EVM calldata selector, e.g. 0xa9059cbb
+}
+
+export interface PolicyDecision {
+  allowed: boolean;
+  reason?: string;
+  policyId?: string;
+}
+
+// EVM addresses are compared case-insensitively; other chains use case-sensitive encodings
+function sameAddress(a: string, b: string): boolean {
+  return a.startsWith('0x') ? a.toLowerCase() === b.toLowerCase() : a === b;
+}
+
+function applies(policy: SpendingPolicy, intent: Omit<SpendIntent, 'chain'>): boolean {
+  if (!policy.is_enabled) return false;
+  if (policy.chain_type && policy.chain_type !== intent.chainType) return false;
+  if (policy.asset_symbol && policy.asset_symbol.toUpperCase() !== intent.assetSymbol.toUpperCase()) return false;
+  return true;
+}
+
+// Key for the amount a daily limit has already used: "evm:USDC", or "*:USDC" across chains
+export function spentKey(chainType: string | null, assetSymbol: string): string {
+  return `${chainType || '*'}:${assetSymbol.toUpperCase()}`;
+}
+
+/**
+ * Evaluate a spend against the user's policies.
+ * spentToday maps spentKey() to the amount already sent in the last 24 hours.
+ */
+export function evaluateSpend(
+  policies: SpendingPolicy[],
+  intent: Omit<SpendIntent, 'chain'>,
+  spentToday: Record<string, number>
+): PolicyDecision {
+  const relevant = policies.filter(p => applies(p, intent));
+  const amount = parseFloat(intent.amount) || 0;
+  const to = intent.toAddress;
+
+  if (to) {
+    const denied = relevant.find(p => p.policy_type === 'deny_destination' && sameAddress(p.value, to));
+    if (denied) {
+      return { allowed: false, reason: `Destination ${to} is blocked by policy`, policyId: denied.id };
+    }
+    const allowlist = relevant.filter(p => p.policy_type === 'allow_destination');
+    if (allowlist.length > 0 && !allowlist.some(p => sameAddress(p.value, to))) {
+      return { allowed: false, reason: `Destination ${to} is not on the allowed list`, policyId: allowlist[0].id };
+    }
+  }
+
+  if (intent.selector) {
+    const selectors = relevant.filter(p => p.policy_type === 'allow_selector');
+    if (selectors.length > 0 && !selectors.some(p => p.value.toLowerCase() === intent.selector!.toLowerCase())) {
+      return { allowed: false, reason: `Contract call ${intent.selector} is not on the allowed list`, policyId: selectors[0].id };
+    }
+  }
+
+  for (const policy of relevant) {
+    const limit = parseFloat(policy.value);
+    if (policy.policy_type === 'tx_limit' && amount > limit) {
+      return {
+        allowed: false,
+        reason: `${intent.amount} ${intent.assetSymbol} exceeds the per-transaction limit of ${policy.value} ${intent.assetSymbol}`,
+        policyId: policy.id
+      };
+    }
+    const spent = spentToday[spentKey(policy.chain_type, intent.assetSymbol)] || 0;
+    if (policy.policy_type === 'daily_limit' && spent + amount > limit) {
+      const remaining = Math.max(0, limit - spent);
+      return {
+        allowed: false,
+        reason: `${intent.amount} ${intent.assetSymbol} exceeds the daily limit of ${policy.value} ${intent.assetSymbol} (${remaining} remaining today)`,
+        policyId: policy.id
+      };
+    }
+  }
+
+  return { allowed: true };
+}
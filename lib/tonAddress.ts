@@ -0,0 +1,219 @@
+/**
+ * TON Addresses
+ *
+ * Wallet contract StateInit and addresses for v4R2 and W5 wallets, and
+ * parsing and formatting of user-friendly and raw addresses. Shared by the
+ * wallet's signer (src/tonSigner) and the Functions.
+ */
+
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils.js';
+import { Cell, beginCell, parseBoc } from './tonCell';
+
+export type TonNetwork = 'mainnet' | 'testnet';
+
+export type TonWalletVersion = 'v4r2' | 'w5';
+
+// Wallet contract code (BOC, base64). Code cell hashes:
+// v4R2 feb5ff6820e2ff0d9483e7e0d62c817d846789fb4ae580c878866d959dabd5c0
+// W5   20834b7b72b112147e1b2fb457b84e74d1a30f04f737d4f62a668e9552d2b72f
+const WALLET_CODE: Record<TonWalletVersion, string> = {
+  v4r2: 'te6ccgECFAEAAtQAART/APSkE/S88sgLAQIBIAIDAgFIBAUE+PKDCNcYINMf0x/THwL4I7vyZO1E0NMf0x/T//QE0VFDuvKhUVG68qIF+QFUEGT5EPKj+AAkpMjLH1JAyx9SMMv/UhD0AMntVPgPAdMHIcAAn2xRkyDXSpbTB9QC+wDoMOAhwAHjACHAAuMAAcADkTDjDQOkyMsfEssfy/8QERITAubQAdDTAyFxsJJfBOAi10nBIJJfBOAC0x8hghBwbHVnvSKCEGRzdHK9sJJfBeAD+kAwIPpEAcjKB8v/ydDtRNCBAUDXIfQEMFyBAQj0Cm+hMbOSXwfgBdM/yCWCEHBsdWe6kjgw4w0DghBkc3RyupJfBuMNBgcCASAICQB4AfoA9AQw+CdvIjBQCqEhvvLgUIIQcGx1Z4MesXCAGFAEywUmzxZY+gIZ9ADLaRfLH1Jgyz8gyYBA+wAGAIpQBIEBCPRZMO1E0IEBQNcgyAHPFvQAye1UAXKwjiOCEGRzdHKDHrFwgBhQBcsFUAPPFiP6AhPLassfyz/JgED7AJJfA+ICASAKCwBZvSQrb2omhAgKBrkPoCGEcNQICEekk30pkQzmkD6f+YN4EoAbeBAUiYcVnzGEAgFYDA0AEbjJftRNDXCx+AA9sp37UTQgQFA1yH0BDACyMoHy//J0AGBAQj0Cm+hMYAIBIA4PABmtznaiaEAga5Drhf/AABmvHfaiaEAQa5DrhY/AAG7SB/oA1NQi+QAFyMoHFcv/ydB3dIAYyMsFywIizxZQBfoCFMtrEszMyXP7AMhAFIEBCPRR8qcCAHCBAQjXGPoA0z/IVCBHgQEI9FHyp4IQbm90ZXB0gBjIywXLAlAGzxZQBPoCFMtqEssfyz/Jc/sAAgBsgQEI1xj6ANM/MFIkgQEI9Fnyp4IQZHN0cnB0gBjIywXLAlAFzxZQA/oCE8tqyx8Syz/Jc/sAAAr0AMntVA==',
+  w5: 'te6cckECFAEAAoEAART/APSkE/S88sgLAQIBIAINAgFIAwQC3NAg10nBIJFbj2Mg1wsfIIIQZXh0br0hghBzaW50vbCSXwPgghBleHRuuo60gCDXIQHQdNch+kAw+kT4KPpEMFi9kVvg7UTQgQFB1yH0BYMH9A5voTGRMOGAQNchcH/bPOAxINdJgQKAuZEw4HDiEA8CASAFDAIBIAYJAgFuBwgAGa3OdqJoQCDrkOuF/8AAGa8d9qJoQBDrkOuFj8ACAUgKCwAXsyX7UTQcdch1wsfgABGyYvtRNDXCgCAAGb5fD2omhAgKDrkPoCwBAvIOAR4g1wsfghBzaWduuvLgin8PAeaO8O2i7fshgwjXIgKDCNcjIIAg1yHTH9Mf0x/tRNDSANMfINMf0//XCgAK+QFAzPkQmiiUXwrbMeHywIffArNQB7Dy0IRRJbry4IVQNrry4Ib4I7vy0IgikvgA3gGkf8jKAMsfAc8Wye1UIJL4D95w2zzYEAP27aLt+wL0BCFukmwhjkwCIdc5MHCUIccAs44tAdcoIHYeQ2wg10nACPLgkyDXSsAC8uCTINcdBscSwgBSMLDy0InXTNc5MAGk6GwShAe78uCT10rAAPLgk+1V4tIAAcAAkVvg69csCBQgkXCWAdcsCBwS4lIQseMPINdKERITAJYB+kAB+kT4KPpEMFi68uCR7UTQgQFB1xj0BQSdf8jKAEAEgwf0U/Lgi44UA4MH9Fvy4Iwi1woAIW4Bs7Dy0JDiyFADzxYS9ADJ7VQAcjDXLAgkji0h8uCS0gDtRNDSAFETuvLQj1RQMJExnAGBAUDXIdcKAPLgjuLIygBYzxbJ7VST8sCN4gAQk1vbMeHXTNC01sNe'
+};
+
+// Default subwallet ID of v4R2 wallets in workchain 0
+export const WALLET_V4R2_ID = 698983191;
+
+// W5 wallet IDs: the network's global ID XOR the client context for
+// workchain 0, version 0, subwallet 0 (top bit set)
+export const WALLET_W5_ID: Record<TonNetwork, number> = {
+  mainnet: 2147483409, // -239 ^ 0x80000000
+  testnet: 2147483645  // -3 ^ 0x80000000
+};
+
+// Base64 encoding/decoding
+export function base64Encode(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+export function base64Decode(str: string): Uint8Array {
+  const binary = atob(str);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// Base64url encoding for TON addresses
+function base64UrlEncode(bytes: Uint8Array): string {
+  const base64 = btoa(String.fromCharCode(...bytes));
+  return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(str: string): Uint8Array {
+  let base64 = str.replace(/-/g, '+').replace(/_/g, '/');
+  while (base64.length % 4) {
+    base64 += '=';
+  }
+  return base64Decode(base64);
+}
+
+// CRC16 for TON addresses
+function crc16(data: Uint8Array): number {
+  const poly = 0x1021;
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) {
+    crc ^= data[i] << 8;
+    for (let j = 0; j < 8; j++) {
+      if (crc & 0x8000) {
+        crc = (crc << 1) ^ poly;
+      } else {
+        crc <<= 1;
+      }
+      crc &= 0xffff;
+    }
+  }
+  return crc;
+}
+
+// User-friendly address: tag, workchain, hash and CRC16, base64url encoded
+export function formatAddress(workchain: number, hash: Uint8Array, bounceable: boolean, testnet: boolean = false): string {
+  const addressData = new Uint8Array(34);
+  addressData[0] = (bounceable ? 0x11 : 0x51) | (testnet ? 0x80 : 0);
+  addressData[1] = workchain & 0xff;
+  addressData.set(hash, 2);
+
+  const crc = crc16(addressData);
+  const fullAddress = new Uint8Array(36);
+  fullAddress.set(addressData);
+  fullAddress[34] = (crc >> 8) & 0xff;
+  fullAddress[35] = crc & 0xff;
+
+  return base64UrlEncode(fullAddress);
+}
+
+/**
+ * StateInit of a wallet contract for a public key: the wallet code and its
+ * initial data (seqno 0, wallet ID, public key, no plugins or extensions)
+ */
+export function getWalletStateInit(
+  publicKey: Uint8Array,
+  version: TonWalletVersion = 'v4r2',
+  network: TonNetwork = 'mainnet'
+): Cell {
+  const data = version === 'v4r2'
+    ? beginCell()
+        .storeUint(0, 32) // seqno
+        .storeUint(WALLET_V4R2_ID, 32)
+        .storeBytes(publicKey)
+        .storeBit(false) // plugins
+        .endCell()
+    : beginCell()
+        .storeBit(true) // signature auth allowed
+        .storeUint(0, 32) // seqno
+        .storeUint(WALLET_W5_ID[network], 32)
+        .storeBytes(publicKey)
+        .storeBit(false) // extensions
+        .endCell();
+
+  const [code] = parseBoc(base64Decode(WALLET_CODE[version]));
+  return beginCell()
+    .storeBit(false) // split_depth
+    .storeBit(false) // special
+    .storeMaybeRef(code)
+    .storeMaybeRef(data)
+    .storeBit(false) // library
+    .endCell();
+}
+
+/**
+ * Get the wallet contract address of a public key (user-friendly format).
+ * Non-bounceable (UQ…) unless asked otherwise: until its first send deploys
+ * the wallet, bounceable transfers to it are returned, so exchanges could not
+ * fund the deploy. W5 addresses differ between mainnet and testnet; v4R2
+ * addresses do not.
+ */
+export function getAddressFromPublicKey(
+  publicKey: Uint8Array,
+  version: TonWalletVersion = 'v4r2',
+  bounceable: boolean = false,
+  network: TonNetwork = 'mainnet'
+): string {
+  return formatAddress(0, getWalletStateInit(publicKey, version, network).hash(), bounceable);
+}
+
+// Mainnet addresses of every supported wallet contract for a public key
+export function getAddressesFromPublicKey(publicKey: Uint8Array): Record<TonWalletVersion, string> {
+  return {
+    v4r2: getAddressFromPublicKey(publicKey, 'v4r2'),
+    w5: getAddressFromPublicKey(publicKey, 'w5')
+  };
+}
+
+/**
+ * Address earlier versions of this wallet stored for a key: sha256 of the
+ * public key, which is not the address of any wallet contract. Only used to
+ * recognise wallets that need migrating.
+ */
+export function getLegacyAddressFromPublicKey(publicKey: Uint8Array): string {
+  return formatAddress(0, sha256(publicKey), true);
+}
+
+// Parse TON address
+export function parseAddress(address: string): { workchain: number; hash: Uint8Array; bounceable: boolean } {
+  let bytes: Uint8Array;
+
+  if (address.includes(':')) {
+    // Raw format: workchain:hash
+    const [wcStr, hashHex] = address.split(':');
+    const workchain = parseInt(wcStr, 10);
+    const hash = hexToBytes(hashHex);
+    return { workchain, hash, bounceable: true };
+  } else {
+    // User-friendly format
+    bytes = base64UrlDecode(address);
+  }
+
+  if (bytes.length !== 36) {
+    throw new Error('Invalid address length');
+  }
+
+  const tag = bytes[0];
+  const workchain = bytes[1] === 0xff ? -1 : bytes[1];
+  const hash = bytes.slice(2, 34);
+  const checksum = (bytes[34] << 8) | bytes[35];
+
+  // Verify checksum
+  const expectedCrc = crc16(bytes.slice(0, 34));
+  if (checksum !== expectedCrc) {
+    throw new Error('Invalid address checksum');
+  }
+
+  // 0x11 bounceable, 0x51 non-bounceable, either with 0x80 for testnet-only
+  const bounceable = (tag & 0x7f) === 0x11;
+
+  return { workchain, hash, bounceable };
+}
+
+// The same account in non-bounceable form, as wallet addresses are stored and shown
+export function toNonBounceableAddress(address: string): string {
+  const { workchain, hash } = parseAddress(address);
+  return formatAddress(workchain, hash, false);
+}
+
+// Whether two addresses (any format) point to the same account
+export function isSameAddress(a: string, b: string): boolean {
+  try {
+    return toRawAddress(a) === toRawAddress(b);
+  } catch {
+    return false;
+  }
+}
+
+// Convert address to raw format
+export function toRawAddress(address: string): string {
+  const { workchain, hash } = parseAddress(address);
+  return `${workchain}:${bytesToHex(hash)}`;
+}
@@ -0,0 +1,177 @@
+/**
+ * TON HTTP API
+ *
+ * Requests to a TON HTTP API (toncenter format) endpoint, and the Jetton
+ * wallet lookups and history built on them. The endpoint is passed to every
+ * call: the wallet's signer (src/tonSigner) passes its configured one and
+ * the Functions the one for the request's network.
+ */
+
+import { beginCell, parseBoc, serializeBoc } from './tonCell';
+import { base64Decode, base64Encode, formatAddress, parseAddress } from './tonAddress';
+
+// Jetton wallet opcodes: transfer (owner to own Jetton wallet) and
+// internal_transfer (Jetton wallet to Jetton wallet)
+export const JETTON_OP_TRANSFER = 0x0f8a7ea5;
+const JETTON_OP_INTERNAL_TRANSFER = 0x178d4519;
+
+// GET request to a TON HTTP API endpoint
+export async function tonApiCall(rpcUrl: string, endpoint: string, params?: Record<string, any>): Promise<any> {
+  const url = new URL(`${rpcUrl}${endpoint}`);
+  if (params) {
+    Object.entries(params).forEach(([key, value]) => {
+      url.searchParams.append(key, String(value));
+    });
+  }
+
+  const response = await fetch(url.toString(), {
+    method: 'GET',
+    headers: { 'Content-Type': 'application/json' }
+  });
+
+  const result = await response.json() as any;
+  if (!result.ok) {
+    throw new Error(result.error || 'API call failed');
+  }
+  return result.result;
+}
+
+// Run a get-method with a stack of arguments (TON HTTP API, POST form)
+export async function runGetMethod(rpcUrl: string, address: string, method: string, stack: any[]): Promise<any[]> {
+  const response = await fetch(`${rpcUrl}/runGetMethod`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ address, method, stack })
+  });
+
+  const result = await response.json() as any;
+  if (!result.ok) {
+    throw new Error(result.error || 'API call failed');
+  }
+  if (result.result.exit_code !== 0) {
+    throw new Error(`${method} failed with exit code ${result.result.exit_code}`);
+  }
+  return result.result.stack;
+}
+
+/**
+ * Jetton wallet of an owner for a Jetton master (get_wallet_address). The
+ * Jetton wallet may not be deployed yet if the owner never held the Jetton.
+ */
+export async function getJettonWalletAddress(
+  rpcUrl: string,
+  ownerAddress: string,
+  jettonMaster: string
+): Promise<string> {
+  const owner = beginCell().storeAddress(parseAddress(ownerAddress)).endCell();
+  const stack = await runGetMethod(rpcUrl, jettonMaster, 'get_wallet_address', [
+    ['tvm.Slice', base64Encode(serializeBoc(owner))]
+  ]);
+
+  // The address comes back as a cell ('cell' or 'slice' entry with its BOC)
+  const [, entry] = stack[0] || [];
+  const [cell] = parseBoc(base64Decode(entry?.bytes || ''));
+  const address = cell.beginParse().loadAddress();
+  if (!address) {
+    throw new Error('Jetton master returned no wallet address');
+  }
+  return formatAddress(address.workchain, address.hash, true);
+}
+
+/**
+ * TON Transaction history item
+ */
+export interface TonTransactionHistory {
+  hash: string;
+  lt: string; // Logical time
+  timestamp: number;
+  type: 'send' | 'receive';
+  amount: bigint; // in nanotons
+  from: string;
+  to: string;
+  message: string | null;
+  fee: bigint;
+  status: 'confirmed';
+}
+
+/**
+ * Get Jetton transfer history for an owner, read from their Jetton wallet's
+ * transactions: transfers the owner sent to it and internal transfers it
+ * received from other Jetton wallets. Amounts are in the Jetton's smallest
+ * units; the fee is the Jetton wallet's, in nanotons.
+ */
+export async function getJettonTransactionHistory(
+  rpcUrl: string,
+  ownerAddress: string,
+  jettonMaster: string,
+  limit: number = 20
+): Promise<TonTransactionHistory[]> {
+  const jettonWallet = await getJettonWalletAddress(rpcUrl, ownerAddress, jettonMaster);
+  const result = await tonApiCall(rpcUrl, '/getTransactions', {
+    address: jettonWallet,
+    limit
+  });
+
+  const transactions: TonTransactionHistory[] = [];
+  for (const tx of result || []) {
+    const parsed = parseJettonTransaction(tx, ownerAddress);
+    if (parsed) {
+      transactions.push(parsed);
+    }
+  }
+  return transactions;
+}
+
+/**
+ * Parse a Jetton wallet transaction from its incoming message body
+ */
+function parseJettonTransaction(tx: any, ownerAddress: string): TonTransactionHistory | null {
+  try {
+    const bodyBoc = tx.in_msg?.msg_data?.body;
+    if (!bodyBoc) return null;
+    const body = parseBoc(base64Decode(bodyBoc))[0].beginParse();
+
+    const op = Number(body.loadUint(32));
+    if (op !== JETTON_OP_TRANSFER && op !== JETTON_OP_INTERNAL_TRANSFER) {
+      return null;
+    }
+    body.loadUint(64); // query_id
+    const amount = body.loadCoins();
+    const counterparty = body.loadAddress(); // transfer: destination; internal_transfer: sender
+    const other = counterparty ? formatAddress(counterparty.workchain, counterparty.hash, true) : 'unknown';
+
+    // Both messages end with response address, forward amount and payload;
+    // a comment is read when it is there
+    let message: string | null = null;
+    try {
+      body.loadAddress(); // response_destination
+      if (op === JETTON_OP_TRANSFER) {
+        body.loadMaybeRef(); // custom_payload
+      }
+      body.loadCoins(); // forward_ton_amount
+      const payload = body.loadBit() ? body.loadRef().beginParse() : body;
+      if (payload.remainingBits >= 32 && payload.loadUint(32) === 0n) {
+        message = payload.loadStringTail();
+      }
+    } catch {
+      // No forward payload
+    }
+
+    const send = op === JETTON_OP_TRANSFER;
+    return {
+      hash: tx.transaction_id?.hash || tx.hash || '',
+      lt: tx.transaction_id?.lt || tx.lt || '0',
+      timestamp: tx.utime || 0,
+      type: send ? 'send' : 'receive',
+      amount,
+      from: send ? ownerAddress : other,
+      to: send ? other : ownerAddress,
+      message,
+      fee: BigInt(tx.fee || '0'),
+      status: 'confirmed'
+    };
+  } catch (err) {
+    console.error('Error parsing Jetton transaction:', err);
+    return null;
+  }
+}
@@ -0,0 +1,482 @@
+/**
+ * TON Cells and Bags of Cells
+ *
+ * Builds ordinary cells, computes their representation hashes and depths,
+ * and serializes them to and from BOC (bag of cells), the format TON uses
+ * for contract code, StateInit and external messages. Exotic cells (pruned
+ * branches, library cells, Merkle proofs) are not supported.
+ */
+
+import { sha256 } from '@noble/hashes/sha2.js';
+
+const BOC_MAGIC = 0xb5ee9c72;
+const MAX_CELL_BITS = 1023;
+const MAX_CELL_REFS = 4;
+
+export class Cell {
+  readonly data: Uint8Array;  // bits packed big-endian, without completion tag
+  readonly bitLength: number;
+  readonly refs: Cell[];
+  private cachedHash: Uint8Array | null = null;
+  private cachedDepth: number | null = null;
+
+  constructor(data: Uint8Array, bitLength: number, refs: Cell[] = []) {
+    this.data = data;
+    this.bitLength = bitLength;
+    this.refs = refs;
+    if (bitLength > MAX_CELL_BITS) {
+      throw new Error(`Cell has ${bitLength} bits, more than ${MAX_CELL_BITS}`);
+    }
+    if (refs.length > MAX_CELL_REFS) {
+      throw new Error(`Cell has ${refs.length} refs, more than ${MAX_CELL_REFS}`);
+    }
+  }
+
+  // Descriptor bytes: refs count, then the data length in half-bytes
+  private descriptors(): Uint8Array {
+    return new Uint8Array([this.refs.length, Math.floor(this.bitLength / 8) + Math.ceil(this.bitLength / 8)]);
+  }
+
+  // Data padded to whole bytes, with a completion tag when not byte-aligned
+  private paddedData(): Uint8Array {
+    const bytes = new Uint8Array(Math.ceil(this.bitLength / 8));
+    bytes.set(this.data.subarray(0, bytes.length));
+    if (this.bitLength % 8 !== 0) {
+      const last = bytes.length - 1;
+      const usedBits = this.bitLength % 8;
+      bytes[last] = (bytes[last] & (0xff << (8 - usedBits))) | (1 << (7 - usedBits));
+    }
+    return bytes;
+  }
+
+  // Longest chain of refs below this cell
+  depth(): number {
+    if (this.cachedDepth === null) {
+      this.cachedDepth = this.refs.length === 0 ? 0 : Math.max(...this.refs.map(ref => ref.depth())) + 1;
+    }
+    return this.cachedDepth;
+  }
+
+  // Representation hash: what addresses, signatures and message hashes are built on
+  hash(): Uint8Array {
+    if (this.cachedHash === null) {
+      const data = this.paddedData();
+      const repr = new Uint8Array(2 + data.length + this.refs.length * 34);
+      repr.set(this.descriptors(), 0);
+      repr.set(data, 2);
+      let offset = 2 + data.length;
+      for (const ref of this.refs) {
+        const depth = ref.depth();
+        repr[offset++] = depth >> 8;
+        repr[offset++] = depth & 0xff;
+      }
+      for (const ref of this.refs) {
+        repr.set(ref.hash(), offset);
+        offset += 32;
+      }
+      this.cachedHash = sha256(repr);
+    }
+    return this.cachedHash;
+  }
+
+  // Bytes as stored in a BOC, with refs given as cell indexes
+  serialize(refIndexes: number[], indexBytes: number): Uint8Array {
+    const data = this.paddedData();
+    const bytes = new Uint8Array(2 + data.length + refIndexes.length * indexBytes);
+    bytes.set(this.descriptors(), 0);
+    bytes.set(data, 2);
+    let offset = 2 + data.length;
+    for (const index of refIndexes) {
+      writeUintBE(bytes, offset, index, indexBytes);
+      offset += indexBytes;
+    }
+    return bytes;
+  }
+
+  beginParse(): CellSlice {
+    return new CellSlice(this);
+  }
+}
+
+export class CellBuilder {
+  private data = new Uint8Array(128);
+  private bitLength = 0;
+  private refs: Cell[] = [];
+
+  storeBit(bit: boolean | number): this {
+    if (this.bitLength >= MAX_CELL_BITS) {
+      throw new Error('Cell overflow');
+    }
+    if (bit) {
+      this.data[this.bitLength >> 3] |= 1 << (7 - (this.bitLength & 7));
+    }
+    this.bitLength++;
+    return this;
+  }
+
+  storeUint(value: number | bigint, bits: number): this {
+    const val = BigInt(value);
+    if (val < 0n || (bits < 1024 && val >= 1n << BigInt(bits))) {
+      throw new Error(`Value ${val} does not fit in ${bits} bits`);
+    }
+    for (let i = bits - 1; i >= 0; i--) {
+      this.storeBit(((val >> BigInt(i)) & 1n) === 1n);
+    }
+    return this;
+  }
+
+  storeInt(value: number | bigint, bits: number): this {
+    const val = BigInt(value);
+    const limit = 1n << BigInt(bits - 1);
+    if (val < -limit || val >= limit) {
+      throw new Error(`Value ${val} does not fit in ${bits} signed bits`);
+    }
+    return this.storeUint(val < 0n ? (1n << BigInt(bits)) + val : val, bits);
+  }
+
+  storeBytes(bytes: Uint8Array): this {
+    for (const byte of bytes) {
+      this.storeUint(byte, 8);
+    }
+    return this;
+  }
+
+  // VarUInteger 16: a 4-bit byte length, then the amount
+  storeCoins(value: bigint): this {
+    if (value < 0n) {
+      throw new Error('Coins cannot be negative');
+    }
+    const byteLength = value === 0n ? 0 : Math.ceil(value.toString(16).length / 2);
+    if (byteLength > 15) {
+      throw new Error('Coins value too large');
+    }
+    this.storeUint(byteLength, 4);
+    return byteLength > 0 ? this.storeUint(value, byteLength * 8) : this;
+  }
+
+  // MsgAddress: addr_none, or addr_std without anycast
+  storeAddress(address: { workchain: number; hash: Uint8Array } | null): this {
+    if (!address) {
+      return this.storeUint(0, 2);
+    }
+    return this.storeUint(0b10, 2)
+      .storeBit(false)
+      .storeInt(address.workchain, 8)
+      .storeBytes(address.hash);
+  }
+
+  storeRef(cell: Cell): this {
+    if (this.refs.length >= MAX_CELL_REFS) {
+      throw new Error('Cell has no room for another ref');
+    }
+    this.refs.push(cell);
+    return this;
+  }
+
+  storeMaybeRef(cell: Cell | null): this {
+    this.storeBit(cell !== null);
+    return cell ? this.storeRef(cell) : this;
+  }
+
+  // Copy the bits and refs of another cell into this one
+  storeCell(cell: Cell): this {
+    const slice = cell.beginParse();
+    while (slice.remainingBits > 0) {
+      this.storeBit(slice.loadBit());
+    }
+    for (const ref of cell.refs) {
+      this.storeRef(ref);
+    }
+    return this;
+  }
+
+  // Bytes split across a chain of refs when they do not fit in this cell ("snake" format)
+  storeSnakeBytes(bytes: Uint8Array): this {
+    const fits = Math.floor((MAX_CELL_BITS - this.bitLength) / 8);
+    this.storeBytes(bytes.subarray(0, fits));
+    if (bytes.length > fits) {
+      this.storeRef(new CellBuilder().storeSnakeBytes(bytes.subarray(fits)).endCell());
+    }
+    return this;
+  }
+
+  storeStringTail(text: string): this {
+    return this.storeSnakeBytes(new TextEncoder().encode(text));
+  }
+
+  endCell(): Cell {
+    return new Cell(this.data.slice(0, Math.ceil(this.bitLength / 8)), this.bitLength, [...this.refs]);
+  }
+}
+
+export function beginCell(): CellBuilder {
+  return new CellBuilder();
+}
+
+export class CellSlice {
+  private readonly cell: Cell;
+  private bitOffset = 0;
+  private refOffset = 0;
+
+  constructor(cell: Cell) {
+    this.cell = cell;
+  }
+
+  get remainingBits(): number {
+    return this.cell.bitLength - this.bitOffset;
+  }
+
+  get remainingRefs(): number {
+    return this.cell.refs.length - this.refOffset;
+  }
+
+  loadBit(): boolean {
+    if (this.bitOffset >= this.cell.bitLength) {
+      throw new Error('Cell underflow');
+    }
+    const bit = (this.cell.data[this.bitOffset >> 3] >> (7 - (this.bitOffset & 7))) & 1;
+    this.bitOffset++;
+    return bit === 1;
+  }
+
+  loadUint(bits: number): bigint {
+    let value = 0n;
+    for (let i = 0; i < bits; i++) {
+      value = (value << 1n) | (this.loadBit() ? 1n : 0n);
+    }
+    return value;
+  }
+
+  loadInt(bits: number): bigint {
+    const value = this.loadUint(bits);
+    return value >= 1n << BigInt(bits - 1) ? value - (1n << BigInt(bits)) : value;
+  }
+
+  loadBytes(length: number): Uint8Array {
+    const bytes = new Uint8Array(length);
+    for (let i = 0; i < length; i++) {
+      bytes[i] = Number(this.loadUint(8));
+    }
+    return bytes;
+  }
+
+  loadCoins(): bigint {
+    const byteLength = Number(this.loadUint(4));
+    return byteLength === 0 ? 0n : this.loadUint(byteLength * 8);
+  }
+
+  // addr_std, or null for addr_none
+  loadAddress(): { workchain: number; hash: Uint8Array } | null {
+    const tag = Number(this.loadUint(2));
+    if (tag === 0) {
+      return null;
+    }
+    if (tag !== 0b10 || this.loadBit()) {
+      throw new Error('Unsupported address type');
+    }
+    const workchain = Number(this.loadInt(8));
+    return { workchain, hash: this.loadBytes(32) };
+  }
+
+  loadRef(): Cell {
+    if (this.refOffset >= this.cell.refs.length) {
+      throw new Error('Cell has no more refs');
+    }
+    return this.cell.refs[this.refOffset++];
+  }
+
+  loadMaybeRef(): Cell | null {
+    return this.loadBit() ? this.loadRef() : null;
+  }
+
+  // Text stored in this cell and its chain of refs ("snake" format)
+  loadStringTail(): string {
+    const chunks: Uint8Array[] = [];
+    let slice: CellSlice = this;
+    for (;;) {
+      chunks.push(slice.loadBytes(Math.floor(slice.remainingBits / 8)));
+      if (slice.remainingRefs === 0) break;
+      slice = slice.loadRef().beginParse();
+    }
+    const bytes = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+      bytes.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return new TextDecoder().decode(bytes);
+  }
+}
+
+// ============================================================================
+// BAG OF CELLS
+// ============================================================================
+
+function writeUintBE(bytes: Uint8Array, offset: number, value: number, length: number): void {
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[offset + i] = value & 0xff;
+    value = Math.floor(value / 256);
+  }
+}
+
+function readUintBE(bytes: Uint8Array, offset: number, length: number): number {
+  let value = 0;
+  for (let i = 0; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+  }
+  return value;
+}
+
+function byteLengthOf(value: number): number {
+  let length = 1;
+  while (value >= 2 ** (8 * length)) length++;
+  return length;
+}
+
+let crc32cTable: Uint32Array | null = null;
+
+// CRC-32C (Castagnoli), which BOCs use for their optional checksum
+function crc32c(bytes: Uint8Array): number {
+  if (!crc32cTable) {
+    crc32cTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? (c >>> 1) ^ 0x82f63b78 : c >>> 1;
+      }
+      crc32cTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = crc32cTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function hashKey(cell: Cell): string {
+  return Array.from(cell.hash(), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Serialize a cell tree as a single-root BOC with a CRC-32C checksum.
+ * Identical subtrees are stored once.
+ */
+export function serializeBoc(root: Cell): Uint8Array {
+  // Order cells so every cell comes before the cells it references
+  const order: Cell[] = [];
+  const visited = new Set<string>();
+  const visit = (cell: Cell) => {
+    const key = hashKey(cell);
+    if (visited.has(key)) return;
+    visited.add(key);
+    for (const ref of cell.refs) visit(ref);
+    order.push(cell);
+  };
+  visit(root);
+  order.reverse();
+
+  const indexes = new Map(order.map((cell, i) => [hashKey(cell), i]));
+  const indexBytes = byteLengthOf(order.length);
+  const serialized = order.map(cell => cell.serialize(cell.refs.map(ref => indexes.get(hashKey(ref))!), indexBytes));
+  const cellsSize = serialized.reduce((sum, bytes) => sum + bytes.length, 0);
+  const offsetBytes = byteLengthOf(cellsSize);
+
+  const headerSize = 4 + 1 + 1 + indexBytes * 3 + offsetBytes + indexBytes;
+  const bytes = new Uint8Array(headerSize + cellsSize + 4);
+  new DataView(bytes.buffer).setUint32(0, BOC_MAGIC);
+  bytes[4] = 0x40 | indexBytes;  // has_crc32c, no index, no cache bits
+  bytes[5] = offsetBytes;
+  let offset = 6;
+  writeUintBE(bytes, offset, order.length, indexBytes); offset += indexBytes;  // cells
+  writeUintBE(bytes, offset, 1, indexBytes); offset += indexBytes;  // roots
+  writeUintBE(bytes, offset, 0, indexBytes); offset += indexBytes;  // absent
+  writeUintBE(bytes, offset, cellsSize, offsetBytes); offset += offsetBytes;
+  writeUintBE(bytes, offset, 0, indexBytes); offset += indexBytes;  // root index
+  for (const cell of serialized) {
+    bytes.set(cell, offset);
+    offset += cell.length;
+  }
+  new DataView(bytes.buffer).setUint32(offset, crc32c(bytes.subarray(0, offset)), true);
+  return bytes;
+}
+
+/**
+ * Parse a BOC and return its root cells
+ */
+export function parseBoc(bytes: Uint8Array): Cell[] {
+  if (bytes.length < 6 || new DataView(bytes.buffer, bytes.byteOffset).getUint32(0) !== BOC_MAGIC) {
+    throw new Error('Not a bag of cells');
+  }
+  const flags = bytes[4];
+  const hasIndex = (flags & 0x80) !== 0;
+  const hasCrc = (flags & 0x40) !== 0;
+  const indexBytes = flags & 0x07;
+  const offsetBytes = bytes[5];
+  if (indexBytes < 1 || indexBytes > 4 || offsetBytes < 1 || offsetBytes > 8) {
+    throw new Error('Invalid bag of cells header');
+  }
+
+  let offset = 6;
+  const cellCount = readUintBE(bytes, offset, indexBytes); offset += indexBytes;
+  const rootCount = readUintBE(bytes, offset, indexBytes); offset += indexBytes;
+  offset += indexBytes;  // absent
+  const cellsSize = readUintBE(bytes, offset, offsetBytes); offset += offsetBytes;
+  const rootIndexes: number[] = [];
+  for (let i = 0; i < rootCount; i++) {
+    rootIndexes.push(readUintBE(bytes, offset, indexBytes));
+    offset += indexBytes;
+  }
+  if (hasIndex) {
+    offset += cellCount * offsetBytes;
+  }
+
+  const end = offset + cellsSize;
+  if (end + (hasCrc ? 4 : 0) > bytes.length) {
+    throw new Error('Truncated bag of cells');
+  }
+  if (hasCrc && crc32c(bytes.subarray(0, end)) !== new DataView(bytes.buffer, bytes.byteOffset).getUint32(end, true)) {
+    throw new Error('Bag of cells checksum mismatch');
+  }
+
+  // Read raw cells, then build them from the last one, since refs point forward
+  const raw: { data: Uint8Array; bitLength: number; refs: number[] }[] = [];
+  for (let i = 0; i < cellCount; i++) {
+    const d1 = bytes[offset];
+    const d2 = bytes[offset + 1];
+    offset += 2;
+    if (d1 & 0x08) {
+      throw new Error('Exotic cells are not supported');
+    }
+    const refCount = d1 & 0x07;
+    const dataLength = Math.ceil(d2 / 2);
+    const data = bytes.slice(offset, offset + dataLength);
+    offset += dataLength;
+
+    let bitLength = dataLength * 8;
+    if (d2 % 2 === 1) {
+      // Strip the completion tag: the lowest set bit of the last byte
+      const last = data[dataLength - 1];
+      const tagBit = last === 0 ? 8 : Math.log2(last & -last) + 1;
+      bitLength -= tagBit;
+      data[dataLength - 1] &= 0xff << tagBit;
+    }
+
+    const refs: number[] = [];
+    for (let r = 0; r < refCount; r++) {
+      refs.push(readUintBE(bytes, offset, indexBytes));
+      offset += indexBytes;
+    }
+    raw.push({ data, bitLength, refs });
+  }
+
+  const cells: Cell[] = new Array(cellCount);
+  for (let i = cellCount - 1; i >= 0; i--) {
+    const { data, bitLength, refs } = raw[i];
+    if (refs.some(ref => ref <= i || ref >= cellCount)) {
+      throw new Error('Invalid cell reference in bag of cells');
+    }
+    cells[i] = new Cell(data, bitLength, refs.map(ref => cells[ref]));
+  }
+  return rootIndexes.map(index => cells[index]);
+}
@@ -25,6 +25,19 @@ CREATE TABLE IF NOT EXISTS passkeys (
   FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
 );
 
+-- Per-passkey wrapped copies of the user's wallet key (envelope encryption)
+-- The wallet key encrypts wallet_addresses.private_key_encrypted and wallet_seeds.seed_encrypted;
+-- each row holds it encrypted under a key derived from one passkey's PRF output
+CREATE TABLE IF NOT EXISTS passkey_key_wraps (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  credential_id TEXT UNIQUE NOT NULL,
+  wrapped_key TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (credential_id) REFERENCES passkeys(credential_id) ON DELETE CASCADE
+);
+
 -- Sessions table for authenticated users
 CREATE TABLE IF NOT EXISTS sessions (
   id TEXT PRIMARY KEY,
@@ -59,12 +72,25 @@ CREATE TABLE IF NOT EXISTS wallet_addresses (
   chain_type TEXT NOT NULL,  -- 'evm', 'svm', 'btc', 'canton'
   address TEXT NOT NULL,
   private_key_encrypted TEXT,  -- encrypted private key for derived wallets
-  derivation_path TEXT,
+  derivation_path TEXT,        -- BIP32/SLIP-0010 path within the user's wallet seed (NULL for legacy random keys)
+  public_key TEXT,             -- compressed secp256k1 key (BTC) or Ed25519 key (TON), from which every address type is derived
+  testnet_address TEXT,        -- BTC: `address` encoded for testnet (tb1…, m…/n…); testnet reuses the key
+  legacy_address TEXT,         -- TON: pre-wallet-contract address the row was migrated from, shown as a warning
   created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
   FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
   UNIQUE(user_id, chain_type)
 );
 
+-- Wallet seeds table (one BIP39 mnemonic per user, encrypted client-side with the PRF-derived key)
+-- wallet_addresses rows with a derivation_path are derived from this seed; NULL paths are legacy random keys
+CREATE TABLE IF NOT EXISTS wallet_seeds (
+  id TEXT PRIMARY KEY,
+  user_id TEXT UNIQUE NOT NULL,
+  seed_encrypted TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
 -- Assets whitelist table (base asset info)
 CREATE TABLE IF NOT EXISTS assets (
   id TEXT PRIMARY KEY,
@@ -188,6 +214,7 @@ CREATE TABLE IF NOT EXISTS rpc_endpoints (
   network TEXT NOT NULL,          -- 'mainnet' or 'testnet'
   name TEXT,                      -- Provider-specific name: 'ZAN Ethereum Mainnet'
   rpc_url TEXT NOT NULL,          -- The actual RPC endpoint URL
+  provider_type TEXT,             -- API spoken by rpc_url: NULL/'jsonrpc' (default) or 'esplora' (Bitcoin only)
   priority INTEGER DEFAULT 0,     -- Lower number = higher priority (0 = primary, 1 = first fallback, etc.)
   is_enabled INTEGER DEFAULT 1,   -- Can disable without deleting
   created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
@@ -195,13 +222,37 @@ CREATE TABLE IF NOT EXISTS rpc_endpoints (
   UNIQUE(chain_type, chain_name, network, priority)
 );
 
+-- EVM chain registry (chains are added by superadmins; RPC URLs live in rpc_endpoints)
+CREATE TABLE IF NOT EXISTS evm_chains (
+  chain_id INTEGER PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,          -- Matches asset_chains.chain and rpc_endpoints.chain_name
+  native_symbol TEXT NOT NULL,
+  native_decimals INTEGER DEFAULT 18,
+  explorer_url TEXT,                  -- Block explorer base URL: 'https://etherscan.io'
+  supports_eip1559 INTEGER DEFAULT 1, -- 0 signs legacy transactions with gasPrice (e.g. BNB Smart Chain)
+  icon TEXT,
+  is_testnet INTEGER DEFAULT 0,
+  testnet_chain_id INTEGER,           -- Chain a mainnet chain runs on in testnet mode
+  is_enabled INTEGER DEFAULT 1,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT OR IGNORE INTO evm_chains (chain_id, name, native_symbol, native_decimals, explorer_url, supports_eip1559, icon, is_testnet, testnet_chain_id, is_enabled) VALUES
+  (1, 'Ethereum', 'ETH', 18, 'https://etherscan.io', 1, 'Ξ', 0, 11155111, 1),
+  (8453, 'Base', 'ETH', 18, 'https://basescan.org', 1, '🔵', 0, 84532, 1),
+  (56, 'BNB Smart Chain', 'BNB', 18, 'https://bscscan.com', 0, NULL, 0, 97, 0),
+  (11155111, 'Sepolia', 'ETH', 18, 'https://sepolia.etherscan.io', 1, 'Ξ', 1, NULL, 1),
+  (84532, 'Base Sepolia', 'ETH', 18, 'https://sepolia.basescan.org', 1, '🔵', 1, NULL, 1),
+  (97, 'BSC Testnet', 'tBNB', 18, 'https://testnet.bscscan.com', 0, NULL, 1, NULL, 0);
+
 -- Transactions table (records all inflow/outflow for user accounts)
 CREATE TABLE IF NOT EXISTS transactions (
   id TEXT PRIMARY KEY,
   user_id TEXT NOT NULL,
   tx_hash TEXT,                     -- Blockchain transaction hash or Canton event_id
   tx_type TEXT NOT NULL,            -- 'send', 'receive', 'swap', 'bridge', 'tap', 'fee'
-  status TEXT DEFAULT 'pending',    -- 'pending', 'confirmed', 'failed'
+  status TEXT DEFAULT 'pending',    -- 'pending', 'confirmed', 'failed', 'replaced'
 
   -- Asset info
   asset_symbol TEXT NOT NULL,       -- 'CC', 'ETH', 'USDC', 'BTC', 'SOL', etc.
@@ -243,13 +294,104 @@ CREATE TABLE IF NOT EXISTS user_app_access (
   UNIQUE(user_id, app_id)
 );
 
+-- Permission scopes granted by a user to an embedded dock app (one row per scope)
+CREATE TABLE IF NOT EXISTS user_app_permissions (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  app_id TEXT NOT NULL,
+  scope TEXT NOT NULL,              -- 'read_addresses', 'read_balances', 'canton_read', 'canton_act_as', 'sign_evm', etc.
+  granted_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (app_id) REFERENCES apps(id) ON DELETE CASCADE,
+  UNIQUE(user_id, app_id, scope)
+);
+
+-- Spending limits and transfer policies (user_id NULL = applies to every user)
+CREATE TABLE IF NOT EXISTS spending_policies (
+  id TEXT PRIMARY KEY,
+  user_id TEXT,
+  policy_type TEXT NOT NULL,        -- 'tx_limit', 'daily_limit', 'allow_destination', 'deny_destination', 'allow_selector'
+  chain_type TEXT,                  -- NULL = any chain
+  asset_symbol TEXT,                -- required for limits, NULL = any asset otherwise
+  value TEXT NOT NULL,              -- limit amount, address or 4-byte selector
+  description TEXT,
+  is_enabled INTEGER DEFAULT 1,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Social recovery: each user's guardian key pair (private key encrypted under their wallet key)
+CREATE TABLE IF NOT EXISTS guardian_keys (
+  user_id TEXT PRIMARY KEY,
+  public_key TEXT NOT NULL,             -- uncompressed P-256, hex
+  private_key_encrypted TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Social recovery: how many guardians must approve (N of M)
+CREATE TABLE IF NOT EXISTS recovery_configs (
+  user_id TEXT PRIMARY KEY,
+  threshold INTEGER NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Social recovery: the owner's wallet key shares, each encrypted to one guardian's key
+CREATE TABLE IF NOT EXISTS recovery_guardians (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  guardian_user_id TEXT NOT NULL,
+  encrypted_share TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (guardian_user_id) REFERENCES users(id) ON DELETE CASCADE,
+  UNIQUE(user_id, guardian_user_id)
+);
+
+-- Social recovery: requests to restore access with a new passkey
+CREATE TABLE IF NOT EXISTS recovery_requests (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  recovery_public_key TEXT NOT NULL,    -- key held by the recovering device
+  secret_hash TEXT NOT NULL,            -- SHA-256 of the secret only the recovering device knows
+  threshold INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending', -- 'requested' (until a guardian starts it), 'pending', 'cancelled', 'completed'
+  available_at DATETIME NOT NULL,       -- earliest completion time; the owner can cancel until then
+  registration_code_id TEXT,            -- single-use 'recovery' code minted once the request is ready
+  start_code TEXT,                      -- code a guardian enters to start a 'requested' recovery
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  cancelled_at DATETIME,
+  completed_at DATETIME,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Social recovery: guardian shares re-encrypted to the recovering device's key
+CREATE TABLE IF NOT EXISTS recovery_approvals (
+  id TEXT PRIMARY KEY,
+  request_id TEXT NOT NULL,
+  guardian_user_id TEXT NOT NULL,
+  encrypted_share TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (request_id) REFERENCES recovery_requests(id) ON DELETE CASCADE,
+  FOREIGN KEY (guardian_user_id) REFERENCES users(id) ON DELETE CASCADE,
+  UNIQUE(request_id, guardian_user_id)
+);
+
 -- Indexes
 CREATE INDEX IF NOT EXISTS idx_user_app_access_user_id ON user_app_access(user_id);
 CREATE INDEX IF NOT EXISTS idx_user_app_access_app_id ON user_app_access(app_id);
+CREATE INDEX IF NOT EXISTS idx_user_app_permissions_user_app ON user_app_permissions(user_id, app_id);
+CREATE INDEX IF NOT EXISTS idx_spending_policies_user_id ON spending_policies(user_id);
+CREATE INDEX IF NOT EXISTS idx_recovery_guardians_guardian ON recovery_guardians(guardian_user_id);
+CREATE INDEX IF NOT EXISTS idx_recovery_requests_user_status ON recovery_requests(user_id, status);
+CREATE INDEX IF NOT EXISTS idx_recovery_approvals_request_id ON recovery_approvals(request_id);
 CREATE INDEX IF NOT EXISTS idx_registration_codes_code ON registration_codes(code);
 CREATE INDEX IF NOT EXISTS idx_registration_code_uses_code_id ON registration_code_uses(code_id);
 CREATE INDEX IF NOT EXISTS idx_passkeys_user_id ON passkeys(user_id);
 CREATE INDEX IF NOT EXISTS idx_passkeys_credential_id ON passkeys(credential_id);
+CREATE INDEX IF NOT EXISTS idx_passkey_key_wraps_user_id ON passkey_key_wraps(user_id);
 CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id);
 CREATE INDEX IF NOT EXISTS idx_sessions_expires_at ON sessions(expires_at);
 CREATE INDEX IF NOT EXISTS idx_challenges_challenge ON challenges(challenge);
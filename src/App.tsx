@@ -1,22 +1,61 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { base64URLStringToBuffer, bufferToBase64URLString } from '@simplewebauthn/browser';
+import { hexToBytes } from '@noble/hashes/utils.js';
 import { Html5Qrcode } from 'html5-qrcode';
-import { generateWalletsForChains, WalletData, decryptPrivateKey } from './crypto';
-import { WalletBridge } from './walletBridge';
+import {
+  generateWalletsForChains,
+  generateMnemonic,
+  encryptMnemonic,
+  decryptMnemonic,
+  decryptPrivateKey,
+  generateWalletKey,
+  deriveLegacyWalletKey,
+  wrapWalletKey,
+  unwrapWalletKey,
+  canDecrypt,
+  createWalletBackup,
+  openWalletBackup,
+  restoreWalletsFromBackup,
+  generateGuardianKey,
+  generateRecoveryKey,
+  splitWalletKey,
+  reencryptShare,
+  recoverWalletKey,
+  recoverWalletPublicKey
+} from './crypto';
+import type { StoredWallet, WalletBackupContents, WalletBackupFile, WalletChainType } from './crypto';
+import { WalletBridge, WalletBridgeError, WalletErrorCode, APP_SCOPE_LABELS } from './walletBridge';
+import type { ApprovalRequest, AppScope, RequestContext, BTCTransferParams, SignPsbtParams, FinalizePsbtParams, SignMessageParams, SwitchEVMChainParams, EthRpcParams, SignRawSolanaTransactionParams, SignAllSolanaTransactionsParams, SendRawSolanaTransactionParams } from './walletBridge';
+import { evaluateSpend, evmSpendIntent, POLICY_TYPE_LABELS } from './spendingPolicy';
+import type { SpendIntent, SpendingPolicy } from './spendingPolicy';
+import { getEvmChainByName, getEvmChains, getMainnetEvmChains, resolveEvmChainId, setEvmChains } from './evmChains';
+import type { EvmChain } from './evmChains';
+import { simulateEvmTransaction } from './evmSimulation';
+import type { EvmSimulation } from './evmSimulation';
+import { ALLOWANCE_RISK_LABELS, buildRevokeTransaction, scanAllowances } from './evmAllowances';
+import type { AllowanceScan, TokenAllowance } from './evmAllowances';
+import { holdSessionKey, getSessionKey, endSigningSession, clearSigningSessions, onSigningSessionsChange } from './signingSession';
+import type { SigningSessionInfo } from './signingSession';
 import * as evmSigner from './evmSigner';
 import * as btcSigner from './btcSigner';
+import { BTC_PROVIDER_TYPES, BTC_PROVIDER_TYPE_LABELS, normalizeBtcProviderType } from '../lib/btcProvider';
 import * as solSigner from './solSigner';
 import * as tronSigner from './tronSigner';
 import * as tonSigner from './tonSigner';
 import Wallet from './components/Wallet';
+import { QRCodeSVG } from 'qrcode.react';
+import ApprovalSheet from './components/ApprovalSheet';
+import { formatUnits, getPsbtOutflow, getSolanaOutflow } from './txPreview';
 import {
   ShieldCheck,
   Users,
   KeyRound,
   Globe,
   LayoutGrid,
+  Link2,
   Settings,
-  LogOut
+  LogOut,
+  Gauge
 } from 'lucide-react';
 import './themes/index.css';
 import './App.css';
@@ -65,6 +104,9 @@ interface ChainAddress {
   chain: string;
   address: string;
   icon?: string;
+  addressType?: btcSigner.BTCAddressType;  // Bitcoin: the type `address` receives on
+  addressesByType?: Record<btcSigner.BTCAddressType, string>;  // Bitcoin: every address of the key, when its public key is known
+  network?: btcSigner.BTCNetwork;  // Bitcoin: the network the addresses are encoded for
 }
 
 interface Transaction {
@@ -98,6 +140,10 @@ interface TransactionPagination {
 interface WalletAddress {
   chainType: string;
   address: string;
+  derivationPath?: string | null;
+  publicKey?: string | null;
+  testnetAddress?: string | null;  // BTC: the address encoded for testnet
+  legacyAddress?: string | null;  // TON: the pre-wallet-contract address this wallet was moved from
 }
 
 interface CustomAsset {
@@ -172,8 +218,91 @@ interface DbUser {
   created_at: string;
 }
 
+// Social recovery started on this device, kept until the new passkey is registered
+interface PendingRecovery {
+  requestId: string;
+  secret: string;
+  startCode?: string;  // read out to a guardian, who starts the recovery with it
+  username: string;
+  privateKey: string;  // hex PKCS#8 key the guardians re-encrypt their shares to
+}
+
+interface RecoveryProgress {
+  status: 'requested' | 'pending' | 'cancelled' | 'completed';
+  threshold: number;
+  approvals: number;
+  availableAt: string;
+  ready: boolean;
+  // Only once ready
+  username?: string;
+  registrationCode?: string;
+  shares?: string[];
+  checkCiphertext?: string | null;
+}
+
+interface OwnRecoveryRequest {
+  id: string;
+  threshold: number;
+  approvals: number;
+  availableAt: string;
+  createdAt: string;
+}
+
+interface GuardianRecoveryRequest extends OwnRecoveryRequest {
+  username: string;
+  approved: boolean;
+  recoveryPublicKey: string;
+  encryptedShare: string;
+}
+
+// Bitcoin address type the user receives on (all types are spent from)
+const BTC_ADDRESS_TYPE_KEY = 'walletBtcAddressType';
+
+function getPreferredBtcAddressType(): btcSigner.BTCAddressType {
+  const saved = localStorage.getItem(BTC_ADDRESS_TYPE_KEY);
+  return btcSigner.BTC_RECEIVE_ADDRESS_TYPES.find(type => type === saved) || 'p2wpkh';
+}
+
+// Legacy TON address whose warning the user dismissed
+const TON_LEGACY_NOTICE_KEY = 'walletTonLegacyNoticeDismissed';
+
+// Network a Bitcoin request runs on; apps cannot sign for the network the wallet is not switched to
+function getBtcNetwork(btcAddr: ChainAddress, requested?: btcSigner.BTCNetwork): btcSigner.BTCNetwork {
+  const network = btcAddr.network || 'mainnet';
+  if (requested && requested !== network) {
+    throw new Error(`The wallet is on Bitcoin ${network}; switch networks to use ${requested}`);
+  }
+  return network;
+}
+
+// EVM chain docked apps start on: Ethereum, or Sepolia in testnet mode
+function getDefaultEvmChainId(mode: 'mainnet' | 'testnet'): number {
+  return mode === 'testnet' ? 11155111 : 1;
+}
+
+// Addresses whose UTXOs a Bitcoin wallet can spend
+function getBtcSpendAddresses(btcAddr: ChainAddress): string[] {
+  return btcAddr.addressesByType ? Object.values(btcAddr.addressesByType) : [btcAddr.address];
+}
+
+// Fetch the wallet's UTXOs and pick inputs and the fee for a payment
+async function planBtcTransfer(
+  btcAddr: ChainAddress,
+  params: { to: string; amount: number; changeAddress?: string } & btcSigner.BTCFeeOptions,
+  network: btcSigner.BTCNetwork
+): Promise<btcSigner.BTCTransactionPlan> {
+  const utxos = await btcSigner.getUTXOsForAddresses(getBtcSpendAddresses(btcAddr), network);
+  if (utxos.length === 0) {
+    throw new Error('No UTXOs available');
+  }
+  return btcSigner.planTransaction(utxos, params.to, params.amount, params.changeAddress || btcAddr.address, params, network);
+}
+
 const API_BASE = window.location.origin;
 
+// Durations offered for unlocked signing sessions (capped by the admin maximum)
+const SIGNING_SESSION_MINUTES = [1, 5, 10, 15, 30, 60];
+
 // Snap-to-grid helper
 const SNAP_GRID = 1;
 const snap = (value: number, grid: number) => grid <= 1 ? value : Math.round(value / grid) * grid;
@@ -233,15 +362,42 @@ function App() {
     decimals: 18
   });
   const [addAssetError, setAddAssetError] = useState('');
+  const [assetLookup, setAssetLookup] = useState<{ status: 'loading' | 'found' | 'failed'; message: string } | null>(null);
 
   // Settings / Passkey management
   const [showSettingsModal, setShowSettingsModal] = useState(false);
-  const [passkeys, setPasskeys] = useState<Array<{ id: string; name: string; deviceType: string; backedUp: boolean; transports: string[]; createdAt: string }>>([]);
+  const [passkeys, setPasskeys] = useState<Array<{ id: string; credentialId: string; name: string; canUnlock: boolean; deviceType: string; backedUp: boolean; transports: string[]; createdAt: string }>>([]);
   const [settingsLoading, setSettingsLoading] = useState(false);
   const [settingsError, setSettingsError] = useState('');
   const [deletingPasskeyId, setDeletingPasskeyId] = useState<string | null>(null);
   const [addingPasskey, setAddingPasskey] = useState(false);
+  const [enablingPasskeyId, setEnablingPasskeyId] = useState<string | null>(null);
   const [newPasskeyName, setNewPasskeyName] = useState('');
+  const [recoveryPhrase, setRecoveryPhrase] = useState<string | null>(null);
+  const [legacyWalletChains, setLegacyWalletChains] = useState<string[]>([]);
+  const [backupMode, setBackupMode] = useState<'export' | 'restore' | null>(null);
+  const [backupPassphrase, setBackupPassphrase] = useState('');
+  const [backupPassphraseConfirm, setBackupPassphraseConfirm] = useState('');
+  const [backupFile, setBackupFile] = useState<WalletBackupFile | null>(null);  // created for export
+  const [restoreBackupText, setRestoreBackupText] = useState('');
+  const [backupBusy, setBackupBusy] = useState(false);
+  const [registerBackupText, setRegisterBackupText] = useState('');  // optional backup restored on registration
+  const [registerBackupPassphrase, setRegisterBackupPassphrase] = useState('');
+  // Social recovery: this account's guardians and requests waiting on the user as owner or guardian
+  const [recoveryGuardians, setRecoveryGuardians] = useState<{ threshold: number; guardians: Array<{ userId: string; username: string }> } | null>(null);
+  const [editingGuardians, setEditingGuardians] = useState(false);
+  const [guardianUsernamesInput, setGuardianUsernamesInput] = useState('');
+  const [guardianThresholdInput, setGuardianThresholdInput] = useState('2');
+  const [startRecoveryUsername, setStartRecoveryUsername] = useState('');
+  const [startRecoveryCode, setStartRecoveryCode] = useState('');
+  const [recoveryBusy, setRecoveryBusy] = useState(false);
+  const [ownRecoveryRequests, setOwnRecoveryRequests] = useState<OwnRecoveryRequest[]>([]);
+  const [guardianRecoveryRequests, setGuardianRecoveryRequests] = useState<GuardianRecoveryRequest[]>([]);
+  // Why setting up the user's wallets failed at sign-in, until a retry succeeds
+  const [walletSetupError, setWalletSetupError] = useState<string | null>(null);
+  const [walletSetupBusy, setWalletSetupBusy] = useState(false);
+  // TON address the wallet used before it moved to its wallet contract address, until dismissed
+  const [tonLegacyAddress, setTonLegacyAddress] = useState<string | null>(null);
 
   // Dock state
   const [dockVisible, setDockVisible] = useState(false);
@@ -266,9 +422,39 @@ function App() {
   // Dock apps configuration - loaded from API
   const [dockApps, setDockApps] = useState<Array<{ id: string; name: string; icon: string; color: string; url: string | null; zoom?: number }>>([]);
   const [allowedIframeOrigins, setAllowedIframeOrigins] = useState<string[]>([]);
+  // EVM chain registry from config (also set in evmChains for non-React code)
+  const [evmChainList, setEvmChainList] = useState<EvmChain[]>(getEvmChains);
 
   // Wallet Bridge for iframe communication
   const walletBridgeRef = useRef<WalletBridge | null>(null);
+  // Unlocked signing sessions: user preference (capped by the admin maximum) and live sessions
+  const [signingSessionSettings, setSigningSessionSettings] = useState<{ enabled: boolean; minutes: number; scope: 'chain' | 'app' }>(() => {
+    try {
+      const saved = JSON.parse(localStorage.getItem('walletSigningSession') || 'null');
+      if (saved && typeof saved.minutes === 'number') return saved;
+    } catch {
+      // Ignore malformed settings
+    }
+    return { enabled: false, minutes: 5, scope: 'chain' };
+  });
+  const [signingSessionMaxMinutes, setSigningSessionMaxMinutes] = useState(0);
+  const [activeSigningSessions, setActiveSigningSessions] = useState<SigningSessionInfo[]>([]);
+  const signingSessionRef = useRef<{ minutes: number; scope: 'chain' | 'app' }>({ minutes: 0, scope: 'chain' });
+  // Scopes granted to dock apps; the ref gives the bridge the latest grants without re-creating it
+  const [appPermissions, setAppPermissions] = useState<Array<{ appId: string; appName: string | null; scopes: AppScope[]; grantedAt: string }>>([]);
+  const appScopesRef = useRef<Record<string, AppScope[]>>({});
+  const [revokingAppId, setRevokingAppId] = useState<string | null>(null);
+  // ERC-20 allowances found by the scanner in Settings
+  const [allowanceChain, setAllowanceChain] = useState('Ethereum');
+  const [allowanceScan, setAllowanceScan] = useState<AllowanceScan | null>(null);
+  const [allowancesLoading, setAllowancesLoading] = useState(false);
+  const [revokingAllowance, setRevokingAllowance] = useState<TokenAllowance | null>(null);
+  // Bridge requests waiting for the user to approve or reject (first one is shown)
+  const [approvalQueue, setApprovalQueue] = useState<Array<ApprovalRequest & { id: string; resolve: (approved: boolean) => void }>>([]);
+  // Simulation of the EVM transaction at the front of the approval queue
+  const [approvalSimulation, setApprovalSimulation] = useState<{ id: string; result: EvmSimulation | 'pending' } | null>(null);
+  // Address lookup tables of the Solana transactions at the front of the approval queue
+  const [approvalLookupTables, setApprovalLookupTables] = useState<{ id: string; tables: Record<string, string[]> } | null>(null);
   const loadingWalletRef = useRef(false); // Prevent concurrent loadWalletData calls
   const lastLoadTimeRef = useRef(0); // Throttle repeated calls
   const initialLoadDoneRef = useRef(false); // Track if initial load completed
@@ -651,7 +837,18 @@ function App() {
   };
 
   // Login form
-  const [authMode, setAuthMode] = useState<'login' | 'register'>('login');
+  const [authMode, setAuthMode] = useState<'login' | 'register' | 'recover'>(() =>
+    localStorage.getItem('walletPendingRecovery') ? 'recover' : 'login'
+  );
+  const [recoveryUsername, setRecoveryUsername] = useState('');
+  const [pendingRecovery, setPendingRecovery] = useState<PendingRecovery | null>(() => {
+    try {
+      return JSON.parse(localStorage.getItem('walletPendingRecovery') || 'null');
+    } catch {
+      return null;
+    }
+  });
+  const [recoveryProgress, setRecoveryProgress] = useState<RecoveryProgress | null>(null);
   const [loginUsername, setLoginUsername] = useState('');
   const [loginError, setLoginError] = useState('');
   const [authLoading, setAuthLoading] = useState(false);
@@ -689,6 +886,9 @@ function App() {
     CHAT_AGENT_WEBHOOK_URL: string;
     SPLICE_HOST: string;
     CANTON_JSON_HOST: string;
+    SIGNING_SESSION_MAX_MINUTES: string;
+    RECOVERY_DELAY_HOURS: string;
+    RECOVERY_WEBHOOK_URL: string;
   }
   interface RpcEndpointRow {
     id: string;
@@ -698,11 +898,26 @@ function App() {
     network: string;
     name: string | null;
     rpc_url: string;
+    provider_type: string | null;
     priority: number;
     is_enabled: number;
     created_at: string;
     updated_at: string;
   }
+  interface EvmChainRow {
+    chain_id: number;
+    name: string;
+    native_symbol: string;
+    native_decimals: number;
+    explorer_url: string | null;
+    supports_eip1559: number;
+    icon: string | null;
+    is_testnet: number;
+    testnet_chain_id: number | null;
+    is_enabled: number;
+    created_at: string;
+    updated_at: string;
+  }
   interface AppRow {
     id: string;
     name: string;
@@ -731,21 +946,30 @@ function App() {
   const [newAdminIsSuperadmin, setNewAdminIsSuperadmin] = useState(false);
   const [editingConfig, setEditingConfig] = useState(false);
   const [editConfigData, setEditConfigData] = useState<ConfigData | null>(null);
-  const [superadminSection, setSuperadminSection] = useState<'admin-users' | 'config' | 'users' | 'codes' | 'rpc' | 'apps'>('admin-users');
+  const [superadminSection, setSuperadminSection] = useState<'admin-users' | 'config' | 'users' | 'codes' | 'rpc' | 'chains' | 'apps' | 'policies'>('admin-users');
   const [adminSidebarCollapsed, setAdminSidebarCollapsed] = useState(false);
   const [rpcNetworkMode, setRpcNetworkMode] = useState<'mainnet' | 'testnet'>('mainnet');
   const [rpcEndpoints, setRpcEndpoints] = useState<RpcEndpointRow[]>([]);
   const [rpcLoading, setRpcLoading] = useState(false);
   const [showAddRpc, setShowAddRpc] = useState(false);
   const [editingRpc, setEditingRpc] = useState<RpcEndpointRow | null>(null);
-  const [newRpc, setNewRpc] = useState({ chain_type: 'evm', chain_name: 'Ethereum', chain_id: '1', network: 'mainnet', name: '', rpc_url: '', priority: 0, is_enabled: true });
+  const [newRpc, setNewRpc] = useState({ chain_type: 'evm', chain_name: 'Ethereum', chain_id: '1', network: 'mainnet', name: '', rpc_url: '', provider_type: '', priority: 0, is_enabled: true });
   const [availableChains, setAvailableChains] = useState<Array<{ chain: string; chain_type: string; chain_id: string | null; network: string }>>([]);
+  const [evmChainRows, setEvmChainRows] = useState<EvmChainRow[]>([]);
+  const [evmChainsLoading, setEvmChainsLoading] = useState(false);
+  const [showAddEvmChain, setShowAddEvmChain] = useState(false);
+  const [editingEvmChain, setEditingEvmChain] = useState<EvmChainRow | null>(null);
+  const [newEvmChain, setNewEvmChain] = useState({ chain_id: '', name: '', native_symbol: '', native_decimals: 18, explorer_url: '', supports_eip1559: true, icon: '', is_testnet: false, testnet_chain_id: '' });
   const [appsList, setAppsList] = useState<AppRow[]>([]);
   const [appsLoading, setAppsLoading] = useState(false);
   const [showAddApp, setShowAddApp] = useState(false);
   const [editingApp, setEditingApp] = useState<AppRow | null>(null);
   const [newApp, setNewApp] = useState({ id: '', name: '', icon: '', color: '#6366f1', url: '', sort_order: 0, is_enabled: true });
   const [emojiPickerTarget, setEmojiPickerTarget] = useState<'new' | 'edit' | null>(null);
+  const [spendingPolicies, setSpendingPolicies] = useState<Array<SpendingPolicy & { username: string | null }>>([]);
+  const [policiesLoading, setPoliciesLoading] = useState(false);
+  const [showAddPolicy, setShowAddPolicy] = useState(false);
+  const [newPolicy, setNewPolicy] = useState({ user_id: '', policy_type: 'tx_limit', chain_type: '', asset_symbol: '', value: '', description: '' });
 
   // App access control state
   interface AppAccessUser { user_id: string; username: string; display_name: string | null }
@@ -799,6 +1023,8 @@ function App() {
     const saved = localStorage.getItem('walletNetworkMode');
     return (saved === 'testnet') ? 'testnet' : 'mainnet';
   });
+  // EVM network for the EIP-1193 provider in docked apps
+  const evmChainIdRef = useRef<number>(getDefaultEvmChainId(networkMode));
 
   // DAR upload state
   const [darUploading, setDarUploading] = useState(false);
@@ -841,10 +1067,16 @@ function App() {
           tron?: Record<string, string>;
           ton?: Record<string, string>;
         };
+        rpcProviderTypes?: {
+          btc?: Record<string, string>;
+        };
+        evmChains?: EvmChain[];
         chatAgentWebhookUrl?: string | null;
         logo?: string | null;
+        signingSessionMaxMinutes?: number;
       }>;
       if (data.success && data.data) {
+        setSigningSessionMaxMinutes(data.data.signingSessionMaxMinutes || 0);
         if (data.data.theme) setTheme(data.data.theme);
         if (data.data.orgName) {
           setOrgName(data.data.orgName);
@@ -860,11 +1092,15 @@ function App() {
         if (data.data.rpcEndpoints) {
           const rpc = data.data.rpcEndpoints;
           if (rpc.evm) evmSigner.setEvmRpcEndpoints(rpc.evm);
-          if (rpc.btc) btcSigner.setBtcRpcEndpoints(rpc.btc);
+          if (rpc.btc) btcSigner.setBtcRpcEndpoints(rpc.btc, data.data.rpcProviderTypes?.btc);
           if (rpc.svm) solSigner.setSolRpcEndpoints(rpc.svm);
           if (rpc.tron) tronSigner.setTronRpcEndpoints(rpc.tron);
           if (rpc.ton) tonSigner.setTonRpcEndpoints(rpc.ton);
         }
+        if (data.data.evmChains && data.data.evmChains.length > 0) {
+          setEvmChains(data.data.evmChains);
+          setEvmChainList(data.data.evmChains);
+        }
         if (data.data.chatAgentWebhookUrl) {
           setChatAgentWebhookUrl(data.data.chatAgentWebhookUrl);
         }
@@ -877,6 +1113,41 @@ function App() {
     }
   };
 
+  // Apply signing session settings; any change ends the sessions started under the old ones
+  useEffect(() => {
+    const minutes = signingSessionSettings.enabled ? Math.min(signingSessionSettings.minutes, signingSessionMaxMinutes) : 0;
+    signingSessionRef.current = { minutes, scope: signingSessionSettings.scope };
+    clearSigningSessions();
+  }, [signingSessionSettings, signingSessionMaxMinutes]);
+
+  useEffect(() => onSigningSessionsChange(setActiveSigningSessions), []);
+
+  const updateSigningSessionSettings = (update: Partial<typeof signingSessionSettings>) => {
+    const next = { ...signingSessionSettings, ...update };
+    setSigningSessionSettings(next);
+    localStorage.setItem('walletSigningSession', JSON.stringify(next));
+  };
+
+  // Never keep a revealed recovery phrase or backup passphrase around after Settings closes
+  useEffect(() => {
+    if (!showSettingsModal) {
+      setRecoveryPhrase(null);
+      setBackupMode(null);
+      setBackupPassphrase('');
+      setBackupPassphraseConfirm('');
+      setBackupFile(null);
+      setRestoreBackupText('');
+      setEditingGuardians(false);
+    }
+  }, [showSettingsModal]);
+
+  // Show the progress of a recovery started on this device when the recovery panel opens
+  useEffect(() => {
+    if (authMode === 'recover' && pendingRecovery) {
+      refreshRecoveryProgress();
+    }
+  }, [authMode, pendingRecovery]);
+
   // Fetch config on mount and re-fetch when session changes (for per-user app filtering)
   useEffect(() => {
     fetchConfig();
@@ -913,11 +1184,12 @@ function App() {
   const getAddresses = useCallback(() => {
     return chainAddresses.map(addr => ({
       chain: addr.chain,
-      chainType: (addr.chain.toLowerCase() === 'ethereum' ? 'evm'
+      chainType: (getEvmChainByName(addr.chain) ? 'evm'
         : addr.chain.toLowerCase() === 'solana' ? 'svm'
         : addr.chain.toLowerCase() === 'bitcoin' ? 'btc'
         : addr.chain.toLowerCase()) as 'evm' | 'svm' | 'btc' | 'tron' | 'ton' | 'canton' | 'base',
       address: addr.address,
+      addressType: addr.addressType,
     }));
   }, [chainAddresses]);
 
@@ -945,7 +1217,7 @@ function App() {
       to: tx.to || '',
       chain: tx.chainType,
       timestamp: tx.createdAt,
-      status: tx.status as 'pending' | 'confirmed' | 'failed',
+      status: tx.status as 'pending' | 'confirmed' | 'failed' | 'replaced',
     }));
   }, [transactions]);
 
@@ -971,8 +1243,32 @@ function App() {
       getAssets,
       getTransactions,
       getTransferOffers,
+      onApprovalRequest: (request: ApprovalRequest) => new Promise<boolean>(resolve => {
+        setApprovalQueue(prev => [...prev, { ...request, id: crypto.randomUUID(), resolve }]);
+      }),
+      getGrantedScopes: (appId: string) => appScopesRef.current[appId] || [],
+      onGrantScopes: async (appId: string, scopes: AppScope[]) => {
+        const response = await fetch(`${API_BASE}/api/wallet/app-permissions`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${sessionId}`
+          },
+          body: JSON.stringify({ appId, scopes })
+        });
+        const data = await response.json() as ApiResponse;
+        if (!data.success) {
+          throw new Error(data.error || 'Failed to save app permissions');
+        }
+        appScopesRef.current = {
+          ...appScopesRef.current,
+          [appId]: [...(appScopesRef.current[appId] || []), ...scopes]
+        };
+        loadAppPermissions();
+      },
       onTransferRequest: async (params: { to: string; amount: string; symbol: string; chain: string }) => {
         // This will be called when an iframe app requests a transfer
+        await checkSpendingPolicy({ chainType: 'canton', chain: 'Canton', assetSymbol: 'CC', amount: params.amount, toAddress: params.to });
         const response = await fetch(`${API_BASE}/api/wallet/transfer`, {
           method: 'POST',
           headers: {
@@ -990,6 +1286,9 @@ function App() {
           loadWalletData(true);
           return { txId: data.data.transactionId, status: data.data.status || 'confirmed' };
         }
+        if (response.status === 403) {
+          throw new WalletBridgeError(WalletErrorCode.POLICY_REJECTED, data.error || 'Transfer refused by spending policy');
+        }
         throw new Error(data.error || 'Transfer failed');
       },
       onAcceptOffer: async (contractId: string) => {
@@ -1074,90 +1373,94 @@ function App() {
         throw new Error(data.error || 'Grant rights failed');
       },
       // EVM Transaction Operations - Client-side signing with PRF
-      onSignEVMTransaction: async (params: { transaction: { to: string; value?: string; data?: string; chainId: number } }) => {
+      onSignEVMTransaction: async (params: { transaction: { to: string; value?: string; data?: string; chainId: number } }, context?: RequestContext) => {
         // Get EVM address from chainAddresses
         const evmAddr = chainAddresses.find(a => a.chain === 'Ethereum');
         if (!evmAddr) {
           throw new Error('No EVM wallet found');
         }
 
-        // Request passkey authentication to get PRF output
-        const prfOutput = await requestPrfAuthentication();
-        if (!prfOutput) {
-          throw new Error('Passkey authentication required for signing');
-        }
-
-        // Get encrypted private key from backend
-        const keyRes = await fetch(`${API_BASE}/api/wallet/private-key?chainType=evm`, {
-          headers: { 'Authorization': `Bearer ${sessionId}` }
-        });
-        const keyData = await keyRes.json() as ApiResponse<{ encryptedKey: string }>;
-        if (!keyData.success || !keyData.data) {
-          throw new Error('Failed to get encrypted key');
-        }
-
-        // Decrypt private key using PRF output
-        const privateKey = await decryptPrivateKey(prfOutput, keyData.data.encryptedKey);
+        return withSpendingPolicy(evmSpendIntent(params.transaction, spendTokensRef.current), evmAddr.address, context, async () => {
+          // Request passkey authentication to unlock the wallet key
+          const walletKey = await unlockSigningKey('evm', context?.appId);
+          if (!walletKey) {
+            throw new Error('Passkey authentication required for signing');
+          }
 
-        // Sign transaction
-        const signed = await evmSigner.signTransaction(
-          params.transaction,
-          privateKey,
-          evmAddr.address
-        );
+          // Get encrypted private key from backend
+          const keyRes = await fetch(`${API_BASE}/api/wallet/private-key?chainType=evm`, {
+            headers: { 'Authorization': `Bearer ${sessionId}` }
+          });
+          const keyData = await keyRes.json() as ApiResponse<{ encryptedKey: string }>;
+          if (!keyData.success || !keyData.data) {
+            throw new Error('Failed to get encrypted key');
+          }
 
-        return {
-          signedTransaction: signed.rawTransaction,
-          transactionHash: signed.transactionHash
-        };
+          // Decrypt private key with the wallet key
+          const privateKey = await decryptPrivateKey(walletKey, keyData.data.encryptedKey);
+
+          // Sign transaction
+          const signed = await evmSigner.signTransaction(
+            params.transaction,
+            privateKey,
+            evmAddr.address
+          );
+
+          return {
+            signedTransaction: signed.rawTransaction,
+            transactionHash: signed.transactionHash
+          };
+        }, result => result.transactionHash);
       },
-      onSendEVMTransaction: async (params: { transaction: { to: string; value?: string; data?: string; chainId: number } }) => {
+      onSendEVMTransaction: async (params: { transaction: { to: string; value?: string; data?: string; chainId: number } }, context?: RequestContext) => {
         // Get EVM address from chainAddresses
         const evmAddr = chainAddresses.find(a => a.chain === 'Ethereum');
         if (!evmAddr) {
           throw new Error('No EVM wallet found');
         }
 
-        // Request passkey authentication to get PRF output
-        const prfOutput = await requestPrfAuthentication();
-        if (!prfOutput) {
-          throw new Error('Passkey authentication required for signing');
-        }
-
-        // Get encrypted private key from backend
-        const keyRes = await fetch(`${API_BASE}/api/wallet/private-key?chainType=evm`, {
-          headers: { 'Authorization': `Bearer ${sessionId}` }
-        });
-        const keyData = await keyRes.json() as ApiResponse<{ encryptedKey: string }>;
-        if (!keyData.success || !keyData.data) {
-          throw new Error('Failed to get encrypted key');
-        }
-
-        // Decrypt private key using PRF output
-        const privateKey = await decryptPrivateKey(prfOutput, keyData.data.encryptedKey);
+        return withSpendingPolicy(evmSpendIntent(params.transaction, spendTokensRef.current), evmAddr.address, context, async () => {
+          // Request passkey authentication to unlock the wallet key
+          const walletKey = await unlockSigningKey('evm', context?.appId);
+          if (!walletKey) {
+            throw new Error('Passkey authentication required for signing');
+          }
 
-        // Sign and send transaction
-        const result = await evmSigner.signAndSendTransaction(
-          params.transaction,
-          privateKey,
-          evmAddr.address
-        );
+          // Get encrypted private key from backend
+          const keyRes = await fetch(`${API_BASE}/api/wallet/private-key?chainType=evm`, {
+            headers: { 'Authorization': `Bearer ${sessionId}` }
+          });
+          const keyData = await keyRes.json() as ApiResponse<{ encryptedKey: string }>;
+          if (!keyData.success || !keyData.data) {
+            throw new Error('Failed to get encrypted key');
+          }
 
-        return {
-          transactionHash: result.transactionHash,
-          status: result.status as 'pending' | 'confirmed' | 'failed'
-        };
+          // Decrypt private key with the wallet key
+          const privateKey = await decryptPrivateKey(walletKey, keyData.data.encryptedKey);
+
+          // Sign and send transaction
+          const result = await evmSigner.signAndSendTransaction(
+            params.transaction,
+            privateKey,
+            evmAddr.address
+          );
+
+          return {
+            transactionHash: result.transactionHash,
+            status: result.status as 'pending' | 'confirmed' | 'failed'
+          };
+        }, result => result.transactionHash);
       },
-      onSignTypedData: async (params: { typedData: { types: any; primaryType: string; domain: any; message: any } }) => {
+      onSignTypedData: async (params: { typedData: { types: any; primaryType: string; domain: any; message: any } }, context?: RequestContext) => {
         // Get EVM address from chainAddresses
         const evmAddr = chainAddresses.find(a => a.chain === 'Ethereum');
         if (!evmAddr) {
           throw new Error('No EVM wallet found');
         }
 
-        // Request passkey authentication to get PRF output
-        const prfOutput = await requestPrfAuthentication();
-        if (!prfOutput) {
+        // Request passkey authentication to unlock the wallet key
+        const walletKey = await unlockSigningKey('evm', context?.appId);
+        if (!walletKey) {
           throw new Error('Passkey authentication required for signing');
         }
 
@@ -1170,319 +1473,465 @@ function App() {
           throw new Error('Failed to get encrypted key');
         }
 
-        // Decrypt private key using PRF output
-        const privateKey = await decryptPrivateKey(prfOutput, keyData.data.encryptedKey);
+        // Decrypt private key with the wallet key
+        const privateKey = await decryptPrivateKey(walletKey, keyData.data.encryptedKey);
 
         // Sign typed data
         return evmSigner.signTypedData(params.typedData, privateKey);
       },
+      getEVMChainId: () => evmChainIdRef.current,
+      getEVMChainIds: () => evmSigner.getEvmChainIds(),
+      onSwitchEVMChain: async (params: SwitchEVMChainParams) => {
+        evmChainIdRef.current = params.chainId;
+        walletBridgeRef.current?.notifyEVMChainChanged();
+      },
+      onEthRpc: (params: Required<EthRpcParams>) => evmSigner.rpcCall(params.chainId, params.method, params.params),
       // Bitcoin Transaction Operations
-      onSignBTCTransaction: async (params: { to: string; amount: number; fee?: number; network?: 'mainnet' | 'testnet' }) => {
+      onSignBTCTransaction: async (params: BTCTransferParams, context?: RequestContext) => {
         const btcAddr = chainAddresses.find(a => a.chain === 'Bitcoin');
         if (!btcAddr) {
           throw new Error('No Bitcoin wallet found');
         }
 
-        const prfOutput = await requestPrfAuthentication();
-        if (!prfOutput) {
-          throw new Error('Passkey authentication required for signing');
-        }
-
-        const keyRes = await fetch(`${API_BASE}/api/wallet/private-key?chainType=btc`, {
-          headers: { 'Authorization': `Bearer ${sessionId}` }
-        });
-        const keyData = await keyRes.json() as ApiResponse<{ encryptedKey: string }>;
-        if (!keyData.success || !keyData.data) {
-          throw new Error('Failed to get encrypted key');
-        }
+        // Inputs and fee are chosen first so the policy sees the final amount (sendMax)
+        const network = getBtcNetwork(btcAddr, params.network);
+        const plan = await planBtcTransfer(btcAddr, params, network);
+
+        return withSpendingPolicy({
+          chainType: 'btc',
+          chain: btcAddr.chain,
+          assetSymbol: 'BTC',
+          amount: formatUnits(BigInt(plan.amount), 8),
+          toAddress: params.to
+        }, btcAddr.address, context, async () => {
+          const walletKey = await unlockSigningKey('btc', context?.appId);
+          if (!walletKey) {
+            throw new Error('Passkey authentication required for signing');
+          }
 
-        const privateKey = await decryptPrivateKey(prfOutput, keyData.data.encryptedKey);
-        const network = params.network || 'mainnet';
+          const keyRes = await fetch(`${API_BASE}/api/wallet/private-key?chainType=btc`, {
+            headers: { 'Authorization': `Bearer ${sessionId}` }
+          });
+          const keyData = await keyRes.json() as ApiResponse<{ encryptedKey: string }>;
+          if (!keyData.success || !keyData.data) {
+            throw new Error('Failed to get encrypted key');
+          }
 
-        // Get UTXOs for the address
-        const utxos = await btcSigner.getUTXOs(btcAddr.address, network);
-        if (utxos.length === 0) {
-          throw new Error('No UTXOs available');
+          const privateKey = await decryptPrivateKey(walletKey, keyData.data.encryptedKey);
+
+          const signed = await btcSigner.signTransaction(
+            plan.utxos,
+            params.to,
+            plan.amount,
+            privateKey,
+            params.changeAddress || btcAddr.address,
+            plan.fee,
+            network
+          );
+
+          return {
+            rawTransaction: signed.rawTransaction,
+            txid: signed.txid,
+            fee: plan.fee
+          };
+        }, result => result.txid);
+      },
+      onSendBTCTransaction: async (params: BTCTransferParams, context?: RequestContext) => {
+        const btcAddr = chainAddresses.find(a => a.chain === 'Bitcoin');
+        if (!btcAddr) {
+          throw new Error('No Bitcoin wallet found');
         }
 
-        const signed = await btcSigner.signTransaction(
-          utxos,
-          params.to,
-          params.amount,
-          privateKey,
-          btcAddr.address,
-          params.fee || 1000,
-          network
-        );
+        const network = getBtcNetwork(btcAddr, params.network);
+        const plan = await planBtcTransfer(btcAddr, params, network);
+
+        return withSpendingPolicy({
+          chainType: 'btc',
+          chain: btcAddr.chain,
+          assetSymbol: 'BTC',
+          amount: formatUnits(BigInt(plan.amount), 8),
+          toAddress: params.to
+        }, btcAddr.address, context, async () => {
+          const walletKey = await unlockSigningKey('btc', context?.appId);
+          if (!walletKey) {
+            throw new Error('Passkey authentication required for signing');
+          }
 
-        return {
-          rawTransaction: signed.rawTransaction,
-          txid: signed.txid
-        };
+          const keyRes = await fetch(`${API_BASE}/api/wallet/private-key?chainType=btc`, {
+            headers: { 'Authorization': `Bearer ${sessionId}` }
+          });
+          const keyData = await keyRes.json() as ApiResponse<{ encryptedKey: string }>;
+          if (!keyData.success || !keyData.data) {
+            throw new Error('Failed to get encrypted key');
+          }
+
+          const privateKey = await decryptPrivateKey(walletKey, keyData.data.encryptedKey);
+
+          const result = await btcSigner.signAndSendTransaction(
+            plan.utxos,
+            params.to,
+            plan.amount,
+            privateKey,
+            params.changeAddress || btcAddr.address,
+            plan.fee,
+            network
+          );
+
+          return {
+            txid: result.txid,
+            status: result.status,
+            fee: plan.fee
+          };
+        }, result => result.txid);
       },
-      onSendBTCTransaction: async (params: { to: string; amount: number; fee?: number; network?: 'mainnet' | 'testnet' }) => {
+      onSignPsbt: async (params: SignPsbtParams, context?: RequestContext) => {
         const btcAddr = chainAddresses.find(a => a.chain === 'Bitcoin');
         if (!btcAddr) {
           throw new Error('No Bitcoin wallet found');
         }
 
-        const prfOutput = await requestPrfAuthentication();
-        if (!prfOutput) {
-          throw new Error('Passkey authentication required for signing');
+        const network = getBtcNetwork(btcAddr, params.network);
+        const decoded = btcSigner.decodePsbt(params.psbt, network);
+        const outflow = getPsbtOutflow(decoded, getBtcSpendAddresses(btcAddr), params.signInputs);
+
+        const sign = async () => {
+          const walletKey = await unlockSigningKey('btc', context?.appId);
+          if (!walletKey) {
+            throw new Error('Passkey authentication required for signing');
+          }
+
+          const keyRes = await fetch(`${API_BASE}/api/wallet/private-key?chainType=btc`, {
+            headers: { 'Authorization': `Bearer ${sessionId}` }
+          });
+          const keyData = await keyRes.json() as ApiResponse<{ encryptedKey: string }>;
+          if (!keyData.success || !keyData.data) {
+            throw new Error('Failed to get encrypted key');
+          }
+
+          const privateKey = await decryptPrivateKey(walletKey, keyData.data.encryptedKey);
+          const signed = btcSigner.signPsbt(params.psbt, privateKey, params.signInputs);
+
+          return { ...signed, txid: decoded.txid };
+        };
+
+        // Co-signing a shared input or a payment back to the wallet moves none of its funds
+        if (outflow.amount === 0) {
+          return sign();
         }
 
-        const keyRes = await fetch(`${API_BASE}/api/wallet/private-key?chainType=btc`, {
-          headers: { 'Authorization': `Bearer ${sessionId}` }
-        });
-        const keyData = await keyRes.json() as ApiResponse<{ encryptedKey: string }>;
-        if (!keyData.success || !keyData.data) {
-          throw new Error('Failed to get encrypted key');
+        const intent = {
+          chainType: 'btc',
+          chain: btcAddr.chain,
+          assetSymbol: 'BTC',
+          amount: formatUnits(BigInt(outflow.amount), 8),
+          toAddress: outflow.destinations[0]
+        };
+        // The amount is recorded once, but every destination must pass the address rules
+        for (const toAddress of outflow.destinations.slice(1)) {
+          await checkSpendingPolicy({ ...intent, amount: '0', toAddress });
         }
 
-        const privateKey = await decryptPrivateKey(prfOutput, keyData.data.encryptedKey);
-        const network = params.network || 'mainnet';
+        // With legacy inputs the final txid differs, and the record stays pending
+        return withSpendingPolicy(intent, btcAddr.address, context, sign, result => result.txid);
+      },
+      onFinalizePsbt: async (params: FinalizePsbtParams) => {
+        const finalized = btcSigner.finalizePsbt(params.psbt);
 
-        const utxos = await btcSigner.getUTXOs(btcAddr.address, network);
-        if (utxos.length === 0) {
-          throw new Error('No UTXOs available');
+        if (params.broadcast) {
+          if (!finalized.complete || !finalized.rawTransaction) {
+            throw new Error('PSBT is missing signatures and cannot be broadcast');
+          }
+          const btcAddr = chainAddresses.find(a => a.chain === 'Bitcoin');
+          const network = btcAddr ? getBtcNetwork(btcAddr, params.network) : params.network || 'mainnet';
+          await btcSigner.sendRawTransaction(finalized.rawTransaction, network);
         }
 
-        const result = await btcSigner.signAndSendTransaction(
-          utxos,
-          params.to,
-          params.amount,
-          privateKey,
-          btcAddr.address,
-          params.fee || 1000,
-          network
-        );
-
-        return {
-          txid: result.txid,
-          status: result.status
-        };
+        return finalized;
       },
       // Solana Transaction Operations
-      onSignSOLTransaction: async (params: { to: string; amount: number; network?: 'mainnet' | 'devnet' }) => {
+      onSignSOLTransaction: async (params: { to: string; amount: number; network?: 'mainnet' | 'devnet' }, context?: RequestContext) => {
         const solAddr = chainAddresses.find(a => a.chain === 'Solana');
         if (!solAddr) {
           throw new Error('No Solana wallet found');
         }
 
-        const prfOutput = await requestPrfAuthentication();
-        if (!prfOutput) {
-          throw new Error('Passkey authentication required for signing');
-        }
-
-        const keyRes = await fetch(`${API_BASE}/api/wallet/private-key?chainType=svm`, {
-          headers: { 'Authorization': `Bearer ${sessionId}` }
-        });
-        const keyData = await keyRes.json() as ApiResponse<{ encryptedKey: string }>;
-        if (!keyData.success || !keyData.data) {
-          throw new Error('Failed to get encrypted key');
-        }
-
-        const privateKey = await decryptPrivateKey(prfOutput, keyData.data.encryptedKey);
-        const network = params.network || 'mainnet';
+        return withSpendingPolicy({
+          chainType: 'svm',
+          chain: solAddr.chain,
+          assetSymbol: 'SOL',
+          amount: formatUnits(BigInt(params.amount), 9),
+          toAddress: params.to
+        }, solAddr.address, context, async () => {
+          const walletKey = await unlockSigningKey('svm', context?.appId);
+          if (!walletKey) {
+            throw new Error('Passkey authentication required for signing');
+          }
 
-        const signed = await solSigner.signTransaction(
-          params.to,
-          params.amount,
-          privateKey,
-          network
-        );
+          const keyRes = await fetch(`${API_BASE}/api/wallet/private-key?chainType=svm`, {
+            headers: { 'Authorization': `Bearer ${sessionId}` }
+          });
+          const keyData = await keyRes.json() as ApiResponse<{ encryptedKey: string }>;
+          if (!keyData.success || !keyData.data) {
+            throw new Error('Failed to get encrypted key');
+          }
 
-        return {
-          rawTransaction: signed.rawTransaction,
-          signature: signed.signature
-        };
+          const privateKey = await decryptPrivateKey(walletKey, keyData.data.encryptedKey);
+          const network = params.network || 'mainnet';
+
+          const signed = await solSigner.signTransaction(
+            params.to,
+            params.amount,
+            privateKey,
+            network
+          );
+
+          return {
+            rawTransaction: signed.rawTransaction,
+            signature: signed.signature
+          };
+        }, result => result.signature);
       },
-      onSendSOLTransaction: async (params: { to: string; amount: number; network?: 'mainnet' | 'devnet' }) => {
+      onSendSOLTransaction: async (params: { to: string; amount: number; network?: 'mainnet' | 'devnet' }, context?: RequestContext) => {
         const solAddr = chainAddresses.find(a => a.chain === 'Solana');
         if (!solAddr) {
           throw new Error('No Solana wallet found');
         }
 
-        const prfOutput = await requestPrfAuthentication();
-        if (!prfOutput) {
-          throw new Error('Passkey authentication required for signing');
-        }
-
-        const keyRes = await fetch(`${API_BASE}/api/wallet/private-key?chainType=svm`, {
-          headers: { 'Authorization': `Bearer ${sessionId}` }
-        });
-        const keyData = await keyRes.json() as ApiResponse<{ encryptedKey: string }>;
-        if (!keyData.success || !keyData.data) {
-          throw new Error('Failed to get encrypted key');
-        }
-
-        const privateKey = await decryptPrivateKey(prfOutput, keyData.data.encryptedKey);
-        const network = params.network || 'mainnet';
+        return withSpendingPolicy({
+          chainType: 'svm',
+          chain: solAddr.chain,
+          assetSymbol: 'SOL',
+          amount: formatUnits(BigInt(params.amount), 9),
+          toAddress: params.to
+        }, solAddr.address, context, async () => {
+          const walletKey = await unlockSigningKey('svm', context?.appId);
+          if (!walletKey) {
+            throw new Error('Passkey authentication required for signing');
+          }
 
-        const result = await solSigner.signAndSendTransaction(
-          params.to,
-          params.amount,
-          privateKey,
-          network
-        );
+          const keyRes = await fetch(`${API_BASE}/api/wallet/private-key?chainType=svm`, {
+            headers: { 'Authorization': `Bearer ${sessionId}` }
+          });
+          const keyData = await keyRes.json() as ApiResponse<{ encryptedKey: string }>;
+          if (!keyData.success || !keyData.data) {
+            throw new Error('Failed to get encrypted key');
+          }
 
-        return {
-          signature: result.signature,
-          status: result.status
-        };
+          const privateKey = await decryptPrivateKey(walletKey, keyData.data.encryptedKey);
+          const network = params.network || 'mainnet';
+
+          const result = await solSigner.signAndSendTransaction(
+            params.to,
+            params.amount,
+            privateKey,
+            network
+          );
+
+          return {
+            signature: result.signature,
+            status: result.status
+          };
+        }, result => result.signature);
       },
       // TRON Transaction Operations
-      onSignTRONTransaction: async (params: { to: string; amount: number; network?: 'mainnet' | 'shasta' }) => {
+      onSignTRONTransaction: async (params: { to: string; amount: number; network?: 'mainnet' | 'shasta' }, context?: RequestContext) => {
         const tronAddr = chainAddresses.find(a => a.chain === 'TRON');
         if (!tronAddr) {
           throw new Error('No TRON wallet found');
         }
 
-        const prfOutput = await requestPrfAuthentication();
-        if (!prfOutput) {
-          throw new Error('Passkey authentication required for signing');
-        }
-
-        const keyRes = await fetch(`${API_BASE}/api/wallet/private-key?chainType=tron`, {
-          headers: { 'Authorization': `Bearer ${sessionId}` }
-        });
-        const keyData = await keyRes.json() as ApiResponse<{ encryptedKey: string }>;
-        if (!keyData.success || !keyData.data) {
-          throw new Error('Failed to get encrypted key');
-        }
-
-        const privateKey = await decryptPrivateKey(prfOutput, keyData.data.encryptedKey);
-        const network = params.network || 'mainnet';
+        return withSpendingPolicy({
+          chainType: 'tron',
+          chain: tronAddr.chain,
+          assetSymbol: 'TRX',
+          amount: formatUnits(BigInt(params.amount), 6),
+          toAddress: params.to
+        }, tronAddr.address, context, async () => {
+          const walletKey = await unlockSigningKey('tron', context?.appId);
+          if (!walletKey) {
+            throw new Error('Passkey authentication required for signing');
+          }
 
-        const signed = await tronSigner.signTransaction(
-          params.to,
-          params.amount,
-          privateKey,
-          network
-        );
+          const keyRes = await fetch(`${API_BASE}/api/wallet/private-key?chainType=tron`, {
+            headers: { 'Authorization': `Bearer ${sessionId}` }
+          });
+          const keyData = await keyRes.json() as ApiResponse<{ encryptedKey: string }>;
+          if (!keyData.success || !keyData.data) {
+            throw new Error('Failed to get encrypted key');
+          }
 
-        return {
-          rawTransaction: signed.rawTransaction,
-          txID: signed.txID,
-          signature: signed.signature
-        };
+          const privateKey = await decryptPrivateKey(walletKey, keyData.data.encryptedKey);
+          const network = params.network || 'mainnet';
+
+          const signed = await tronSigner.signTransaction(
+            params.to,
+            params.amount,
+            privateKey,
+            network
+          );
+
+          return {
+            rawTransaction: signed.rawTransaction,
+            txID: signed.txID,
+            signature: signed.signature
+          };
+        }, result => result.txID);
       },
-      onSendTRONTransaction: async (params: { to: string; amount: number; network?: 'mainnet' | 'shasta' }) => {
+      onSendTRONTransaction: async (params: { to: string; amount: number; network?: 'mainnet' | 'shasta' }, context?: RequestContext) => {
         const tronAddr = chainAddresses.find(a => a.chain === 'TRON');
         if (!tronAddr) {
           throw new Error('No TRON wallet found');
         }
 
-        const prfOutput = await requestPrfAuthentication();
-        if (!prfOutput) {
-          throw new Error('Passkey authentication required for signing');
-        }
-
-        const keyRes = await fetch(`${API_BASE}/api/wallet/private-key?chainType=tron`, {
-          headers: { 'Authorization': `Bearer ${sessionId}` }
-        });
-        const keyData = await keyRes.json() as ApiResponse<{ encryptedKey: string }>;
-        if (!keyData.success || !keyData.data) {
-          throw new Error('Failed to get encrypted key');
-        }
-
-        const privateKey = await decryptPrivateKey(prfOutput, keyData.data.encryptedKey);
-        const network = params.network || 'mainnet';
+        return withSpendingPolicy({
+          chainType: 'tron',
+          chain: tronAddr.chain,
+          assetSymbol: 'TRX',
+          amount: formatUnits(BigInt(params.amount), 6),
+          toAddress: params.to
+        }, tronAddr.address, context, async () => {
+          const walletKey = await unlockSigningKey('tron', context?.appId);
+          if (!walletKey) {
+            throw new Error('Passkey authentication required for signing');
+          }
 
-        const result = await tronSigner.signAndSendTransaction(
-          params.to,
-          params.amount,
-          privateKey,
-          network
-        );
+          const keyRes = await fetch(`${API_BASE}/api/wallet/private-key?chainType=tron`, {
+            headers: { 'Authorization': `Bearer ${sessionId}` }
+          });
+          const keyData = await keyRes.json() as ApiResponse<{ encryptedKey: string }>;
+          if (!keyData.success || !keyData.data) {
+            throw new Error('Failed to get encrypted key');
+          }
 
-        return {
-          txID: result.txID,
-          status: result.status
-        };
+          const privateKey = await decryptPrivateKey(walletKey, keyData.data.encryptedKey);
+          const network = params.network || 'mainnet';
+
+          const result = await tronSigner.signAndSendTransaction(
+            params.to,
+            params.amount,
+            privateKey,
+            network
+          );
+
+          return {
+            txID: result.txID,
+            status: result.status
+          };
+        }, result => result.txID);
       },
       // TON Transaction Operations
-      onSignTONTransaction: async (params: { to: string; amount: bigint; message?: string; network?: 'mainnet' | 'testnet' }) => {
+      onSignTONTransaction: async (params: { to: string; amount: bigint; message?: string; network?: 'mainnet' | 'testnet' }, context?: RequestContext) => {
         const tonAddr = chainAddresses.find(a => a.chain === 'TON');
         if (!tonAddr) {
           throw new Error('No TON wallet found');
         }
 
-        const prfOutput = await requestPrfAuthentication();
-        if (!prfOutput) {
-          throw new Error('Passkey authentication required for signing');
-        }
-
-        const keyRes = await fetch(`${API_BASE}/api/wallet/private-key?chainType=ton`, {
-          headers: { 'Authorization': `Bearer ${sessionId}` }
-        });
-        const keyData = await keyRes.json() as ApiResponse<{ encryptedKey: string }>;
-        if (!keyData.success || !keyData.data) {
-          throw new Error('Failed to get encrypted key');
-        }
-
-        const privateKey = await decryptPrivateKey(prfOutput, keyData.data.encryptedKey);
-        const network = params.network || 'mainnet';
+        return withSpendingPolicy({
+          chainType: 'ton',
+          chain: tonAddr.chain,
+          assetSymbol: 'TON',
+          amount: formatUnits(BigInt(params.amount), 9),
+          toAddress: params.to
+        }, tonAddr.address, context, async () => {
+          const walletKey = await unlockSigningKey('ton', context?.appId);
+          if (!walletKey) {
+            throw new Error('Passkey authentication required for signing');
+          }
 
-        const signed = await tonSigner.signTransaction(
-          params.to,
-          params.amount,
-          privateKey,
-          params.message,
-          network
-        );
+          const keyRes = await fetch(`${API_BASE}/api/wallet/private-key?chainType=ton`, {
+            headers: { 'Authorization': `Bearer ${sessionId}` }
+          });
+          const keyData = await keyRes.json() as ApiResponse<{ encryptedKey: string }>;
+          if (!keyData.success || !keyData.data) {
+            throw new Error('Failed to get encrypted key');
+          }
 
-        return {
-          boc: signed.boc,
-          hash: signed.hash
-        };
+          const privateKey = await decryptPrivateKey(walletKey, keyData.data.encryptedKey);
+          const network = params.network || 'mainnet';
+
+          const signed = await tonSigner.signTransaction(
+            params.to,
+            BigInt(params.amount),
+            privateKey,
+            params.message,
+            network
+          );
+
+          return {
+            boc: signed.boc,
+            hash: signed.hash
+          };
+        }, result => result.hash);
       },
-      onSendTONTransaction: async (params: { to: string; amount: bigint; message?: string; network?: 'mainnet' | 'testnet' }) => {
+      onSendTONTransaction: async (params: { to: string; amount: bigint; message?: string; network?: 'mainnet' | 'testnet' }, context?: RequestContext) => {
         const tonAddr = chainAddresses.find(a => a.chain === 'TON');
         if (!tonAddr) {
           throw new Error('No TON wallet found');
         }
 
-        const prfOutput = await requestPrfAuthentication();
-        if (!prfOutput) {
-          throw new Error('Passkey authentication required for signing');
-        }
-
-        const keyRes = await fetch(`${API_BASE}/api/wallet/private-key?chainType=ton`, {
-          headers: { 'Authorization': `Bearer ${sessionId}` }
-        });
-        const keyData = await keyRes.json() as ApiResponse<{ encryptedKey: string }>;
-        if (!keyData.success || !keyData.data) {
-          throw new Error('Failed to get encrypted key');
-        }
-
-        const privateKey = await decryptPrivateKey(prfOutput, keyData.data.encryptedKey);
-        const network = params.network || 'mainnet';
+        return withSpendingPolicy({
+          chainType: 'ton',
+          chain: tonAddr.chain,
+          assetSymbol: 'TON',
+          amount: formatUnits(BigInt(params.amount), 9),
+          toAddress: params.to
+        }, tonAddr.address, context, async () => {
+          const walletKey = await unlockSigningKey('ton', context?.appId);
+          if (!walletKey) {
+            throw new Error('Passkey authentication required for signing');
+          }
 
-        const result = await tonSigner.signAndSendTransaction(
-          params.to,
-          params.amount,
-          privateKey,
-          params.message,
-          network
-        );
+          const keyRes = await fetch(`${API_BASE}/api/wallet/private-key?chainType=ton`, {
+            headers: { 'Authorization': `Bearer ${sessionId}` }
+          });
+          const keyData = await keyRes.json() as ApiResponse<{ encryptedKey: string }>;
+          if (!keyData.success || !keyData.data) {
+            throw new Error('Failed to get encrypted key');
+          }
 
+          const privateKey = await decryptPrivateKey(walletKey, keyData.data.encryptedKey);
+          const network = params.network || 'mainnet';
+
+          const result = await tonSigner.signAndSendTransaction(
+            params.to,
+            BigInt(params.amount),
+            privateKey,
+            params.message,
+            network
+          );
+
+          return {
+            hash: result.hash,
+            status: result.status
+          };
+        }, result => result.hash);
+      },
+      // Solana transactions built by apps (e.g. DEX swaps), legacy or v0
+      onSignRawSolanaTransaction: async (params: SignRawSolanaTransactionParams, context?: RequestContext) => {
+        const [signed] = await signRawSolanaTransactions([params.transaction], params.network, context);
+        return {
+          signedTransaction: signed.rawTransaction,
+          signature: signed.signature
+        };
+      },
+      onSignAllSolanaTransactions: async (params: SignAllSolanaTransactionsParams, context?: RequestContext) => {
+        const signed = await signRawSolanaTransactions(params.transactions, params.network, context);
         return {
-          hash: result.hash,
-          status: result.status
+          signedTransactions: signed.map(tx => tx.rawTransaction),
+          signatures: signed.map(tx => tx.signature)
+        };
+      },
+      onSendRawSolanaTransaction: async (params: SendRawSolanaTransactionParams) => {
+        const signature = await solSigner.sendTransaction(params.signedTransaction, params.network || 'mainnet');
+        return {
+          signature,
+          status: 'pending' as const
         };
       },
       // Generic message signing for all chains
-      onSignMessage: async (params: { message: string; chain: string }) => {
-        const prfOutput = await requestPrfAuthentication();
-        if (!prfOutput) {
-          throw new Error('Passkey authentication required for signing');
-        }
-
+      onSignMessage: async (params: SignMessageParams, context?: RequestContext) => {
         let chainType: string;
-        switch (params.chain.toLowerCase()) {
-          case 'ethereum':
-          case 'base':
+        switch (getEvmChainByName(params.chain) ? 'evm' : params.chain.toLowerCase()) {
           case 'evm':
             chainType = 'evm';
             break;
@@ -1505,6 +1954,14 @@ function App() {
           default:
             throw new Error(`Unsupported chain: ${params.chain}`);
         }
+        if (params.encoding === 'hex' && chainType !== 'evm') {
+          throw new Error(`Hex messages are not supported for ${params.chain}`);
+        }
+
+        const walletKey = await unlockSigningKey(chainType, context?.appId);
+        if (!walletKey) {
+          throw new Error('Passkey authentication required for signing');
+        }
 
         const keyRes = await fetch(`${API_BASE}/api/wallet/private-key?chainType=${chainType}`, {
           headers: { 'Authorization': `Bearer ${sessionId}` }
@@ -1514,11 +1971,11 @@ function App() {
           throw new Error('Failed to get encrypted key');
         }
 
-        const privateKey = await decryptPrivateKey(prfOutput, keyData.data.encryptedKey);
+        const privateKey = await decryptPrivateKey(walletKey, keyData.data.encryptedKey);
 
         switch (chainType) {
           case 'evm':
-            return evmSigner.signMessage(params.message, privateKey);
+            return evmSigner.signMessage(params.encoding === 'hex' ? hexToBytes(params.message.replace(/^0x/, '')) : params.message, privateKey);
           case 'svm':
             return solSigner.signMessage(params.message, privateKey);
           case 'tron':
@@ -1537,6 +1994,94 @@ function App() {
     };
   }, [authUser, sessionId, allowedIframeOrigins]); // Only recreate bridge on auth/session/origins change
 
+  // Load app permission grants on login; forget them and any held keys on logout
+  useEffect(() => {
+    if (authUser) {
+      loadAppPermissions();
+      loadRecoveryRequests();
+    } else {
+      appScopesRef.current = {};
+      setAppPermissions([]);
+      setOwnRecoveryRequests([]);
+      setGuardianRecoveryRequests([]);
+      clearSigningSessions();
+    }
+  }, [authUser]);
+
+  // Reject anything still waiting for approval once the user logs out
+  useEffect(() => {
+    if (!authUser && approvalQueue.length > 0) {
+      approvalQueue.forEach(request => request.resolve(false));
+      setApprovalQueue([]);
+    }
+  }, [authUser, approvalQueue]);
+
+  const handleApprovalDecision = (approved: boolean) => {
+    const current = approvalQueue[0];
+    if (!current) return;
+    current.resolve(approved);
+    setApprovalQueue(prev => prev.filter(request => request.id !== current.id));
+  };
+
+  // EVM token metadata for formatting ERC-20 amounts in approval previews
+  const approvalTokens = useMemo(() => {
+    const tokens: Record<string, { symbol: string; decimals: number }> = {};
+    for (const asset of assets) {
+      for (const chain of asset.chains || []) {
+        if (chain.chainType === 'evm' && chain.contractAddress) {
+          tokens[chain.contractAddress.toLowerCase()] = { symbol: asset.symbol, decimals: chain.decimals };
+        }
+      }
+    }
+    return tokens;
+  }, [assets]);
+
+  // Simulate EVM transactions while they wait for approval, so the sheet can show their effects
+  const approvalRequest = approvalQueue[0];
+  useEffect(() => {
+    if (!approvalRequest || (approvalRequest.method !== 'sendEVMTransaction' && approvalRequest.method !== 'signEVMTransaction')) {
+      return;
+    }
+    const evmAddr = chainAddresses.find(a => a.chain === 'Ethereum');
+    const transaction = (approvalRequest.params as { transaction?: { to: string; value?: string; data?: string; gasLimit?: string; chainId: number } })?.transaction;
+    if (!evmAddr || !transaction?.to) return;
+
+    const id = approvalRequest.id;
+    setApprovalSimulation({ id, result: 'pending' });
+    simulateEvmTransaction(transaction, evmAddr.address, approvalTokens).then(result => {
+      setApprovalSimulation(current => (current?.id === id ? { id, result } : current));
+    });
+  }, [approvalRequest?.id]);
+
+  // Load the lookup tables of v0 Solana transactions waiting for approval, so the sheet can show their accounts
+  useEffect(() => {
+    if (!approvalRequest || !['signRawSolanaTransaction', 'signAllTransactions', 'sendRawSolanaTransaction'].includes(approvalRequest.method)) {
+      return;
+    }
+    const params = approvalRequest.params as { transaction?: string; transactions?: string[]; signedTransaction?: string; network?: 'mainnet' | 'devnet' } | undefined;
+    const transaction = params?.transaction || params?.signedTransaction;
+    const transactions = params?.transactions || (transaction ? [transaction] : []);
+
+    const id = approvalRequest.id;
+    solSigner.getTransactionLookupTables(transactions, params?.network).then(tables => {
+      if (Object.keys(tables).length > 0) {
+        setApprovalLookupTables({ id, tables });
+      }
+    }).catch(error => console.error('Failed to load address lookup tables:', error));
+  }, [approvalRequest?.id]);
+
+  // Tells the wallet's own inputs and change apart in PSBT previews
+  const approvalBtcAddresses = useMemo(() => {
+    const btcAddr = chainAddresses.find(a => a.chain === 'Bitcoin');
+    return btcAddr ? getBtcSpendAddresses(btcAddr) : [];
+  }, [chainAddresses]);
+
+  // Token metadata for counting ERC-20 transfers from the bridge against spending limits
+  const spendTokensRef = useRef(approvalTokens);
+  useEffect(() => {
+    spendTokensRef.current = approvalTokens;
+  }, [approvalTokens]);
+
   // Update getter callbacks when they change (without recreating bridge, preserving registered iframes)
   useEffect(() => {
     if (walletBridgeRef.current) {
@@ -1557,6 +2102,22 @@ function App() {
     }
   }, [assets]);
 
+  // Notify iframes when addresses change (EVM apps see accountsChanged)
+  useEffect(() => {
+    if (chainAddresses.length > 0 && walletBridgeRef.current) {
+      walletBridgeRef.current.notifyAddressesChanged();
+    }
+  }, [chainAddresses]);
+
+  // Docked EVM apps move to the default chain of the new network mode
+  useEffect(() => {
+    const chainId = getDefaultEvmChainId(networkMode);
+    if (evmChainIdRef.current !== chainId) {
+      evmChainIdRef.current = chainId;
+      walletBridgeRef.current?.notifyEVMChainChanged();
+    }
+  }, [networkMode]);
+
   // Register iframe when app opens
   const registerAppIframe = useCallback((appId: string, iframe: HTMLIFrameElement | null) => {
     if (iframe) {
@@ -1591,15 +2152,19 @@ function App() {
     }
   };
 
-  // Request PRF authentication for signing operations
-  const requestPrfAuthentication = async (): Promise<ArrayBuffer | null> => {
+  // Request PRF authentication for signing operations.
+  // Pass credentialIds to restrict the prompt to specific passkeys.
+  const requestPrfAuthentication = async (
+    credentialIds?: string[],
+    token: string | null = sessionId
+  ): Promise<{ prfOutput: ArrayBuffer; credentialId: string; assertion: any } | null> => {
     try {
       // Get PRF auth options from server
       const optionsRes = await fetch(`${API_BASE}/api/auth/passkey/prf-options`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${sessionId}`
+          'Authorization': `Bearer ${token}`
         }
       });
       const optionsData = await optionsRes.json() as ApiResponse<{ options: any }>;
@@ -1615,7 +2180,9 @@ function App() {
         challenge: base64URLStringToBuffer(options.challenge),
         timeout: options.timeout,
         rpId: options.rpId,
-        allowCredentials: (options.allowCredentials || []).map((cred: any) => ({
+        allowCredentials: (options.allowCredentials || [])
+          .filter((cred: any) => !credentialIds || credentialIds.includes(cred.id))
+          .map((cred: any) => ({
           id: base64URLStringToBuffer(cred.id),
           type: cred.type,
           transports: cred.transports
@@ -1647,13 +2214,284 @@ function App() {
         throw new Error('PRF output not available. Your passkey may not support encryption.');
       }
 
-      return prfOutput;
+      // The assertion lets the server check the passkey was just used (e.g. to replace its key wrap)
+      const response = credential.response as AuthenticatorAssertionResponse;
+      const assertion = {
+        id: credential.id,
+        rawId: bufferToBase64URLString(credential.rawId),
+        type: credential.type,
+        response: {
+          clientDataJSON: bufferToBase64URLString(response.clientDataJSON),
+          authenticatorData: bufferToBase64URLString(response.authenticatorData),
+          signature: bufferToBase64URLString(response.signature),
+          userHandle: response.userHandle ? bufferToBase64URLString(response.userHandle) : undefined
+        },
+        clientExtensionResults: {}
+      };
+
+      return { prfOutput, credentialId: credential.id, assertion };
     } catch (error) {
       console.error('PRF authentication error:', error);
       return null;
     }
   };
 
+  // Resolve the wallet key from one passkey's PRF output via its key wrap.
+  // The first wrap either adopts the legacy PRF-derived key (existing wallets) or a new random key.
+  const resolveWalletKey = async (
+    prfOutput: ArrayBuffer,
+    credentialId: string,
+    token: string,
+    extractable = false
+  ): Promise<CryptoKey> => {
+    const wrapsRes = await fetch(`${API_BASE}/api/wallet/key-wraps`, {
+      headers: { 'Authorization': `Bearer ${token}` }
+    });
+    const wrapsData = await wrapsRes.json() as ApiResponse<{
+      wraps: Array<{ credentialId: string; wrappedKey: string }>;
+      legacyCiphertext: string | null;
+    }>;
+    if (!wrapsData.success || !wrapsData.data) {
+      throw new Error(wrapsData.error || 'Failed to load wallet key');
+    }
+
+    const { wraps, legacyCiphertext } = wrapsData.data;
+    const wrap = wraps.find(w => w.credentialId === credentialId);
+    if (wrap) {
+      return unwrapWalletKey(prfOutput, wrap.wrappedKey, extractable);
+    }
+    if (wraps.length > 0) {
+      throw new Error('This passkey cannot unlock your wallet yet. Use another passkey, then enable this one in Settings.');
+    }
+
+    let walletKey: CryptoKey;
+    if (legacyCiphertext) {
+      walletKey = await deriveLegacyWalletKey(prfOutput);
+      if (!await canDecrypt(walletKey, legacyCiphertext)) {
+        throw new Error('This passkey cannot unlock wallets created with another passkey. Sign in with the passkey you registered first.');
+      }
+    } else {
+      walletKey = await generateWalletKey();
+    }
+
+    const wrappedKey = await wrapWalletKey(prfOutput, walletKey);
+    const storeRes = await fetch(`${API_BASE}/api/wallet/key-wraps`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      },
+      body: JSON.stringify({ credentialId, wrappedKey, bootstrap: true })
+    });
+    const storeData = await storeRes.json() as ApiResponse;
+    if (!storeData.success) {
+      throw new Error(storeData.error || 'Failed to store wallet key');
+    }
+
+    return extractable ? walletKey : unwrapWalletKey(prfOutput, wrappedKey);
+  };
+
+  // Prompt for a passkey and unlock the wallet key
+  const unlockWalletKey = async (extractable = false): Promise<CryptoKey | null> => {
+    if (!sessionId) return null;
+    const auth = await requestPrfAuthentication();
+    if (!auth) return null;
+    return resolveWalletKey(auth.prfOutput, auth.credentialId, sessionId, extractable);
+  };
+
+  // Reuse the key held by a live signing session for this chain or app, or
+  // prompt for the passkey and start a session if the user has enabled them
+  const unlockSigningKey = async (chainType: string, appId?: string | null): Promise<CryptoKey | null> => {
+    const { minutes, scope } = signingSessionRef.current;
+    const sessionScope = scope === 'app' ? `app:${appId || 'wallet'}` : `chain:${chainType}`;
+    const held = getSessionKey(sessionScope);
+    if (held) return held;
+
+    const walletKey = await unlockWalletKey();
+    if (walletKey && minutes > 0) {
+      holdSessionKey(sessionScope, walletKey, minutes);
+    }
+    return walletKey;
+  };
+
+  // Refuse a transfer that breaks one of the user's spending policies
+  const checkSpendingPolicy = async (intent: SpendIntent): Promise<void> => {
+    const policyRes = await fetch(`${API_BASE}/api/wallet/spending-policies`, {
+      headers: { 'Authorization': `Bearer ${sessionId}` }
+    });
+    const policyData = await policyRes.json() as ApiResponse<{ policies: SpendingPolicy[]; spentToday: Record<string, number> }>;
+    if (!policyData.success || !policyData.data) {
+      throw new Error(policyData.error || 'Failed to load spending policies');
+    }
+
+    const decision = evaluateSpend(policyData.data.policies, intent, policyData.data.spentToday);
+    if (!decision.allowed) {
+      throw new WalletBridgeError(WalletErrorCode.POLICY_REJECTED, decision.reason || 'Transfer refused by spending policy');
+    }
+  };
+
+  // Check a transfer against the user's spending policies and record it as a
+  // pending send; the server re-checks the policies and may still refuse it
+  const authorizeSpend = async (intent: SpendIntent, fromAddress: string, context?: RequestContext): Promise<string> => {
+    await checkSpendingPolicy(intent);
+
+    const res = await fetch(`${API_BASE}/api/wallet/transactions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${sessionId}` },
+      body: JSON.stringify({
+        txType: 'send',
+        status: 'pending',
+        assetSymbol: intent.assetSymbol,
+        chain: intent.chain,
+        chainType: intent.chainType,
+        amount: intent.amount,
+        fromAddress,
+        toAddress: intent.toAddress,
+        metadata: { selector: intent.selector, appId: context?.appId, origin: context?.origin }
+      })
+    });
+    const data = await res.json() as ApiResponse<{ id: string }>;
+    if (!data.success || !data.data) {
+      if (res.status === 403) {
+        throw new WalletBridgeError(WalletErrorCode.POLICY_REJECTED, data.error || 'Transfer refused by spending policy');
+      }
+      throw new Error(data.error || 'Failed to record transfer');
+    }
+    return data.data.id;
+  };
+
+  // Run a signing step for an authorized spend. The pending record gets the
+  // transaction hash and any fee the signer reports, or is marked failed if
+  // signing is cancelled, fails or produces no transaction.
+  const withSpendingPolicy = async <T,>(
+    intent: SpendIntent,
+    fromAddress: string,
+    context: RequestContext | undefined,
+    sign: () => Promise<T>,
+    txHashOf: (result: T) => string | undefined,
+    feeOf?: (result: T) => { fee: string; feeAsset: string } | undefined
+  ): Promise<T> => {
+    const recordId = await authorizeSpend(intent, fromAddress, context);
+    const settle = (status: 'pending' | 'failed', txHash?: string, fee?: { fee: string; feeAsset: string }) =>
+      fetch(`${API_BASE}/api/wallet/transactions?id=${recordId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${sessionId}` },
+        body: JSON.stringify({ status, txHash, ...fee })
+      }).catch(error => console.error('Failed to update transfer record:', error));
+
+    try {
+      const result = await sign();
+      const txHash = txHashOf(result);
+      await settle(txHash ? 'pending' : 'failed', txHash, txHash ? feeOf?.(result) : undefined);
+      return result;
+    } catch (error) {
+      await settle('failed');
+      throw error;
+    }
+  };
+
+  // Sign Solana transactions built by an app with one passkey unlock. SOL
+  // they send out of the wallet is checked against spending policies as a
+  // single spend; token movements are not counted.
+  const signRawSolanaTransactions = async (
+    transactions: string[],
+    network: 'mainnet' | 'devnet' = 'mainnet',
+    context?: RequestContext
+  ): Promise<solSigner.SignedSolanaTransaction[]> => {
+    const solAddr = chainAddresses.find(a => a.chain === 'Solana');
+    if (!solAddr) {
+      throw new Error('No Solana wallet found');
+    }
+
+    // Lookup tables are resolved so transfers to accounts stored in them are counted
+    const lookupTables = await solSigner.getTransactionLookupTables(transactions, network);
+    const outflows = transactions.map(transaction => getSolanaOutflow(transaction, solAddr.address, lookupTables));
+    const amount = outflows.reduce((sum, outflow) => sum + outflow.amount, 0n);
+    const destinations = [...new Set(outflows.flatMap(outflow => outflow.destinations))];
+
+    const sign = async () => {
+      const walletKey = await unlockSigningKey('svm', context?.appId);
+      if (!walletKey) {
+        throw new Error('Passkey authentication required for signing');
+      }
+
+      const keyRes = await fetch(`${API_BASE}/api/wallet/private-key?chainType=svm`, {
+        headers: { 'Authorization': `Bearer ${sessionId}` }
+      });
+      const keyData = await keyRes.json() as ApiResponse<{ encryptedKey: string }>;
+      if (!keyData.success || !keyData.data) {
+        throw new Error('Failed to get encrypted key');
+      }
+
+      const privateKey = await decryptPrivateKey(walletKey, keyData.data.encryptedKey);
+      return transactions.map(transaction => solSigner.signRawTransaction(transaction, privateKey));
+    };
+
+    // Swaps that only move tokens, or pay the wallet itself, spend no SOL beyond fees
+    if (amount === 0n) {
+      return sign();
+    }
+
+    const intent = {
+      chainType: 'svm',
+      chain: solAddr.chain,
+      assetSymbol: 'SOL',
+      amount: formatUnits(amount, 9),
+      toAddress: destinations[0]
+    };
+    // The amount is recorded once, but every destination must pass the address rules
+    for (const toAddress of destinations.slice(1)) {
+      await checkSpendingPolicy({ ...intent, amount: '0', toAddress });
+    }
+
+    return withSpendingPolicy(intent, solAddr.address, context, sign, result => result[0]?.signature);
+  };
+
+  // Wrap an unlocked wallet key for another of the user's passkeys
+  const enrollPasskeyWrap = async (walletKey: CryptoKey, credentialId: string, prfOutput?: ArrayBuffer) => {
+    let output = prfOutput;
+    if (!output) {
+      const auth = await requestPrfAuthentication([credentialId]);
+      if (!auth) {
+        throw new Error('Confirm with the new passkey so it can unlock your wallet');
+      }
+      output = auth.prfOutput;
+    }
+
+    const storeWrap = async (body: Record<string, unknown>) => {
+      const res = await fetch(`${API_BASE}/api/wallet/key-wraps`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${sessionId}`
+        },
+        body: JSON.stringify({ credentialId, ...body })
+      });
+      return { status: res.status, data: await res.json() as ApiResponse };
+    };
+
+    let { status, data } = await storeWrap({ wrappedKey: await wrapWalletKey(output, walletKey) });
+
+    // The passkey already has a wrap: replacing it needs an explicit confirmation with that passkey
+    if (status === 409) {
+      if (!confirm('This passkey already unlocks a wallet key. Replace it with the current wallet key? You will confirm with the passkey again.')) {
+        return;
+      }
+      const auth = await requestPrfAuthentication([credentialId]);
+      if (!auth) {
+        throw new Error('Confirm with the passkey to replace its wallet key');
+      }
+      ({ status, data } = await storeWrap({
+        wrappedKey: await wrapWalletKey(auth.prfOutput, walletKey),
+        rewrap: true,
+        assertion: auth.assertion
+      }));
+    }
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to store wallet key for passkey');
+    }
+  };
+
   // === Passkey Management ===
   const loadPasskeys = async () => {
     if (!sessionId) return;
@@ -1663,7 +2501,7 @@ function App() {
       const res = await fetch(`${API_BASE}/api/auth/passkeys`, {
         headers: { 'Authorization': `Bearer ${sessionId}` }
       });
-      const data = await res.json() as ApiResponse<Array<{ id: string; name: string; deviceType: string; backedUp: boolean; transports: string[]; createdAt: string }>>;
+      const data = await res.json() as ApiResponse<Array<{ id: string; credentialId: string; name: string; canUnlock: boolean; deviceType: string; backedUp: boolean; transports: string[]; createdAt: string }>>;
       if (data.success && data.data) {
         setPasskeys(data.data);
       } else {
@@ -1681,6 +2519,12 @@ function App() {
     setAddingPasskey(true);
     setSettingsError('');
     try {
+      // Unlock the wallet key with an existing passkey so the new one can be given its own wrap
+      const walletKey = await unlockWalletKey(true);
+      if (!walletKey) {
+        throw new Error('Confirm with an existing passkey first so the new passkey can unlock your wallet');
+      }
+
       // Get add-passkey options
       const optionsRes = await fetch(`${API_BASE}/api/auth/passkey/add-options`, {
         method: 'POST',
@@ -1714,6 +2558,13 @@ function App() {
           type: cred.type,
           transports: cred.transports
         })),
+        extensions: {
+          prf: {
+            eval: {
+              first: PRF_SALT
+            }
+          }
+        } as any
       };
 
       const credential = await navigator.credentials.create({
@@ -1726,6 +2577,12 @@ function App() {
 
       const response = credential.response as AuthenticatorAttestationResponse;
 
+      // A passkey without PRF could log in but never decrypt the wallet
+      const clientExtResults = credential.getClientExtensionResults() as any;
+      if (!clientExtResults?.prf?.enabled) {
+        throw new Error('This authenticator does not support PRF, so it could not unlock your wallet. Please use a PRF-capable passkey.');
+      }
+
       const credentialJSON = {
         id: credential.id,
         rawId: bufferToBase64URLString(credential.rawId),
@@ -1752,6 +2609,13 @@ function App() {
         throw new Error(verifyData.error || 'Verification failed');
       }
 
+      // Some authenticators return PRF output at creation; otherwise enrollPasskeyWrap prompts for it
+      try {
+        await enrollPasskeyWrap(walletKey, credential.id, clientExtResults.prf.results?.first);
+      } catch (error: any) {
+        setSettingsError(`Passkey added, but it cannot unlock your wallet yet: ${error.message}. Use "Enable" to retry.`);
+      }
+
       setNewPasskeyName('');
       // Reload passkey list
       await loadPasskeys();
@@ -1764,6 +2628,121 @@ function App() {
     }
   };
 
+  // Give an existing passkey (e.g. one added before key wrapping) its own wallet key wrap
+  const handleEnablePasskey = async (credentialId: string) => {
+    if (!sessionId) return;
+    setEnablingPasskeyId(credentialId);
+    setSettingsError('');
+    try {
+      const walletKey = await unlockWalletKey(true);
+      if (!walletKey) {
+        throw new Error('Confirm with a passkey that can already unlock your wallet');
+      }
+      await enrollPasskeyWrap(walletKey, credentialId);
+      await loadPasskeys();
+    } catch (error: any) {
+      if (error.name !== 'NotAllowedError') {
+        setSettingsError(error.message || 'Failed to enable passkey');
+      }
+    } finally {
+      setEnablingPasskeyId(null);
+    }
+  };
+
+  const loadAppPermissions = async () => {
+    if (!sessionId) return;
+    try {
+      const res = await fetch(`${API_BASE}/api/wallet/app-permissions`, {
+        headers: { 'Authorization': `Bearer ${sessionId}` }
+      });
+      const data = await res.json() as ApiResponse<Array<{ appId: string; appName: string | null; scopes: AppScope[]; grantedAt: string }>>;
+      if (data.success && data.data) {
+        appScopesRef.current = Object.fromEntries(data.data.map(grant => [grant.appId, grant.scopes]));
+        setAppPermissions(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to load app permissions:', error);
+    }
+  };
+
+  // Revoke one scope, or every scope when none is given; the app must connect again to regain it
+  const handleRevokeAppPermission = async (appId: string, scope?: AppScope) => {
+    if (!sessionId) return;
+    setRevokingAppId(appId);
+    setSettingsError('');
+    try {
+      const params = new URLSearchParams({ appId });
+      if (scope) params.set('scope', scope);
+      const res = await fetch(`${API_BASE}/api/wallet/app-permissions?${params}`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${sessionId}` }
+      });
+      const data = await res.json() as ApiResponse;
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to revoke permission');
+      }
+      await loadAppPermissions();
+    } catch (error: any) {
+      setSettingsError(error.message || 'Failed to revoke permission');
+    } finally {
+      setRevokingAppId(null);
+    }
+  };
+
+  const handleScanAllowances = async () => {
+    const evmAddr = chainAddresses.find(a => a.chain === 'Ethereum');
+    const chainId = resolveEvmChainId(allowanceChain, networkMode);
+    if (!evmAddr) return;
+    if (chainId === null) {
+      setSettingsError(`${allowanceChain} has no ${networkMode} chain`);
+      return;
+    }
+    setAllowancesLoading(true);
+    setAllowanceScan(null);
+    setSettingsError('');
+    try {
+      setAllowanceScan(await scanAllowances(chainId, evmAddr.address));
+    } catch (error: any) {
+      setSettingsError(error.message || 'Failed to scan allowances');
+    } finally {
+      setAllowancesLoading(false);
+    }
+  };
+
+  // Revoke an allowance by approving 0 for the spender
+  const handleRevokeAllowance = async (allowance: TokenAllowance) => {
+    const evmAddr = chainAddresses.find(a => a.chain === 'Ethereum');
+    if (!evmAddr || !sessionId) return;
+    if (!confirm(`Revoke ${allowance.spender}'s access to ${allowance.tokenSymbol || allowance.token}? This sends a transaction and costs a network fee.`)) return;
+    setRevokingAllowance(allowance);
+    setSettingsError('');
+    try {
+      const walletKey = await unlockSigningKey('evm');
+      if (!walletKey) {
+        throw new Error('Passkey authentication required for signing');
+      }
+      const keyRes = await fetch(`${API_BASE}/api/wallet/private-key?chainType=evm`, {
+        headers: { 'Authorization': `Bearer ${sessionId}` }
+      });
+      const keyData = await keyRes.json() as ApiResponse<{ encryptedKey: string }>;
+      if (!keyData.success || !keyData.data) {
+        throw new Error('Failed to get encrypted key');
+      }
+
+      const privateKey = await decryptPrivateKey(walletKey, keyData.data.encryptedKey);
+      await evmSigner.signAndSendTransaction(
+        buildRevokeTransaction(allowance.chainId, allowance.token, allowance.spender),
+        privateKey,
+        evmAddr.address
+      );
+      setAllowanceScan(scan => scan && { ...scan, allowances: scan.allowances.filter(a => a !== allowance) });
+    } catch (error: any) {
+      setSettingsError(error.message || 'Failed to revoke allowance');
+    } finally {
+      setRevokingAllowance(null);
+    }
+  };
+
   const handleDeletePasskey = async (id: string) => {
     if (!sessionId) return;
     setDeletingPasskeyId(id);
@@ -1785,13 +2764,14 @@ function App() {
     }
   };
 
-  const handlePasskeyRegister = async () => {
-    if (!loginUsername.trim()) {
+  // Register a new account, or with `recovery` a new passkey for an account recovered by guardians
+  const handlePasskeyRegister = async (recovery?: { username: string; registrationCode: string; walletKey: CryptoKey }) => {
+    if (!recovery && !loginUsername.trim()) {
       setLoginError('Please enter a username');
       return;
     }
 
-    if (!registrationCode || !codeValidation.valid) {
+    if (!recovery && (!registrationCode || !codeValidation.valid)) {
       setLoginError('A valid registration code is required');
       return;
     }
@@ -1800,13 +2780,18 @@ function App() {
     setLoginError('');
 
     try {
+      // Open the backup first so a wrong passphrase is caught before the account exists
+      const restoreContents = !recovery && registerBackupText.trim()
+        ? await openWalletBackup(parseBackupText(registerBackupText), registerBackupPassphrase)
+        : null;
+
       // Get registration options
       const optionsRes = await fetch(`${API_BASE}/api/auth/passkey/register-options`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          username: loginUsername.trim(),
-          registrationCode: registrationCode.toUpperCase()
+          username: recovery ? recovery.username : loginUsername.trim(),
+          registrationCode: recovery ? recovery.registrationCode : registrationCode.toUpperCase()
         })
       });
       const optionsData = await optionsRes.json() as ApiResponse<{ options: any; userId: string }>;
@@ -1897,6 +2882,35 @@ function App() {
         throw new Error(verifyData.error || 'Registration failed');
       }
 
+      // Restoring needs the new passkey's PRF output to create the wallet key
+      if (restoreContents) {
+        const token = verifyData.data.sessionId;
+        try {
+          const auth = await requestPrfAuthentication(undefined, token);
+          if (!auth) {
+            throw new Error('Passkey authentication required to restore the backup');
+          }
+          const walletKey = await resolveWalletKey(auth.prfOutput, auth.credentialId, token);
+          await storeRestoredWallets(walletKey, restoreContents, token, false);
+        } catch (error: any) {
+          console.error('Backup restore failed:', error);
+          alert(`Your account was created, but the backup could not be restored: ${error.message}. You can restore it from Settings.`);
+        }
+        setRegisterBackupText('');
+        setRegisterBackupPassphrase('');
+      }
+
+      if (recovery) {
+        try {
+          await wrapRecoveredWalletKey(recovery.walletKey, credential.id, verifyData.data.sessionId);
+          alert('Access restored. Remove the passkeys you lost in Settings.');
+        } catch (error: any) {
+          console.error('Recovery key wrap failed:', error);
+          alert(`Your new passkey was added, but it could not unlock your wallet: ${error.message}`);
+        }
+        savePendingRecovery(null);
+      }
+
       // Save session
       localStorage.setItem('sessionId', verifyData.data.sessionId);
       setSessionId(verifyData.data.sessionId);
@@ -1911,46 +2925,591 @@ function App() {
     }
   };
 
-  const handlePasskeyLogin = async () => {
-    setAuthLoading(true);
-    setLoginError('');
-
-    try {
-      // Get authentication options
-      const optionsRes = await fetch(`${API_BASE}/api/auth/passkey/login-options`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ username: loginUsername.trim() || undefined })
-      });
-      const optionsData = await optionsRes.json() as ApiResponse<{
-        options: any;
-        needsWallets?: boolean;
-        missingChainTypes?: string[];
-      }>;
+  // Ensure the user has an encrypted BIP39 seed and a wallet for every chain type.
+  // Legacy users keep their random-key wallets; the seed only fills chains that are missing.
+  const provisionWallets = async (walletKey: CryptoKey, token: string) => {
+    const seedRes = await fetch(`${API_BASE}/api/wallet/seed`, {
+      headers: { 'Authorization': `Bearer ${token}` }
+    });
+    const seedData = await seedRes.json() as ApiResponse<{
+      seedEncrypted: string | null;
+      missingChainTypes: WalletChainType[];
+      walletsWithoutPublicKey?: Array<{ chainType: WalletChainType; address: string; privateKeyEncrypted: string }>;
+    }>;
+    if (!seedData.success || !seedData.data) {
+      throw new Error(seedData.error || 'Failed to load wallet seed');
+    }
 
-      if (!optionsData.success || !optionsData.data) {
-        throw new Error(optionsData.error || 'Failed to get login options');
+    // BTC wallets created before address types only know their stored address until the public key is filled in;
+    // TON wallets created before wallet contract addresses are moved to their v4R2 address when it is
+    for (const wallet of seedData.data.walletsWithoutPublicKey || []) {
+      try {
+        const publicKey = await recoverWalletPublicKey(walletKey, wallet);
+        if (!publicKey) continue;
+        await fetch(`${API_BASE}/api/wallet/public-key`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${token}`
+          },
+          body: JSON.stringify({ chainType: wallet.chainType, publicKey })
+        });
+      } catch (error) {
+        console.error(`Failed to store the ${wallet.chainType} public key:`, error);
       }
+    }
 
-      const options = optionsData.data.options;
-      const missingChainTypes = optionsData.data.missingChainTypes || [];
+    const { seedEncrypted, missingChainTypes } = seedData.data;
+    if (seedEncrypted && missingChainTypes.length === 0) return;
 
-      // Convert options for native WebAuthn API with PRF extension
-      const publicKeyOptions: PublicKeyCredentialRequestOptions = {
-        challenge: base64URLStringToBuffer(options.challenge),
-        timeout: options.timeout,
-        rpId: options.rpId,
-        allowCredentials: (options.allowCredentials || []).map((cred: any) => ({
-          id: base64URLStringToBuffer(cred.id),
-          type: cred.type,
-          transports: cred.transports
-        })),
-        userVerification: options.userVerification || 'preferred',
-        extensions: {
-          // Request PRF output for wallet encryption/decryption
-          prf: {
-            eval: {
-              first: PRF_SALT
+    const mnemonic = seedEncrypted ? await decryptMnemonic(walletKey, seedEncrypted) : generateMnemonic();
+    const walletAddresses = await generateWalletsForChains(walletKey, mnemonic, missingChainTypes);
+    console.log('[Login Debug] Derived wallet addresses:', walletAddresses.map(w => ({ chainType: w.chainType, address: w.address, path: w.derivationPath })));
+
+    const storeRes = await fetch(`${API_BASE}/api/wallet/seed`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      },
+      body: JSON.stringify({
+        seedEncrypted: seedEncrypted ? undefined : await encryptMnemonic(walletKey, mnemonic),
+        walletAddresses
+      })
+    });
+    const storeData = await storeRes.json() as ApiResponse;
+    if (!storeData.success) {
+      throw new Error(storeData.error || 'Failed to store wallet seed');
+    }
+  };
+
+  // Publish the user's guardian key so other users can name them as a recovery guardian
+  const provisionGuardianKey = async (walletKey: CryptoKey, token: string) => {
+    const keyRes = await fetch(`${API_BASE}/api/wallet/guardian-key`, {
+      headers: { 'Authorization': `Bearer ${token}` }
+    });
+    const keyData = await keyRes.json() as ApiResponse<{ publicKey: string; privateKeyEncrypted: string } | null>;
+    if (!keyData.success) {
+      throw new Error(keyData.error || 'Failed to load guardian key');
+    }
+    if (keyData.data) return;
+
+    const storeRes = await fetch(`${API_BASE}/api/wallet/guardian-key`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      },
+      body: JSON.stringify(await generateGuardianKey(walletKey))
+    });
+    const storeData = await storeRes.json() as ApiResponse;
+    if (!storeData.success) {
+      throw new Error(storeData.error || 'Failed to store guardian key');
+    }
+  };
+
+  // Decrypt and show the recovery phrase (requires passkey re-authentication)
+  const handleRevealRecoveryPhrase = async () => {
+    if (!sessionId) return;
+    setSettingsError('');
+    try {
+      const walletKey = await unlockWalletKey();
+      if (!walletKey) {
+        throw new Error('Passkey authentication required to reveal the recovery phrase');
+      }
+      const seedRes = await fetch(`${API_BASE}/api/wallet/seed`, {
+        headers: { 'Authorization': `Bearer ${sessionId}` }
+      });
+      const seedData = await seedRes.json() as ApiResponse<{ seedEncrypted: string | null }>;
+      if (!seedData.success || !seedData.data) {
+        throw new Error(seedData.error || 'Failed to load wallet seed');
+      }
+      if (!seedData.data.seedEncrypted) {
+        throw new Error('No recovery phrase yet. Sign in again with your passkey to create one.');
+      }
+      setRecoveryPhrase(await decryptMnemonic(walletKey, seedData.data.seedEncrypted));
+    } catch (error: any) {
+      setSettingsError(error.message || 'Failed to reveal recovery phrase');
+    }
+  };
+
+  // Re-encrypt a decrypted backup under the wallet key and store it.
+  // replace overwrites the account's current wallets, which needs the assertion of a fresh passkey prompt.
+  const storeRestoredWallets = async (walletKey: CryptoKey, contents: WalletBackupContents, token: string, replace: boolean, assertion?: any) => {
+    const restored = await restoreWalletsFromBackup(walletKey, contents);
+    const res = await fetch(`${API_BASE}/api/wallet/backup`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      },
+      body: JSON.stringify({
+        seedEncrypted: restored.seedEncrypted,
+        walletAddresses: restored.wallets,
+        replace,
+        assertion
+      })
+    });
+    const data = await res.json() as ApiResponse;
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to restore wallets');
+    }
+  };
+
+  const parseBackupText = (text: string): unknown => {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new Error('The backup is not valid JSON');
+    }
+  };
+
+  // Export the seed and chain keys encrypted under a passphrase (requires passkey re-authentication)
+  const handleExportBackup = async () => {
+    if (!sessionId) return;
+    setSettingsError('');
+    if (backupPassphrase.length < 12) {
+      setSettingsError('Use a backup passphrase of at least 12 characters');
+      return;
+    }
+    if (backupPassphrase !== backupPassphraseConfirm) {
+      setSettingsError('Passphrases do not match');
+      return;
+    }
+    setBackupBusy(true);
+    try {
+      const walletKey = await unlockWalletKey();
+      if (!walletKey) {
+        throw new Error('Passkey authentication required to export a backup');
+      }
+      const res = await fetch(`${API_BASE}/api/wallet/backup`, {
+        headers: { 'Authorization': `Bearer ${sessionId}` }
+      });
+      const data = await res.json() as ApiResponse<{ seedEncrypted: string | null; wallets: StoredWallet[] }>;
+      if (!data.success || !data.data) {
+        throw new Error(data.error || 'Failed to load wallet keys');
+      }
+      setBackupFile(await createWalletBackup(walletKey, data.data.seedEncrypted, data.data.wallets, backupPassphrase));
+      setBackupPassphrase('');
+      setBackupPassphraseConfirm('');
+    } catch (error: any) {
+      setSettingsError(error.message || 'Failed to export backup');
+    } finally {
+      setBackupBusy(false);
+    }
+  };
+
+  const handleDownloadBackup = () => {
+    if (!backupFile || !authUser) return;
+    const blob = new Blob([JSON.stringify(backupFile, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `wallet-backup-${authUser.username}-${backupFile.createdAt.slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Replace the account's wallets with the ones in a backup
+  const handleRestoreBackup = async () => {
+    if (!sessionId) return;
+    setSettingsError('');
+    setBackupBusy(true);
+    try {
+      // Check the passphrase before asking for a passkey
+      const contents = await openWalletBackup(parseBackupText(restoreBackupText), backupPassphrase);
+      const chains = contents.wallets.map(w => w.chainType.toUpperCase()).join(', ');
+      if (!confirm(`Replace your current wallets with the ${chains} wallets from this backup? Funds in wallets that are not in the backup will no longer be reachable from this account.`)) {
+        return;
+      }
+      // The same prompt unlocks the wallet key and authorizes replacing the wallets
+      const auth = await requestPrfAuthentication();
+      const walletKey = auth && await resolveWalletKey(auth.prfOutput, auth.credentialId, sessionId);
+      if (!auth || !walletKey) {
+        throw new Error('Passkey authentication required to restore a backup');
+      }
+      await storeRestoredWallets(walletKey, contents, sessionId, true, auth.assertion);
+      setBackupMode(null);
+      setBackupPassphrase('');
+      setRestoreBackupText('');
+      loadWalletData(true);
+      alert('Wallets restored from backup');
+    } catch (error: any) {
+      setSettingsError(error.message || 'Failed to restore backup');
+    } finally {
+      setBackupBusy(false);
+    }
+  };
+
+  const handleBackupFileSelected = async (file: File | undefined, setText: (text: string) => void) => {
+    if (!file) return;
+    setText(await file.text());
+  };
+
+  const loadRecoveryGuardians = async () => {
+    if (!sessionId) return;
+    try {
+      const res = await fetch(`${API_BASE}/api/wallet/recovery-guardians`, {
+        headers: { 'Authorization': `Bearer ${sessionId}` }
+      });
+      const data = await res.json() as ApiResponse<{ threshold: number; guardians: Array<{ userId: string; username: string }> } | null>;
+      if (data.success) {
+        setRecoveryGuardians(data.data || null);
+      }
+    } catch (error) {
+      console.error('Failed to load recovery guardians:', error);
+    }
+  };
+
+  const loadRecoveryRequests = async () => {
+    if (!sessionId) return;
+    try {
+      const res = await fetch(`${API_BASE}/api/wallet/recovery-requests`, {
+        headers: { 'Authorization': `Bearer ${sessionId}` }
+      });
+      const data = await res.json() as ApiResponse<{ ownRequests: OwnRecoveryRequest[]; guardianRequests: GuardianRecoveryRequest[] }>;
+      if (data.success && data.data) {
+        setOwnRecoveryRequests(data.data.ownRequests);
+        setGuardianRecoveryRequests(data.data.guardianRequests);
+      }
+    } catch (error) {
+      console.error('Failed to load recovery requests:', error);
+    }
+  };
+
+  // Split the wallet key into one share per guardian (requires passkey re-authentication)
+  const handleSaveGuardians = async () => {
+    if (!sessionId) return;
+    setSettingsError('');
+    const usernames = [...new Set(guardianUsernamesInput.split(/[\s,]+/).map(u => u.trim()).filter(Boolean))];
+    const threshold = parseInt(guardianThresholdInput, 10);
+    if (usernames.length === 0) {
+      setSettingsError('Enter at least one guardian username');
+      return;
+    }
+    if (!threshold || threshold < 1 || threshold > usernames.length) {
+      setSettingsError(`Approvals needed must be between 1 and ${usernames.length}`);
+      return;
+    }
+    if (recoveryGuardians && !confirm('Replacing your guardians cancels any recovery in progress. Continue?')) {
+      return;
+    }
+    setRecoveryBusy(true);
+    try {
+      const guardians: Array<{ userId: string; publicKey: string }> = [];
+      for (const username of usernames) {
+        const res = await fetch(`${API_BASE}/api/wallet/guardian-key?username=${encodeURIComponent(username)}`, {
+          headers: { 'Authorization': `Bearer ${sessionId}` }
+        });
+        const data = await res.json() as ApiResponse<{ userId: string; publicKey: string }>;
+        if (!data.success || !data.data) {
+          throw new Error(data.error || `Failed to look up ${username}`);
+        }
+        guardians.push(data.data);
+      }
+
+      const walletKey = await unlockWalletKey(true);
+      if (!walletKey) {
+        throw new Error('Passkey authentication required to set up guardians');
+      }
+      const shares = await splitWalletKey(walletKey, threshold, guardians.map(g => g.publicKey));
+
+      const res = await fetch(`${API_BASE}/api/wallet/recovery-guardians`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${sessionId}`
+        },
+        body: JSON.stringify({
+          threshold,
+          guardians: guardians.map((g, i) => ({ userId: g.userId, encryptedShare: shares[i] }))
+        })
+      });
+      const data = await res.json() as ApiResponse;
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to save guardians');
+      }
+      setEditingGuardians(false);
+      setGuardianUsernamesInput('');
+      await loadRecoveryGuardians();
+      await loadRecoveryRequests();
+    } catch (error: any) {
+      setSettingsError(error.message || 'Failed to save guardians');
+    } finally {
+      setRecoveryBusy(false);
+    }
+  };
+
+  const handleRemoveGuardians = async () => {
+    if (!sessionId) return;
+    if (!confirm('Remove your guardians? You will only be able to recover with a passkey or a backup.')) return;
+    setRecoveryBusy(true);
+    setSettingsError('');
+    try {
+      const res = await fetch(`${API_BASE}/api/wallet/recovery-guardians`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${sessionId}` }
+      });
+      const data = await res.json() as ApiResponse;
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to remove guardians');
+      }
+      setRecoveryGuardians(null);
+      await loadRecoveryRequests();
+    } catch (error: any) {
+      setSettingsError(error.message || 'Failed to remove guardians');
+    } finally {
+      setRecoveryBusy(false);
+    }
+  };
+
+  // Start a recovery someone asked for, with the code shown on their recovering device
+  const handleStartGuardianRecovery = async () => {
+    if (!sessionId || !startRecoveryUsername.trim() || !startRecoveryCode.trim()) return;
+    if (!confirm(`Start account recovery for ${startRecoveryUsername.trim()}? Only do this if they asked you directly, in person or through a channel you trust.`)) {
+      return;
+    }
+    setRecoveryBusy(true);
+    try {
+      const res = await fetch(`${API_BASE}/api/wallet/recovery-requests`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${sessionId}`
+        },
+        body: JSON.stringify({ username: startRecoveryUsername.trim(), startCode: startRecoveryCode.trim() })
+      });
+      const data = await res.json() as ApiResponse<{ requestId: string; availableAt: string }>;
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to start recovery');
+      }
+      setStartRecoveryUsername('');
+      setStartRecoveryCode('');
+      await loadRecoveryRequests();
+    } catch (error: any) {
+      alert(error.message || 'Failed to start recovery');
+    } finally {
+      setRecoveryBusy(false);
+    }
+  };
+
+  // Cancel a recovery of the user's own account that they did not start
+  const handleCancelRecovery = async (requestId: string) => {
+    if (!sessionId) return;
+    setRecoveryBusy(true);
+    try {
+      const res = await fetch(`${API_BASE}/api/wallet/recovery-requests?id=${encodeURIComponent(requestId)}`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${sessionId}` }
+      });
+      const data = await res.json() as ApiResponse;
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to cancel recovery');
+      }
+      await loadRecoveryRequests();
+    } catch (error: any) {
+      alert(error.message || 'Failed to cancel recovery');
+    } finally {
+      setRecoveryBusy(false);
+    }
+  };
+
+  // As a guardian, hand over this user's share re-encrypted to the recovering device
+  const handleApproveRecovery = async (request: GuardianRecoveryRequest) => {
+    if (!sessionId) return;
+    if (!confirm(`Approve account recovery for ${request.username}? Only approve if ${request.username} asked you directly, in person or through a channel you trust.`)) {
+      return;
+    }
+    setRecoveryBusy(true);
+    try {
+      const walletKey = await unlockWalletKey();
+      if (!walletKey) {
+        throw new Error('Passkey authentication required to approve a recovery');
+      }
+      const keyRes = await fetch(`${API_BASE}/api/wallet/guardian-key`, {
+        headers: { 'Authorization': `Bearer ${sessionId}` }
+      });
+      const keyData = await keyRes.json() as ApiResponse<{ publicKey: string; privateKeyEncrypted: string } | null>;
+      if (!keyData.success || !keyData.data) {
+        throw new Error(keyData.error || 'Your guardian key is missing');
+      }
+
+      const encryptedShare = await reencryptShare(
+        walletKey,
+        keyData.data.privateKeyEncrypted,
+        request.encryptedShare,
+        request.recoveryPublicKey
+      );
+      const res = await fetch(`${API_BASE}/api/wallet/recovery-requests`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${sessionId}`
+        },
+        body: JSON.stringify({ requestId: request.id, encryptedShare })
+      });
+      const data = await res.json() as ApiResponse;
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to approve recovery');
+      }
+      await loadRecoveryRequests();
+    } catch (error: any) {
+      alert(error.message || 'Failed to approve recovery');
+    } finally {
+      setRecoveryBusy(false);
+    }
+  };
+
+  const savePendingRecovery = (recovery: PendingRecovery | null) => {
+    if (recovery) {
+      localStorage.setItem('walletPendingRecovery', JSON.stringify(recovery));
+    } else {
+      localStorage.removeItem('walletPendingRecovery');
+    }
+    setPendingRecovery(recovery);
+    setRecoveryProgress(null);
+  };
+
+  // Start recovering an account whose passkeys are lost; the recovery key never leaves this browser
+  const handleStartRecovery = async () => {
+    if (!recoveryUsername.trim()) {
+      setLoginError('Please enter your username');
+      return;
+    }
+    setAuthLoading(true);
+    setLoginError('');
+    try {
+      const recoveryKey = await generateRecoveryKey();
+      const res = await fetch(`${API_BASE}/api/auth/recovery`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username: recoveryUsername.trim(), recoveryPublicKey: recoveryKey.publicKey })
+      });
+      const data = await res.json() as ApiResponse<{ requestId: string; secret: string; startCode: string; threshold: number }>;
+      if (!data.success || !data.data) {
+        throw new Error(data.error || 'Failed to start recovery');
+      }
+      savePendingRecovery({
+        requestId: data.data.requestId,
+        secret: data.data.secret,
+        startCode: data.data.startCode,
+        username: recoveryUsername.trim(),
+        privateKey: recoveryKey.privateKey
+      });
+      setRecoveryUsername('');
+    } catch (error: any) {
+      setLoginError(error.message || 'Failed to start recovery');
+    } finally {
+      setAuthLoading(false);
+    }
+  };
+
+  const refreshRecoveryProgress = async () => {
+    if (!pendingRecovery) return;
+    try {
+      const params = new URLSearchParams({ id: pendingRecovery.requestId, secret: pendingRecovery.secret });
+      const res = await fetch(`${API_BASE}/api/auth/recovery?${params}`);
+      const data = await res.json() as ApiResponse<RecoveryProgress>;
+      if (!data.success || !data.data) {
+        throw new Error(data.error || 'Failed to load recovery status');
+      }
+      setRecoveryProgress(data.data);
+    } catch (error: any) {
+      setLoginError(error.message || 'Failed to load recovery status');
+    }
+  };
+
+  const handleWithdrawRecovery = async () => {
+    if (!pendingRecovery) return;
+    if (recoveryProgress?.status === 'requested' || recoveryProgress?.status === 'pending') {
+      const params = new URLSearchParams({ id: pendingRecovery.requestId, secret: pendingRecovery.secret });
+      await fetch(`${API_BASE}/api/auth/recovery?${params}`, { method: 'DELETE' }).catch(() => {});
+    }
+    savePendingRecovery(null);
+  };
+
+  // Rebuild the wallet key from the guardian shares, then register a new passkey for it
+  const handleCompleteRecovery = async () => {
+    if (!pendingRecovery || !recoveryProgress?.ready || !recoveryProgress.shares || !recoveryProgress.registrationCode) return;
+    setLoginError('');
+    try {
+      // Check the combined key before a passkey is added to the account
+      const walletKey = await recoverWalletKey(pendingRecovery.privateKey, recoveryProgress.shares);
+      if (recoveryProgress.checkCiphertext && !await canDecrypt(walletKey, recoveryProgress.checkCiphertext)) {
+        throw new Error('The guardian shares do not unlock this wallet');
+      }
+      await handlePasskeyRegister({
+        username: recoveryProgress.username || pendingRecovery.username,
+        registrationCode: recoveryProgress.registrationCode,
+        walletKey
+      });
+    } catch (error: any) {
+      setLoginError(error.message || 'Recovery failed');
+    }
+  };
+
+  // Give a passkey added through social recovery its own wrap of the rebuilt wallet key
+  const wrapRecoveredWalletKey = async (walletKey: CryptoKey, credentialId: string, token: string) => {
+    let auth = await requestPrfAuthentication([credentialId], token);
+    while (!auth && confirm('Confirm with your new passkey once more to unlock your wallet. Try again?')) {
+      auth = await requestPrfAuthentication([credentialId], token);
+    }
+    if (!auth) {
+      throw new Error('Passkey authentication required to finish recovery');
+    }
+
+    const res = await fetch(`${API_BASE}/api/wallet/key-wraps`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      },
+      body: JSON.stringify({
+        credentialId: auth.credentialId,
+        wrappedKey: await wrapWalletKey(auth.prfOutput, walletKey)
+      })
+    });
+    const data = await res.json() as ApiResponse;
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to store wallet key');
+    }
+  };
+
+  const handlePasskeyLogin = async () => {
+    setAuthLoading(true);
+    setLoginError('');
+
+    try {
+      // Get authentication options
+      const optionsRes = await fetch(`${API_BASE}/api/auth/passkey/login-options`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username: loginUsername.trim() || undefined })
+      });
+      const optionsData = await optionsRes.json() as ApiResponse<{ options: any }>;
+
+      if (!optionsData.success || !optionsData.data) {
+        throw new Error(optionsData.error || 'Failed to get login options');
+      }
+
+      const options = optionsData.data.options;
+
+      // Convert options for native WebAuthn API with PRF extension
+      const publicKeyOptions: PublicKeyCredentialRequestOptions = {
+        challenge: base64URLStringToBuffer(options.challenge),
+        timeout: options.timeout,
+        rpId: options.rpId,
+        allowCredentials: (options.allowCredentials || []).map((cred: any) => ({
+          id: base64URLStringToBuffer(cred.id),
+          type: cred.type,
+          transports: cred.transports
+        })),
+        userVerification: options.userVerification || 'preferred',
+        extensions: {
+          // Request PRF output for wallet encryption/decryption
+          prf: {
+            eval: {
+              first: PRF_SALT
             }
           }
         } as any
@@ -1970,24 +3529,8 @@ function App() {
       // Get PRF output for wallet encryption
       const clientExtResults = credential.getClientExtensionResults() as any;
       const prfOutput = clientExtResults?.prf?.results?.first;
-      let walletAddresses: WalletData[] = [];
 
-      console.log('[Login Debug] PRF output available:', !!prfOutput);
-      console.log('[Login Debug] Missing chain types:', missingChainTypes);
-
-      // If PRF is available and user has missing chain wallets, generate them client-side
-      if (prfOutput && missingChainTypes.length > 0) {
-        console.log(`[Login Debug] Generating wallets for missing chains: ${missingChainTypes.join(', ')}`);
-        walletAddresses = await generateWalletsForChains(
-          prfOutput,
-          missingChainTypes as Array<'evm' | 'svm' | 'btc' | 'tron' | 'ton'>
-        );
-        console.log('[Login Debug] Generated wallet addresses:', walletAddresses.map(w => ({ chainType: w.chainType, address: w.address })));
-      } else if (!prfOutput) {
-        console.warn('[Login Debug] PRF output not available - cannot generate wallets client-side');
-      } else if (missingChainTypes.length === 0) {
-        console.log('[Login Debug] No missing chain types - all wallets exist');
-      }
+      console.log('[Login Debug] PRF output available:', !!prfOutput);
 
       // Format credential for verification
       const credentialJSON = {
@@ -2009,10 +3552,7 @@ function App() {
       const verifyRes = await fetch(`${API_BASE}/api/auth/passkey/login-verify`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          response: credentialJSON,
-          walletAddresses: walletAddresses.length > 0 ? walletAddresses : undefined
-        })
+        body: JSON.stringify({ response: credentialJSON })
       });
       const verifyData = await verifyRes.json() as ApiResponse<{ sessionId: string; user: AuthUser }>;
 
@@ -2020,6 +3560,23 @@ function App() {
         throw new Error(verifyData.error || 'Login failed');
       }
 
+      // Unlock the wallet key, then create the seed and derive any missing chain wallets client-side.
+      // Sign-in still succeeds if this fails; the user is told and can retry.
+      setWalletSetupError(null);
+      if (prfOutput) {
+        try {
+          const walletKey = await resolveWalletKey(prfOutput, credential.id, verifyData.data.sessionId);
+          await provisionWallets(walletKey, verifyData.data.sessionId);
+          await provisionGuardianKey(walletKey, verifyData.data.sessionId);
+        } catch (error) {
+          console.error('[Login Debug] Wallet provisioning failed:', error);
+          setWalletSetupError(error instanceof Error ? error.message : String(error));
+        }
+      } else {
+        console.warn('[Login Debug] PRF output not available - cannot generate wallets client-side');
+        setWalletSetupError('This passkey cannot unlock your wallet (no PRF support). Retry with another passkey.');
+      }
+
       // Save session
       localStorage.setItem('sessionId', verifyData.data.sessionId);
       setSessionId(verifyData.data.sessionId);
@@ -2034,6 +3591,25 @@ function App() {
     }
   };
 
+  // Retry wallet setup after it failed at sign-in, with a fresh passkey prompt
+  const handleRetryWalletSetup = async () => {
+    if (!sessionId) return;
+    setWalletSetupBusy(true);
+    try {
+      const walletKey = await unlockWalletKey();
+      if (!walletKey) return;
+      await provisionWallets(walletKey, sessionId);
+      await provisionGuardianKey(walletKey, sessionId);
+      setWalletSetupError(null);
+      loadWalletData(true);
+    } catch (error) {
+      console.error('Wallet setup retry failed:', error);
+      setWalletSetupError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setWalletSetupBusy(false);
+    }
+  };
+
   const handleLogout = async () => {
     try {
       await fetch(`${API_BASE}/api/auth/session`, {
@@ -2044,9 +3620,11 @@ function App() {
       console.error('Logout error:', error);
     }
 
+    clearSigningSessions();
     localStorage.removeItem('sessionId');
     setSessionId(null);
     setAuthUser(null);
+    setWalletSetupError(null);
     setAssets([]);
     setTransactions([]);
     setWalletInfo(null);
@@ -2085,15 +3663,13 @@ function App() {
 
   // Fetch balances from blockchain RPCs (native tokens and contract tokens)
   const fetchChainBalances = async (
-    walletAddresses: Array<{ chainType: string; address: string }>,
+    walletAddresses: WalletAddress[],
     assetsList: Asset[],
     network: 'mainnet' | 'testnet' = 'mainnet'
   ) => {
     const balances: Record<string, number> = {};
 
-    // Network mappings
-    const evmChainId = network === 'mainnet' ? 1 : 11155111; // Ethereum mainnet vs Sepolia
-    const evmBaseChainId = network === 'mainnet' ? 8453 : 11155111; // Base mainnet vs Sepolia
+    // Network mappings (EVM chains resolve through the chain registry)
     const btcNetwork = network === 'mainnet' ? 'mainnet' : 'testnet';
     const solNetwork = network === 'mainnet' ? 'mainnet' : 'devnet';
     const tronNetwork = network === 'mainnet' ? 'mainnet' : 'shasta';
@@ -2104,19 +3680,29 @@ function App() {
       try {
         switch (wallet.chainType) {
           case 'evm': {
-            // Fetch ETH balance on Ethereum
-            const ethBalance = await evmSigner.getBalance(wallet.address, evmChainId);
-            balances['ETH'] = Number(ethBalance) / 1e18;
-            balances['ETH_Ethereum'] = Number(ethBalance) / 1e18;
-            // Fetch ETH balance on Base (multi-chain ETH)
-            if (network === 'mainnet') {
-              const baseBalance = await evmSigner.getBalance(wallet.address, evmBaseChainId);
-              balances['ETH_Base'] = Number(baseBalance) / 1e18;
+            // Native balance on every registry chain with an RPC endpoint for this network (e.g. ETH_Ethereum, ETH_Base);
+            // the bare symbol holds the first chain's balance
+            const rpcChainIds = evmSigner.getEvmChainIds();
+            for (const chain of getMainnetEvmChains()) {
+              const chainId = resolveEvmChainId(chain.name, network);
+              if (chainId === null || !rpcChainIds.includes(chainId)) continue;
+              try {
+                const nativeBalance = Number(await evmSigner.getBalance(wallet.address, chainId)) / Math.pow(10, chain.nativeDecimals);
+                balances[`${chain.nativeSymbol}_${chain.name}`] = nativeBalance;
+                if (balances[chain.nativeSymbol] === undefined) {
+                  balances[chain.nativeSymbol] = nativeBalance;
+                }
+              } catch (err) {
+                console.error(`Failed to fetch ${chain.nativeSymbol} balance on ${chain.name}:`, err);
+              }
             }
             break;
           }
           case 'btc': {
-            const btcBalance = await btcSigner.getBalance(wallet.address, btcNetwork as 'mainnet' | 'testnet');
+            const btcAddresses = wallet.publicKey
+              ? Object.values(btcSigner.getAddressesFromPublicKey(wallet.publicKey, btcNetwork as 'mainnet' | 'testnet'))
+              : [btcNetwork === 'testnet' ? wallet.testnetAddress : wallet.address].filter((a): a is string => !!a);
+            const btcBalance = await btcSigner.getBalanceForAddresses(btcAddresses, btcNetwork as 'mainnet' | 'testnet');
             balances['BTC'] = btcBalance / 1e8; // satoshis to BTC
             break;
           }
@@ -2167,9 +3753,8 @@ function App() {
 
             if (chain.chainType === 'evm') {
               // ERC20 token balance - use network-appropriate chain ID
-              const chainId = network === 'mainnet'
-                ? (chain.chain === 'Base' ? 8453 : 1)
-                : 11155111; // Sepolia for testnet
+              const chainId = resolveEvmChainId(chain.chain, network);
+              if (chainId === null) return;
               tokenBalance = await evmSigner.getTokenBalance(
                 chain.contractAddress!,
                 wallet.address,
@@ -2189,6 +3774,13 @@ function App() {
                 wallet.address,
                 tronNetwork as 'mainnet' | 'shasta'
               );
+            } else if (chain.chainType === 'ton') {
+              // Jetton balance (TON), from the wallet's Jetton wallet for the master contract
+              tokenBalance = await tonSigner.getJettonBalance(
+                wallet.address,
+                chain.contractAddress!,
+                tonNetwork as 'mainnet' | 'testnet'
+              );
             }
 
             balances[balanceKey] = Number(tokenBalance) / Math.pow(10, decimals);
@@ -2203,6 +3795,186 @@ function App() {
     return balances;
   };
 
+  // Switch the Bitcoin receive address type; funds on the other types stay spendable
+  const handleSelectBtcAddressType = (chain: string, addressType: btcSigner.BTCAddressType) => {
+    localStorage.setItem(BTC_ADDRESS_TYPE_KEY, addressType);
+    setChainAddresses(prev => prev.map(addr =>
+      addr.chain === chain && addr.addressesByType
+        ? { ...addr, address: addr.addressesByType[addressType], addressType }
+        : addr
+    ));
+  };
+
+  // Speed up or cancel a pending Bitcoin send by replacing it (BIP125), or speed
+  // up an incoming one by spending its output at a higher fee (CPFP)
+  const handleBumpBtcTransaction = async (
+    tx: Transaction,
+    action: btcSigner.BTCReplacementAction
+  ): Promise<{ success: boolean; message: string }> => {
+    const btcAddr = chainAddresses.find(a => a.chain === 'Bitcoin');
+    if (!btcAddr || !tx.txHash) {
+      return { success: false, message: 'No Bitcoin wallet found' };
+    }
+
+    try {
+      const network = getBtcNetwork(btcAddr);
+      const ownAddresses = getBtcSpendAddresses(btcAddr);
+      const cpfp = tx.type === 'receive';
+      const plan = cpfp
+        ? await btcSigner.planChildPaysForParent(tx.txHash, ownAddresses, btcAddr.address, {}, network)
+        : await btcSigner.planReplacement(tx.txHash, action, ownAddresses, btcAddr.address, {}, network);
+      const fee = formatUnits(BigInt(plan.fee), 8);
+
+      const prompt = action === 'cancel'
+        ? `Cancel this transaction? The coins come back to your wallet minus a fee of ${fee} BTC (${plan.feeRate} sat/vB).`
+        : `Speed up this transaction? ${cpfp ? 'A new transaction spending it' : 'The replacement'} pays ${fee} BTC (${plan.feeRate} sat/vB).`;
+      if (!confirm(prompt)) {
+        return { success: false, message: 'Cancelled' };
+      }
+
+      const walletKey = await unlockSigningKey('btc');
+      if (!walletKey) {
+        return { success: false, message: 'Passkey authentication required for signing' };
+      }
+      const keyRes = await fetch(`${API_BASE}/api/wallet/private-key?chainType=btc`, {
+        headers: { 'Authorization': `Bearer ${sessionId}` }
+      });
+      const keyData = await keyRes.json() as ApiResponse<{ encryptedKey: string }>;
+      if (!keyData.success || !keyData.data) {
+        return { success: false, message: 'Failed to get encrypted key' };
+      }
+
+      const privateKey = await decryptPrivateKey(walletKey, keyData.data.encryptedKey);
+      const signed = await btcSigner.signFeeBump(plan, privateKey);
+      const txid = await btcSigner.sendRawTransaction(signed.rawTransaction, network);
+
+      const headers = { 'Content-Type': 'application/json', 'Authorization': `Bearer ${sessionId}` };
+
+      // A speed-up still pays the recipient; a cancel or CPFP only costs the fee
+      const speedup = !cpfp && action === 'speedup';
+      const recordRes = await fetch(`${API_BASE}/api/wallet/transactions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          txHash: txid,
+          txType: speedup ? 'send' : 'fee',
+          status: 'pending',
+          assetSymbol: 'BTC',
+          chain: 'Bitcoin',
+          chainType: 'btc',
+          amount: speedup ? tx.amount : fee,
+          fee,
+          feeAsset: 'BTC',
+          fromAddress: btcAddr.address,
+          toAddress: speedup ? tx.to : btcAddr.address,
+          description: cpfp ? 'Speed-up of incoming transaction' : action === 'cancel' ? 'Cancelled send' : undefined,
+          metadata: cpfp ? { cpfpParent: tx.txHash } : { replaces: tx.txHash }
+        })
+      });
+      const recordData = await recordRes.json() as ApiResponse<{ id: string }>;
+
+      // The original leaves the spending totals only once its replacement is recorded
+      if (!cpfp && recordData.success && recordData.data) {
+        await fetch(`${API_BASE}/api/wallet/transactions?id=${tx.id}`, {
+          method: 'PUT',
+          headers,
+          body: JSON.stringify({ status: 'replaced', replacedBy: recordData.data.id })
+        });
+      }
+
+      loadWalletData(true);
+      if (!recordData.success) {
+        return { success: true, message: `Broadcast ${txid}, but it could not be recorded: ${recordData.error}` };
+      }
+      return { success: true, message: `${action === 'cancel' ? 'Cancelled' : 'Sped up'}. TX: ${txid}` };
+    } catch (error) {
+      return { success: false, message: error instanceof Error ? error.message : String(error) };
+    }
+  };
+
+  // Speed up or cancel a pending EVM transaction by re-signing its nonce with higher fees
+  const handleBumpEvmTransaction = async (
+    tx: Transaction,
+    action: evmSigner.EVMReplacementAction
+  ): Promise<{ success: boolean; message: string }> => {
+    const evmAddr = chainAddresses.find(a => a.chain === 'Ethereum');
+    const evmChain = getEvmChainByName(tx.chain);
+    if (!evmAddr || !tx.txHash) {
+      return { success: false, message: 'No EVM wallet found' };
+    }
+    if (!evmChain) {
+      return { success: false, message: `Unknown EVM chain ${tx.chain}` };
+    }
+
+    try {
+      const plan = await evmSigner.planReplacement(evmChain.chainId, tx.txHash, action, evmAddr.address);
+      const maxFee = formatUnits(BigInt(plan.gasLimit) * BigInt(plan.maxFeePerGas || plan.gasPrice || '0x0'), evmChain.nativeDecimals);
+
+      const prompt = action === 'cancel'
+        ? `Cancel this transaction? A replacement that sends nothing pays up to ${maxFee} ${evmChain.nativeSymbol} in fees.`
+        : `Speed up this transaction? The replacement pays up to ${maxFee} ${evmChain.nativeSymbol} in fees.`;
+      if (!confirm(prompt)) {
+        return { success: false, message: 'Cancelled' };
+      }
+
+      const walletKey = await unlockSigningKey('evm');
+      if (!walletKey) {
+        return { success: false, message: 'Passkey authentication required for signing' };
+      }
+      const keyRes = await fetch(`${API_BASE}/api/wallet/private-key?chainType=evm`, {
+        headers: { 'Authorization': `Bearer ${sessionId}` }
+      });
+      const keyData = await keyRes.json() as ApiResponse<{ encryptedKey: string }>;
+      if (!keyData.success || !keyData.data) {
+        return { success: false, message: 'Failed to get encrypted key' };
+      }
+
+      const privateKey = await decryptPrivateKey(walletKey, keyData.data.encryptedKey);
+      const result = await evmSigner.signAndSendTransaction(plan, privateKey, evmAddr.address);
+
+      const headers = { 'Content-Type': 'application/json', 'Authorization': `Bearer ${sessionId}` };
+
+      // A speed-up still makes the original transfer; a cancel only costs the fee (at most maxFee)
+      const speedup = action === 'speedup';
+      const recordRes = await fetch(`${API_BASE}/api/wallet/transactions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          txHash: result.transactionHash,
+          txType: speedup ? 'send' : 'fee',
+          status: 'pending',
+          assetSymbol: speedup ? tx.asset : evmChain.nativeSymbol,
+          chain: tx.chain,
+          chainType: 'evm',
+          amount: speedup ? tx.amount : maxFee,
+          feeAsset: evmChain.nativeSymbol,
+          fromAddress: evmAddr.address,
+          toAddress: speedup ? tx.to : evmAddr.address,
+          description: speedup ? undefined : 'Cancelled transaction',
+          metadata: { ...tx.metadata, replaces: tx.txHash, nonce: plan.nonce }
+        })
+      });
+      const recordData = await recordRes.json() as ApiResponse<{ id: string }>;
+
+      // The original leaves the spending totals only once its replacement is recorded
+      if (recordData.success && recordData.data) {
+        await fetch(`${API_BASE}/api/wallet/transactions?id=${tx.id}`, {
+          method: 'PUT',
+          headers,
+          body: JSON.stringify({ status: 'replaced', replacedBy: recordData.data.id })
+        });
+      }
+
+      loadWalletData(true);
+      if (!recordData.success) {
+        return { success: true, message: `Broadcast ${result.transactionHash}, but it could not be recorded: ${recordData.error}` };
+      }
+      return { success: true, message: `${speedup ? 'Sped up' : 'Cancelled'}. TX: ${result.transactionHash}` };
+    } catch (error) {
+      return { success: false, message: error instanceof Error ? error.message : String(error) };
+    }
+  };
+
   const loadWalletData = async (force = false, networkModeOverride?: 'mainnet' | 'testnet') => {
     if (!authUser) return;
 
@@ -2312,21 +4084,41 @@ function App() {
           { chain: 'Canton', address: infoData.data.partyId, icon: '◈' },
         ];
 
+        // Wallets created before HD derivation are not covered by the recovery phrase
+        setLegacyWalletChains((infoData.data.walletAddresses || [])
+          .filter(wallet => !wallet.derivationPath)
+          .map(wallet => wallet.chainType));
+
         // Add EVM, SVM, BTC, TRON, and TON addresses from wallet info
         if (infoData.data.walletAddresses) {
           for (const wallet of infoData.data.walletAddresses) {
             if (wallet.chainType === 'evm') {
-              addresses.push({ chain: 'Ethereum', address: wallet.address, icon: 'Ξ' });
-              // Base uses the same EVM address
-              addresses.push({ chain: 'Base', address: wallet.address, icon: '🔵' });
+              // Every EVM chain in the registry uses the same address
+              for (const chain of getMainnetEvmChains()) {
+                addresses.push({ chain: chain.name, address: wallet.address, icon: chain.icon || 'Ξ' });
+              }
             } else if (wallet.chainType === 'svm') {
               addresses.push({ chain: 'Solana', address: wallet.address, icon: '◎' });
             } else if (wallet.chainType === 'btc') {
-              addresses.push({ chain: 'Bitcoin', address: wallet.address, icon: '₿' });
+              // Testnet reuses the key with testnet encodings (tb1…, m…/n…)
+              const btcNetwork: btcSigner.BTCNetwork = (networkModeOverride || networkMode) === 'testnet' ? 'testnet' : 'mainnet';
+              // Without the public key only the stored address is known (filled in at the next sign-in)
+              if (wallet.publicKey) {
+                const addressesByType = btcSigner.getAddressesFromPublicKey(wallet.publicKey, btcNetwork);
+                const addressType = getPreferredBtcAddressType();
+                addresses.push({ chain: 'Bitcoin', address: addressesByType[addressType], icon: '₿', addressType, addressesByType, network: btcNetwork });
+              } else {
+                const address = btcNetwork === 'testnet' ? wallet.testnetAddress : wallet.address;
+                if (address) {
+                  addresses.push({ chain: 'Bitcoin', address, icon: '₿', addressType: btcSigner.getAddressType(address) || 'p2pkh', network: btcNetwork });
+                }
+              }
             } else if (wallet.chainType === 'tron') {
               addresses.push({ chain: 'Tron', address: wallet.address, icon: '⟁' });
             } else if (wallet.chainType === 'ton') {
               addresses.push({ chain: 'TON', address: wallet.address, icon: '💎' });
+              const legacyAddress = wallet.legacyAddress || null;
+              setTonLegacyAddress(legacyAddress && localStorage.getItem(TON_LEGACY_NOTICE_KEY) !== legacyAddress ? legacyAddress : null);
             }
           }
         }
@@ -2489,8 +4281,7 @@ function App() {
 
   // Chain options for custom asset dropdown
   const chainOptions = [
-    { chain: 'Ethereum', chainType: 'evm' },
-    { chain: 'Base', chainType: 'base' },
+    ...evmChainList.filter(chain => !chain.isTestnet).map(chain => ({ chain: chain.name, chainType: 'evm' })),
     { chain: 'Solana', chainType: 'svm' },
     { chain: 'Bitcoin', chainType: 'btc' },
     { chain: 'Tron', chainType: 'tron' },
@@ -2498,6 +4289,46 @@ function App() {
     { chain: 'Canton', chainType: 'canton' }
   ];
 
+  // Fill symbol, name and decimals from the token contract
+  const handleLookupCustomAsset = async () => {
+    const contractAddress = newAsset.contractAddress.trim();
+    if (!sessionId || !contractAddress || !['evm', 'svm', 'tron'].includes(newAsset.chainType)) {
+      setAssetLookup(null);
+      return;
+    }
+
+    setAssetLookup({ status: 'loading', message: 'Reading token contract...' });
+    try {
+      const params = new URLSearchParams({
+        chain: newAsset.chain,
+        chainType: newAsset.chainType,
+        contractAddress,
+        network: networkMode
+      });
+      const response = await fetch(`${API_BASE}/api/wallet/token-metadata?${params}`, {
+        headers: {
+          'Authorization': `Bearer ${sessionId}`
+        }
+      });
+
+      const data = await response.json() as ApiResponse<{ symbol: string | null; name: string | null; decimals: number }>;
+      if (data.success && data.data) {
+        const metadata = data.data;
+        setNewAsset(asset => asset.contractAddress.trim() === contractAddress ? {
+          ...asset,
+          symbol: metadata.symbol ? metadata.symbol.toUpperCase().slice(0, 10) : asset.symbol,
+          name: metadata.name || asset.name,
+          decimals: metadata.decimals
+        } : asset);
+        setAssetLookup({ status: 'found', message: `Token found: ${metadata.symbol || 'unnamed'}, ${metadata.decimals} decimals` });
+      } else {
+        setAssetLookup({ status: 'failed', message: data.error || 'Could not read token contract' });
+      }
+    } catch (error) {
+      setAssetLookup({ status: 'failed', message: 'Could not read token contract' });
+    }
+  };
+
   const handleAddCustomAsset = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!authUser || !sessionId) return;
@@ -2516,7 +4347,7 @@ function App() {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${sessionId}`
         },
-        body: JSON.stringify(newAsset)
+        body: JSON.stringify({ ...newAsset, contractAddress: newAsset.contractAddress.trim(), network: networkMode })
       });
 
       const data = await response.json() as ApiResponse<CustomAsset>;
@@ -2530,6 +4361,7 @@ function App() {
           contractAddress: '',
           decimals: 18
         });
+        setAssetLookup(null);
         loadWalletData(true);
       } else {
         setAddAssetError(data.error || 'Failed to add asset');
@@ -3142,7 +4974,7 @@ function App() {
       const data = await res.json() as ApiResponse<RpcEndpointRow>;
       if (data.success) {
         setShowAddRpc(false);
-        setNewRpc({ chain_type: 'evm', chain_name: 'Ethereum', chain_id: '1', network: 'mainnet', name: '', rpc_url: '', priority: 0, is_enabled: true });
+        setNewRpc({ chain_type: 'evm', chain_name: 'Ethereum', chain_id: '1', network: 'mainnet', name: '', rpc_url: '', provider_type: '', priority: 0, is_enabled: true });
         fetchRpcEndpoints();
       } else {
         alert(data.error || 'Failed to add RPC endpoint');
@@ -3169,6 +5001,7 @@ function App() {
           network: editingRpc.network,
           name: editingRpc.name,
           rpc_url: editingRpc.rpc_url,
+          provider_type: editingRpc.chain_type === 'btc' ? editingRpc.provider_type || null : null,
           priority: editingRpc.priority,
           is_enabled: editingRpc.is_enabled === 1
         })
@@ -3224,6 +5057,125 @@ function App() {
     }
   };
 
+  const fetchEvmChains = async () => {
+    if (!superadminToken) return;
+    setEvmChainsLoading(true);
+    try {
+      const res = await fetch(`${API_BASE}/api/superadmin/evm-chains`, {
+        headers: { 'X-Superadmin-Token': superadminToken }
+      });
+      const data = await res.json() as ApiResponse<EvmChainRow[]>;
+      if (data.success && data.data) {
+        setEvmChainRows(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch EVM chains:', error);
+    } finally {
+      setEvmChainsLoading(false);
+    }
+  };
+
+  const handleAddEvmChain = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!superadminToken) return;
+    try {
+      const res = await fetch(`${API_BASE}/api/superadmin/evm-chains`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Superadmin-Token': superadminToken
+        },
+        body: JSON.stringify({
+          ...newEvmChain,
+          chain_id: parseInt(newEvmChain.chain_id, 10),
+          testnet_chain_id: !newEvmChain.is_testnet && newEvmChain.testnet_chain_id ? parseInt(newEvmChain.testnet_chain_id, 10) : null
+        })
+      });
+      const data = await res.json() as ApiResponse<EvmChainRow>;
+      if (data.success) {
+        setShowAddEvmChain(false);
+        setNewEvmChain({ chain_id: '', name: '', native_symbol: '', native_decimals: 18, explorer_url: '', supports_eip1559: true, icon: '', is_testnet: false, testnet_chain_id: '' });
+        fetchEvmChains();
+      } else {
+        alert(data.error || 'Failed to add EVM chain');
+      }
+    } catch (error) {
+      console.error('Failed to add EVM chain:', error);
+    }
+  };
+
+  const handleUpdateEvmChain = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!superadminToken || !editingEvmChain) return;
+    try {
+      const res = await fetch(`${API_BASE}/api/superadmin/evm-chains?chainId=${editingEvmChain.chain_id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Superadmin-Token': superadminToken
+        },
+        body: JSON.stringify({
+          name: editingEvmChain.name,
+          native_symbol: editingEvmChain.native_symbol,
+          native_decimals: editingEvmChain.native_decimals,
+          explorer_url: editingEvmChain.explorer_url,
+          supports_eip1559: editingEvmChain.supports_eip1559 === 1,
+          icon: editingEvmChain.icon,
+          is_testnet: editingEvmChain.is_testnet === 1,
+          testnet_chain_id: editingEvmChain.is_testnet === 1 ? null : editingEvmChain.testnet_chain_id
+        })
+      });
+      const data = await res.json() as ApiResponse<EvmChainRow>;
+      if (data.success) {
+        setEditingEvmChain(null);
+        fetchEvmChains();
+      } else {
+        alert(data.error || 'Failed to update EVM chain');
+      }
+    } catch (error) {
+      console.error('Failed to update EVM chain:', error);
+    }
+  };
+
+  const handleDeleteEvmChain = async (chainId: number) => {
+    if (!superadminToken) return;
+    if (!confirm('Are you sure you want to delete this EVM chain? Assets and RPC endpoints on it stop working.')) return;
+    try {
+      const res = await fetch(`${API_BASE}/api/superadmin/evm-chains?chainId=${chainId}`, {
+        method: 'DELETE',
+        headers: { 'X-Superadmin-Token': superadminToken }
+      });
+      const data = await res.json() as ApiResponse;
+      if (data.success) {
+        fetchEvmChains();
+      } else {
+        alert(data.error || 'Failed to delete EVM chain');
+      }
+    } catch (error) {
+      console.error('Failed to delete EVM chain:', error);
+    }
+  };
+
+  const handleToggleEvmChainEnabled = async (chain: EvmChainRow) => {
+    if (!superadminToken) return;
+    try {
+      const res = await fetch(`${API_BASE}/api/superadmin/evm-chains?chainId=${chain.chain_id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Superadmin-Token': superadminToken
+        },
+        body: JSON.stringify({ is_enabled: chain.is_enabled === 0 })
+      });
+      const data = await res.json() as ApiResponse<EvmChainRow>;
+      if (data.success) {
+        fetchEvmChains();
+      }
+    } catch (error) {
+      console.error('Failed to toggle EVM chain:', error);
+    }
+  };
+
   const fetchApps = async () => {
     if (!superadminToken) return;
     setAppsLoading(true);
@@ -3411,6 +5363,95 @@ function App() {
     }
   };
 
+  const fetchSpendingPolicies = async () => {
+    if (!superadminToken) return;
+    setPoliciesLoading(true);
+    try {
+      const res = await fetch(`${API_BASE}/api/superadmin/spending-policies`, {
+        headers: { 'X-Superadmin-Token': superadminToken }
+      });
+      const data = await res.json() as ApiResponse<Array<SpendingPolicy & { username: string | null }>>;
+      if (data.success && data.data) {
+        setSpendingPolicies(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch spending policies:', error);
+    } finally {
+      setPoliciesLoading(false);
+    }
+  };
+
+  const handleAddPolicy = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!superadminToken) return;
+    try {
+      const res = await fetch(`${API_BASE}/api/superadmin/spending-policies`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Superadmin-Token': superadminToken
+        },
+        body: JSON.stringify({
+          user_id: newPolicy.user_id || null,
+          policy_type: newPolicy.policy_type,
+          chain_type: newPolicy.chain_type || null,
+          asset_symbol: newPolicy.asset_symbol || null,
+          value: newPolicy.value,
+          description: newPolicy.description || undefined
+        })
+      });
+      const data = await res.json() as ApiResponse<SpendingPolicy>;
+      if (data.success) {
+        setShowAddPolicy(false);
+        setNewPolicy({ user_id: '', policy_type: 'tx_limit', chain_type: '', asset_symbol: '', value: '', description: '' });
+        fetchSpendingPolicies();
+      } else {
+        alert(data.error || 'Failed to add policy');
+      }
+    } catch (error) {
+      console.error('Failed to add policy:', error);
+    }
+  };
+
+  const handleDeletePolicy = async (id: string) => {
+    if (!superadminToken) return;
+    if (!confirm('Are you sure you want to delete this policy?')) return;
+    try {
+      const res = await fetch(`${API_BASE}/api/superadmin/spending-policies?id=${id}`, {
+        method: 'DELETE',
+        headers: { 'X-Superadmin-Token': superadminToken }
+      });
+      const data = await res.json() as ApiResponse;
+      if (data.success) {
+        fetchSpendingPolicies();
+      } else {
+        alert(data.error || 'Failed to delete policy');
+      }
+    } catch (error) {
+      console.error('Failed to delete policy:', error);
+    }
+  };
+
+  const handleTogglePolicyEnabled = async (policy: SpendingPolicy) => {
+    if (!superadminToken) return;
+    try {
+      const res = await fetch(`${API_BASE}/api/superadmin/spending-policies?id=${policy.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Superadmin-Token': superadminToken
+        },
+        body: JSON.stringify({ is_enabled: policy.is_enabled === 0 })
+      });
+      const data = await res.json() as ApiResponse<SpendingPolicy>;
+      if (data.success) {
+        fetchSpendingPolicies();
+      }
+    } catch (error) {
+      console.error('Failed to toggle policy:', error);
+    }
+  };
+
   // App access control functions
   const fetchAppAccess = async () => {
     if (!superadminToken) return;
@@ -3660,11 +5701,18 @@ function App() {
         fetchRpcEndpoints();
         fetchAvailableChains();
         break;
+      case 'chains':
+        fetchEvmChains();
+        break;
       case 'apps':
         fetchApps();
         fetchAppAccess();
         if (dbUsers.length === 0) fetchDbUsers();
         break;
+      case 'policies':
+        fetchSpendingPolicies();
+        if (dbUsers.length === 0) fetchDbUsers();
+        break;
     }
   }, [superadminSection, superadminToken, currentView]);
 
@@ -3810,6 +5858,14 @@ function App() {
                 <span className="nav-label">RPC Endpoints</span>
               </button>
 
+              <button
+                className={`sidebar-nav-item ${superadminSection === 'chains' ? 'active' : ''}`}
+                onClick={() => setSuperadminSection('chains')}
+              >
+                <Link2 size={18} className="nav-icon" />
+                <span className="nav-label">EVM Chains</span>
+              </button>
+
               <button
                 className={`sidebar-nav-item ${superadminSection === 'apps' ? 'active' : ''}`}
                 onClick={() => setSuperadminSection('apps')}
@@ -3818,6 +5874,14 @@ function App() {
                 <span className="nav-label">Apps</span>
               </button>
 
+              <button
+                className={`sidebar-nav-item ${superadminSection === 'policies' ? 'active' : ''}`}
+                onClick={() => setSuperadminSection('policies')}
+              >
+                <Gauge size={18} className="nav-icon" />
+                <span className="nav-label">Spending Policies</span>
+              </button>
+
               <button
                 className={`sidebar-nav-item ${superadminSection === 'config' ? 'active' : ''}`}
                 onClick={() => setSuperadminSection('config')}
@@ -3981,21 +6045,52 @@ function App() {
                       </select>
                     </div>
                     <div className="form-group">
-                      <label>Splice Host (SPLICE_HOST)</label>
-                      <span className="field-descriptor">Canton validator node hostname for ledger API operations</span>
+                      <label>Splice Host (SPLICE_HOST)</label>
+                      <span className="field-descriptor">Canton validator node hostname for ledger API operations</span>
+                      <input
+                        type="text"
+                        value={editConfigData.SPLICE_HOST}
+                        onChange={(e) => setEditConfigData({...editConfigData, SPLICE_HOST: e.target.value})}
+                      />
+                    </div>
+                    <div className="form-group">
+                      <label>Canton JSON Host (CANTON_JSON_HOST)</label>
+                      <span className="field-descriptor">Canton JSON API hostname for party and user management</span>
+                      <input
+                        type="text"
+                        value={editConfigData.CANTON_JSON_HOST}
+                        onChange={(e) => setEditConfigData({...editConfigData, CANTON_JSON_HOST: e.target.value})}
+                      />
+                    </div>
+                    <div className="form-group">
+                      <label>Max Signing Session (SIGNING_SESSION_MAX_MINUTES)</label>
+                      <span className="field-descriptor">Longest time users may stay unlocked between passkey prompts when signing; 0 disables signing sessions</span>
+                      <input
+                        type="number"
+                        min={0}
+                        max={1440}
+                        value={editConfigData.SIGNING_SESSION_MAX_MINUTES}
+                        onChange={(e) => setEditConfigData({...editConfigData, SIGNING_SESSION_MAX_MINUTES: e.target.value})}
+                      />
+                    </div>
+                    <div className="form-group">
+                      <label>Recovery Delay (RECOVERY_DELAY_HOURS)</label>
+                      <span className="field-descriptor">Hours a guardian-approved recovery waits before it can complete, giving the owner time to cancel</span>
                       <input
-                        type="text"
-                        value={editConfigData.SPLICE_HOST}
-                        onChange={(e) => setEditConfigData({...editConfigData, SPLICE_HOST: e.target.value})}
+                        type="number"
+                        min={1}
+                        max={720}
+                        value={editConfigData.RECOVERY_DELAY_HOURS}
+                        onChange={(e) => setEditConfigData({...editConfigData, RECOVERY_DELAY_HOURS: e.target.value})}
                       />
                     </div>
                     <div className="form-group">
-                      <label>Canton JSON Host (CANTON_JSON_HOST)</label>
-                      <span className="field-descriptor">Canton JSON API hostname for party and user management</span>
+                      <label>Recovery Webhook URL</label>
+                      <span className="field-descriptor">Receives a recovery_started event to forward to the account owner when a guardian starts a recovery</span>
                       <input
                         type="text"
-                        value={editConfigData.CANTON_JSON_HOST}
-                        onChange={(e) => setEditConfigData({...editConfigData, CANTON_JSON_HOST: e.target.value})}
+                        value={editConfigData.RECOVERY_WEBHOOK_URL}
+                        onChange={(e) => setEditConfigData({...editConfigData, RECOVERY_WEBHOOK_URL: e.target.value})}
                       />
                     </div>
                     <div className="form-group">
@@ -4052,6 +6147,21 @@ function App() {
                       <span>{configData.CANTON_JSON_HOST}</span>
                                             <span className="field-descriptor">Canton JSON API hostname for party and user management</span>
                     </div>
+                    <div className="config-item">
+                      <strong>Max Signing Session:</strong>
+                      <span>{configData.SIGNING_SESSION_MAX_MINUTES === '0' ? 'Disabled' : `${configData.SIGNING_SESSION_MAX_MINUTES} min`}</span>
+                                            <span className="field-descriptor">Longest time users may stay unlocked between passkey prompts when signing</span>
+                    </div>
+                    <div className="config-item">
+                      <strong>Recovery Delay:</strong>
+                      <span>{configData.RECOVERY_DELAY_HOURS} h</span>
+                                            <span className="field-descriptor">Wait before a guardian-approved recovery can complete</span>
+                    </div>
+                    <div className="config-item">
+                      <strong>Recovery Webhook URL:</strong>
+                      <span style={{ wordBreak: 'break-all' }}>{configData.RECOVERY_WEBHOOK_URL || 'Not configured'}</span>
+                                            <span className="field-descriptor">Notifies account owners when a guardian starts a recovery</span>
+                    </div>
                     <div className="config-item">
                       <strong>Chat Agent Webhook URL:</strong>
                       <span style={{ wordBreak: 'break-all' }}>{configData.CHAT_AGENT_WEBHOOK_URL || 'Not configured'}</span>
@@ -4549,6 +6659,7 @@ function App() {
                               network: 'mainnet',
                               name: '',
                               rpc_url: '',
+                              provider_type: '',
                               priority: 0,
                               is_enabled: true
                             });
@@ -4594,7 +6705,10 @@ function App() {
                                   <span className="chain-badge" title={ep.chain_type.toUpperCase()}>{ep.chain_name || ep.chain_type.toUpperCase()}</span>
                                 </td>
                                 <td>{ep.chain_id || '-'}</td>
-                                <td>{ep.name || '-'}</td>
+                                <td>
+                                  {ep.name || '-'}
+                                  {ep.provider_type && ep.provider_type !== 'jsonrpc' && ` (${BTC_PROVIDER_TYPE_LABELS[normalizeBtcProviderType(ep.provider_type)]})`}
+                                </td>
                                 <td>
                                   <code className="rpc-url-cell" title={ep.rpc_url}>
                                     {ep.rpc_url.length > 45 ? ep.rpc_url.slice(0, 45) + '...' : ep.rpc_url}
@@ -4635,94 +6749,412 @@ function App() {
                         </tbody>
                       </table>
                     </div>
-                    );
-                  })()}
+                    );
+                  })()}
+                </div>
+              </section>
+            )}
+
+            {/* Add RPC Modal */}
+            {showAddRpc && (
+              <div className="modal-overlay" onClick={() => setShowAddRpc(false)}>
+                <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+                  <h2>Add RPC Endpoint</h2>
+                  <form onSubmit={handleAddRpc}>
+                    <div className="form-group">
+                      <label>Chain</label>
+                      <select
+                        value={`${newRpc.chain_type}:${newRpc.chain_name}`}
+                        onChange={(e) => {
+                          const parts = e.target.value.split(':');
+                          const chainType = parts[0];
+                          const chainName = parts.slice(1).join(':'); // Handle chain names with colons
+                          const selectedChain = availableChains.find(c => c.chain_type === chainType && c.chain === chainName);
+                          setNewRpc({
+                            ...newRpc,
+                            chain_type: chainType,
+                            chain_name: chainName,
+                            chain_id: selectedChain?.chain_id || '',
+                            provider_type: chainType === 'btc' ? newRpc.provider_type : ''
+                          });
+                        }}
+                        required
+                        disabled={availableChains.length === 0}
+                      >
+                        {availableChains.length === 0 ? (
+                          <option value="">Loading chains...</option>
+                        ) : (
+                          availableChains.map(c => (
+                            <option key={`${c.chain_type}:${c.chain}`} value={`${c.chain_type}:${c.chain}`}>
+                              {c.chain} ({c.chain_type.toUpperCase()}{c.chain_id ? ` - ${c.chain_id}` : ''})
+                            </option>
+                          ))
+                        )}
+                      </select>
+                    </div>
+                    <div className="form-group">
+                      <label>Network</label>
+                      <select
+                        value={newRpc.network}
+                        onChange={(e) => setNewRpc({...newRpc, network: e.target.value})}
+                        required
+                      >
+                        <option value="mainnet">Mainnet</option>
+                        <option value="testnet">Testnet</option>
+                      </select>
+                    </div>
+                    <div className="form-group">
+                      <label>Name (optional)</label>
+                      <input
+                        type="text"
+                        value={newRpc.name}
+                        onChange={(e) => setNewRpc({...newRpc, name: e.target.value})}
+                        placeholder="e.g., ZAN.top Ethereum Mainnet"
+                      />
+                    </div>
+                    <div className="form-group">
+                      <label>RPC URL</label>
+                      <input
+                        type="url"
+                        value={newRpc.rpc_url}
+                        onChange={(e) => setNewRpc({...newRpc, rpc_url: e.target.value})}
+                        placeholder="https://..."
+                        required
+                      />
+                    </div>
+                    {newRpc.chain_type === 'btc' && (
+                      <div className="form-group">
+                        <label>API</label>
+                        <select
+                          value={normalizeBtcProviderType(newRpc.provider_type)}
+                          onChange={(e) => setNewRpc({...newRpc, provider_type: e.target.value})}
+                        >
+                          {BTC_PROVIDER_TYPES.map(type => (
+                            <option key={type} value={type}>{BTC_PROVIDER_TYPE_LABELS[type]}</option>
+                          ))}
+                        </select>
+                        <small>Esplora for hosted APIs such as Blockstream or mempool.space</small>
+                      </div>
+                    )}
+                    <div className="form-group">
+                      <label>Priority</label>
+                      <input
+                        type="number"
+                        min="0"
+                        value={newRpc.priority}
+                        onChange={(e) => setNewRpc({...newRpc, priority: parseInt(e.target.value) || 0})}
+                      />
+                      <small>Lower = higher priority (0 = primary)</small>
+                    </div>
+                    <div className="modal-buttons">
+                      <button type="button" onClick={() => setShowAddRpc(false)} className="refresh-btn">
+                        Cancel
+                      </button>
+                      <button type="submit" className="send-btn admin-btn">
+                        Add Endpoint
+                      </button>
+                    </div>
+                  </form>
+                </div>
+              </div>
+            )}
+
+            {/* Edit RPC Modal */}
+            {editingRpc && (
+              <div className="modal-overlay" onClick={() => setEditingRpc(null)}>
+                <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+                  <h2>Edit RPC Endpoint</h2>
+                  <form onSubmit={handleUpdateRpc}>
+                    <div className="form-group">
+                      <label>Chain</label>
+                      <select
+                        value={`${editingRpc.chain_type}:${editingRpc.chain_name}`}
+                        onChange={(e) => {
+                          const parts = e.target.value.split(':');
+                          const chainType = parts[0];
+                          const chainName = parts.slice(1).join(':');
+                          const selectedChain = availableChains.find(c => c.chain_type === chainType && c.chain === chainName);
+                          setEditingRpc({
+                            ...editingRpc,
+                            chain_type: chainType,
+                            chain_name: chainName,
+                            chain_id: selectedChain?.chain_id || null
+                          });
+                        }}
+                        required
+                      >
+                        {availableChains.map(c => (
+                          <option key={`${c.chain_type}:${c.chain}`} value={`${c.chain_type}:${c.chain}`}>
+                            {c.chain} ({c.chain_type.toUpperCase()}{c.chain_id ? ` - ${c.chain_id}` : ''})
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="form-group">
+                      <label>Network</label>
+                      <select
+                        value={editingRpc.network}
+                        onChange={(e) => setEditingRpc({...editingRpc, network: e.target.value})}
+                        required
+                      >
+                        <option value="mainnet">Mainnet</option>
+                        <option value="testnet">Testnet</option>
+                      </select>
+                    </div>
+                    <div className="form-group">
+                      <label>Name (optional)</label>
+                      <input
+                        type="text"
+                        value={editingRpc.name || ''}
+                        onChange={(e) => setEditingRpc({...editingRpc, name: e.target.value || null})}
+                        placeholder="e.g., ZAN.top Ethereum Mainnet"
+                      />
+                    </div>
+                    <div className="form-group">
+                      <label>RPC URL</label>
+                      <input
+                        type="url"
+                        value={editingRpc.rpc_url}
+                        onChange={(e) => setEditingRpc({...editingRpc, rpc_url: e.target.value})}
+                        placeholder="https://..."
+                        required
+                      />
+                    </div>
+                    {editingRpc.chain_type === 'btc' && (
+                      <div className="form-group">
+                        <label>API</label>
+                        <select
+                          value={normalizeBtcProviderType(editingRpc.provider_type)}
+                          onChange={(e) => setEditingRpc({...editingRpc, provider_type: e.target.value})}
+                        >
+                          {BTC_PROVIDER_TYPES.map(type => (
+                            <option key={type} value={type}>{BTC_PROVIDER_TYPE_LABELS[type]}</option>
+                          ))}
+                        </select>
+                        <small>Esplora for hosted APIs such as Blockstream or mempool.space</small>
+                      </div>
+                    )}
+                    <div className="form-group">
+                      <label>Priority</label>
+                      <input
+                        type="number"
+                        min="0"
+                        value={editingRpc.priority}
+                        onChange={(e) => setEditingRpc({...editingRpc, priority: parseInt(e.target.value) || 0})}
+                      />
+                    </div>
+                    <div className="modal-buttons">
+                      <button type="button" onClick={() => setEditingRpc(null)} className="refresh-btn">
+                        Cancel
+                      </button>
+                      <button type="submit" className="send-btn admin-btn">
+                        Update Endpoint
+                      </button>
+                    </div>
+                  </form>
+                </div>
+              </div>
+            )}
+
+            {/* EVM Chains Section */}
+            {superadminSection === 'chains' && (
+              <section className="admin-card">
+                <div className="admin-card-header">
+                  <h2>EVM Chains</h2>
+                  {superadminUser.isSuperadmin && (
+                    <button
+                      onClick={() => setShowAddEvmChain(true)}
+                      className="send-btn admin-btn"
+                    >
+                      + Add Chain
+                    </button>
+                  )}
+                </div>
+
+                <div className="section-content">
+                  <p style={{ fontSize: '0.85rem', color: 'var(--text-secondary)', marginBottom: '1rem' }}>
+                    Enabled chains are offered to users and docked apps. Each chain also needs an RPC endpoint with the same name. In testnet mode a mainnet chain runs on its testnet chain.
+                  </p>
+                  {evmChainsLoading ? (
+                    <div className="loading-msg">Loading EVM chains...</div>
+                  ) : evmChainRows.length === 0 ? (
+                    <div className="empty-msg">No EVM chains configured.</div>
+                  ) : (
+                    <div className="rpc-table-container">
+                      <table className="admin-table">
+                        <thead>
+                          <tr>
+                            <th>Chain ID</th>
+                            <th>Name</th>
+                            <th>Native Asset</th>
+                            <th>Network</th>
+                            <th>Fees</th>
+                            <th>Explorer</th>
+                            <th>Status</th>
+                            {superadminUser.isSuperadmin && <th>Actions</th>}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {evmChainRows.map(chain => (
+                            <tr key={chain.chain_id} className={chain.is_enabled === 0 ? 'disabled-row' : ''}>
+                              <td>{chain.chain_id}</td>
+                              <td>{chain.icon ? `${chain.icon} ` : ''}{chain.name}</td>
+                              <td>{chain.native_symbol} ({chain.native_decimals})</td>
+                              <td>
+                                {chain.is_testnet
+                                  ? 'Testnet'
+                                  : `Mainnet${chain.testnet_chain_id ? ` (testnet ${chain.testnet_chain_id})` : ''}`}
+                              </td>
+                              <td>{chain.supports_eip1559 ? 'EIP-1559' : 'Legacy'}</td>
+                              <td>
+                                {chain.explorer_url ? (
+                                  <code className="rpc-url-cell" title={chain.explorer_url}>{chain.explorer_url}</code>
+                                ) : '-'}
+                              </td>
+                              <td>
+                                <button
+                                  onClick={() => handleToggleEvmChainEnabled(chain)}
+                                  className={`status-badge ${chain.is_enabled ? 'enabled' : 'disabled'}`}
+                                  disabled={!superadminUser.isSuperadmin}
+                                >
+                                  {chain.is_enabled ? 'Enabled' : 'Disabled'}
+                                </button>
+                              </td>
+                              {superadminUser.isSuperadmin && (
+                                <td>
+                                  <div className="action-buttons">
+                                    <button
+                                      onClick={() => setEditingEvmChain(chain)}
+                                      className="btn-edit"
+                                      title="Edit"
+                                    >
+                                      Edit
+                                    </button>
+                                    <button
+                                      onClick={() => handleDeleteEvmChain(chain.chain_id)}
+                                      className="btn-delete"
+                                      title="Delete"
+                                    >
+                                      Delete
+                                    </button>
+                                  </div>
+                                </td>
+                              )}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
                 </div>
               </section>
             )}
 
-            {/* Add RPC Modal */}
-            {showAddRpc && (
-              <div className="modal-overlay" onClick={() => setShowAddRpc(false)}>
+            {/* Add EVM Chain Modal */}
+            {showAddEvmChain && (
+              <div className="modal-overlay" onClick={() => setShowAddEvmChain(false)}>
                 <div className="modal-content" onClick={(e) => e.stopPropagation()}>
-                  <h2>Add RPC Endpoint</h2>
-                  <form onSubmit={handleAddRpc}>
+                  <h2>Add EVM Chain</h2>
+                  <form onSubmit={handleAddEvmChain}>
                     <div className="form-group">
-                      <label>Chain</label>
-                      <select
-                        value={`${newRpc.chain_type}:${newRpc.chain_name}`}
-                        onChange={(e) => {
-                          const parts = e.target.value.split(':');
-                          const chainType = parts[0];
-                          const chainName = parts.slice(1).join(':'); // Handle chain names with colons
-                          const selectedChain = availableChains.find(c => c.chain_type === chainType && c.chain === chainName);
-                          setNewRpc({
-                            ...newRpc,
-                            chain_type: chainType,
-                            chain_name: chainName,
-                            chain_id: selectedChain?.chain_id || ''
-                          });
-                        }}
+                      <label>Chain ID</label>
+                      <input
+                        type="number"
+                        min="1"
+                        value={newEvmChain.chain_id}
+                        onChange={(e) => setNewEvmChain({...newEvmChain, chain_id: e.target.value})}
+                        placeholder="e.g., 42161"
                         required
-                        disabled={availableChains.length === 0}
-                      >
-                        {availableChains.length === 0 ? (
-                          <option value="">Loading chains...</option>
-                        ) : (
-                          availableChains.map(c => (
-                            <option key={`${c.chain_type}:${c.chain}`} value={`${c.chain_type}:${c.chain}`}>
-                              {c.chain} ({c.chain_type.toUpperCase()}{c.chain_id ? ` - ${c.chain_id}` : ''})
-                            </option>
-                          ))
-                        )}
-                      </select>
+                      />
                     </div>
                     <div className="form-group">
-                      <label>Network</label>
-                      <select
-                        value={newRpc.network}
-                        onChange={(e) => setNewRpc({...newRpc, network: e.target.value})}
+                      <label>Name</label>
+                      <input
+                        type="text"
+                        value={newEvmChain.name}
+                        onChange={(e) => setNewEvmChain({...newEvmChain, name: e.target.value})}
+                        placeholder="e.g., Arbitrum"
                         required
-                      >
-                        <option value="mainnet">Mainnet</option>
-                        <option value="testnet">Testnet</option>
-                      </select>
+                      />
+                      <small>Assets and RPC endpoints refer to the chain by this name</small>
                     </div>
                     <div className="form-group">
-                      <label>Name (optional)</label>
+                      <label>Native Symbol</label>
                       <input
                         type="text"
-                        value={newRpc.name}
-                        onChange={(e) => setNewRpc({...newRpc, name: e.target.value})}
-                        placeholder="e.g., ZAN.top Ethereum Mainnet"
+                        value={newEvmChain.native_symbol}
+                        onChange={(e) => setNewEvmChain({...newEvmChain, native_symbol: e.target.value})}
+                        placeholder="e.g., ETH"
+                        required
                       />
                     </div>
                     <div className="form-group">
-                      <label>RPC URL</label>
+                      <label>Native Decimals</label>
+                      <input
+                        type="number"
+                        min="0"
+                        max="36"
+                        value={newEvmChain.native_decimals}
+                        onChange={(e) => setNewEvmChain({...newEvmChain, native_decimals: parseInt(e.target.value) || 0})}
+                      />
+                    </div>
+                    <div className="form-group">
+                      <label>Explorer URL (optional)</label>
                       <input
                         type="url"
-                        value={newRpc.rpc_url}
-                        onChange={(e) => setNewRpc({...newRpc, rpc_url: e.target.value})}
+                        value={newEvmChain.explorer_url}
+                        onChange={(e) => setNewEvmChain({...newEvmChain, explorer_url: e.target.value})}
                         placeholder="https://..."
-                        required
                       />
                     </div>
                     <div className="form-group">
-                      <label>Priority</label>
+                      <label>Icon (optional)</label>
                       <input
-                        type="number"
-                        min="0"
-                        value={newRpc.priority}
-                        onChange={(e) => setNewRpc({...newRpc, priority: parseInt(e.target.value) || 0})}
+                        type="text"
+                        value={newEvmChain.icon}
+                        onChange={(e) => setNewEvmChain({...newEvmChain, icon: e.target.value})}
+                        placeholder="e.g., 🔵"
                       />
-                      <small>Lower = higher priority (0 = primary)</small>
                     </div>
+                    <div className="form-group" style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                      <input
+                        type="checkbox"
+                        id="newEvmChainEip1559"
+                        checked={newEvmChain.supports_eip1559}
+                        onChange={(e) => setNewEvmChain({...newEvmChain, supports_eip1559: e.target.checked})}
+                        style={{ width: 'auto' }}
+                      />
+                      <label htmlFor="newEvmChainEip1559" style={{ cursor: 'pointer' }}>Supports EIP-1559 fees</label>
+                    </div>
+                    <div className="form-group" style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                      <input
+                        type="checkbox"
+                        id="newEvmChainTestnet"
+                        checked={newEvmChain.is_testnet}
+                        onChange={(e) => setNewEvmChain({...newEvmChain, is_testnet: e.target.checked})}
+                        style={{ width: 'auto' }}
+                      />
+                      <label htmlFor="newEvmChainTestnet" style={{ cursor: 'pointer' }}>Testnet chain</label>
+                    </div>
+                    {!newEvmChain.is_testnet && (
+                      <div className="form-group">
+                        <label>Testnet Chain ID (optional)</label>
+                        <input
+                          type="number"
+                          min="1"
+                          value={newEvmChain.testnet_chain_id}
+                          onChange={(e) => setNewEvmChain({...newEvmChain, testnet_chain_id: e.target.value})}
+                          placeholder="e.g., 421614"
+                        />
+                        <small>Chain used instead when the wallet is in testnet mode</small>
+                      </div>
+                    )}
                     <div className="modal-buttons">
-                      <button type="button" onClick={() => setShowAddRpc(false)} className="refresh-btn">
+                      <button type="button" onClick={() => setShowAddEvmChain(false)} className="refresh-btn">
                         Cancel
                       </button>
                       <button type="submit" className="send-btn admin-btn">
-                        Add Endpoint
+                        Add Chain
                       </button>
                     </div>
                   </form>
@@ -4730,82 +7162,96 @@ function App() {
               </div>
             )}
 
-            {/* Edit RPC Modal */}
-            {editingRpc && (
-              <div className="modal-overlay" onClick={() => setEditingRpc(null)}>
+            {/* Edit EVM Chain Modal */}
+            {editingEvmChain && (
+              <div className="modal-overlay" onClick={() => setEditingEvmChain(null)}>
                 <div className="modal-content" onClick={(e) => e.stopPropagation()}>
-                  <h2>Edit RPC Endpoint</h2>
-                  <form onSubmit={handleUpdateRpc}>
+                  <h2>Edit EVM Chain {editingEvmChain.chain_id}</h2>
+                  <form onSubmit={handleUpdateEvmChain}>
                     <div className="form-group">
-                      <label>Chain</label>
-                      <select
-                        value={`${editingRpc.chain_type}:${editingRpc.chain_name}`}
-                        onChange={(e) => {
-                          const parts = e.target.value.split(':');
-                          const chainType = parts[0];
-                          const chainName = parts.slice(1).join(':');
-                          const selectedChain = availableChains.find(c => c.chain_type === chainType && c.chain === chainName);
-                          setEditingRpc({
-                            ...editingRpc,
-                            chain_type: chainType,
-                            chain_name: chainName,
-                            chain_id: selectedChain?.chain_id || null
-                          });
-                        }}
+                      <label>Name</label>
+                      <input
+                        type="text"
+                        value={editingEvmChain.name}
+                        onChange={(e) => setEditingEvmChain({...editingEvmChain, name: e.target.value})}
                         required
-                      >
-                        {availableChains.map(c => (
-                          <option key={`${c.chain_type}:${c.chain}`} value={`${c.chain_type}:${c.chain}`}>
-                            {c.chain} ({c.chain_type.toUpperCase()}{c.chain_id ? ` - ${c.chain_id}` : ''})
-                          </option>
-                        ))}
-                      </select>
+                      />
+                      <small>Assets and RPC endpoints refer to the chain by this name</small>
                     </div>
                     <div className="form-group">
-                      <label>Network</label>
-                      <select
-                        value={editingRpc.network}
-                        onChange={(e) => setEditingRpc({...editingRpc, network: e.target.value})}
+                      <label>Native Symbol</label>
+                      <input
+                        type="text"
+                        value={editingEvmChain.native_symbol}
+                        onChange={(e) => setEditingEvmChain({...editingEvmChain, native_symbol: e.target.value})}
                         required
-                      >
-                        <option value="mainnet">Mainnet</option>
-                        <option value="testnet">Testnet</option>
-                      </select>
+                      />
                     </div>
                     <div className="form-group">
-                      <label>Name (optional)</label>
+                      <label>Native Decimals</label>
                       <input
-                        type="text"
-                        value={editingRpc.name || ''}
-                        onChange={(e) => setEditingRpc({...editingRpc, name: e.target.value || null})}
-                        placeholder="e.g., ZAN.top Ethereum Mainnet"
+                        type="number"
+                        min="0"
+                        max="36"
+                        value={editingEvmChain.native_decimals}
+                        onChange={(e) => setEditingEvmChain({...editingEvmChain, native_decimals: parseInt(e.target.value) || 0})}
                       />
                     </div>
                     <div className="form-group">
-                      <label>RPC URL</label>
+                      <label>Explorer URL (optional)</label>
                       <input
                         type="url"
-                        value={editingRpc.rpc_url}
-                        onChange={(e) => setEditingRpc({...editingRpc, rpc_url: e.target.value})}
+                        value={editingEvmChain.explorer_url || ''}
+                        onChange={(e) => setEditingEvmChain({...editingEvmChain, explorer_url: e.target.value || null})}
                         placeholder="https://..."
-                        required
                       />
                     </div>
                     <div className="form-group">
-                      <label>Priority</label>
+                      <label>Icon (optional)</label>
                       <input
-                        type="number"
-                        min="0"
-                        value={editingRpc.priority}
-                        onChange={(e) => setEditingRpc({...editingRpc, priority: parseInt(e.target.value) || 0})}
+                        type="text"
+                        value={editingEvmChain.icon || ''}
+                        onChange={(e) => setEditingEvmChain({...editingEvmChain, icon: e.target.value || null})}
+                      />
+                    </div>
+                    <div className="form-group" style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                      <input
+                        type="checkbox"
+                        id="editEvmChainEip1559"
+                        checked={editingEvmChain.supports_eip1559 === 1}
+                        onChange={(e) => setEditingEvmChain({...editingEvmChain, supports_eip1559: e.target.checked ? 1 : 0})}
+                        style={{ width: 'auto' }}
+                      />
+                      <label htmlFor="editEvmChainEip1559" style={{ cursor: 'pointer' }}>Supports EIP-1559 fees</label>
+                    </div>
+                    <div className="form-group" style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                      <input
+                        type="checkbox"
+                        id="editEvmChainTestnet"
+                        checked={editingEvmChain.is_testnet === 1}
+                        onChange={(e) => setEditingEvmChain({...editingEvmChain, is_testnet: e.target.checked ? 1 : 0})}
+                        style={{ width: 'auto' }}
                       />
+                      <label htmlFor="editEvmChainTestnet" style={{ cursor: 'pointer' }}>Testnet chain</label>
                     </div>
+                    {editingEvmChain.is_testnet === 0 && (
+                      <div className="form-group">
+                        <label>Testnet Chain ID (optional)</label>
+                        <input
+                          type="number"
+                          min="1"
+                          value={editingEvmChain.testnet_chain_id ?? ''}
+                          onChange={(e) => setEditingEvmChain({...editingEvmChain, testnet_chain_id: e.target.value ? parseInt(e.target.value, 10) : null})}
+                        />
+                        <small>Chain used instead when the wallet is in testnet mode</small>
+                      </div>
+                    )}
                     <div className="modal-buttons">
-                      <button type="button" onClick={() => setEditingRpc(null)} className="refresh-btn">
+                      <button type="button" onClick={() => setEditingEvmChain(null)} className="refresh-btn">
                         Cancel
                       </button>
                       <button type="submit" className="send-btn admin-btn">
-                        Update Endpoint
+                        Update Chain
                       </button>
                     </div>
                   </form>
@@ -4961,9 +7407,177 @@ function App() {
                         </tbody>
                       </table>
                     </div>
-                  )}
+                  )}
+                </div>
+              </section>
+            )}
+
+            {superadminSection === 'policies' && (
+              <section className="admin-card">
+                <div className="admin-card-header">
+                  <h2>Spending Policies</h2>
+                  {superadminUser.isSuperadmin && (
+                    <button
+                      onClick={() => setShowAddPolicy(true)}
+                      className="send-btn admin-btn"
+                    >
+                      + Add Policy
+                    </button>
+                  )}
+                </div>
+
+                <div className="section-content">
+                  <p style={{ fontSize: '0.85rem', color: 'var(--text-secondary)', marginBottom: '1rem' }}>
+                    Policies are checked by the wallet before signing and again by the server when a send is recorded. Policies without a user apply to everyone.
+                  </p>
+                  {policiesLoading ? (
+                    <div className="loading-msg">Loading policies...</div>
+                  ) : spendingPolicies.length === 0 ? (
+                    <div className="empty-msg">No spending policies. Transfers are unrestricted.</div>
+                  ) : (
+                    <div className="rpc-table-container">
+                      <table className="admin-table">
+                        <thead>
+                          <tr>
+                            <th>Applies To</th>
+                            <th>Type</th>
+                            <th>Chain</th>
+                            <th>Asset</th>
+                            <th>Value</th>
+                            <th>Status</th>
+                            {superadminUser.isSuperadmin && <th>Actions</th>}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {spendingPolicies.map(policy => (
+                            <tr key={policy.id} className={policy.is_enabled === 0 ? 'disabled-row' : ''}>
+                              <td>{policy.user_id ? (policy.username || policy.user_id) : 'All users'}</td>
+                              <td title={policy.description || undefined}>{POLICY_TYPE_LABELS[policy.policy_type] || policy.policy_type}</td>
+                              <td>{policy.chain_type || 'Any'}</td>
+                              <td>{policy.asset_symbol || 'Any'}</td>
+                              <td><code className="rpc-url-cell" title={policy.value}>{policy.value}</code></td>
+                              <td>
+                                <button
+                                  onClick={() => handleTogglePolicyEnabled(policy)}
+                                  className={`status-badge ${policy.is_enabled ? 'enabled' : 'disabled'}`}
+                                  disabled={!superadminUser.isSuperadmin}
+                                >
+                                  {policy.is_enabled ? 'Enabled' : 'Disabled'}
+                                </button>
+                              </td>
+                              {superadminUser.isSuperadmin && (
+                                <td>
+                                  <div className="action-buttons">
+                                    <button
+                                      onClick={() => handleDeletePolicy(policy.id)}
+                                      className="btn-delete"
+                                      title="Delete"
+                                    >
+                                      Delete
+                                    </button>
+                                  </div>
+                                </td>
+                              )}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              </section>
+            )}
+
+            {/* Add Policy Modal */}
+            {showAddPolicy && (
+              <div className="modal-overlay" onClick={() => setShowAddPolicy(false)}>
+                <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+                  <h2>Add Spending Policy</h2>
+                  <form onSubmit={handleAddPolicy}>
+                    <div className="form-group">
+                      <label>Applies To</label>
+                      <select
+                        value={newPolicy.user_id}
+                        onChange={(e) => setNewPolicy({...newPolicy, user_id: e.target.value})}
+                      >
+                        <option value="">All users</option>
+                        {dbUsers.map(user => (
+                          <option key={user.id} value={user.id}>{user.display_name || user.username}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="form-group">
+                      <label>Type</label>
+                      <select
+                        value={newPolicy.policy_type}
+                        onChange={(e) => setNewPolicy({...newPolicy, policy_type: e.target.value})}
+                      >
+                        {Object.entries(POLICY_TYPE_LABELS).map(([type, label]) => (
+                          <option key={type} value={type}>{label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="form-group">
+                      <label>Chain</label>
+                      <select
+                        value={newPolicy.chain_type}
+                        onChange={(e) => setNewPolicy({...newPolicy, chain_type: e.target.value})}
+                      >
+                        <option value="">Any chain</option>
+                        <option value="evm">EVM</option>
+                        <option value="btc">Bitcoin</option>
+                        <option value="svm">Solana</option>
+                        <option value="tron">TRON</option>
+                        <option value="ton">TON</option>
+                        <option value="canton">Canton</option>
+                      </select>
+                    </div>
+                    <div className="form-group">
+                      <label>Asset Symbol {newPolicy.policy_type.endsWith('_limit') ? '' : '(optional)'}</label>
+                      <input
+                        type="text"
+                        value={newPolicy.asset_symbol}
+                        onChange={(e) => setNewPolicy({...newPolicy, asset_symbol: e.target.value.toUpperCase()})}
+                        placeholder="e.g., USDC"
+                        required={newPolicy.policy_type.endsWith('_limit')}
+                      />
+                    </div>
+                    <div className="form-group">
+                      <label>
+                        {newPolicy.policy_type.endsWith('_limit') ? 'Limit (asset units)' :
+                         newPolicy.policy_type === 'allow_selector' ? 'Function Selector' : 'Address'}
+                      </label>
+                      <input
+                        type="text"
+                        value={newPolicy.value}
+                        onChange={(e) => setNewPolicy({...newPolicy, value: e.target.value})}
+                        placeholder={newPolicy.policy_type.endsWith('_limit') ? 'e.g., 1000' :
+                                     newPolicy.policy_type === 'allow_selector' ? 'e.g., 0xa9059cbb' : 'Destination address'}
+                        required
+                      />
+                      {newPolicy.policy_type === 'daily_limit' && <small>Counted over a rolling 24 hours</small>}
+                      {newPolicy.policy_type === 'allow_selector' && <small>Once any selector is listed, other EVM contract calls are refused</small>}
+                      {newPolicy.policy_type === 'allow_destination' && <small>Once any address is listed, transfers to other addresses are refused</small>}
+                    </div>
+                    <div className="form-group">
+                      <label>Description (optional)</label>
+                      <input
+                        type="text"
+                        value={newPolicy.description}
+                        onChange={(e) => setNewPolicy({...newPolicy, description: e.target.value})}
+                      />
+                    </div>
+                    <div className="modal-buttons">
+                      <button type="button" onClick={() => setShowAddPolicy(false)} className="refresh-btn">
+                        Cancel
+                      </button>
+                      <button type="submit" className="send-btn admin-btn">
+                        Add Policy
+                      </button>
+                    </div>
+                  </form>
                 </div>
-              </section>
+              </div>
             )}
 
             {/* Add App Modal */}
@@ -5517,14 +8131,85 @@ function App() {
               {authLoading && authMode === 'login' ? 'Authenticating...' : 'Sign In'}
             </button>
 
-            {/* Create Account - collapsed by default */}
-            {authMode !== 'register' ? (
-              <button
-                onClick={() => setAuthMode('register')}
-                className="login-btn-ghost"
-              >
-                Create Account
-              </button>
+            {/* Create Account and guardian recovery - collapsed by default */}
+            {authMode === 'recover' ? (
+              <div className="login-register-panel">
+                {pendingRecovery ? (
+                  <>
+                    <div className="login-code-status valid">
+                      Recovering <strong>{pendingRecovery.username}</strong>
+                      {recoveryProgress && recoveryProgress.status === 'pending' && (
+                        <> &mdash; {recoveryProgress.approvals}/{recoveryProgress.threshold} guardian approvals, {recoveryProgress.ready
+                          ? 'ready for your new passkey'
+                          : `available after ${new Date(recoveryProgress.availableAt).toLocaleString()}`}</>
+                      )}
+                    </div>
+                    {recoveryProgress?.status === 'requested' && pendingRecovery.startCode && (
+                      <div className="login-code-status valid">
+                        Start code <strong>{pendingRecovery.startCode}</strong>
+                      </div>
+                    )}
+                    {recoveryProgress && recoveryProgress.status !== 'requested' && recoveryProgress.status !== 'pending' && (
+                      <div className="login-code-status invalid">
+                        {recoveryProgress.status === 'cancelled' ? 'This recovery was cancelled' : 'This recovery has already been completed'}
+                      </div>
+                    )}
+                    <p className="login-recovery-hint">
+                      {recoveryProgress?.status === 'requested'
+                        ? 'Give the start code to one of your guardians; they enter it under Settings → Social Recovery within 24 hours. Your other passkeys are notified once it starts.'
+                        : 'Ask your guardians to sign in and approve the request.'} Finish the recovery in this browser; it holds the key their approvals are encrypted to.
+                    </p>
+                    {recoveryProgress?.ready ? (
+                      <button onClick={handleCompleteRecovery} className="login-btn-primary" disabled={authLoading}>
+                        {authLoading ? 'Authenticating...' : 'Create New Passkey'}
+                      </button>
+                    ) : (
+                      <button onClick={refreshRecoveryProgress} className="login-btn-primary" disabled={authLoading}>
+                        Check Status
+                      </button>
+                    )}
+                    <button onClick={handleWithdrawRecovery} className="login-btn-ghost">
+                      {recoveryProgress && recoveryProgress.status !== 'requested' && recoveryProgress.status !== 'pending' ? 'Start Over' : 'Withdraw Recovery'}
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <div className="login-field">
+                      <label>Username</label>
+                      <input
+                        type="text"
+                        value={recoveryUsername}
+                        onChange={(e) => setRecoveryUsername(e.target.value)}
+                        placeholder="Account to recover"
+                      />
+                    </div>
+                    <button onClick={handleStartRecovery} className="login-btn-primary" disabled={authLoading}>
+                      {authLoading ? 'Starting...' : 'Recover with Guardians'}
+                    </button>
+                  </>
+                )}
+                <button
+                  onClick={() => setAuthMode('login')}
+                  className="login-btn-ghost"
+                >
+                  Back to Sign In
+                </button>
+              </div>
+            ) : authMode !== 'register' ? (
+              <>
+                <button
+                  onClick={() => setAuthMode('register')}
+                  className="login-btn-ghost"
+                >
+                  Create Account
+                </button>
+                <button
+                  onClick={() => { setLoginError(''); setAuthMode('recover'); }}
+                  className="login-btn-ghost"
+                >
+                  Lost your passkey?
+                </button>
+              </>
             ) : (
               <div className="login-register-panel">
                 <div className="login-field">
@@ -5563,6 +8248,28 @@ function App() {
                   </div>
                 )}
 
+                <details className="login-restore">
+                  <summary>Restore wallets from a backup</summary>
+                  <div className="login-field">
+                    <label>Backup file</label>
+                    <input
+                      type="file"
+                      accept="application/json,.json"
+                      onChange={(e) => handleBackupFileSelected(e.target.files?.[0], setRegisterBackupText)}
+                    />
+                  </div>
+                  <div className="login-field">
+                    <label>Backup passphrase</label>
+                    <input
+                      type="password"
+                      value={registerBackupPassphrase}
+                      onChange={(e) => setRegisterBackupPassphrase(e.target.value)}
+                      placeholder="Passphrase used for the backup"
+                      disabled={!registerBackupText}
+                    />
+                  </div>
+                </details>
+
                 <button
                   onClick={() => handlePasskeyRegister()}
                   className="login-btn-primary"
@@ -5604,6 +8311,47 @@ function App() {
       </button>
 
       <div className="main-content">
+        {(walletSetupError || ownRecoveryRequests.length > 0 || guardianRecoveryRequests.some(r => !r.approved) || tonLegacyAddress) && (
+          <div className="recovery-alerts">
+            {walletSetupError && (
+              <div className="recovery-alert warning">
+                <span>Your wallets could not be set up: {walletSetupError}</span>
+                <button onClick={handleRetryWalletSetup} disabled={walletSetupBusy}>
+                  {walletSetupBusy ? 'Retrying...' : 'Retry'}
+                </button>
+              </div>
+            )}
+            {tonLegacyAddress && (
+              <div className="recovery-alert warning">
+                <span>
+                  Your TON address changed. The old address {tonLegacyAddress} was not a wallet contract, so funds sent to it
+                  cannot be spent and bounceable transfers to it are returned. Don't share or use it again.
+                </span>
+                <button onClick={() => {
+                  localStorage.setItem(TON_LEGACY_NOTICE_KEY, tonLegacyAddress);
+                  setTonLegacyAddress(null);
+                }}>Dismiss</button>
+              </div>
+            )}
+            {ownRecoveryRequests.map(request => (
+              <div key={request.id} className="recovery-alert warning">
+                <span>
+                  Someone started recovering your account on {new Date(request.createdAt).toLocaleString()} ({request.approvals}/{request.threshold} guardian approvals).
+                  It can complete after {new Date(request.availableAt).toLocaleString()}. If this wasn't you, cancel it.
+                </span>
+                <button onClick={() => handleCancelRecovery(request.id)} disabled={recoveryBusy}>Cancel Recovery</button>
+              </div>
+            ))}
+            {guardianRecoveryRequests.filter(r => !r.approved).map(request => (
+              <div key={request.id} className="recovery-alert">
+                <span>
+                  <strong>{request.username}</strong> is recovering their account and needs your approval as a guardian ({request.approvals}/{request.threshold}).
+                </span>
+                <button onClick={() => handleApproveRecovery(request)} disabled={recoveryBusy}>Approve</button>
+              </div>
+            ))}
+          </div>
+        )}
         <Wallet
           authUser={authUser}
           orgName={orgName}
@@ -5625,13 +8373,18 @@ function App() {
           onDeleteAsset={handleDeleteCustomAsset}
           onAcceptOffer={handleAcceptOffer}
           onScannedAddressUsed={() => setTransferTo('')}
-          onTransfer={async (to, amount, asset, chain) => {
+          onTransfer={async (to, amount, asset, chain, options) => {
             try {
               // Determine chain type from asset or chain parameter
               const chainType = asset?.chainType || (chain ? chainAddresses.find(a => a.chain === chain)?.chain : null);
 
               // Canton Coin - use Splice API
               if (!asset || asset.symbol === 'CC' || chainType === 'canton') {
+                try {
+                  await checkSpendingPolicy({ chainType: 'canton', chain: 'Canton', assetSymbol: 'CC', amount, toAddress: to });
+                } catch (error) {
+                  return { success: false, message: error instanceof Error ? error.message : String(error) };
+                }
                 const response = await fetch(`${API_BASE}/api/wallet/transfer`, {
                   method: 'POST',
                   headers: {
@@ -5655,12 +8408,6 @@ function App() {
                 return { success: false, message: `Error: ${data.error}` };
               }
 
-              // Non-Canton tokens - use chain signers with PRF authentication
-              const prfOutput = await requestPrfAuthentication();
-              if (!prfOutput) {
-                return { success: false, message: 'Passkey authentication required for signing' };
-              }
-
               // For multi-chain assets, look up chainType from the selected chain
               let assetChainType = asset.chainType || 'evm';
               if (chain && asset.chains && asset.chains.length > 0) {
@@ -5669,157 +8416,260 @@ function App() {
                   assetChainType = selectedChainInfo.chainType;
                 }
               }
-              const keyRes = await fetch(`${API_BASE}/api/wallet/private-key?chainType=${assetChainType}`, {
-                headers: { 'Authorization': `Bearer ${sessionId}` }
-              });
-              const keyData = await keyRes.json() as ApiResponse<{ encryptedKey: string }>;
-              if (!keyData.success || !keyData.data) {
-                return { success: false, message: 'Failed to get encrypted key' };
-              }
 
-              const privateKey = await decryptPrivateKey(prfOutput, keyData.data.encryptedKey);
-              const amountNum = parseFloat(amount);
-
-              // Route to appropriate chain signer
-              switch (assetChainType) {
-                case 'evm': {
-                  // Get chain ID (default to Ethereum mainnet)
-                  const chainId = chain === 'Base' ? 8453 : 1;
-                  const evmAddr = chainAddresses.find(a => a.chain === 'Ethereum')?.address;
-                  if (!evmAddr) {
-                    return { success: false, message: 'No EVM wallet found' };
-                  }
-                  // Check balance before sending
-                  const evmBalance = await evmSigner.getBalance(evmAddr, chainId);
-                  const weiAmount = BigInt(Math.floor(amountNum * 1e18));
-                  if (evmBalance < weiAmount) {
-                    return { success: false, message: `Insufficient balance. Have: ${(Number(evmBalance) / 1e18).toFixed(6)} ${chain === 'Base' ? 'ETH (Base)' : 'ETH'}` };
-                  }
-                  const result = await evmSigner.signAndSendTransaction(
-                    { to, value: '0x' + weiAmount.toString(16), chainId },
-                    privateKey,
-                    evmAddr
-                  );
-                  loadWalletData(true);
-                  return { success: true, message: `Success! TX: ${result.transactionHash}` };
+              // Spending policies are checked before the passkey prompt
+              const walletChain: Record<string, string> = { evm: 'Ethereum', btc: 'Bitcoin', svm: 'Solana', tron: 'Tron', ton: 'TON' };
+              const fromAddress = chainAddresses.find(a => a.chain === walletChain[assetChainType])?.address || '';
+              const selectedChain = chain || asset.chains?.find(c => c.chainType === assetChainType)?.chain || asset.symbol;
+
+              // A Solana recipient without a token account for the mint gets one,
+              // paid for by the sender, so the rent is confirmed up front. So is a
+              // Token-2022 transfer fee, and a memo is asked for when the
+              // recipient's account requires one.
+              const splChain = assetChainType === 'svm' && asset.symbol !== 'SOL'
+                ? asset.chains?.find(c => c.chain === 'Solana' || c.chainType === 'svm')
+                : undefined;
+              const splQuote = splChain?.contractAddress
+                ? await solSigner.getTokenTransferQuote(to, splChain.contractAddress, BigInt(Math.floor(parseFloat(amount || '0') * Math.pow(10, splChain.decimals))), 'mainnet')
+                : null;
+              // The amount and TransferChecked use the mint's decimals, so an asset configured with others is refused
+              if (splChain && splQuote && splQuote.mint.decimals !== splChain.decimals) {
+                return { success: false, message: `${asset.symbol} is configured with ${splChain.decimals} decimals but its mint has ${splQuote.mint.decimals}` };
+              }
+              const splRent = splQuote?.rentLamports ?? 0;
+              if (splRent > 0 && !confirm(`${to} has no ${asset.symbol} account yet. Sending creates one, which costs ${formatUnits(BigInt(splRent), 9)} SOL in rent on top of the network fee. Continue?`)) {
+                return { success: false, message: 'Cancelled' };
+              }
+              if (splQuote && splQuote.transferFee > 0n && !confirm(`${asset.symbol} charges a transfer fee. ${formatUnits(splQuote.transferFee, splQuote.mint.decimals)} ${asset.symbol} of the amount is withheld, so the recipient gets less than you send. Continue?`)) {
+                return { success: false, message: 'Cancelled' };
+              }
+              let splMemo: string | undefined;
+              if (splQuote?.memoRequired) {
+                splMemo = prompt(`${to} only accepts ${asset.symbol} transfers with a memo. Enter the memo:`)?.trim();
+                if (!splMemo) {
+                  return { success: false, message: 'Cancelled' };
                 }
-                case 'btc': {
-                  const btcAddr = chainAddresses.find(a => a.chain === 'Bitcoin')?.address;
-                  if (!btcAddr) {
-                    return { success: false, message: 'No Bitcoin wallet found' };
-                  }
-                  const satoshis = Math.floor(amountNum * 1e8);
-                  const fee = 1000; // satoshis
-                  // Check balance before sending
-                  const btcBalance = await btcSigner.getBalance(btcAddr, 'mainnet');
-                  if (btcBalance < satoshis + fee) {
-                    return { success: false, message: `Insufficient BTC balance. Have: ${(btcBalance / 1e8).toFixed(8)} BTC` };
-                  }
-                  const utxos = await btcSigner.getUTXOs(btcAddr, 'mainnet');
-                  if (utxos.length === 0) {
-                    return { success: false, message: 'No UTXOs available' };
+              }
+
+              // Bitcoin inputs and fee are chosen up front so the policy sees the amount actually sent
+              const btcAddr = assetChainType === 'btc' ? chainAddresses.find(a => a.chain === 'Bitcoin') : undefined;
+              const btcPlan = btcAddr
+                ? await planBtcTransfer(btcAddr, {
+                    to,
+                    amount: Math.floor(parseFloat(amount || '0') * 1e8),
+                    feePreset: options?.feePreset,
+                    sendMax: options?.sendMax
+                  }, getBtcNetwork(btcAddr))
+                : null;
+
+              try {
+                return await withSpendingPolicy({
+                  chainType: assetChainType,
+                  chain: selectedChain,
+                  assetSymbol: asset.symbol,
+                  amount: btcPlan ? formatUnits(BigInt(btcPlan.amount), 8) : amount,
+                  toAddress: to
+                }, fromAddress, undefined, async () => {
+                  // Non-Canton tokens - use chain signers with PRF authentication
+                  const walletKey = await unlockSigningKey(assetChainType);
+                  if (!walletKey) {
+                    return { success: false, message: 'Passkey authentication required for signing' };
                   }
-                  const result = await btcSigner.signAndSendTransaction(
-                    utxos, to, satoshis, privateKey, btcAddr, fee, 'mainnet'
-                  );
-                  loadWalletData(true);
-                  return { success: true, message: `Success! TX: ${result.txid}` };
-                }
-                case 'svm': {
-                  const solAddr = chainAddresses.find(a => a.chain === 'Solana')?.address;
-                  if (!solAddr) {
-                    return { success: false, message: 'No Solana wallet found' };
+                  const keyRes = await fetch(`${API_BASE}/api/wallet/private-key?chainType=${assetChainType}`, {
+                    headers: { 'Authorization': `Bearer ${sessionId}` }
+                  });
+                  const keyData = await keyRes.json() as ApiResponse<{ encryptedKey: string }>;
+                  if (!keyData.success || !keyData.data) {
+                    return { success: false, message: 'Failed to get encrypted key' };
                   }
 
-                  // Check if this is a native SOL transfer or SPL token transfer
-                  const isNativeSol = asset.symbol === 'SOL';
-
-                  if (isNativeSol) {
-                    // Native SOL transfer
-                    const solBalance = await solSigner.getBalance(solAddr, 'mainnet');
-                    const lamports = Math.floor(amountNum * 1e9);
-                    const fee = 5000; // transaction fee
-                    const rentExemptMin = 890880; // minimum rent-exempt balance (~0.00089 SOL)
-                    const minRequired = lamports + fee + rentExemptMin;
+                  const privateKey = await decryptPrivateKey(walletKey, keyData.data.encryptedKey);
+                  const amountNum = parseFloat(amount);
+
+                  // Route to appropriate chain signer
+                  switch (assetChainType) {
+                    case 'evm': {
+                      // Chain ID for the selected chain in the current network mode (default Ethereum)
+                      const evmChain = getEvmChainByName(selectedChain) || getEvmChainByName('Ethereum');
+                      const chainId = evmChain ? resolveEvmChainId(evmChain.name, networkMode) : null;
+                      if (!evmChain || chainId === null) {
+                        return { success: false, message: `${selectedChain} is not available on ${networkMode}` };
+                      }
+                      const evmAddr = chainAddresses.find(a => a.chain === 'Ethereum')?.address;
+                      if (!evmAddr) {
+                        return { success: false, message: 'No EVM wallet found' };
+                      }
+                      // Check balance before sending
+                      const evmBalance = await evmSigner.getBalance(evmAddr, chainId);
+                      const weiAmount = BigInt(Math.floor(amountNum * Math.pow(10, evmChain.nativeDecimals)));
+                      if (evmBalance < weiAmount) {
+                        return { success: false, message: `Insufficient balance. Have: ${formatUnits(evmBalance, evmChain.nativeDecimals)} ${evmChain.nativeSymbol} on ${evmChain.name}` };
+                      }
+                      const result = await evmSigner.signAndSendTransaction(
+                        { to, value: '0x' + weiAmount.toString(16), chainId },
+                        privateKey,
+                        evmAddr
+                      );
+                      loadWalletData(true);
+                      return { success: true, message: `Success! TX: ${result.transactionHash}`, txHash: result.transactionHash };
+                    }
+                    case 'btc': {
+                      if (!btcAddr || !btcPlan) {
+                        return { success: false, message: 'No Bitcoin wallet found' };
+                      }
+                      const result = await btcSigner.signAndSendTransaction(
+                        btcPlan.utxos, to, btcPlan.amount, privateKey, btcAddr.address, btcPlan.fee, getBtcNetwork(btcAddr)
+                      );
+                      loadWalletData(true);
+                      return { success: true, message: `Success! TX: ${result.txid} (fee ${btcPlan.fee} sats)`, txHash: result.txid };
+                    }
+                    case 'svm': {
+                      const solAddr = chainAddresses.find(a => a.chain === 'Solana')?.address;
+                      if (!solAddr) {
+                        return { success: false, message: 'No Solana wallet found' };
+                      }
 
-                    if (solBalance < minRequired) {
-                      const maxSendable = Math.max(0, solBalance - fee - rentExemptMin) / 1e9;
-                      return { success: false, message: `Insufficient SOL. Balance: ${(solBalance / 1e9).toFixed(6)} SOL. Max sendable: ${maxSendable.toFixed(6)} SOL (need to keep ~0.00089 SOL for rent)` };
+                      // Check if this is a native SOL transfer or SPL token transfer
+                      const isNativeSol = asset.symbol === 'SOL';
+
+                      if (isNativeSol) {
+                        // Native SOL transfer
+                        const solBalance = await solSigner.getBalance(solAddr, 'mainnet');
+                        const lamports = Math.floor(amountNum * 1e9);
+                        const fee = 5000; // transaction fee
+                        const rentExemptMin = 890880; // minimum rent-exempt balance (~0.00089 SOL)
+                        const minRequired = lamports + fee + rentExemptMin;
+
+                        if (solBalance < minRequired) {
+                          const maxSendable = Math.max(0, solBalance - fee - rentExemptMin) / 1e9;
+                          return { success: false, message: `Insufficient SOL. Balance: ${(solBalance / 1e9).toFixed(6)} SOL. Max sendable: ${maxSendable.toFixed(6)} SOL (need to keep ~0.00089 SOL for rent)` };
+                        }
+                        const result = await solSigner.signAndSendTransaction(to, lamports, privateKey, 'mainnet');
+                        loadWalletData(true);
+                        return { success: true, message: `Success! TX: ${result.signature}`, txHash: result.signature };
+                      } else {
+                        // SPL Token transfer (USDC, USDT, etc.)
+                        const mintAddress = splChain?.contractAddress;
+                        if (!mintAddress || !splQuote) {
+                          return { success: false, message: `No Solana contract address found for ${asset.symbol}` };
+                        }
+
+                        // Decimals as read from the mint, which TransferChecked is checked against
+                        const decimals = splQuote.mint.decimals;
+
+                        // Check token balance
+                        const tokenBalance = await solSigner.getTokenBalance(mintAddress, solAddr, 'mainnet');
+                        const tokenAmount = BigInt(Math.floor(amountNum * Math.pow(10, decimals)));
+
+                        if (tokenBalance < tokenAmount) {
+                          return { success: false, message: `Insufficient ${asset.symbol} balance. Have: ${(Number(tokenBalance) / Math.pow(10, decimals)).toFixed(decimals)} ${asset.symbol}` };
+                        }
+
+                        // Also need some SOL for transaction fees and any token account rent
+                        const solBalance = await solSigner.getBalance(solAddr, 'mainnet');
+                        const minSolForFee = 10000 + splRent; // ~0.00001 SOL for fee
+                        if (solBalance < minSolForFee) {
+                          return { success: false, message: `Insufficient SOL for transaction fee. Need at least ${formatUnits(BigInt(minSolForFee), 9)} SOL` };
+                        }
+
+                        const result = await solSigner.signAndSendTokenTransfer(to, tokenAmount, mintAddress, privateKey, decimals, 'mainnet', splMemo);
+                        loadWalletData(true);
+                        // Base fee for one signature, the priority fee and the rent for a new recipient token account
+                        const fee = formatUnits(BigInt(5000 + result.priorityFeeLamports + result.rentLamports), 9);
+                        const notes = [
+                          ...(result.rentLamports > 0 ? [`created recipient token account, fee ${fee} SOL`] : []),
+                          ...(result.transferFee > 0n ? [`${formatUnits(result.transferFee, decimals)} ${asset.symbol} withheld as transfer fee`] : [])
+                        ];
+                        return {
+                          success: true,
+                          message: notes.length > 0
+                            ? `Success! TX: ${result.signature} (${notes.join('; ')})`
+                            : `Success! TX: ${result.signature}`,
+                          txHash: result.signature,
+                          fee: { fee, feeAsset: 'SOL' }
+                        };
+                      }
                     }
-                    const result = await solSigner.signAndSendTransaction(to, lamports, privateKey, 'mainnet');
-                    loadWalletData(true);
-                    return { success: true, message: `Success! TX: ${result.signature}` };
-                  } else {
-                    // SPL Token transfer (USDC, USDT, etc.)
-                    // Get token mint address from asset chains
-                    const chainInfo = asset.chains?.find(c => c.chain === 'Solana' || c.chainType === 'svm');
-                    const mintAddress = chainInfo?.contractAddress;
-                    if (!mintAddress) {
-                      return { success: false, message: `No Solana contract address found for ${asset.symbol}` };
+                    case 'tron': {
+                      const tronAddr = chainAddresses.find(a => a.chain === 'Tron')?.address;
+                      if (!tronAddr) {
+                        return { success: false, message: 'No TRON wallet found' };
+                      }
+                      const sun = Math.floor(amountNum * 1e6);
+                      // Check balance before sending
+                      const trxBalance = await tronSigner.getBalance(tronAddr, 'mainnet');
+                      if (trxBalance < sun) {
+                        return { success: false, message: `Insufficient TRX balance. Have: ${(trxBalance / 1e6).toFixed(6)} TRX` };
+                      }
+                      const result = await tronSigner.signAndSendTransaction(to, sun, privateKey, 'mainnet');
+                      loadWalletData(true);
+                      return { success: true, message: `Success! TX: ${result.txID}`, txHash: result.txID };
                     }
+                    case 'ton': {
+                      const tonAddr = chainAddresses.find(a => a.chain === 'TON')?.address;
+                      if (!tonAddr) {
+                        return { success: false, message: 'No TON wallet found' };
+                      }
+                      const tonBalance = await tonSigner.getBalance(tonAddr, 'mainnet');
+
+                      if (asset.symbol === 'TON') {
+                        const nanotons = BigInt(Math.floor(amountNum * 1e9));
+                        // Check balance before sending
+                        if (tonBalance < nanotons) {
+                          return { success: false, message: `Insufficient TON balance. Have: ${(Number(tonBalance) / 1e9).toFixed(6)} TON` };
+                        }
+                        const result = await tonSigner.signAndSendTransaction(to, nanotons, privateKey, undefined, 'mainnet');
+                        loadWalletData(true);
+                        // The first send also deploys the wallet contract
+                        const deployNote = result.deploy ? ' (wallet contract deployed with this transfer)' : '';
+                        return { success: true, message: `Success! TX: ${result.hash}${deployNote}`, txHash: result.hash };
+                      }
 
-                    // Get token decimals (default to 6 for USDC/USDT)
-                    const decimals = chainInfo?.decimals || 6;
+                      // Jetton transfer (USDT, etc.) through the Jetton master from asset chains
+                      const chainInfo = asset.chains?.find(c => c.chainType === 'ton');
+                      const jettonMaster = chainInfo?.contractAddress;
+                      if (!jettonMaster) {
+                        return { success: false, message: `No TON contract address found for ${asset.symbol}` };
+                      }
 
-                    // Check token balance
-                    const tokenBalance = await solSigner.getTokenBalance(mintAddress, solAddr, 'mainnet');
-                    const tokenAmount = BigInt(Math.floor(amountNum * Math.pow(10, decimals)));
+                      // Jettons default to 9 decimals (TEP-64)
+                      const decimals = chainInfo?.decimals || 9;
+                      const jettonBalance = await tonSigner.getJettonBalance(tonAddr, jettonMaster, 'mainnet');
+                      const jettonAmount = BigInt(Math.floor(amountNum * Math.pow(10, decimals)));
+                      if (jettonBalance < jettonAmount) {
+                        return { success: false, message: `Insufficient ${asset.symbol} balance. Have: ${formatUnits(jettonBalance, decimals)} ${asset.symbol}` };
+                      }
 
-                    if (tokenBalance < tokenAmount) {
-                      return { success: false, message: `Insufficient ${asset.symbol} balance. Have: ${(Number(tokenBalance) / Math.pow(10, decimals)).toFixed(decimals)} ${asset.symbol}` };
-                    }
+                      // The transfer carries TON for the Jetton wallets' fees; the excess comes back
+                      if (tonBalance < tonSigner.JETTON_TRANSFER_TON) {
+                        return { success: false, message: `Insufficient TON for the transfer fee. Need at least ${formatUnits(tonSigner.JETTON_TRANSFER_TON, 9)} TON` };
+                      }
 
-                    // Also need some SOL for transaction fees
-                    const solBalance = await solSigner.getBalance(solAddr, 'mainnet');
-                    const minSolForFee = 10000; // ~0.00001 SOL for fee
-                    if (solBalance < minSolForFee) {
-                      return { success: false, message: `Insufficient SOL for transaction fee. Need at least 0.00001 SOL` };
+                      const result = await tonSigner.signAndSendJettonTransfer(to, jettonMaster, jettonAmount, privateKey, undefined, 'mainnet');
+                      loadWalletData(true);
+                      const deployNote = result.deploy ? ' (wallet contract deployed with this transfer)' : '';
+                      return { success: true, message: `Success! TX: ${result.hash}${deployNote}`, txHash: result.hash };
                     }
-
-                    const result = await solSigner.signAndSendTokenTransfer(to, tokenAmount, mintAddress, privateKey, decimals, 'mainnet');
-                    loadWalletData(true);
-                    return { success: true, message: `Success! TX: ${result.signature}` };
-                  }
-                }
-                case 'tron': {
-                  const tronAddr = chainAddresses.find(a => a.chain === 'Tron')?.address;
-                  if (!tronAddr) {
-                    return { success: false, message: 'No TRON wallet found' };
-                  }
-                  const sun = Math.floor(amountNum * 1e6);
-                  // Check balance before sending
-                  const trxBalance = await tronSigner.getBalance(tronAddr, 'mainnet');
-                  if (trxBalance < sun) {
-                    return { success: false, message: `Insufficient TRX balance. Have: ${(trxBalance / 1e6).toFixed(6)} TRX` };
-                  }
-                  const result = await tronSigner.signAndSendTransaction(to, sun, privateKey, 'mainnet');
-                  loadWalletData(true);
-                  return { success: true, message: `Success! TX: ${result.txID}` };
-                }
-                case 'ton': {
-                  const tonAddr = chainAddresses.find(a => a.chain === 'TON')?.address;
-                  if (!tonAddr) {
-                    return { success: false, message: 'No TON wallet found' };
-                  }
-                  const nanotons = BigInt(Math.floor(amountNum * 1e9));
-                  // Check balance before sending
-                  const tonBalance = await tonSigner.getBalance(tonAddr, 'mainnet');
-                  if (tonBalance < nanotons) {
-                    return { success: false, message: `Insufficient TON balance. Have: ${(Number(tonBalance) / 1e9).toFixed(6)} TON` };
+                    default:
+                      return { success: false, message: `Unsupported chain type: ${assetChainType}` };
                   }
-                  const result = await tonSigner.signAndSendTransaction(to, nanotons, privateKey, undefined, 'mainnet');
-                  loadWalletData(true);
-                  return { success: true, message: `Success! TX: ${result.hash}` };
+                }, result => result.txHash, result => result.fee);
+              } catch (error) {
+                if (error instanceof WalletBridgeError && error.code === WalletErrorCode.POLICY_REJECTED) {
+                  return { success: false, message: error.message };
                 }
-                default:
-                  return { success: false, message: `Unsupported chain type: ${assetChainType}` };
+                throw error;
               }
             } catch (error) {
               return { success: false, message: `Error: ${error}` };
             }
           }}
           onStartQrScanner={startQrScanner}
-          onSettings={() => { setShowSettingsModal(true); loadPasskeys(); }}
+          onSettings={() => { setShowSettingsModal(true); loadPasskeys(); loadRecoveryGuardians(); }}
+          onSelectAddressType={handleSelectBtcAddressType}
+          onBumpTransaction={(tx, action) => tx.chainType === 'evm'
+            ? handleBumpEvmTransaction(tx, action)
+            : handleBumpBtcTransaction(tx, action)}
           transactionPagination={transactionPagination}
           onLoadMoreTransactions={async (offset: number, chainFilter?: string) => {
             if (!authUser || !sessionId) return;
@@ -5890,6 +8740,353 @@ function App() {
                 </div>
               )}
 
+              <div className="settings-section">
+                <div className="settings-section-header">
+                  <span className="settings-section-label">Recovery Phrase</span>
+                </div>
+                {recoveryPhrase ? (
+                  <>
+                    <div className="config-item" style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '0.35rem', fontSize: '0.8rem', fontFamily: 'monospace', padding: '0.5rem 0' }}>
+                      {recoveryPhrase.split(' ').map((word, i) => (
+                        <span key={i}><span style={{ opacity: 0.5 }}>{i + 1}.</span> {word}</span>
+                      ))}
+                    </div>
+                    <button className="btn-add-passkey" onClick={() => setRecoveryPhrase(null)}>Hide</button>
+                  </>
+                ) : (
+                  <div className="config-item" style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', padding: '0.5rem 0' }}>
+                    <span style={{ fontSize: '0.8rem', opacity: 0.7 }}>Restores your wallets in any BIP39 wallet. Never share it.</span>
+                    <button className="btn-add-passkey" onClick={handleRevealRecoveryPhrase}>Show</button>
+                  </div>
+                )}
+                {legacyWalletChains.length > 0 && (
+                  <div style={{ fontSize: '0.75rem', opacity: 0.7, padding: '0.25rem 0' }}>
+                    Created before recovery phrases and not covered by it: {legacyWalletChains.map(ct => ct.toUpperCase()).join(', ')}
+                  </div>
+                )}
+              </div>
+
+              <div className="settings-section">
+                <div className="settings-section-header">
+                  <span className="settings-section-label">Encrypted Backup</span>
+                </div>
+                {backupFile ? (
+                  <>
+                    <div className="config-item backup-qr">
+                      <QRCodeSVG value={JSON.stringify(backupFile)} size={220} level="L" bgColor="#ffffff" fgColor="#000000" />
+                      <span style={{ fontSize: '0.75rem', opacity: 0.7 }}>
+                        Save the file or print this code. Both need the passphrase to restore.
+                      </span>
+                    </div>
+                    <div style={{ display: 'flex', gap: '0.5rem' }}>
+                      <button className="btn-add-passkey" onClick={handleDownloadBackup}>Download</button>
+                      <button className="btn-add-passkey" onClick={() => { setBackupFile(null); setBackupMode(null); }}>Done</button>
+                    </div>
+                  </>
+                ) : backupMode === 'export' ? (
+                  <div className="config-item backup-form">
+                    <input
+                      type="password"
+                      value={backupPassphrase}
+                      onChange={(e) => setBackupPassphrase(e.target.value)}
+                      placeholder="Backup passphrase (12+ characters)"
+                      autoComplete="new-password"
+                    />
+                    <input
+                      type="password"
+                      value={backupPassphraseConfirm}
+                      onChange={(e) => setBackupPassphraseConfirm(e.target.value)}
+                      placeholder="Confirm passphrase"
+                      autoComplete="new-password"
+                    />
+                    <div style={{ display: 'flex', gap: '0.5rem' }}>
+                      <button className="btn-add-passkey" onClick={handleExportBackup} disabled={backupBusy}>
+                        {backupBusy ? 'Encrypting...' : 'Create Backup'}
+                      </button>
+                      <button className="btn-add-passkey" onClick={() => setBackupMode(null)} disabled={backupBusy}>Cancel</button>
+                    </div>
+                  </div>
+                ) : backupMode === 'restore' ? (
+                  <div className="config-item backup-form">
+                    <input
+                      type="file"
+                      accept="application/json,.json"
+                      onChange={(e) => handleBackupFileSelected(e.target.files?.[0], setRestoreBackupText)}
+                    />
+                    <textarea
+                      value={restoreBackupText}
+                      onChange={(e) => setRestoreBackupText(e.target.value)}
+                      placeholder="Or paste the backup (e.g. scanned from its QR code)"
+                      rows={3}
+                    />
+                    <input
+                      type="password"
+                      value={backupPassphrase}
+                      onChange={(e) => setBackupPassphrase(e.target.value)}
+                      placeholder="Backup passphrase"
+                    />
+                    <div style={{ display: 'flex', gap: '0.5rem' }}>
+                      <button className="btn-add-passkey" onClick={handleRestoreBackup} disabled={backupBusy || !restoreBackupText}>
+                        {backupBusy ? 'Restoring...' : 'Restore'}
+                      </button>
+                      <button className="btn-add-passkey" onClick={() => setBackupMode(null)} disabled={backupBusy}>Cancel</button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="config-item" style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '0.5rem', padding: '0.5rem 0' }}>
+                    <span style={{ fontSize: '0.8rem', opacity: 0.7 }}>Passphrase-encrypted copy of your keys, usable if every passkey is lost.</span>
+                    <div style={{ display: 'flex', gap: '0.5rem' }}>
+                      <button className="btn-add-passkey" onClick={() => setBackupMode('export')}>Export</button>
+                      <button className="btn-add-passkey" onClick={() => setBackupMode('restore')}>Restore</button>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div className="settings-section">
+                <div className="settings-section-header">
+                  <span className="settings-section-label">Social Recovery</span>
+                </div>
+                {editingGuardians ? (
+                  <div className="config-item backup-form">
+                    <input
+                      type="text"
+                      value={guardianUsernamesInput}
+                      onChange={(e) => setGuardianUsernamesInput(e.target.value)}
+                      placeholder="Guardian usernames, comma separated"
+                    />
+                    <input
+                      type="number"
+                      min={1}
+                      value={guardianThresholdInput}
+                      onChange={(e) => setGuardianThresholdInput(e.target.value)}
+                      placeholder="Approvals needed"
+                    />
+                    <span style={{ fontSize: '0.75rem', opacity: 0.7 }}>
+                      If you lose every passkey, this many guardians can approve a new one. Recovery waits a fixed period first, and you can cancel it from any passkey you still have.
+                    </span>
+                    <div style={{ display: 'flex', gap: '0.5rem' }}>
+                      <button className="btn-add-passkey" onClick={handleSaveGuardians} disabled={recoveryBusy}>
+                        {recoveryBusy ? 'Saving...' : 'Save Guardians'}
+                      </button>
+                      <button className="btn-add-passkey" onClick={() => setEditingGuardians(false)} disabled={recoveryBusy}>Cancel</button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="config-item" style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '0.5rem', padding: '0.5rem 0' }}>
+                    <span style={{ fontSize: '0.8rem', opacity: 0.7 }}>
+                      {recoveryGuardians
+                        ? `${recoveryGuardians.threshold} of ${recoveryGuardians.guardians.length} guardians: ${recoveryGuardians.guardians.map(g => g.username).join(', ')}`
+                        : 'Trusted users who can help you regain access if you lose every passkey.'}
+                    </span>
+                    <div style={{ display: 'flex', gap: '0.5rem' }}>
+                      <button
+                        className="btn-add-passkey"
+                        onClick={() => {
+                          setGuardianUsernamesInput(recoveryGuardians?.guardians.map(g => g.username).join(', ') || '');
+                          setGuardianThresholdInput(String(recoveryGuardians?.threshold || 2));
+                          setEditingGuardians(true);
+                        }}
+                      >
+                        {recoveryGuardians ? 'Change' : 'Set Up'}
+                      </button>
+                      {recoveryGuardians && (
+                        <button className="btn-add-passkey" onClick={handleRemoveGuardians} disabled={recoveryBusy}>Remove</button>
+                      )}
+                    </div>
+                  </div>
+                )}
+                <div className="config-item backup-form">
+                  <span style={{ fontSize: '0.75rem', opacity: 0.7 }}>
+                    Guarding someone who lost every passkey? Enter the start code their browser shows to start their recovery.
+                  </span>
+                  <input
+                    type="text"
+                    value={startRecoveryUsername}
+                    onChange={(e) => setStartRecoveryUsername(e.target.value)}
+                    placeholder="Their username"
+                  />
+                  <input
+                    type="text"
+                    value={startRecoveryCode}
+                    onChange={(e) => setStartRecoveryCode(e.target.value.toUpperCase())}
+                    placeholder="Start code"
+                  />
+                  <div style={{ display: 'flex', gap: '0.5rem' }}>
+                    <button
+                      className="btn-add-passkey"
+                      onClick={handleStartGuardianRecovery}
+                      disabled={recoveryBusy || !startRecoveryUsername.trim() || !startRecoveryCode.trim()}
+                    >
+                      Start Recovery
+                    </button>
+                  </div>
+                </div>
+              </div>
+
+              {signingSessionMaxMinutes > 0 && (
+                <div className="settings-section">
+                  <div className="settings-section-header">
+                    <span className="settings-section-label">Signing Session</span>
+                  </div>
+                  <div className="config-item" style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', padding: '0.5rem 0' }}>
+                    <span style={{ fontSize: '0.8rem', opacity: 0.7 }}>Stay unlocked after a passkey prompt</span>
+                    <label className="network-switch" title={signingSessionSettings.enabled ? 'Prompt for every signature' : 'Stay unlocked between signatures'}>
+                      <input
+                        type="checkbox"
+                        checked={signingSessionSettings.enabled}
+                        onChange={(e) => updateSigningSessionSettings({ enabled: e.target.checked })}
+                      />
+                      <span className="switch-slider"></span>
+                    </label>
+                  </div>
+                  {signingSessionSettings.enabled && (
+                    <div className="config-item" style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', padding: '0.5rem 0', fontSize: '0.8rem' }}>
+                      <select
+                        className="role-select"
+                        value={Math.min(signingSessionSettings.minutes, signingSessionMaxMinutes)}
+                        onChange={(e) => updateSigningSessionSettings({ minutes: Number(e.target.value) })}
+                      >
+                        {Array.from(new Set([...SIGNING_SESSION_MINUTES.filter(m => m < signingSessionMaxMinutes), signingSessionMaxMinutes])).map(m => (
+                          <option key={m} value={m}>{m} min</option>
+                        ))}
+                      </select>
+                      <select
+                        className="role-select"
+                        value={signingSessionSettings.scope}
+                        onChange={(e) => updateSigningSessionSettings({ scope: e.target.value as 'chain' | 'app' })}
+                      >
+                        <option value="chain">Per chain</option>
+                        <option value="app">Per app</option>
+                      </select>
+                    </div>
+                  )}
+                  {activeSigningSessions.map((session) => (
+                    <div key={session.scope} className="config-item" style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', padding: '0.25rem 0', fontSize: '0.8rem' }}>
+                      <span>
+                        Unlocked: {session.scope.startsWith('app:')
+                          ? (dockApps.find(a => `app:${a.id}` === session.scope)?.name || 'Wallet')
+                          : session.scope.slice('chain:'.length).toUpperCase()}
+                        <span style={{ opacity: 0.6 }}> until {new Date(session.expiresAt).toLocaleTimeString()}</span>
+                      </span>
+                      <button className="btn-add-passkey" onClick={() => endSigningSession(session.scope)}>Lock</button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="settings-section">
+                <div className="settings-section-header">
+                  <span className="settings-section-label">Connected Apps</span>
+                </div>
+                {appPermissions.length === 0 ? (
+                  <div className="config-item" style={{ fontSize: '0.8rem', opacity: 0.7, padding: '0.5rem 0' }}>
+                    No apps have been granted access
+                  </div>
+                ) : (
+                  <div className="passkey-list">
+                    {appPermissions.map((grant) => (
+                      <div key={grant.appId} className="passkey-item">
+                        <div className="passkey-info">
+                          <span className="passkey-name">{grant.appName || grant.appId}</span>
+                          <span className="passkey-meta">
+                            {grant.scopes.map((scope) => (
+                              <span key={scope} className="app-scope-chip" title={APP_SCOPE_LABELS[scope]?.description}>
+                                {APP_SCOPE_LABELS[scope]?.label || scope}
+                                <button
+                                  onClick={() => handleRevokeAppPermission(grant.appId, scope)}
+                                  disabled={revokingAppId === grant.appId}
+                                  title="Revoke this permission"
+                                >
+                                  ✕
+                                </button>
+                              </span>
+                            ))}
+                          </span>
+                        </div>
+                        <button
+                          className="btn-add-passkey"
+                          onClick={() => handleRevokeAppPermission(grant.appId)}
+                          disabled={revokingAppId === grant.appId}
+                          title="Revoke all permissions for this app"
+                        >
+                          {revokingAppId === grant.appId ? '...' : 'Revoke'}
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {chainAddresses.some(a => a.chain === 'Ethereum') && (
+                <div className="settings-section">
+                  <div className="settings-section-header">
+                    <span className="settings-section-label">Token Approvals</span>
+                  </div>
+                  <div className="config-item" style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '0.5rem', padding: '0.5rem 0' }}>
+                    <select
+                      className="role-select"
+                      value={allowanceChain}
+                      onChange={(e) => {
+                        setAllowanceChain(e.target.value);
+                        setAllowanceScan(null);
+                      }}
+                      disabled={allowancesLoading}
+                    >
+                      {evmChainList.filter(chain => !chain.isTestnet).map(chain => (
+                        <option key={chain.chainId} value={chain.name}>{chain.name}</option>
+                      ))}
+                    </select>
+                    <button className="btn-add-passkey" onClick={handleScanAllowances} disabled={allowancesLoading}>
+                      {allowancesLoading ? 'Scanning...' : 'Scan'}
+                    </button>
+                  </div>
+                  {allowanceScan && (
+                    allowanceScan.allowances.length === 0 ? (
+                      <div className="config-item" style={{ fontSize: '0.8rem', opacity: 0.7, padding: '0.5rem 0' }}>
+                        No token allowances found
+                      </div>
+                    ) : (
+                      <div className="passkey-list">
+                        {allowanceScan.allowances.map((allowance) => (
+                          <div key={`${allowance.token}:${allowance.spender}`} className="passkey-item">
+                            <div className="passkey-info">
+                              <span className="passkey-name" title={allowance.token}>
+                                {allowance.tokenSymbol || `${allowance.token.slice(0, 10)}...`}
+                                {': '}
+                                {allowance.risks.includes('unlimited')
+                                  ? 'Unlimited'
+                                  : allowance.tokenDecimals !== null
+                                    ? formatUnits(allowance.allowance, allowance.tokenDecimals)
+                                    : `${allowance.allowance.toString()} (raw units)`}
+                              </span>
+                              <span className="passkey-meta" title={allowance.spender}>
+                                Spender {allowance.spender.slice(0, 10)}...{allowance.spender.slice(-8)}
+                                {allowance.risks.map(risk => (
+                                  <span key={risk} className="app-scope-chip">{ALLOWANCE_RISK_LABELS[risk]}</span>
+                                ))}
+                              </span>
+                            </div>
+                            <button
+                              className="btn-add-passkey"
+                              onClick={() => handleRevokeAllowance(allowance)}
+                              disabled={revokingAllowance !== null}
+                            >
+                              {revokingAllowance === allowance ? '...' : 'Revoke'}
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    )
+                  )}
+                  {allowanceScan && allowanceScan.fromBlock > 0 && (
+                    <div style={{ fontSize: '0.75rem', opacity: 0.7, padding: '0.25rem 0' }}>
+                      The RPC node limits log queries, so only approvals since block {allowanceScan.fromBlock} were checked.
+                    </div>
+                  )}
+                </div>
+              )}
+
               <div className="settings-section-header">
                 <span className="settings-section-label">Passkeys</span>
                 <span className="passkey-count">{passkeys.length}/5</span>
@@ -5912,8 +9109,24 @@ function App() {
                           {pk.backedUp && <span className="passkey-synced">Synced</span>}
                           <span className="passkey-sep">·</span>
                           {new Date(pk.createdAt).toLocaleDateString()}
+                          {!pk.canUnlock && (
+                            <>
+                              <span className="passkey-sep">·</span>
+                              <span title="This passkey can sign in but cannot decrypt your wallet keys">Cannot sign</span>
+                            </>
+                          )}
                         </span>
                       </div>
+                      {!pk.canUnlock && (
+                        <button
+                          className="btn-add-passkey"
+                          onClick={() => handleEnablePasskey(pk.credentialId)}
+                          disabled={enablingPasskeyId === pk.credentialId}
+                          title="Let this passkey unlock your wallet"
+                        >
+                          {enablingPasskeyId === pk.credentialId ? '...' : 'Enable'}
+                        </button>
+                      )}
                       <button
                         className="app-window-close passkey-delete"
                         onClick={() => handleDeletePasskey(pk.id)}
@@ -6032,12 +9245,13 @@ function App() {
                     const selected = chainOptions.find(c => c.chain === e.target.value);
                     if (selected) {
                       setNewAsset({ ...newAsset, chain: selected.chain, chainType: selected.chainType });
+                      setAssetLookup(null);
                     }
                   }}
                   required
                 >
                   {chainOptions.map(opt => (
-                    <option key={opt.chainType} value={opt.chain}>{opt.chain}</option>
+                    <option key={opt.chain} value={opt.chain}>{opt.chain}</option>
                   ))}
                 </select>
               </div>
@@ -6068,18 +9282,24 @@ function App() {
                   type="text"
                   value={newAsset.contractAddress}
                   onChange={(e) => setNewAsset({ ...newAsset, contractAddress: e.target.value })}
+                  onBlur={handleLookupCustomAsset}
                   placeholder="0x..."
                   required
                 />
               </div>
+              {assetLookup && (
+                <div className={`transfer-status ${assetLookup.status === 'found' ? 'success' : assetLookup.status === 'failed' ? 'error' : ''}`}>
+                  {assetLookup.message}
+                </div>
+              )}
               <div className="form-group">
                 <label>Decimals</label>
                 <input
                   type="number"
                   value={newAsset.decimals}
-                  onChange={(e) => setNewAsset({ ...newAsset, decimals: parseInt(e.target.value) || 18 })}
+                  onChange={(e) => setNewAsset({ ...newAsset, decimals: parseInt(e.target.value) || 0 })}
                   min={0}
-                  max={18}
+                  max={36}
                 />
               </div>
               {addAssetError && (
@@ -6092,6 +9312,7 @@ function App() {
                     setShowAddAssetModal(false);
                     setNewAsset({ symbol: '', name: '', chain: 'Ethereum', chainType: 'evm', contractAddress: '', decimals: 18 });
                     setAddAssetError('');
+                    setAssetLookup(null);
                   }}
                   className="refresh-btn"
                 >
@@ -6428,6 +9649,24 @@ function App() {
           </div>
         );
       })()}
+
+      {/* Approval sheet for signing requests from embedded apps */}
+      {approvalQueue.length > 0 && (
+        <ApprovalSheet
+          key={approvalQueue[0].id}
+          method={approvalQueue[0].method}
+          params={approvalQueue[0].params}
+          origin={approvalQueue[0].origin}
+          appName={dockApps.find(a => a.id === approvalQueue[0].appId)?.name || null}
+          tokens={approvalTokens}
+          btcAddresses={approvalBtcAddresses}
+          simulation={approvalSimulation?.id === approvalQueue[0].id ? approvalSimulation.result : undefined}
+          lookupTables={approvalLookupTables?.id === approvalQueue[0].id ? approvalLookupTables.tables : undefined}
+          pendingCount={approvalQueue.length - 1}
+          onApprove={() => handleApprovalDecision(true)}
+          onReject={() => handleApprovalDecision(false)}
+        />
+      )}
     </div>
   );
 }
@@ -2,23 +2,61 @@
  * Client-side Bitcoin Transaction Signing
  *
  * Uses @noble/secp256k1 for cryptographic operations.
- * Supports P2PKH (legacy) transactions.
+ * Supports P2PKH (legacy), P2WPKH (native SegWit, BIP143) and P2TR (Taproot
+ * key path, BIP341) inputs, which may be mixed within one transaction.
+ * Address encoding lives in lib/btcAddress.
  */
 
-import { secp256k1 } from '@noble/curves/secp256k1.js';
+import { secp256k1, schnorr } from '@noble/curves/secp256k1.js';
+import { bytesToNumberBE, numberToBytesBE } from '@noble/curves/utils.js';
 import { sha256 } from '@noble/hashes/sha2.js';
-import { ripemd160 } from '@noble/hashes/legacy.js';
 import { bytesToHex, hexToBytes } from '@noble/hashes/utils.js';
+import { base64 } from '@scure/base';
+import {
+  addressToScriptPubKey,
+  createP2PKHScriptPubKey,
+  getAddressFromPublicKey,
+  getAddressNetwork,
+  getTaprootOutputKey,
+  hash160,
+  hash256,
+  scriptPubKeyToAddress,
+  taprootTweak
+} from '../lib/btcAddress';
+import type { BTCAddressType, BTCNetwork } from '../lib/btcAddress';
+import { createBtcProvider, normalizeBtcProviderType } from '../lib/btcProvider';
+import type { BTCDataProvider, BTCProviderTransaction, BTCTransactionStatus, UTXO } from '../lib/btcProvider';
+
+export { getAddressesFromPublicKey } from '../lib/btcAddress';
+export type { BTCAddressType, BTCNetwork } from '../lib/btcAddress';
+export type { UTXO } from '../lib/btcProvider';
 
 // RPC endpoints - must be set via setBtcRpcEndpoints() from config
 let btcRpcEndpoints: Record<string, string> = {};
+let btcProviderTypes: Record<string, string> = {};
 
-// Set RPC endpoints from config
-export function setBtcRpcEndpoints(endpoints: Record<string, string>): void {
+// Set RPC endpoints (and each endpoint's provider type, default JSON-RPC) from config
+export function setBtcRpcEndpoints(endpoints: Record<string, string>, providerTypes: Record<string, string> = {}): void {
   btcRpcEndpoints = { ...endpoints };
+  btcProviderTypes = { ...providerTypes };
 }
 
-export type BTCNetwork = 'mainnet' | 'testnet';
+function getProvider(network: BTCNetwork): BTCDataProvider {
+  return createBtcProvider(normalizeBtcProviderType(btcProviderTypes[network]), btcRpcEndpoints[network], network);
+}
+
+export const BTC_ADDRESS_TYPES: BTCAddressType[] = ['p2wpkh', 'p2tr', 'p2pkh'];
+
+// Types offered for receiving. The key is BIP84's (m/84'), while BIP86 wallets derive Taproot from
+// m/86', so a seed restored elsewhere would miss funds on this key's P2TR address. Its P2TR
+// outputs stay spendable here.
+export const BTC_RECEIVE_ADDRESS_TYPES: BTCAddressType[] = ['p2wpkh', 'p2pkh'];
+
+export const BTC_ADDRESS_TYPE_LABELS: Record<BTCAddressType, string> = {
+  p2wpkh: 'Native SegWit',
+  p2tr: 'Taproot',
+  p2pkh: 'Legacy'
+};
 
 export interface BTCTransaction {
   to: string;
@@ -27,129 +65,73 @@ export interface BTCTransaction {
   network?: BTCNetwork;
 }
 
-export interface UTXO {
-  txid: string;
-  vout: number;
-  value: number; // in satoshis
-  scriptPubKey?: string;
-}
-
 export interface SignedBTCTransaction {
   rawTransaction: string;
   txid: string;
 }
 
-// Base58 alphabet
-const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
-
-function base58Encode(bytes: Uint8Array): string {
-  const digits = [0];
-  for (let i = 0; i < bytes.length; i++) {
-    let carry = bytes[i];
-    for (let j = 0; j < digits.length; j++) {
-      carry += digits[j] << 8;
-      digits[j] = carry % 58;
-      carry = (carry / 58) | 0;
-    }
-    while (carry > 0) {
-      digits.push(carry % 58);
-      carry = (carry / 58) | 0;
-    }
-  }
-  let result = '';
-  for (let i = 0; i < bytes.length && bytes[i] === 0; i++) {
-    result += '1';
-  }
-  for (let i = digits.length - 1; i >= 0; i--) {
-    result += BASE58_ALPHABET[digits[i]];
-  }
-  return result;
-}
-
-function base58Decode(str: string): Uint8Array {
-  const bytes: number[] = [];
-  for (let i = 0; i < str.length; i++) {
-    const value = BASE58_ALPHABET.indexOf(str[i]);
-    if (value < 0) throw new Error('Invalid base58 character');
-
-    let carry = value;
-    for (let j = 0; j < bytes.length; j++) {
-      carry += bytes[j] * 58;
-      bytes[j] = carry & 0xff;
-      carry >>= 8;
-    }
-    while (carry > 0) {
-      bytes.push(carry & 0xff);
-      carry >>= 8;
-    }
-  }
-  // Add leading zeros
-  for (let i = 0; i < str.length && str[i] === '1'; i++) {
-    bytes.push(0);
-  }
-  return new Uint8Array(bytes.reverse());
-}
-
-// Double SHA256
-function hash256(data: Uint8Array): Uint8Array {
-  return sha256(sha256(data));
-}
-
-// HASH160 = RIPEMD160(SHA256(data))
-function hash160(data: Uint8Array): Uint8Array {
-  return ripemd160(sha256(data));
-}
-
 // Get public key from private key
 export function getPublicKey(privateKeyHex: string, compressed = true): Uint8Array {
   const cleanKey = privateKeyHex.startsWith('0x') ? privateKeyHex.slice(2) : privateKeyHex;
   return secp256k1.getPublicKey(hexToBytes(cleanKey), compressed);
 }
 
-// Get Bitcoin address from public key (P2PKH)
-export function getAddressFromPublicKey(publicKey: Uint8Array, network: BTCNetwork = 'mainnet'): string {
-  const pubKeyHash = hash160(publicKey);
-  const version = network === 'mainnet' ? 0x00 : 0x6f; // 0x00 for mainnet, 0x6f for testnet
-
-  const versionedPayload = new Uint8Array(21);
-  versionedPayload[0] = version;
-  versionedPayload.set(pubKeyHash, 1);
-
-  const checksum = hash256(versionedPayload).slice(0, 4);
-
-  const fullAddress = new Uint8Array(25);
-  fullAddress.set(versionedPayload);
-  fullAddress.set(checksum, 21);
-
-  return base58Encode(fullAddress);
+// Private key that signs for the Taproot output key
+function getTaprootTweakedPrivateKey(privateKey: Uint8Array, publicKey: Uint8Array): Uint8Array {
+  const n = schnorr.Point.Fn.ORDER;
+  let d = bytesToNumberBE(privateKey);
+  if (publicKey[0] === 0x03) {
+    d = n - d; // Internal key must have an even y coordinate
+  }
+  return numberToBytesBE((d + taprootTweak(publicKey)) % n, 32);
 }
 
 // Get address from private key
-export function getAddressFromPrivateKey(privateKeyHex: string, network: BTCNetwork = 'mainnet'): string {
+export function getAddressFromPrivateKey(
+  privateKeyHex: string,
+  network: BTCNetwork = 'mainnet',
+  addressType: BTCAddressType = 'p2pkh'
+): string {
   const publicKey = getPublicKey(privateKeyHex, true);
-  return getAddressFromPublicKey(publicKey, network);
+  return getAddressFromPublicKey(publicKey, network, addressType);
 }
 
-// Decode address to pubkey hash
-function decodeAddress(address: string): { version: number; pubKeyHash: Uint8Array } {
-  const decoded = base58Decode(address);
-  if (decoded.length !== 25) {
-    throw new Error('Invalid address length');
+// Detect the address type of one of our own addresses (null for other output types)
+export function getAddressType(address: string): BTCAddressType | null {
+  try {
+    return getScriptType(addressToScriptPubKey(address));
+  } catch {
+    return null; // Not a valid address
   }
+}
 
-  const version = decoded[0];
-  const pubKeyHash = decoded.slice(1, 21);
-  const checksum = decoded.slice(21);
-
-  // Verify checksum
-  const expectedChecksum = hash256(decoded.slice(0, 21)).slice(0, 4);
-  for (let i = 0; i < 4; i++) {
-    if (checksum[i] !== expectedChecksum[i]) {
-      throw new Error('Invalid address checksum');
-    }
+// Output scripts carry no network, so a mainnet payment to a testnet address would otherwise go through
+function assertAddressNetwork(address: string, network: BTCNetwork): void {
+  const addressNetwork = getAddressNetwork(address);
+  if (!addressNetwork) {
+    throw new Error(`Invalid Bitcoin address: ${address}`);
   }
+  if (addressNetwork !== network) {
+    throw new Error(`${address} is a Bitcoin ${addressNetwork} address and cannot be used on ${network}`);
+  }
+}
 
-  return { version, pubKeyHash };
+// scriptPubKey for each address type of a compressed public key
+function getOwnScriptPubKeys(publicKey: Uint8Array): Record<BTCAddressType, Uint8Array> {
+  const pubKeyHash = hash160(publicKey);
+  const p2wpkh = new Uint8Array(22);
+  p2wpkh[0] = 0x00;
+  p2wpkh[1] = 0x14;
+  p2wpkh.set(pubKeyHash, 2);
+  const p2tr = new Uint8Array(34);
+  p2tr[0] = 0x51;
+  p2tr[1] = 0x20;
+  p2tr.set(getTaprootOutputKey(publicKey), 2);
+  return {
+    p2pkh: createP2PKHScriptPubKey(pubKeyHash),
+    p2wpkh,
+    p2tr
+  };
 }
 
 // Variable length integer encoding
@@ -182,78 +164,373 @@ function uint64LE(n: number): Uint8Array {
   bytes[1] = (n >> 8) & 0xff;
   bytes[2] = (n >> 16) & 0xff;
   bytes[3] = (n >> 24) & 0xff;
-  // JavaScript numbers can't handle full 64-bit, but for Bitcoin values this is fine
-  bytes[4] = 0;
-  bytes[5] = 0;
-  bytes[6] = 0;
-  bytes[7] = 0;
+  // Satoshi amounts stay below 2^53, so the high word is exact
+  const high = Math.floor(n / 0x100000000);
+  bytes[4] = high & 0xff;
+  bytes[5] = (high >> 8) & 0xff;
+  bytes[6] = (high >> 16) & 0xff;
+  bytes[7] = (high >> 24) & 0xff;
   return bytes;
 }
 
-// RPC call to Bitcoin node
-async function rpcCall(network: BTCNetwork, method: string, params: any[]): Promise<any> {
-  const rpcUrl = btcRpcEndpoints[network];
+// Get UTXOs for an address from the configured provider
+// Errors are thrown rather than reported as an empty wallet
+export async function getUTXOs(address: string, network: BTCNetwork = 'mainnet'): Promise<UTXO[]> {
+  const utxos = await getProvider(network).getUTXOs(address);
+  // Signing picks the sighash from the scriptPubKey, which Esplora does not return
+  const scriptPubKey = bytesToHex(addressToScriptPubKey(address));
+  return utxos.map(utxo => ({ ...utxo, scriptPubKey: utxo.scriptPubKey || scriptPubKey }));
+}
 
-  const response = await fetch(rpcUrl, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      jsonrpc: '1.0',
-      id: Date.now(),
-      method,
-      params
-    })
-  });
+// Get balance for an address
+export async function getBalance(address: string, network: BTCNetwork = 'mainnet'): Promise<number> {
+  const utxos = await getUTXOs(address, network);
+  return utxos.reduce((sum, utxo) => sum + utxo.value, 0);
+}
 
-  const result = await response.json() as { result?: any; error?: { message: string } };
-  if (result.error) {
-    throw new Error(result.error.message);
+// Get UTXOs across several addresses of the same wallet (e.g. every address type)
+export async function getUTXOsForAddresses(addresses: string[], network: BTCNetwork = 'mainnet'): Promise<UTXO[]> {
+  const results = await Promise.all(addresses.map(address => getUTXOs(address, network)));
+  return results.flat();
+}
+
+// Get the combined balance of several addresses
+export async function getBalanceForAddresses(addresses: string[], network: BTCNetwork = 'mainnet'): Promise<number> {
+  const utxos = await getUTXOsForAddresses(addresses, network);
+  return utxos.reduce((sum, utxo) => sum + utxo.value, 0);
+}
+
+// Send raw transaction
+export async function sendRawTransaction(rawTx: string, network: BTCNetwork = 'mainnet'): Promise<string> {
+  return await getProvider(network).broadcastTransaction(rawTx);
+}
+
+// Confirmation status of a transaction, or null if the provider has never seen it
+export async function getTransactionStatus(txid: string, network: BTCNetwork = 'mainnet'): Promise<BTCTransactionStatus | null> {
+  return await getProvider(network).getTransactionStatus(txid);
+}
+
+// ============================================================================
+// Fee estimation and coin selection
+// ============================================================================
+
+export type BTCFeePreset = 'slow' | 'normal' | 'fast';
+
+export const BTC_FEE_PRESETS: BTCFeePreset[] = ['slow', 'normal', 'fast'];
+
+export const BTC_FEE_PRESET_LABELS: Record<BTCFeePreset, string> = {
+  slow: 'Slow',
+  normal: 'Normal',
+  fast: 'Fast'
+};
+
+// Confirmation target in blocks passed to estimatesmartfee
+const FEE_PRESET_TARGETS: Record<BTCFeePreset, number> = {
+  slow: 24,
+  normal: 6,
+  fast: 2
+};
+
+// sat/vB used when the node has too little data to estimate (fresh nodes, testnet)
+const FALLBACK_FEE_RATES: Record<BTCFeePreset, number> = {
+  slow: 2,
+  normal: 5,
+  fast: 10
+};
+
+// Minimum relay fee rate in sat/vB
+const MIN_FEE_RATE = 1;
+
+// Weight of spending each input type with a 72-byte worst-case ECDSA signature (P2TR: 64-byte Schnorr)
+const INPUT_WEIGHT: Record<BTCAddressType, number> = {
+  p2pkh: 592,   // 148 vB, all in the scriptSig
+  p2wpkh: 272,  // 41 vB base + 108 witness bytes
+  p2tr: 230     // 41 vB base + 66 witness bytes
+};
+
+// Version, locktime and the input/output counts; segwit adds the marker and flag bytes
+const TX_OVERHEAD_WEIGHT = 40;
+const SEGWIT_OVERHEAD_WEIGHT = 2;
+
+// BIP141 SegWit spends that Bitcoin Core discounts when computing the dust limit
+const DUST_RELAY_FEE_RATE = 3;
+
+export interface BTCFeeOptions {
+  fee?: number;               // fixed fee in satoshis; spends every UTXO without coin selection
+  feeRate?: number;           // sat/vB; takes precedence over the preset
+  feePreset?: BTCFeePreset;   // defaults to 'normal'
+  sendMax?: boolean;          // spend every UTXO and send everything but the fee
+}
+
+export interface BTCTransactionPlan {
+  utxos: UTXO[];      // inputs to spend
+  amount: number;     // satoshis to the recipient (everything but the fee with sendMax)
+  fee: number;        // satoshis
+  change: number;     // satoshis back to the change address (0 when dropped as dust)
+  feeRate: number;    // sat/vB the fee was computed at
+  vsize: number;      // estimated virtual size in vbytes
+}
+
+// Classify a scriptPubKey as one of the key's address types
+function getScriptType(script: Uint8Array): BTCAddressType | null {
+  if (script.length === 25 && script[0] === 0x76 && script[1] === 0xa9) return 'p2pkh';
+  if (script.length === 22 && script[0] === 0x00 && script[1] === 0x14) return 'p2wpkh';
+  if (script.length === 34 && script[0] === 0x51 && script[1] === 0x20) return 'p2tr';
+  return null;
+}
+
+function getOutputWeight(script: Uint8Array): number {
+  return (8 + varInt(script.length).length + script.length) * 4;
+}
+
+function getInputWeight(utxo: UTXO): number {
+  const type = utxo.scriptPubKey ? getScriptType(hexToBytes(utxo.scriptPubKey)) : 'p2pkh';
+  if (!type) {
+    throw new Error(`UTXO ${utxo.txid}:${utxo.vout} has an unsupported script type`);
   }
-  return result.result;
+  return INPUT_WEIGHT[type];
 }
 
-// Get UTXOs for an address using scantxoutset
-export async function getUTXOs(address: string, network: BTCNetwork = 'mainnet'): Promise<UTXO[]> {
+/**
+ * Smallest output value the network relays for a scriptPubKey (Bitcoin Core's
+ * GetDustThreshold): the cost of creating and later spending it at 3 sat/vB.
+ */
+export function getDustThreshold(script: Uint8Array): number {
+  const outputSize = getOutputWeight(script) / 4;
+  const isWitness = script.length >= 4 && script.length <= 42 && (script[0] === 0x00 || (script[0] >= 0x51 && script[0] <= 0x60));
+  const spendSize = isWitness ? 32 + 4 + 1 + Math.floor(107 / 4) + 4 : 32 + 4 + 1 + 107 + 4;
+  return (outputSize + spendSize) * DUST_RELAY_FEE_RATE;
+}
+
+// Estimated virtual size of a transaction spending `utxos` to `outputScripts`
+export function estimateVsize(utxos: UTXO[], outputScripts: Uint8Array[]): number {
+  const inputWeights = utxos.map(getInputWeight);
+  const hasWitness = inputWeights.some(weight => weight !== INPUT_WEIGHT.p2pkh);
+  const weight = TX_OVERHEAD_WEIGHT +
+    (hasWitness ? SEGWIT_OVERHEAD_WEIGHT : 0) +
+    inputWeights.reduce((sum, w) => sum + w, 0) +
+    outputScripts.reduce((sum, script) => sum + getOutputWeight(script), 0);
+  return Math.ceil(weight / 4);
+}
+
+// Fee rate in sat/vB for a preset, from the configured provider's fee estimates
+export async function estimateFeeRate(preset: BTCFeePreset = 'normal', network: BTCNetwork = 'mainnet'): Promise<number> {
   try {
-    const result = await rpcCall(network, 'scantxoutset', ['start', [`addr(${address})`]]);
-    if (result && result.unspents) {
-      return result.unspents.map((utxo: any) => ({
-        txid: utxo.txid,
-        vout: utxo.vout,
-        value: Math.round(utxo.amount * 100000000), // BTC to satoshis
-        scriptPubKey: utxo.scriptPubKey
-      }));
+    const rate = await getProvider(network).estimateFeeRate(FEE_PRESET_TARGETS[preset]);
+    if (rate && rate > 0) {
+      return Math.max(MIN_FEE_RATE, Math.ceil(rate));
     }
+    console.warn('No BTC fee estimate for preset:', preset);
   } catch (err) {
-    console.warn('scantxoutset failed:', err);
+    console.warn('BTC fee estimation failed:', err);
   }
+  return FALLBACK_FEE_RATES[preset];
+}
 
-  return [];
+// Fee rates for every preset
+export async function estimateFeeRates(network: BTCNetwork = 'mainnet'): Promise<Record<BTCFeePreset, number>> {
+  const rates = await Promise.all(BTC_FEE_PRESETS.map(preset => estimateFeeRate(preset, network)));
+  return { slow: rates[0], normal: rates[1], fast: rates[2] };
 }
 
-// Get balance for an address
-export async function getBalance(address: string, network: BTCNetwork = 'mainnet'): Promise<number> {
-  // Use scantxoutset to get UTXOs and sum their values
-  const utxos = await getUTXOs(address, network);
-  return utxos.reduce((sum, utxo) => sum + utxo.value, 0);
+/**
+ * Branch and bound search (Murch) for an input set whose effective value lands
+ * between `target` and `target + costOfChange`, so no change output is needed.
+ * Inputs must be sorted by effective value, descending.
+ */
+function selectCoinsBnB(effectiveValues: number[], target: number, costOfChange: number): number[] | null {
+  const MAX_TRIES = 100000;
+  const remainingAfter = effectiveValues.map((_, i) => effectiveValues.slice(i).reduce((sum, v) => sum + v, 0));
+  if (remainingAfter[0] < target) return null;
+
+  let best: number[] | null = null;
+  let bestWaste = Infinity;
+  const selected: boolean[] = new Array(effectiveValues.length).fill(false);
+  let selectedValue = 0;
+  let depth = 0;
+
+  for (let tries = 0; tries < MAX_TRIES; tries++) {
+    let backtrack = false;
+    if (selectedValue + (depth < effectiveValues.length ? remainingAfter[depth] : 0) < target ||
+        selectedValue > target + costOfChange) {
+      backtrack = true;
+    } else if (selectedValue >= target) {
+      const waste = selectedValue - target;
+      if (waste < bestWaste) {
+        bestWaste = waste;
+        best = selected.map((s, i) => (s ? i : -1)).filter(i => i >= 0);
+        if (waste === 0) break;
+      }
+      backtrack = true;
+    }
+
+    if (backtrack) {
+      // Walk back to the last included input and try omitting it
+      while (depth > 0 && !selected[depth - 1]) depth--;
+      if (depth === 0) break;
+      depth--;
+      selected[depth] = false;
+      selectedValue -= effectiveValues[depth];
+      depth++;
+    } else {
+      // Include the next input
+      selected[depth] = true;
+      selectedValue += effectiveValues[depth];
+      depth++;
+    }
+  }
+  return best;
 }
 
-// Send raw transaction
-export async function sendRawTransaction(rawTx: string, network: BTCNetwork = 'mainnet'): Promise<string> {
-  return await rpcCall(network, 'sendrawtransaction', [rawTx]);
-}
-
-// Create P2PKH scriptPubKey
-function createP2PKHScriptPubKey(pubKeyHash: Uint8Array): Uint8Array {
-  // OP_DUP OP_HASH160 <pubKeyHash> OP_EQUALVERIFY OP_CHECKSIG
-  const script = new Uint8Array(25);
-  script[0] = 0x76; // OP_DUP
-  script[1] = 0xa9; // OP_HASH160
-  script[2] = 0x14; // Push 20 bytes
-  script.set(pubKeyHash, 3);
-  script[23] = 0x88; // OP_EQUALVERIFY
-  script[24] = 0xac; // OP_CHECKSIG
-  return script;
+/**
+ * Knapsack fallback (Bitcoin Core's approximate best subset): the smallest
+ * single input that covers the target, or the closest random subset above it.
+ */
+function selectCoinsKnapsack(effectiveValues: number[], target: number): number[] | null {
+  const total = effectiveValues.reduce((sum, v) => sum + v, 0);
+  if (total < target) return null;
+
+  const order = effectiveValues.map((_, i) => i).sort((a, b) => effectiveValues[b] - effectiveValues[a]);
+  const singles = order.filter(i => effectiveValues[i] >= target);
+  let best: number[] = order;
+  let bestValue = total;
+  if (singles.length > 0) {
+    const smallest = singles[singles.length - 1];
+    best = [smallest];
+    bestValue = effectiveValues[smallest];
+  }
+
+  for (let rep = 0; rep < 1000 && bestValue !== target; rep++) {
+    const included = new Set<number>();
+    let value = 0;
+    let reachedTarget = false;
+    // Random inclusion on the first pass, then fill up in value order
+    for (let pass = 0; pass < 2 && !reachedTarget; pass++) {
+      for (const i of order) {
+        if (included.has(i) || (pass === 0 && Math.random() < 0.5)) continue;
+        included.add(i);
+        value += effectiveValues[i];
+        if (value >= target) {
+          reachedTarget = true;
+          if (value < bestValue) {
+            bestValue = value;
+            best = [...included];
+          }
+          // Keep looking for a closer subset without this input
+          included.delete(i);
+          value -= effectiveValues[i];
+        }
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Choose inputs and compute the fee for a payment at a fee rate.
+ * Change below the dust threshold is left to the fee instead of creating an output.
+ */
+export function selectCoins(
+  utxos: UTXO[],
+  toAddress: string,
+  amount: number,
+  changeAddress: string,
+  feeRate: number,
+  sendMax = false
+): BTCTransactionPlan {
+  const toScript = addressToScriptPubKey(toAddress);
+  const changeScript = addressToScriptPubKey(changeAddress);
+  const rate = Math.max(MIN_FEE_RATE, feeRate);
+
+  // Inputs worth less than the fee to spend them only add cost
+  const candidates = utxos
+    .map(utxo => ({ utxo, effectiveValue: utxo.value - Math.ceil(getInputWeight(utxo) / 4 * rate) }))
+    .filter(c => c.effectiveValue > 0)
+    .sort((a, b) => b.effectiveValue - a.effectiveValue);
+
+  if (sendMax) {
+    if (candidates.length === 0) {
+      throw new Error('No spendable UTXOs at this fee rate');
+    }
+    const inputs = candidates.map(c => c.utxo);
+    const vsize = estimateVsize(inputs, [toScript]);
+    const fee = Math.ceil(vsize * rate);
+    const sendAmount = inputs.reduce((sum, u) => sum + u.value, 0) - fee;
+    if (sendAmount < getDustThreshold(toScript)) {
+      throw new Error('Balance is too small to cover the network fee');
+    }
+    return { utxos: inputs, amount: sendAmount, fee, change: 0, feeRate: rate, vsize };
+  }
+
+  if (amount < getDustThreshold(toScript)) {
+    throw new Error(`Amount is below the dust threshold of ${getDustThreshold(toScript)} sats`);
+  }
+
+  // Fee for the transaction without inputs (assuming a witness), and for adding a change output
+  const baseFee = Math.ceil((TX_OVERHEAD_WEIGHT + SEGWIT_OVERHEAD_WEIGHT + getOutputWeight(toScript)) / 4 * rate);
+  const changeOutputFee = Math.ceil(getOutputWeight(changeScript) / 4 * rate);
+  // Creating change costs its output now and spending it later
+  const costOfChange = changeOutputFee + Math.ceil(INPUT_WEIGHT[getScriptType(changeScript) || 'p2wpkh'] / 4 * rate);
+  const target = amount + baseFee;
+
+  const effectiveValues = candidates.map(c => c.effectiveValue);
+  let indices = selectCoinsBnB(effectiveValues, target, costOfChange);
+  let withChange = false;
+  if (!indices) {
+    indices = selectCoinsKnapsack(effectiveValues, target + changeOutputFee);
+    withChange = true;
+  }
+  if (!indices) {
+    const available = utxos.reduce((sum, u) => sum + u.value, 0);
+    throw new Error(`Insufficient funds. Have ${available}, need ${amount} plus fees`);
+  }
+
+  const inputs = indices.map(i => candidates[i].utxo);
+  const totalInput = inputs.reduce((sum, u) => sum + u.value, 0);
+  const changeVsize = estimateVsize(inputs, [toScript, changeScript]);
+  const change = totalInput - amount - Math.ceil(changeVsize * rate);
+
+  if (withChange && change >= getDustThreshold(changeScript)) {
+    return { utxos: inputs, amount, fee: totalInput - amount - change, change, feeRate: rate, vsize: changeVsize };
+  }
+
+  // No change output: whatever is left over goes to the miner
+  const vsize = estimateVsize(inputs, [toScript]);
+  const fee = totalInput - amount;
+  if (fee < Math.ceil(vsize * rate)) {
+    throw new Error(`Insufficient funds. Have ${totalInput}, need ${amount + Math.ceil(vsize * rate)}`);
+  }
+  return { utxos: inputs, amount, fee, change: 0, feeRate: rate, vsize };
+}
+
+// Estimate the fee rate (unless given) and select coins for a payment
+export async function planTransaction(
+  utxos: UTXO[],
+  toAddress: string,
+  amount: number,
+  changeAddress: string,
+  options: BTCFeeOptions = {},
+  network: BTCNetwork = 'mainnet'
+): Promise<BTCTransactionPlan> {
+  assertAddressNetwork(toAddress, network);
+  assertAddressNetwork(changeAddress, network);
+
+  if (options.fee !== undefined) {
+    const totalInput = utxos.reduce((sum, u) => sum + u.value, 0);
+    const sendAmount = options.sendMax ? totalInput - options.fee : amount;
+    const vsize = estimateVsize(utxos, [addressToScriptPubKey(toAddress), addressToScriptPubKey(changeAddress)]);
+    return {
+      utxos,
+      amount: sendAmount,
+      fee: options.fee,
+      change: totalInput - sendAmount - options.fee,
+      feeRate: options.fee / vsize,
+      vsize
+    };
+  }
+
+  const feeRate = options.feeRate || await estimateFeeRate(options.feePreset || 'normal', network);
+  return selectCoins(utxos, toAddress, amount, changeAddress, feeRate, options.sendMax);
 }
 
 // Create P2PKH scriptSig
@@ -268,14 +545,238 @@ function createP2PKHScriptSig(signature: Uint8Array, publicKey: Uint8Array): Uin
   return script;
 }
 
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+// Script with its length prefix
+function serializeScript(script: Uint8Array): Uint8Array {
+  return concatBytes(varInt(script.length), script);
+}
+
+// Signature hash types; SIGHASH_DEFAULT is Taproot only and signs like SIGHASH_ALL
+const SIGHASH_DEFAULT = 0x00;
+const SIGHASH_ALL = 0x01;
+const SIGHASH_NONE = 0x02;
+const SIGHASH_SINGLE = 0x03;
+const SIGHASH_ANYONECANPAY = 0x80;
+
+// Opts every input into replace-by-fee (BIP125) without enabling relative locktimes
+const SEQUENCE_RBF = 0xfffffffd;
+
+// Transaction fields committed to by signature hashes
+interface TxSkeleton {
+  version: number;
+  locktime: number;
+  inputs: Array<{ txid: string; vout: number; sequence: number }>;
+  outputs: Array<{ value: number; script: Uint8Array }>;
+}
+
+// Output spent by an input; segwit and Taproot signatures commit to its value
+interface Prevout {
+  value: number;
+  script: Uint8Array;
+}
+
+function serializeOutpoint(input: { txid: string; vout: number }): Uint8Array {
+  return concatBytes(hexToBytes(input.txid).reverse(), uint32LE(input.vout));
+}
+
+function serializeOutput(output: { value: number; script: Uint8Array }): Uint8Array {
+  return concatBytes(uint64LE(output.value), serializeScript(output.script));
+}
+
+// Legacy sighash: the transaction with scriptCode in place of this input's scriptSig
+function legacySighash(tx: TxSkeleton, index: number, scriptCode: Uint8Array, hashType: number): Uint8Array {
+  const baseType = hashType & 0x1f;
+  if (baseType === SIGHASH_SINGLE && index >= tx.outputs.length) {
+    // Consensus quirk: SIGHASH_SINGLE without a matching output signs the number one
+    const one = new Uint8Array(32);
+    one[0] = 1;
+    return one;
+  }
+
+  const anyoneCanPay = (hashType & SIGHASH_ANYONECANPAY) !== 0;
+  const signsOtherSequences = baseType !== SIGHASH_NONE && baseType !== SIGHASH_SINGLE;
+  const inputIndexes = anyoneCanPay ? [index] : tx.inputs.map((_, j) => j);
+  const inputs = inputIndexes.map(j => concatBytes(
+    serializeOutpoint(tx.inputs[j]),
+    j === index ? serializeScript(scriptCode) : new Uint8Array([0]),
+    uint32LE(j === index || signsOtherSequences ? tx.inputs[j].sequence : 0)
+  ));
+
+  // SIGHASH_SINGLE blanks earlier outputs to value -1 and an empty script
+  const blankOutput = concatBytes(new Uint8Array(8).fill(0xff), new Uint8Array([0]));
+  const outputs = baseType === SIGHASH_NONE
+    ? []
+    : baseType === SIGHASH_SINGLE
+      ? tx.outputs.slice(0, index + 1).map((output, j) => j === index ? serializeOutput(output) : blankOutput)
+      : tx.outputs.map(serializeOutput);
+
+  return hash256(concatBytes(
+    uint32LE(tx.version),
+    varInt(inputs.length),
+    ...inputs,
+    varInt(outputs.length),
+    ...outputs,
+    uint32LE(tx.locktime),
+    uint32LE(hashType)
+  ));
+}
+
+// BIP143 sighash for witness v0 inputs
+function segwitV0Sighash(tx: TxSkeleton, index: number, scriptCode: Uint8Array, value: number, hashType: number): Uint8Array {
+  const baseType = hashType & 0x1f;
+  const anyoneCanPay = (hashType & SIGHASH_ANYONECANPAY) !== 0;
+  const zero = new Uint8Array(32);
+
+  const hashPrevouts = anyoneCanPay ? zero : hash256(concatBytes(...tx.inputs.map(serializeOutpoint)));
+  const hashSequence = anyoneCanPay || baseType === SIGHASH_NONE || baseType === SIGHASH_SINGLE
+    ? zero
+    : hash256(concatBytes(...tx.inputs.map(input => uint32LE(input.sequence))));
+  const hashOutputs = baseType !== SIGHASH_NONE && baseType !== SIGHASH_SINGLE
+    ? hash256(concatBytes(...tx.outputs.map(serializeOutput)))
+    : baseType === SIGHASH_SINGLE && index < tx.outputs.length
+      ? hash256(serializeOutput(tx.outputs[index]))
+      : zero;
+
+  return hash256(concatBytes(
+    uint32LE(tx.version),
+    hashPrevouts,
+    hashSequence,
+    serializeOutpoint(tx.inputs[index]),
+    serializeScript(scriptCode),
+    uint64LE(value),
+    uint32LE(tx.inputs[index].sequence),
+    hashOutputs,
+    uint32LE(tx.locktime),
+    uint32LE(hashType)
+  ));
+}
+
+// BIP341 key-path sighash; prevouts of every input are needed unless ANYONECANPAY
+function taprootSighash(tx: TxSkeleton, index: number, prevouts: Array<Prevout | null>, hashType: number): Uint8Array {
+  const outputType = hashType === SIGHASH_DEFAULT ? SIGHASH_ALL : hashType & 0x03;
+  const anyoneCanPay = (hashType & SIGHASH_ANYONECANPAY) !== 0;
+  const parts: Uint8Array[] = [
+    new Uint8Array([0x00, hashType]), // epoch, hash type
+    uint32LE(tx.version),
+    uint32LE(tx.locktime)
+  ];
+
+  if (!anyoneCanPay) {
+    if (prevouts.some(prevout => !prevout)) {
+      throw new Error('Taproot signing needs the amount and script of every input');
+    }
+    const known = prevouts as Prevout[];
+    parts.push(
+      sha256(concatBytes(...tx.inputs.map(serializeOutpoint))),
+      sha256(concatBytes(...known.map(prevout => uint64LE(prevout.value)))),
+      sha256(concatBytes(...known.map(prevout => serializeScript(prevout.script)))),
+      sha256(concatBytes(...tx.inputs.map(input => uint32LE(input.sequence))))
+    );
+  }
+  if (outputType === SIGHASH_ALL) {
+    parts.push(sha256(concatBytes(...tx.outputs.map(serializeOutput))));
+  }
+
+  parts.push(new Uint8Array([0x00])); // spend type: key path, no annex
+  if (anyoneCanPay) {
+    const prevout = prevouts[index];
+    if (!prevout) {
+      throw new Error('Taproot signing needs the amount and script of the input');
+    }
+    parts.push(
+      serializeOutpoint(tx.inputs[index]),
+      uint64LE(prevout.value),
+      serializeScript(prevout.script),
+      uint32LE(tx.inputs[index].sequence)
+    );
+  } else {
+    parts.push(uint32LE(index));
+  }
+
+  if (outputType === SIGHASH_SINGLE) {
+    if (index >= tx.outputs.length) {
+      throw new Error('SIGHASH_SINGLE input has no matching output');
+    }
+    parts.push(sha256(serializeOutput(tx.outputs[index])));
+  }
+
+  return schnorr.utils.taggedHash('TapSighash', concatBytes(...parts));
+}
+
+// DER-encoded low-S ECDSA signature followed by the sighash type
+function signEcdsa(sighash: Uint8Array, privateKeyBytes: Uint8Array, hashType: number = SIGHASH_ALL): Uint8Array {
+  const der = secp256k1.sign(sighash, privateKeyBytes, { prehash: false, lowS: true, format: 'der' });
+  return concatBytes(der, new Uint8Array([hashType]));
+}
+
+// Schnorr signature; the sighash byte is only appended when it is not SIGHASH_DEFAULT
+function signSchnorr(sighash: Uint8Array, tweakedPrivateKey: Uint8Array, hashType: number = SIGHASH_DEFAULT): Uint8Array {
+  const signature = schnorr.sign(sighash, tweakedPrivateKey);
+  return hashType === SIGHASH_DEFAULT ? signature : concatBytes(signature, new Uint8Array([hashType]));
+}
+
+// Network serialization (BIP144 when any input has a witness); the txid never covers witnesses
+function serializeTransaction(
+  tx: TxSkeleton,
+  scriptSigs: Uint8Array[],
+  witnesses: Uint8Array[][]
+): { raw: Uint8Array; txid: string } {
+  const serializedInputs = concatBytes(
+    varInt(tx.inputs.length),
+    ...tx.inputs.map((input, i) => concatBytes(
+      serializeOutpoint(input),
+      serializeScript(scriptSigs[i] || new Uint8Array(0)),
+      uint32LE(input.sequence)
+    ))
+  );
+  const serializedOutputs = concatBytes(varInt(tx.outputs.length), ...tx.outputs.map(serializeOutput));
+  const version = uint32LE(tx.version);
+  const locktime = uint32LE(tx.locktime);
+  const strippedTx = concatBytes(version, serializedInputs, serializedOutputs, locktime);
+
+  const hasWitness = witnesses.some(items => items && items.length > 0);
+  const raw = hasWitness
+    ? concatBytes(
+        version,
+        new Uint8Array([0x00, 0x01]), // marker, flag
+        serializedInputs,
+        serializedOutputs,
+        ...tx.inputs.map((_, i) => serializeWitness(witnesses[i] || [])),
+        locktime
+      )
+    : strippedTx;
+
+  return { raw, txid: bytesToHex(hash256(strippedTx).reverse()) };
+}
+
+function serializeWitness(items: Uint8Array[]): Uint8Array {
+  return concatBytes(varInt(items.length), ...items.map(serializeScript));
+}
+
 /**
  * Sign a Bitcoin transaction
  *
+ * Spends every given UTXO with a fixed fee; use planTransaction() to pick
+ * inputs and the fee for a fee rate. Each UTXO is spent according to its
+ * scriptPubKey, which must belong to one of the key's P2PKH, P2WPKH or P2TR
+ * addresses. UTXOs without a scriptPubKey are treated as P2PKH. Inputs signal
+ * replace-by-fee (BIP125), so planReplacement() can speed up or cancel it.
+ * The recipient and change addresses must be encoded for `network`.
+ *
  * @param utxos UTXOs to spend
  * @param toAddress Recipient address
  * @param amount Amount in satoshis
  * @param privateKeyHex Private key
- * @param changeAddress Change address (optional, defaults to sender)
+ * @param changeAddress Change address (optional, defaults to the first input's address)
  * @param fee Fee in satoshis (optional, defaults to 1000)
  * @param network Network (mainnet or testnet)
  */
@@ -288,12 +789,10 @@ export async function signTransaction(
   fee: number = 1000,
   network: BTCNetwork = 'mainnet'
 ): Promise<SignedBTCTransaction> {
-  const cleanKey = privateKeyHex.startsWith('0x') ? privateKeyHex.slice(2) : privateKeyHex;
-  const privateKeyBytes = hexToBytes(cleanKey);
-  const publicKey = secp256k1.getPublicKey(privateKeyBytes, true);
-  const senderAddress = getAddressFromPublicKey(publicKey, network);
+  if (utxos.length === 0) {
+    throw new Error('No UTXOs to spend');
+  }
 
-  try {
   // Calculate total input value
   const totalInput = utxos.reduce((sum, utxo) => sum + utxo.value, 0);
   const change = totalInput - amount - fee;
@@ -302,201 +801,101 @@ export async function signTransaction(
     throw new Error(`Insufficient funds. Have ${totalInput}, need ${amount + fee}`);
   }
 
-  // Decode addresses
-  const toDecoded = decodeAddress(toAddress);
-  const changeAddr = changeAddress || senderAddress;
-  const changeDecoded = decodeAddress(changeAddr);
-
-  // Build transaction
-  const version = uint32LE(1);
-  const locktime = uint32LE(0);
-
-  // Inputs
-  const inputCount = varInt(utxos.length);
-  const inputs: Uint8Array[] = [];
-
-  for (const utxo of utxos) {
-    const txidBytes = hexToBytes(utxo.txid).reverse(); // Little-endian
-    const voutBytes = uint32LE(utxo.vout);
-    const scriptSigPlaceholder = new Uint8Array([0]); // Empty for now
-    const sequence = new Uint8Array([0xff, 0xff, 0xff, 0xff]);
-
-    const input = new Uint8Array(txidBytes.length + voutBytes.length + 1 + sequence.length);
-    let offset = 0;
-    input.set(txidBytes, offset); offset += txidBytes.length;
-    input.set(voutBytes, offset); offset += voutBytes.length;
-    input.set(scriptSigPlaceholder, offset); offset += 1;
-    input.set(sequence, offset);
-
-    inputs.push(input);
-  }
-
-  // Outputs
-  const outputs: Uint8Array[] = [];
-  let outputCount = 1;
-
-  // Output to recipient
-  const toScript = createP2PKHScriptPubKey(toDecoded.pubKeyHash);
-  const toOutput = new Uint8Array(8 + 1 + toScript.length);
-  toOutput.set(uint64LE(amount), 0);
-  toOutput[8] = toScript.length;
-  toOutput.set(toScript, 9);
-  outputs.push(toOutput);
-
-  // Change output (if needed)
-  if (change > 546) { // Dust threshold
-    outputCount++;
-    const changeScript = createP2PKHScriptPubKey(changeDecoded.pubKeyHash);
-    const changeOutput = new Uint8Array(8 + 1 + changeScript.length);
-    changeOutput.set(uint64LE(change), 0);
-    changeOutput[8] = changeScript.length;
-    changeOutput.set(changeScript, 9);
-    outputs.push(changeOutput);
-  }
-
-  // Sign each input
-  const signedInputs: Uint8Array[] = [];
-
-  for (let i = 0; i < utxos.length; i++) {
-    const utxo = utxos[i];
-
-    // Create transaction for signing (with scriptPubKey in the input being signed)
-    const senderDecoded = decodeAddress(senderAddress);
-    const sigScript = createP2PKHScriptPubKey(senderDecoded.pubKeyHash);
-
-    // Build tx for signing
-    const txParts: Uint8Array[] = [version, inputCount];
-
-    for (let j = 0; j < utxos.length; j++) {
-      const u = utxos[j];
-      const txidBytes = hexToBytes(u.txid).reverse();
-      const voutBytes = uint32LE(u.vout);
-      const sequence = new Uint8Array([0xff, 0xff, 0xff, 0xff]);
-
-      if (j === i) {
-        // Include scriptPubKey for input being signed
-        const inputWithScript = new Uint8Array(32 + 4 + 1 + sigScript.length + 4);
-        let off = 0;
-        inputWithScript.set(txidBytes, off); off += 32;
-        inputWithScript.set(voutBytes, off); off += 4;
-        inputWithScript[off] = sigScript.length; off += 1;
-        inputWithScript.set(sigScript, off); off += sigScript.length;
-        inputWithScript.set(sequence, off);
-        txParts.push(inputWithScript);
+  assertAddressNetwork(toAddress, network);
+  const outputs = [{ value: amount, script: addressToScriptPubKey(toAddress) }];
+
+  // Change output (if needed); dust change is left to the fee
+  const changeAddr = changeAddress || getChangeAddress(utxos[0], privateKeyHex, network);
+  assertAddressNetwork(changeAddr, network);
+  const changeScript = addressToScriptPubKey(changeAddr);
+  if (change >= getDustThreshold(changeScript)) {
+    outputs.push({ value: change, script: changeScript });
+  }
+
+  return signOutputs(utxos, outputs, privateKeyHex);
+}
+
+// Address of the key matching the first input's type
+function getChangeAddress(utxo: UTXO, privateKeyHex: string, network: BTCNetwork): string {
+  const cleanKey = privateKeyHex.startsWith('0x') ? privateKeyHex.slice(2) : privateKeyHex;
+  const privateKeyBytes = hexToBytes(cleanKey);
+  try {
+    const type = utxo.scriptPubKey ? getScriptType(hexToBytes(utxo.scriptPubKey)) : 'p2pkh';
+    return getAddressFromPublicKey(secp256k1.getPublicKey(privateKeyBytes, true), network, type || 'p2pkh');
+  } finally {
+    privateKeyBytes.fill(0);
+  }
+}
+
+/**
+ * Sign a transaction spending the key's UTXOs to the given outputs. Every
+ * input signals replace-by-fee (BIP125).
+ */
+function signOutputs(
+  utxos: UTXO[],
+  outputs: Array<{ value: number; script: Uint8Array }>,
+  privateKeyHex: string
+): SignedBTCTransaction {
+  const cleanKey = privateKeyHex.startsWith('0x') ? privateKeyHex.slice(2) : privateKeyHex;
+  const privateKeyBytes = hexToBytes(cleanKey);
+  const publicKey = secp256k1.getPublicKey(privateKeyBytes, true);
+  let taprootKey: Uint8Array | null = null;
+
+  try {
+    // Match every input to the address type it was sent to
+    const ownScripts = getOwnScriptPubKeys(publicKey);
+    const inputs = utxos.map(utxo => {
+      const script = utxo.scriptPubKey ? hexToBytes(utxo.scriptPubKey) : ownScripts.p2pkh;
+      const scriptHex = bytesToHex(script);
+      const type = BTC_ADDRESS_TYPES.find(t => bytesToHex(ownScripts[t]) === scriptHex);
+      if (!type) {
+        throw new Error(`UTXO ${utxo.txid}:${utxo.vout} is not spendable by this key`);
+      }
+      return { utxo, script, type };
+    });
+
+    const tx: TxSkeleton = {
+      version: 1,
+      locktime: 0,
+      inputs: inputs.map(input => ({ txid: input.utxo.txid, vout: input.utxo.vout, sequence: SEQUENCE_RBF })),
+      outputs
+    };
+
+    const prevouts = inputs.map(input => ({ value: input.utxo.value, script: input.script }));
+
+    // Sign each input
+    const scriptSigs: Uint8Array[] = [];
+    const witnesses: Uint8Array[][] = [];
+
+    for (let i = 0; i < inputs.length; i++) {
+      const input = inputs[i];
+
+      if (input.type === 'p2pkh') {
+        const sighash = legacySighash(tx, i, input.script, SIGHASH_ALL);
+        scriptSigs.push(createP2PKHScriptSig(signEcdsa(sighash, privateKeyBytes), publicKey));
+        witnesses.push([]);
+      } else if (input.type === 'p2wpkh') {
+        // BIP143: scriptCode is the P2PKH script of the key hash
+        const sighash = segwitV0Sighash(tx, i, ownScripts.p2pkh, input.utxo.value, SIGHASH_ALL);
+        scriptSigs.push(new Uint8Array(0));
+        witnesses.push([signEcdsa(sighash, privateKeyBytes), publicKey]);
       } else {
-        // Empty script for other inputs
-        const emptyInput = new Uint8Array(32 + 4 + 1 + 4);
-        let off = 0;
-        emptyInput.set(txidBytes, off); off += 32;
-        emptyInput.set(voutBytes, off); off += 4;
-        emptyInput[off] = 0; off += 1;
-        emptyInput.set(sequence, off);
-        txParts.push(emptyInput);
+        // BIP341 key path with SIGHASH_DEFAULT; the 64-byte signature carries no sighash byte
+        taprootKey = taprootKey || getTaprootTweakedPrivateKey(privateKeyBytes, publicKey);
+        scriptSigs.push(new Uint8Array(0));
+        witnesses.push([signSchnorr(taprootSighash(tx, i, prevouts, SIGHASH_DEFAULT), taprootKey)]);
       }
     }
 
-    txParts.push(varInt(outputCount));
-    outputs.forEach(out => txParts.push(out));
-    txParts.push(locktime);
-    txParts.push(uint32LE(1)); // SIGHASH_ALL
-
-    // Calculate total length and build
-    const totalLen = txParts.reduce((sum, p) => sum + p.length, 0);
-    const txForSigning = new Uint8Array(totalLen);
-    let offset = 0;
-    for (const part of txParts) {
-      txForSigning.set(part, offset);
-      offset += part.length;
-    }
-
-    // Hash and sign with recovered format (65 bytes: r(32) + s(32) + recovery(1))
-    const txHash = hash256(txForSigning);
-    const signatureBytes = secp256k1.sign(txHash, privateKeyBytes, { prehash: false, lowS: true, format: 'recovered' });
-
-    // DER encode signature + SIGHASH_ALL byte
-    const rBytes = signatureBytes.slice(0, 32);
-    const sBytes = signatureBytes.slice(32, 64);
-
-    // Remove leading zeros but keep one if high bit set
-    let rTrimmed = rBytes;
-    while (rTrimmed.length > 1 && rTrimmed[0] === 0 && rTrimmed[1] < 0x80) {
-      rTrimmed = rTrimmed.slice(1);
-    }
-    if (rTrimmed[0] >= 0x80) {
-      const tmp = new Uint8Array(rTrimmed.length + 1);
-      tmp[0] = 0;
-      tmp.set(rTrimmed, 1);
-      rTrimmed = tmp;
-    }
-
-    let sTrimmed = sBytes;
-    while (sTrimmed.length > 1 && sTrimmed[0] === 0 && sTrimmed[1] < 0x80) {
-      sTrimmed = sTrimmed.slice(1);
-    }
-    if (sTrimmed[0] >= 0x80) {
-      const tmp = new Uint8Array(sTrimmed.length + 1);
-      tmp[0] = 0;
-      tmp.set(sTrimmed, 1);
-      sTrimmed = tmp;
-    }
-
-    // DER format: 0x30 [total-length] 0x02 [r-length] [r] 0x02 [s-length] [s]
-    const derLen = 4 + rTrimmed.length + sTrimmed.length;
-    const derSig = new Uint8Array(derLen + 2); // +1 for SIGHASH_ALL
-    derSig[0] = 0x30;
-    derSig[1] = derLen - 2;
-    derSig[2] = 0x02;
-    derSig[3] = rTrimmed.length;
-    derSig.set(rTrimmed, 4);
-    derSig[4 + rTrimmed.length] = 0x02;
-    derSig[5 + rTrimmed.length] = sTrimmed.length;
-    derSig.set(sTrimmed, 6 + rTrimmed.length);
-    derSig[derSig.length - 1] = 0x01; // SIGHASH_ALL
-
-    // Create scriptSig
-    const scriptSig = createP2PKHScriptSig(derSig, publicKey);
-
-    // Build signed input
-    const txidBytes = hexToBytes(utxo.txid).reverse();
-    const voutBytes = uint32LE(utxo.vout);
-    const sequence = new Uint8Array([0xff, 0xff, 0xff, 0xff]);
-
-    const signedInput = new Uint8Array(32 + 4 + varInt(scriptSig.length).length + scriptSig.length + 4);
-    let off = 0;
-    signedInput.set(txidBytes, off); off += 32;
-    signedInput.set(voutBytes, off); off += 4;
-    const scriptLenBytes = varInt(scriptSig.length);
-    signedInput.set(scriptLenBytes, off); off += scriptLenBytes.length;
-    signedInput.set(scriptSig, off); off += scriptSig.length;
-    signedInput.set(sequence, off);
-
-    signedInputs.push(signedInput);
-  }
-
-  // Build final transaction
-  const finalParts: Uint8Array[] = [version, inputCount];
-  signedInputs.forEach(input => finalParts.push(input));
-  finalParts.push(varInt(outputCount));
-  outputs.forEach(out => finalParts.push(out));
-  finalParts.push(locktime);
-
-  const finalLen = finalParts.reduce((sum, p) => sum + p.length, 0);
-  const rawTx = new Uint8Array(finalLen);
-  let off = 0;
-  for (const part of finalParts) {
-    rawTx.set(part, off);
-    off += part.length;
-  }
-
-  const rawTxHex = bytesToHex(rawTx);
-  const txid = bytesToHex(hash256(rawTx).reverse());
+    const signed = serializeTransaction(tx, scriptSigs, witnesses);
 
-  return {
-    rawTransaction: rawTxHex,
-    txid
-  };
+    return {
+      rawTransaction: bytesToHex(signed.raw),
+      txid: signed.txid
+    };
   } finally {
     privateKeyBytes.fill(0);
+    taprootKey?.fill(0);
   }
 }
 
@@ -521,6 +920,800 @@ export async function signAndSendTransaction(
   };
 }
 
+// ============================================================================
+// FEE BUMPING (BIP125 RBF, CPFP)
+// ============================================================================
+
+export type BTCReplacementAction = 'speedup' | 'cancel';
+
+export interface BTCFeeBumpPlan {
+  utxos: UTXO[];       // inputs: the original transaction's (RBF) or its unconfirmed outputs (CPFP)
+  outputs: Array<{ address: string | null; script: string; value: number }>;
+  fee: number;         // satoshis paid by the new transaction
+  feeRate: number;     // sat/vB; for CPFP, of parent and child together
+  vsize: number;       // estimated virtual size of the new transaction
+}
+
+// Unconfirmed transaction from the provider, with its fee and virtual size
+async function getUnconfirmedTransaction(txid: string, network: BTCNetwork) {
+  const tx = await getProvider(network).getTransaction(txid);
+  if (!tx) {
+    throw new Error('Transaction not found; it may have been dropped from the mempool');
+  }
+  if (tx.status?.confirmed) {
+    throw new Error('Transaction is already confirmed');
+  }
+  if (tx.fee === undefined || !tx.weight) {
+    throw new Error('The Bitcoin data provider did not return the transaction fee');
+  }
+  return { tx, fee: tx.fee, vsize: Math.ceil(tx.weight / 4) };
+}
+
+function toOutputScript(output: { scriptpubkey?: string; scriptpubkey_address?: string }): string {
+  if (output.scriptpubkey) return output.scriptpubkey;
+  if (output.scriptpubkey_address) return bytesToHex(addressToScriptPubKey(output.scriptpubkey_address));
+  throw new Error('The Bitcoin data provider did not return output scripts');
+}
+
+/**
+ * Plan a BIP125 replacement of one of the key's unconfirmed transactions,
+ * spending the same inputs at a higher fee rate
+ *
+ * speedup keeps every payment and takes the extra fee from the change output
+ * (dropping it if it would become dust). cancel sends everything back to
+ * `returnAddress`, so the original payment never happens. The replacement
+ * pays at least the original fee plus the minimum relay fee for its own size.
+ *
+ * @param txid Transaction to replace
+ * @param action speedup or cancel
+ * @param ownAddresses The key's addresses; every input must spend from one of them
+ * @param returnAddress Destination of a cancel
+ * @param options Fee rate or preset for the replacement (defaults to 'fast')
+ * @param network Network (mainnet or testnet)
+ */
+export async function planReplacement(
+  txid: string,
+  action: BTCReplacementAction,
+  ownAddresses: string[],
+  returnAddress: string,
+  options: Pick<BTCFeeOptions, 'feeRate' | 'feePreset'> = {},
+  network: BTCNetwork = 'mainnet'
+): Promise<BTCFeeBumpPlan> {
+  assertAddressNetwork(returnAddress, network);
+  const original = await getUnconfirmedTransaction(txid, network);
+
+  const utxos = original.tx.vin.map(input => {
+    const address = input.prevout?.scriptpubkey_address;
+    if (!input.prevout || !address || !ownAddresses.includes(address)) {
+      throw new Error('Only transactions that spend this wallet\'s coins alone can be replaced');
+    }
+    return { txid: input.txid, vout: input.vout, value: input.prevout.value, scriptPubKey: toOutputScript(input.prevout) };
+  });
+  if (!original.tx.vin.some(input => input.sequence !== undefined && input.sequence < 0xfffffffe)) {
+    throw new Error('Transaction does not signal replace-by-fee (BIP125)');
+  }
+
+  const totalInput = utxos.reduce((sum, utxo) => sum + utxo.value, 0);
+  const rate = Math.max(
+    options.feeRate || await estimateFeeRate(options.feePreset || 'fast', network),
+    Math.ceil(original.fee / original.vsize) + MIN_FEE_RATE
+  );
+  // BIP125 rules 3 and 4: pay more than the original, plus relay for the replacement itself
+  const feeFor = (vsize: number) => Math.max(Math.ceil(vsize * rate), original.fee + Math.ceil(vsize * MIN_FEE_RATE));
+
+  if (action === 'cancel') {
+    const script = addressToScriptPubKey(returnAddress);
+    const vsize = estimateVsize(utxos, [script]);
+    const fee = feeFor(vsize);
+    if (totalInput - fee < getDustThreshold(script)) {
+      throw new Error('The transaction is too small to cancel at this fee rate');
+    }
+    return {
+      utxos,
+      outputs: [{ address: returnAddress, script: bytesToHex(script), value: totalInput - fee }],
+      fee,
+      feeRate: rate,
+      vsize
+    };
+  }
+
+  const outputs = original.tx.vout.map(output => ({
+    address: output.scriptpubkey_address || null,
+    script: toOutputScript(output),
+    value: output.value
+  }));
+  // Change is the last output paying the wallet (for a send to self, any of them)
+  const changeIndex = outputs.map(output => !!output.address && ownAddresses.includes(output.address)).lastIndexOf(true);
+  if (changeIndex < 0) {
+    throw new Error('The transaction has no change to pay a higher fee from; cancel it instead');
+  }
+
+  const scripts = outputs.map(output => hexToBytes(output.script));
+  const vsize = estimateVsize(utxos, scripts);
+  const fee = feeFor(vsize);
+  const change = outputs[changeIndex].value - (fee - original.fee);
+  if (change >= getDustThreshold(scripts[changeIndex])) {
+    outputs[changeIndex] = { ...outputs[changeIndex], value: change };
+    return { utxos, outputs, fee, feeRate: rate, vsize };
+  }
+
+  // Change would be dust: drop it and leave the remainder to the fee
+  const withoutChange = outputs.filter((_, i) => i !== changeIndex);
+  const smallerVsize = estimateVsize(utxos, scripts.filter((_, i) => i !== changeIndex));
+  const remainder = totalInput - withoutChange.reduce((sum, output) => sum + output.value, 0);
+  if (withoutChange.length === 0 || remainder < feeFor(smallerVsize)) {
+    throw new Error('The change is too small to pay a higher fee; cancel the transaction instead');
+  }
+  return { utxos, outputs: withoutChange, fee: remainder, feeRate: rate, vsize: smallerVsize };
+}
+
+/**
+ * Plan a child-pays-for-parent spend of an unconfirmed transaction paying the
+ * key, so parent and child together reach the target fee rate
+ *
+ * @param txid Unconfirmed transaction paying one of `ownAddresses`
+ * @param ownAddresses The key's addresses
+ * @param toAddress Where the child sends the received coins (one of the key's addresses)
+ * @param options Fee rate or preset for the package (defaults to 'fast')
+ * @param network Network (mainnet or testnet)
+ */
+export async function planChildPaysForParent(
+  txid: string,
+  ownAddresses: string[],
+  toAddress: string,
+  options: Pick<BTCFeeOptions, 'feeRate' | 'feePreset'> = {},
+  network: BTCNetwork = 'mainnet'
+): Promise<BTCFeeBumpPlan> {
+  assertAddressNetwork(toAddress, network);
+  const parent = await getUnconfirmedTransaction(txid, network);
+
+  const utxos: UTXO[] = [];
+  parent.tx.vout.forEach((output, vout) => {
+    if (output.scriptpubkey_address && ownAddresses.includes(output.scriptpubkey_address)) {
+      utxos.push({ txid, vout, value: output.value, scriptPubKey: toOutputScript(output) });
+    }
+  });
+  if (utxos.length === 0) {
+    throw new Error('The transaction pays nothing to this wallet');
+  }
+
+  const rate = options.feeRate || await estimateFeeRate(options.feePreset || 'fast', network);
+  const script = addressToScriptPubKey(toAddress);
+  const vsize = estimateVsize(utxos, [script]);
+  const fee = Math.max(
+    Math.ceil((parent.vsize + vsize) * rate) - parent.fee,
+    Math.ceil(vsize * MIN_FEE_RATE)
+  );
+  const value = utxos.reduce((sum, utxo) => sum + utxo.value, 0) - fee;
+  if (value < getDustThreshold(script)) {
+    throw new Error('The incoming amount is too small to pay for speeding it up');
+  }
+
+  return {
+    utxos,
+    outputs: [{ address: toAddress, script: bytesToHex(script), value }],
+    fee,
+    feeRate: rate,
+    vsize
+  };
+}
+
+/**
+ * Sign a replacement or CPFP transaction planned by planReplacement() or
+ * planChildPaysForParent()
+ */
+export async function signFeeBump(plan: BTCFeeBumpPlan, privateKeyHex: string): Promise<SignedBTCTransaction> {
+  return signOutputs(
+    plan.utxos,
+    plan.outputs.map(output => ({ value: output.value, script: hexToBytes(output.script) })),
+    privateKeyHex
+  );
+}
+
+// ============================================================================
+// PSBT (BIP174)
+// ============================================================================
+
+const PSBT_MAGIC = new Uint8Array([0x70, 0x73, 0x62, 0x74, 0xff]); // "psbt" 0xff
+
+// Key types the wallet reads or writes; every other field is passed through unchanged
+const PSBT_GLOBAL_UNSIGNED_TX = 0x00;
+const PSBT_IN_NON_WITNESS_UTXO = 0x00;
+const PSBT_IN_WITNESS_UTXO = 0x01;
+const PSBT_IN_PARTIAL_SIG = 0x02;
+const PSBT_IN_SIGHASH_TYPE = 0x03;
+const PSBT_IN_REDEEM_SCRIPT = 0x04;
+const PSBT_IN_WITNESS_SCRIPT = 0x05;
+const PSBT_IN_FINAL_SCRIPTSIG = 0x07;
+const PSBT_IN_FINAL_SCRIPTWITNESS = 0x08;
+const PSBT_IN_TAP_KEY_SIG = 0x13;
+
+// Signing data removed from an input once it is finalized (BIP174, BIP371)
+const PSBT_IN_SIGNING_FIELDS = [0x02, 0x03, 0x04, 0x05, 0x06, 0x13, 0x14, 0x15, 0x16, 0x17, 0x18];
+
+// Sighash types a PSBT may ask for
+const ECDSA_SIGHASH_TYPES = [0x01, 0x02, 0x03, 0x81, 0x82, 0x83];
+const TAPROOT_SIGHASH_TYPES = [0x00, ...ECDSA_SIGHASH_TYPES];
+
+export const SIGHASH_TYPE_NAMES: Record<number, string> = {
+  0x00: 'DEFAULT',
+  0x01: 'ALL',
+  0x02: 'NONE',
+  0x03: 'SINGLE',
+  0x81: 'ALL|ANYONECANPAY',
+  0x82: 'NONE|ANYONECANPAY',
+  0x83: 'SINGLE|ANYONECANPAY'
+};
+
+interface PsbtField {
+  key: Uint8Array; // key type followed by key data
+  value: Uint8Array;
+}
+
+interface Psbt {
+  global: PsbtField[];
+  inputs: PsbtField[][];
+  outputs: PsbtField[][];
+  tx: TxSkeleton;
+}
+
+export interface DecodedPsbtInput {
+  txid: string;
+  vout: number;
+  address: string | null;
+  value: number | null; // in satoshis; null when the PSBT does not include the spent output
+  sighashType: number | null; // requested by the PSBT
+  finalized: boolean;
+}
+
+export interface DecodedPsbtOutput {
+  address: string | null; // null for scripts without an address, e.g. OP_RETURN
+  value: number; // in satoshis
+  script: string;
+}
+
+export interface DecodedPsbt {
+  txid: string;
+  version: number;
+  locktime: number;
+  inputs: DecodedPsbtInput[];
+  outputs: DecodedPsbtOutput[];
+  fee: number | null; // null unless every input's value is known
+}
+
+export interface SignedPsbt {
+  psbt: string;
+  signedInputs: number[];
+}
+
+export interface FinalizedPsbt {
+  psbt: string;
+  complete: boolean; // every input finalized; rawTransaction and txid are set
+  rawTransaction?: string;
+  txid?: string;
+}
+
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+// Sequential reader over serialized transactions, scripts and PSBTs
+function createByteReader(bytes: Uint8Array) {
+  let offset = 0;
+
+  const take = (length: number): Uint8Array => {
+    if (offset + length > bytes.length) {
+      throw new Error('Unexpected end of data');
+    }
+    const out = bytes.slice(offset, offset + length);
+    offset += length;
+    return out;
+  };
+  const u32 = (): number => {
+    const b = take(4);
+    return (b[0] | (b[1] << 8) | (b[2] << 16) | (b[3] << 24)) >>> 0;
+  };
+  const u64 = (): number => {
+    const low = u32();
+    return u32() * 0x100000000 + low;
+  };
+  const readVarInt = (): number => {
+    const first = take(1)[0];
+    if (first < 0xfd) return first;
+    if (first === 0xfd) {
+      const b = take(2);
+      return b[0] | (b[1] << 8);
+    }
+    return first === 0xfe ? u32() : u64();
+  };
+
+  return {
+    take,
+    u32,
+    u64,
+    varInt: readVarInt,
+    bytes: () => take(readVarInt()),
+    peek: (ahead = 0) => bytes[offset + ahead],
+    done: () => offset === bytes.length
+  };
+}
+
+// Parse a network-serialized transaction, with or without witnesses
+function deserializeTransaction(bytes: Uint8Array): { tx: TxSkeleton; scriptSigs: Uint8Array[]; witnesses: Uint8Array[][] } {
+  const reader = createByteReader(bytes);
+  const version = reader.u32();
+  const hasWitness = reader.peek() === 0x00 && reader.peek(1) === 0x01;
+  if (hasWitness) {
+    reader.take(2);
+  }
+
+  const scriptSigs: Uint8Array[] = [];
+  const inputs = Array.from({ length: reader.varInt() }, () => {
+    const txid = bytesToHex(reader.take(32).reverse());
+    const vout = reader.u32();
+    scriptSigs.push(reader.bytes());
+    return { txid, vout, sequence: reader.u32() };
+  });
+  const outputs = Array.from({ length: reader.varInt() }, () => ({ value: reader.u64(), script: reader.bytes() }));
+  const witnesses = inputs.map(() => hasWitness ? parseWitnessItems(reader) : []);
+  const locktime = reader.u32();
+
+  if (!reader.done()) {
+    throw new Error('Unexpected data after transaction');
+  }
+  return { tx: { version, locktime, inputs, outputs }, scriptSigs, witnesses };
+}
+
+function parseWitnessItems(reader: ReturnType<typeof createByteReader>): Uint8Array[] {
+  return Array.from({ length: reader.varInt() }, () => reader.bytes());
+}
+
+// Opcodes and data pushes of a script
+function decompileScript(script: Uint8Array): Array<number | Uint8Array> {
+  const reader = createByteReader(script);
+  const ops: Array<number | Uint8Array> = [];
+  while (!reader.done()) {
+    const op = reader.take(1)[0];
+    if (op > 0x00 && op < 0x4c) {
+      ops.push(reader.take(op));
+    } else if (op === 0x4c) {
+      ops.push(reader.take(reader.take(1)[0]));
+    } else if (op === 0x4d) {
+      const length = reader.take(2);
+      ops.push(reader.take(length[0] | (length[1] << 8)));
+    } else if (op === 0x4e) {
+      ops.push(reader.take(reader.u32()));
+    } else {
+      ops.push(op);
+    }
+  }
+  return ops;
+}
+
+// Minimal push of data onto the script stack
+function pushData(data: Uint8Array): Uint8Array {
+  if (data.length < 0x4c) {
+    return concatBytes(new Uint8Array([data.length]), data);
+  }
+  if (data.length <= 0xff) {
+    return concatBytes(new Uint8Array([0x4c, data.length]), data);
+  }
+  return concatBytes(new Uint8Array([0x4d, data.length & 0xff, data.length >> 8]), data);
+}
+
+function isP2SH(script: Uint8Array): boolean {
+  return script.length === 23 && script[0] === 0xa9 && script[1] === 0x14 && script[22] === 0x87;
+}
+
+function isP2WSH(script: Uint8Array): boolean {
+  return script.length === 34 && script[0] === 0x00 && script[1] === 0x20;
+}
+
+function scriptHasKey(script: Uint8Array, publicKey: Uint8Array): boolean {
+  try {
+    return decompileScript(script).some(op => typeof op !== 'number' && equalBytes(op, publicKey));
+  } catch {
+    return false;
+  }
+}
+
+// OP_m <pubkeys> OP_n OP_CHECKMULTISIG
+function parseMultisig(script: Uint8Array): { m: number; pubkeys: Uint8Array[] } | null {
+  let ops: Array<number | Uint8Array>;
+  try {
+    ops = decompileScript(script);
+  } catch {
+    return null;
+  }
+  const m = ops[0];
+  const n = ops[ops.length - 2];
+  const pubkeys = ops.slice(1, -2);
+  if (ops.length < 4 || ops[ops.length - 1] !== 0xae || typeof m !== 'number' || typeof n !== 'number' ||
+      m < 0x51 || m > 0x60 || n < m || n > 0x60 || pubkeys.length !== n - 0x50 ||
+      pubkeys.some(key => typeof key === 'number')) {
+    return null;
+  }
+  return { m: m - 0x50, pubkeys: pubkeys as Uint8Array[] };
+}
+
+function getField(fields: PsbtField[], type: number, keyData: Uint8Array = new Uint8Array(0)): Uint8Array | undefined {
+  return fields.find(field => field.key[0] === type && equalBytes(field.key.subarray(1), keyData))?.value;
+}
+
+function setField(fields: PsbtField[], type: number, keyData: Uint8Array, value: Uint8Array): void {
+  const existing = fields.find(field => field.key[0] === type && equalBytes(field.key.subarray(1), keyData));
+  if (existing) {
+    existing.value = value;
+  } else {
+    fields.push({ key: concatBytes(new Uint8Array([type]), keyData), value });
+  }
+}
+
+function isInputFinalized(input: PsbtField[]): boolean {
+  return !!(getField(input, PSBT_IN_FINAL_SCRIPTSIG) || getField(input, PSBT_IN_FINAL_SCRIPTWITNESS));
+}
+
+function readPsbtMap(reader: ReturnType<typeof createByteReader>): PsbtField[] {
+  const fields: PsbtField[] = [];
+  for (let keyLength = reader.varInt(); keyLength > 0; keyLength = reader.varInt()) {
+    const key = reader.take(keyLength);
+    if (fields.some(field => equalBytes(field.key, key))) {
+      throw new Error('Duplicate key in PSBT');
+    }
+    fields.push({ key, value: reader.bytes() });
+  }
+  return fields;
+}
+
+function parsePsbt(psbtBase64: string): Psbt {
+  let bytes: Uint8Array;
+  try {
+    bytes = base64.decode(psbtBase64.trim());
+  } catch {
+    throw new Error('PSBT must be base64 encoded');
+  }
+  if (!equalBytes(bytes.subarray(0, PSBT_MAGIC.length), PSBT_MAGIC)) {
+    throw new Error('Not a PSBT');
+  }
+
+  const reader = createByteReader(bytes.subarray(PSBT_MAGIC.length));
+  const global = readPsbtMap(reader);
+  const unsignedTx = getField(global, PSBT_GLOBAL_UNSIGNED_TX);
+  if (!unsignedTx) {
+    throw new Error('Only version 0 PSBTs are supported');
+  }
+
+  const parsed = deserializeTransaction(unsignedTx);
+  if (parsed.scriptSigs.some(script => script.length > 0) || parsed.witnesses.some(items => items.length > 0)) {
+    throw new Error('PSBT transaction must be unsigned');
+  }
+
+  const inputs = parsed.tx.inputs.map(() => readPsbtMap(reader));
+  const outputs = parsed.tx.outputs.map(() => readPsbtMap(reader));
+  if (!reader.done()) {
+    throw new Error('Unexpected data after PSBT');
+  }
+  return { global, inputs, outputs, tx: parsed.tx };
+}
+
+function serializePsbt(psbt: Psbt): string {
+  const writeMap = (fields: PsbtField[]) => concatBytes(
+    ...fields.map(field => concatBytes(serializeScript(field.key), serializeScript(field.value))),
+    new Uint8Array([0x00])
+  );
+  return base64.encode(concatBytes(
+    PSBT_MAGIC,
+    writeMap(psbt.global),
+    ...psbt.inputs.map(writeMap),
+    ...psbt.outputs.map(writeMap)
+  ));
+}
+
+// Output spent by input `index`; a full previous transaction must hash to the spent txid
+function getPsbtPrevout(psbt: Psbt, index: number): Prevout | null {
+  const input = psbt.inputs[index];
+  const spent = psbt.tx.inputs[index];
+
+  const previousTx = getField(input, PSBT_IN_NON_WITNESS_UTXO);
+  if (previousTx) {
+    const parsed = deserializeTransaction(previousTx);
+    if (serializeTransaction(parsed.tx, parsed.scriptSigs, parsed.witnesses).txid !== spent.txid) {
+      throw new Error(`Input ${index}: previous transaction does not match the spent txid`);
+    }
+    const output = parsed.tx.outputs[spent.vout];
+    if (!output) {
+      throw new Error(`Input ${index}: previous transaction has no output ${spent.vout}`);
+    }
+    return output;
+  }
+
+  const witnessUtxo = getField(input, PSBT_IN_WITNESS_UTXO);
+  if (witnessUtxo) {
+    const reader = createByteReader(witnessUtxo);
+    return { value: reader.u64(), script: reader.bytes() };
+  }
+  return null;
+}
+
+type PsbtSpend =
+  | { kind: 'legacy' | 'segwit'; scriptCode: Uint8Array }
+  | { kind: 'taproot' };
+
+// How the key signs an input, or null when the input is not the key's to sign
+function getPsbtSpend(
+  input: PsbtField[],
+  prevout: Prevout,
+  publicKey: Uint8Array,
+  ownScripts: Record<BTCAddressType, Uint8Array>
+): PsbtSpend | null {
+  const script = prevout.script;
+  if (equalBytes(script, ownScripts.p2pkh)) return { kind: 'legacy', scriptCode: script };
+  if (equalBytes(script, ownScripts.p2wpkh)) return { kind: 'segwit', scriptCode: ownScripts.p2pkh };
+  if (equalBytes(script, ownScripts.p2tr)) return { kind: 'taproot' };
+
+  let witnessProgram = script;
+  if (isP2SH(script)) {
+    const redeemScript = getField(input, PSBT_IN_REDEEM_SCRIPT);
+    if (!redeemScript) return null;
+    if (!equalBytes(hash160(redeemScript), script.subarray(2, 22))) {
+      throw new Error('redeem script does not match the spent output');
+    }
+    if (equalBytes(redeemScript, ownScripts.p2wpkh)) {
+      return { kind: 'segwit', scriptCode: ownScripts.p2pkh };
+    }
+    if (!isP2WSH(redeemScript)) {
+      return scriptHasKey(redeemScript, publicKey) ? { kind: 'legacy', scriptCode: redeemScript } : null;
+    }
+    witnessProgram = redeemScript;
+  }
+
+  if (isP2WSH(witnessProgram)) {
+    const witnessScript = getField(input, PSBT_IN_WITNESS_SCRIPT);
+    if (!witnessScript) return null;
+    if (!equalBytes(sha256(witnessScript), witnessProgram.subarray(2))) {
+      throw new Error('witness script does not match the spent output');
+    }
+    return scriptHasKey(witnessScript, publicKey) ? { kind: 'segwit', scriptCode: witnessScript } : null;
+  }
+  return null;
+}
+
+// Signatures for a multisig script in key order, or null until enough are present
+function getMultisigSignatures(
+  script: Uint8Array,
+  partialSigs: Array<{ publicKey: Uint8Array; signature: Uint8Array }>
+): Uint8Array[] | null {
+  const multisig = parseMultisig(script);
+  if (!multisig) return null;
+  const signatures = multisig.pubkeys
+    .map(key => partialSigs.find(sig => equalBytes(sig.publicKey, key))?.signature)
+    .filter((signature): signature is Uint8Array => !!signature);
+  return signatures.length >= multisig.m ? signatures.slice(0, multisig.m) : null;
+}
+
+// Final scriptSig and witness for an input, or null if it cannot be finalized yet
+function finalizePsbtInput(input: PsbtField[], script: Uint8Array): { scriptSig: Uint8Array; witness: Uint8Array[] } | null {
+  const partialSigs = input
+    .filter(field => field.key[0] === PSBT_IN_PARTIAL_SIG)
+    .map(field => ({ publicKey: field.key.subarray(1), signature: field.value }));
+  const signatureFor = (keyHash: Uint8Array) => partialSigs.find(sig => equalBytes(hash160(sig.publicKey), keyHash));
+  const empty = new Uint8Array(0);
+
+  const type = getScriptType(script);
+  if (type === 'p2tr') {
+    const signature = getField(input, PSBT_IN_TAP_KEY_SIG);
+    return signature ? { scriptSig: empty, witness: [signature] } : null;
+  }
+  if (type === 'p2pkh') {
+    const sig = signatureFor(script.subarray(3, 23));
+    return sig ? { scriptSig: concatBytes(pushData(sig.signature), pushData(sig.publicKey)), witness: [] } : null;
+  }
+  if (type === 'p2wpkh') {
+    const sig = signatureFor(script.subarray(2));
+    return sig ? { scriptSig: empty, witness: [sig.signature, sig.publicKey] } : null;
+  }
+
+  const redeemScript = isP2SH(script) ? getField(input, PSBT_IN_REDEEM_SCRIPT) : undefined;
+  if (isP2SH(script) && !redeemScript) return null;
+  const program = redeemScript || script;
+  const redeemPush = redeemScript ? pushData(redeemScript) : empty;
+
+  if (getScriptType(program) === 'p2wpkh') {
+    const sig = signatureFor(program.subarray(2));
+    return sig ? { scriptSig: redeemPush, witness: [sig.signature, sig.publicKey] } : null;
+  }
+  if (isP2WSH(program)) {
+    const witnessScript = getField(input, PSBT_IN_WITNESS_SCRIPT);
+    const signatures = witnessScript ? getMultisigSignatures(witnessScript, partialSigs) : null;
+    // CHECKMULTISIG pops one extra stack item, hence the leading empty push
+    return witnessScript && signatures
+      ? { scriptSig: redeemPush, witness: [empty, ...signatures, witnessScript] }
+      : null;
+  }
+  if (redeemScript) {
+    const signatures = getMultisigSignatures(redeemScript, partialSigs);
+    return signatures
+      ? { scriptSig: concatBytes(new Uint8Array([0x00]), ...signatures.map(pushData), redeemPush), witness: [] }
+      : null;
+  }
+  return null;
+}
+
+/**
+ * Decode a PSBT's inputs and outputs for display
+ *
+ * @param psbtBase64 BIP174 (version 0) PSBT, base64
+ * @param network Network used to render addresses
+ */
+export function decodePsbt(psbtBase64: string, network: BTCNetwork = 'mainnet'): DecodedPsbt {
+  const psbt = parsePsbt(psbtBase64);
+
+  const inputs = psbt.tx.inputs.map((input, i) => {
+    const prevout = getPsbtPrevout(psbt, i);
+    const sighashType = getField(psbt.inputs[i], PSBT_IN_SIGHASH_TYPE);
+    return {
+      txid: input.txid,
+      vout: input.vout,
+      address: prevout ? scriptPubKeyToAddress(prevout.script, network) : null,
+      value: prevout ? prevout.value : null,
+      sighashType: sighashType ? createByteReader(sighashType).u32() : null,
+      finalized: isInputFinalized(psbt.inputs[i])
+    };
+  });
+  const outputs = psbt.tx.outputs.map(output => ({
+    address: scriptPubKeyToAddress(output.script, network),
+    value: output.value,
+    script: bytesToHex(output.script)
+  }));
+
+  const outputTotal = outputs.reduce((sum, output) => sum + output.value, 0);
+  const fee = inputs.every(input => input.value !== null)
+    ? inputs.reduce((sum, input) => sum + (input.value as number), 0) - outputTotal
+    : null;
+
+  return {
+    txid: serializeTransaction(psbt.tx, [], []).txid,
+    version: psbt.tx.version,
+    locktime: psbt.tx.locktime,
+    inputs,
+    outputs,
+    fee
+  };
+}
+
+/**
+ * Sign the PSBT inputs that belong to the key
+ *
+ * Signs inputs spending the key's P2PKH, P2WPKH and P2TR (key path) outputs,
+ * P2SH-P2WPKH of the key, and P2SH, P2WSH or P2SH-P2WSH scripts that contain
+ * the key, such as multisig. Each input is signed with its
+ * PSBT_IN_SIGHASH_TYPE, or SIGHASH_ALL (SIGHASH_DEFAULT for Taproot) when the
+ * PSBT does not ask for one. Signatures are added as partial signatures; use
+ * finalizePsbt() once every signer has signed.
+ *
+ * @param psbtBase64 BIP174 (version 0) PSBT, base64
+ * @param privateKeyHex Private key
+ * @param signInputs Input indexes to sign (optional, defaults to every input the key can sign)
+ */
+export function signPsbt(psbtBase64: string, privateKeyHex: string, signInputs?: number[]): SignedPsbt {
+  const cleanKey = privateKeyHex.startsWith('0x') ? privateKeyHex.slice(2) : privateKeyHex;
+  const privateKeyBytes = hexToBytes(cleanKey);
+  const publicKey = secp256k1.getPublicKey(privateKeyBytes, true);
+  let taprootKey: Uint8Array | null = null;
+
+  try {
+    const psbt = parsePsbt(psbtBase64);
+    const prevouts = psbt.tx.inputs.map((_, i) => getPsbtPrevout(psbt, i));
+    const ownScripts = getOwnScriptPubKeys(publicKey);
+
+    const requested = signInputs ? new Set(signInputs) : null;
+    if (signInputs?.some(i => !Number.isInteger(i) || i < 0 || i >= psbt.inputs.length)) {
+      throw new Error('signInputs contains an index that is not an input of the PSBT');
+    }
+
+    const signedInputs: number[] = [];
+    for (let i = 0; i < psbt.inputs.length; i++) {
+      if (requested && !requested.has(i)) continue;
+      const input = psbt.inputs[i];
+      const prevout = prevouts[i];
+
+      let spend: PsbtSpend | null = null;
+      if (prevout && !isInputFinalized(input)) {
+        try {
+          spend = getPsbtSpend(input, prevout, publicKey, ownScripts);
+        } catch (err) {
+          throw new Error(`Input ${i}: ${err instanceof Error ? err.message : err}`);
+        }
+      }
+      if (!prevout || !spend) {
+        // Inputs the app asked for by index must be signable; others are left to their owners
+        if (requested) {
+          throw new Error(`Input ${i} cannot be signed by this wallet`);
+        }
+        continue;
+      }
+
+      const sighashField = getField(input, PSBT_IN_SIGHASH_TYPE);
+      const hashType = sighashField
+        ? createByteReader(sighashField).u32()
+        : spend.kind === 'taproot' ? SIGHASH_DEFAULT : SIGHASH_ALL;
+      if (!(spend.kind === 'taproot' ? TAPROOT_SIGHASH_TYPES : ECDSA_SIGHASH_TYPES).includes(hashType)) {
+        throw new Error(`Input ${i} asks for unsupported sighash type 0x${hashType.toString(16)}`);
+      }
+
+      if (spend.kind === 'taproot') {
+        taprootKey = taprootKey || getTaprootTweakedPrivateKey(privateKeyBytes, publicKey);
+        const sighash = taprootSighash(psbt.tx, i, prevouts, hashType);
+        setField(input, PSBT_IN_TAP_KEY_SIG, new Uint8Array(0), signSchnorr(sighash, taprootKey, hashType));
+      } else {
+        const sighash = spend.kind === 'legacy'
+          ? legacySighash(psbt.tx, i, spend.scriptCode, hashType)
+          : segwitV0Sighash(psbt.tx, i, spend.scriptCode, prevout.value, hashType);
+        setField(input, PSBT_IN_PARTIAL_SIG, publicKey, signEcdsa(sighash, privateKeyBytes, hashType));
+      }
+      signedInputs.push(i);
+    }
+
+    if (signedInputs.length === 0) {
+      throw new Error('No inputs of this PSBT can be signed by this wallet');
+    }
+
+    return { psbt: serializePsbt(psbt), signedInputs };
+  } finally {
+    privateKeyBytes.fill(0);
+    taprootKey?.fill(0);
+  }
+}
+
+/**
+ * Finalize the PSBT inputs that have every signature they need and, once all
+ * inputs are final, extract the network transaction
+ *
+ * Builds the final scriptSig and witness for P2PKH, P2WPKH, P2SH-P2WPKH,
+ * Taproot key path and multisig in P2SH, P2WSH or P2SH-P2WSH. Inputs with
+ * other scripts must already be finalized by the app.
+ *
+ * @param psbtBase64 BIP174 (version 0) PSBT, base64
+ */
+export function finalizePsbt(psbtBase64: string): FinalizedPsbt {
+  const psbt = parsePsbt(psbtBase64);
+
+  psbt.inputs.forEach((input, i) => {
+    if (isInputFinalized(input)) return;
+    const prevout = getPsbtPrevout(psbt, i);
+    const final = prevout ? finalizePsbtInput(input, prevout.script) : null;
+    if (!final) return;
+
+    const kept = input.filter(field => !PSBT_IN_SIGNING_FIELDS.includes(field.key[0]));
+    input.splice(0, input.length, ...kept);
+    if (final.scriptSig.length > 0) {
+      setField(input, PSBT_IN_FINAL_SCRIPTSIG, new Uint8Array(0), final.scriptSig);
+    }
+    if (final.witness.length > 0) {
+      setField(input, PSBT_IN_FINAL_SCRIPTWITNESS, new Uint8Array(0), serializeWitness(final.witness));
+    }
+  });
+
+  const complete = psbt.inputs.every(isInputFinalized);
+  if (!complete) {
+    return { psbt: serializePsbt(psbt), complete };
+  }
+
+  const scriptSigs = psbt.inputs.map(input => getField(input, PSBT_IN_FINAL_SCRIPTSIG) || new Uint8Array(0));
+  const witnesses = psbt.inputs.map(input => {
+    const witness = getField(input, PSBT_IN_FINAL_SCRIPTWITNESS);
+    return witness ? parseWitnessItems(createByteReader(witness)) : [];
+  });
+  const extracted = serializeTransaction(psbt.tx, scriptSigs, witnesses);
+
+  return {
+    psbt: serializePsbt(psbt),
+    complete,
+    rawTransaction: bytesToHex(extracted.raw),
+    txid: extracted.txid
+  };
+}
+
 /**
  * BTC Transaction history item
  */
@@ -536,15 +1729,9 @@ export interface BTCTransactionHistory {
   status: 'confirmed' | 'pending';
 }
 
-// Fallback REST API endpoints for transaction history (Blockstream/Mempool style)
-const REST_API_ENDPOINTS: Record<BTCNetwork, string> = {
-  mainnet: 'https://blockstream.info/api',
-  testnet: 'https://blockstream.info/testnet/api'
-};
-
 /**
- * Get transaction history for a BTC address
- * Uses Blockstream/Mempool-style REST API since Bitcoin Core RPC doesn't support address history
+ * Get transaction history for a BTC address from the configured provider
+ * (JSON-RPC providers read it from a public Esplora, since Bitcoin Core has no address index)
  */
 export async function getTransactionHistory(
   address: string,
@@ -552,18 +1739,10 @@ export async function getTransactionHistory(
   limit: number = 20
 ): Promise<BTCTransactionHistory[]> {
   try {
-    const apiBase = REST_API_ENDPOINTS[network];
-    const response = await fetch(`${apiBase}/address/${address}/txs`);
-
-    if (!response.ok) {
-      console.warn('BTC transaction history API failed:', response.status);
-      return [];
-    }
-
-    const txs = await response.json() as any[];
+    const txs = await getProvider(network).getTransactions(address, limit);
     const transactions: BTCTransactionHistory[] = [];
 
-    for (const tx of txs.slice(0, limit)) {
+    for (const tx of txs) {
       const parsed = parseTransaction(tx, address);
       if (parsed) {
         transactions.push(parsed);
@@ -578,9 +1757,9 @@ export async function getTransactionHistory(
 }
 
 /**
- * Parse a Blockstream-style transaction
+ * Parse an Esplora-style transaction
  */
-function parseTransaction(tx: any, walletAddress: string): BTCTransactionHistory | null {
+function parseTransaction(tx: BTCProviderTransaction, walletAddress: string): BTCTransactionHistory | null {
   try {
     const fee = tx.fee || 0;
     const blockHeight = tx.status?.block_height || null;
@@ -0,0 +1,195 @@
+import { useMemo } from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { buildTxPreview, previewEvmSimulation } from '../txPreview';
+import type { BitcoinIOPreview, PreviewField, TypedDataNode } from '../txPreview';
+import type { EvmSimulation } from '../evmSimulation';
+
+interface ApprovalSheetProps {
+  method: string;
+  params: unknown;
+  origin: string;
+  appName: string | null;
+  tokens: Record<string, { symbol: string; decimals: number }>;
+  btcAddresses: string[];  // the wallet's own, to mark PSBT inputs and change
+  simulation?: EvmSimulation | 'pending';  // EVM transactions only
+  lookupTables?: Record<string, string[]>;  // Solana address lookup tables the transactions use
+  pendingCount: number;  // requests queued behind this one
+  onApprove: () => void;
+  onReject: () => void;
+}
+
+function FieldList({ fields }: { fields: PreviewField[] }) {
+  return (
+    <div className="approval-fields">
+      {fields.map((field, i) => (
+        <div className="approval-field" key={`${field.label}-${i}`}>
+          <span className="approval-field-label">{field.label}</span>
+          <span className={`approval-field-value ${field.mono ? 'mono' : ''}`}>{field.value}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function BitcoinIOList({ label, items }: { label: string; items: BitcoinIOPreview[] }) {
+  return (
+    <div className="approval-section">
+      <div className="approval-section-label">{label} ({items.length})</div>
+      {items.map((item, i) => (
+        <div className="approval-instruction" key={i}>
+          <div className="approval-instruction-header">
+            <span>#{i} {item.amount}</span>
+            <span className="approval-tree-type">{item.own ? 'Your wallet' : 'External'}</span>
+          </div>
+          <FieldList fields={item.details} />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function TypedDataTree({ nodes }: { nodes: TypedDataNode[] }) {
+  return (
+    <ul className="approval-tree">
+      {nodes.map((node, i) => (
+        <li key={`${node.name}-${i}`}>
+          <span className="approval-field-label">{node.name}</span>
+          <span className="approval-tree-type">{node.type}</span>
+          {node.children ? (
+            <TypedDataTree nodes={node.children} />
+          ) : (
+            <span className="approval-field-value mono">{node.value}</span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function ApprovalSheet({
+  method,
+  params,
+  origin,
+  appName,
+  tokens,
+  btcAddresses,
+  simulation,
+  lookupTables,
+  pendingCount,
+  onApprove,
+  onReject,
+}: ApprovalSheetProps) {
+  const preview = useMemo(
+    () => buildTxPreview(method, params, tokens, btcAddresses, lookupTables),
+    [method, params, tokens, btcAddresses, lookupTables]
+  );
+  const simulated = useMemo(
+    () => (simulation && simulation !== 'pending' ? previewEvmSimulation(simulation) : null),
+    [simulation]
+  );
+  const warnings = [...new Set([...preview.warnings, ...(simulated?.warnings || [])])];
+
+  return (
+    <div className="modal-overlay approval-overlay">
+      <div className="modal-content approval-sheet">
+        <h2>{preview.title}</h2>
+
+        <div className="approval-origin">
+          <span className="approval-origin-app">{appName || 'Unknown app'}</span>
+          <span className="approval-origin-url">{origin}</span>
+          {preview.chain && <span className="approval-chain">{preview.chain}</span>}
+        </div>
+
+        {warnings.length > 0 && (
+          <div className="approval-warnings">
+            {warnings.map((warning, i) => (
+              <div className="approval-warning" key={i}>
+                <ShieldAlert size={14} />
+                <span>{warning}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="approval-body">
+          {preview.fields.length > 0 && <FieldList fields={preview.fields} />}
+
+          {simulation === 'pending' && (
+            <div className="approval-section">
+              <div className="approval-section-label">Simulating...</div>
+            </div>
+          )}
+
+          {simulated && (
+            <div className="approval-section">
+              <div className="approval-section-label">{simulated.status}</div>
+              {simulated.fields.length > 0 && <FieldList fields={simulated.fields} />}
+            </div>
+          )}
+
+          {preview.call && (
+            <div className="approval-section">
+              <div className="approval-section-label">Contract call: {preview.call.name}</div>
+              <FieldList fields={[{ label: 'Contract', value: preview.call.contract, mono: true }, ...preview.call.args]} />
+            </div>
+          )}
+
+          {preview.typedData && (
+            <>
+              <div className="approval-section">
+                <div className="approval-section-label">Domain</div>
+                <FieldList fields={preview.typedData.domain} />
+              </div>
+              <div className="approval-section">
+                <div className="approval-section-label">Message: {preview.typedData.primaryType}</div>
+                <TypedDataTree nodes={preview.typedData.message} />
+              </div>
+            </>
+          )}
+
+          {preview.instructions && (
+            <div className="approval-section">
+              <div className="approval-section-label">Instructions ({preview.instructions.length})</div>
+              {preview.instructions.map((ix, i) => (
+                <div className="approval-instruction" key={i}>
+                  <div className="approval-instruction-header">
+                    <span>{i + 1}. {ix.name}</span>
+                    <span className="approval-tree-type">{ix.program}</span>
+                  </div>
+                  {ix.details.length > 0 && <FieldList fields={ix.details} />}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {preview.bitcoin && (
+            <>
+              <BitcoinIOList label="Inputs" items={preview.bitcoin.inputs} />
+              <BitcoinIOList label="Outputs" items={preview.bitcoin.outputs} />
+            </>
+          )}
+
+          {preview.message !== undefined && (
+            <div className="approval-section">
+              <div className="approval-section-label">Message</div>
+              <pre className="approval-message">{preview.message}</pre>
+            </div>
+          )}
+        </div>
+
+        {pendingCount > 0 && (
+          <div className="approval-queue">{pendingCount} more request{pendingCount === 1 ? '' : 's'} waiting</div>
+        )}
+
+        <div className="modal-buttons">
+          <button type="button" className="refresh-btn" onClick={onReject}>
+            Reject
+          </button>
+          <button type="button" className="send-btn" onClick={onApprove}>
+            Approve
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
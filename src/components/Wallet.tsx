@@ -2,6 +2,8 @@ import { useState, useEffect } from 'react';
 import { Wallet as WalletIcon } from 'lucide-react';
 import { QRCodeSVG } from 'qrcode.react';
 import { TokenIcon } from '../TokenIcon';
+import { BTC_RECEIVE_ADDRESS_TYPES, BTC_ADDRESS_TYPE_LABELS, BTC_FEE_PRESETS, BTC_FEE_PRESET_LABELS } from '../btcSigner';
+import type { BTCAddressType, BTCFeePreset } from '../btcSigner';
 
 interface Asset {
   id?: string;
@@ -20,6 +22,8 @@ interface ChainAddress {
   chain: string;
   address: string;
   icon: string;
+  addressType?: BTCAddressType;
+  addressesByType?: Record<BTCAddressType, string>;
 }
 
 interface Transaction {
@@ -80,11 +84,20 @@ interface WalletProps {
   onAddAsset: () => void;
   onDeleteAsset: (id: string) => void;
   onAcceptOffer: (contractId: string) => void;
-  onTransfer: (to: string, amount: string, asset?: Asset, chain?: string) => Promise<{ success: boolean; message: string }>;
+  onTransfer: (
+    to: string,
+    amount: string,
+    asset?: Asset,
+    chain?: string,
+    options?: { feePreset?: BTCFeePreset; sendMax?: boolean }
+  ) => Promise<{ success: boolean; message: string }>;
   onStartQrScanner: () => void;
   onScannedAddressUsed?: () => void;
   onLoadMoreTransactions: (offset: number, chainFilter?: string) => void;
   onSettings: () => void;
+  onSelectAddressType?: (chain: string, addressType: BTCAddressType) => void;
+  // Pending Bitcoin and EVM sends can be sped up or cancelled, incoming Bitcoin ones sped up
+  onBumpTransaction?: (tx: Transaction, action: 'speedup' | 'cancel') => Promise<{ success: boolean; message: string }>;
 }
 
 export default function Wallet({
@@ -107,6 +120,8 @@ export default function Wallet({
   onScannedAddressUsed,
   onLoadMoreTransactions,
   onSettings,
+  onSelectAddressType,
+  onBumpTransaction,
 }: WalletProps) {
   const [walletCollapsed, setWalletCollapsed] = useState(false);
   const [activeTab, setActiveTab] = useState<'assets' | 'transactions'>('assets');
@@ -116,9 +131,13 @@ export default function Wallet({
   const [showQrCode, setShowQrCode] = useState(false);
   const [transferTo, setTransferTo] = useState('');
   const [transferAmount, setTransferAmount] = useState('');
+  const [feePreset, setFeePreset] = useState<BTCFeePreset>('normal');
+  const [sendMax, setSendMax] = useState(false);
   const [transferStatus, setTransferStatus] = useState('');
   const [showAllTransactions, setShowAllTransactions] = useState(false);
   const [txChainFilter, setTxChainFilter] = useState<string>('all');
+  const [bumpingTxId, setBumpingTxId] = useState<string | null>(null);
+  const [txActionStatus, setTxActionStatus] = useState('');
 
   // Handle scanned address from parent
   useEffect(() => {
@@ -133,17 +152,34 @@ export default function Wallet({
     setTransferStatus('Sending...');
 
     // Pass selected asset and chain for multi-chain support
-    const result = await onTransfer(transferTo, transferAmount, selectedAsset || undefined, selectedChain || undefined);
+    const isBitcoin = (selectedChain || selectedAsset?.chain) === 'Bitcoin';
+    const result = await onTransfer(
+      transferTo,
+      sendMax && isBitcoin ? '' : transferAmount,
+      selectedAsset || undefined,
+      selectedChain || undefined,
+      isBitcoin ? { feePreset, sendMax } : undefined
+    );
     setTransferStatus(result.message);
 
     if (result.success) {
       setTransferTo('');
       setTransferAmount('');
+      setSendMax(false);
     }
 
     setTimeout(() => setTransferStatus(''), 5000);
   };
 
+  const handleBumpTransaction = async (tx: Transaction, action: 'speedup' | 'cancel') => {
+    if (!onBumpTransaction) return;
+    setBumpingTxId(tx.id);
+    const result = await onBumpTransaction(tx, action);
+    setBumpingTxId(null);
+    setTxActionStatus(result.success ? result.message : `Error: ${result.message}`);
+    setTimeout(() => setTxActionStatus(''), 5000);
+  };
+
   return (
     <>
       <button
@@ -303,7 +339,7 @@ export default function Wallet({
                           <TokenIcon symbol={tx.asset} size={20} />
                         </span>
                         <span className="tx-amt">
-                          {tx.type === 'send' ? '−' : '+'}{parseFloat(tx.amount).toFixed(4)} {tx.asset}
+                          {tx.type === 'send' || tx.type === 'fee' ? '−' : '+'}{parseFloat(tx.amount).toFixed(4)} {tx.asset}
                         </span>
                         <span className="tx-chain">{tx.chain}</span>
                         <span className={`tx-direction ${tx.type}`}>
@@ -370,6 +406,17 @@ export default function Wallet({
                     <div className="asset-modal-label">
                       Receive {selectedAsset.symbol} {hasMultipleChains && `on ${currentChain}`}
                     </div>
+                    {currentAddress?.addressesByType && onSelectAddressType && (
+                      <select
+                        className="chain-dropdown address-type-dropdown"
+                        value={currentAddress.addressType}
+                        onChange={(e) => onSelectAddressType(currentAddress.chain, e.target.value as BTCAddressType)}
+                      >
+                        {BTC_RECEIVE_ADDRESS_TYPES.map(type => (
+                          <option key={type} value={type}>{BTC_ADDRESS_TYPE_LABELS[type]}</option>
+                        ))}
+                      </select>
+                    )}
                     {currentAddress && (
                       <div className="chain-address-item">
                         <div className="asset-modal-address">
@@ -427,10 +474,11 @@ export default function Wallet({
                         <input
                           type="number"
                           step="0.01"
-                          value={transferAmount}
+                          value={sendMax && currentChain === 'Bitcoin' ? '' : transferAmount}
                           onChange={(e) => setTransferAmount(e.target.value)}
-                          placeholder="Amount"
-                          required
+                          placeholder={sendMax && currentChain === 'Bitcoin' ? 'Entire balance' : 'Amount'}
+                          required={!(sendMax && currentChain === 'Bitcoin')}
+                          disabled={sendMax && currentChain === 'Bitcoin'}
                           className="input-sm input-amount-sm"
                         />
                         <div className="send-action-group">
@@ -442,6 +490,28 @@ export default function Wallet({
                           <button type="submit" className="btn-send">Send</button>
                         </div>
                       </div>
+                      {currentChain === 'Bitcoin' && (
+                        <div className="send-row btc-fee-row">
+                          <select
+                            value={feePreset}
+                            onChange={(e) => setFeePreset(e.target.value as BTCFeePreset)}
+                            className="chain-dropdown fee-preset-dropdown"
+                            title="Network fee"
+                          >
+                            {BTC_FEE_PRESETS.map(preset => (
+                              <option key={preset} value={preset}>{BTC_FEE_PRESET_LABELS[preset]} fee</option>
+                            ))}
+                          </select>
+                          <label className="send-max-toggle">
+                            <input
+                              type="checkbox"
+                              checked={sendMax}
+                              onChange={(e) => setSendMax(e.target.checked)}
+                            />
+                            Send max
+                          </label>
+                        </div>
+                      )}
                     </form>
                     {transferStatus && (
                       <div className={`status-msg ${transferStatus.includes('Error') ? 'error' : 'success'}`}>
@@ -513,19 +583,48 @@ export default function Wallet({
                       </div>
                     </div>
                     <div className="tx-row-right">
-                      <span className={`tx-amt-full ${tx.type === 'send' ? 'negative' : 'positive'}`}>
-                        {tx.type === 'send' ? '−' : '+'}{parseFloat(tx.amount).toFixed(4)} {tx.asset}
+                      <span className={`tx-amt-full ${tx.type === 'send' || tx.type === 'fee' ? 'negative' : 'positive'}`}>
+                        {tx.type === 'send' || tx.type === 'fee' ? '−' : '+'}{parseFloat(tx.amount).toFixed(4)} {tx.asset}
                       </span>
                       <span className="tx-chain-badge">{tx.chain}</span>
                       <span className="tx-date-full">{new Date(tx.blockTimestamp && tx.blockTimestamp.length > 0 ? tx.blockTimestamp : tx.createdAt).toLocaleString()}</span>
                       {tx.status === 'pending' && <span className="tx-status-badge pending">Pending</span>}
                       {tx.status === 'failed' && <span className="tx-status-badge failed">Failed</span>}
+                      {tx.status === 'replaced' && <span className="tx-status-badge replaced">Replaced</span>}
+                      {onBumpTransaction && tx.status === 'pending' && tx.txHash &&
+                        ((tx.chainType === 'btc' && (tx.type === 'send' || tx.type === 'receive')) ||
+                          (tx.chainType === 'evm' && tx.type === 'send')) && (
+                        <div className="tx-bump-actions">
+                          <button
+                            className="tx-bump-btn"
+                            disabled={bumpingTxId !== null}
+                            onClick={() => handleBumpTransaction(tx, 'speedup')}
+                          >
+                            {bumpingTxId === tx.id ? '...' : 'Speed up'}
+                          </button>
+                          {tx.type === 'send' && (
+                            <button
+                              className="tx-bump-btn"
+                              disabled={bumpingTxId !== null}
+                              onClick={() => handleBumpTransaction(tx, 'cancel')}
+                            >
+                              Cancel
+                            </button>
+                          )}
+                        </div>
+                      )}
                     </div>
                   </div>
                 ))
               )}
             </div>
 
+            {txActionStatus && (
+              <div className={`status-msg ${txActionStatus.startsWith('Error') ? 'error' : 'success'}`}>
+                {txActionStatus}
+              </div>
+            )}
+
             {/* Pagination */}
             {transactionPagination && transactionPagination.hasMore && (
               <div className="tx-pagination">
@@ -1,12 +1,24 @@
 // Client-side cryptography utilities using WebAuthn PRF extension
-// This ensures private keys are encrypted with a key derived from the user's passkey
-// Even the server/webmaster cannot decrypt without the physical passkey
+// Private keys are encrypted with a wallet key that is wrapped separately for each passkey
+// using a key derived from that passkey's PRF output.
+// Even the server/webmaster cannot decrypt without a physical passkey
 
 import { ed25519 } from '@noble/curves/ed25519.js';
 import { secp256k1 } from '@noble/curves/secp256k1.js';
 import { keccak_256 } from '@noble/hashes/sha3.js';
-import { ripemd160 } from '@noble/hashes/legacy.js';
-import { sha256 as sha256Hash } from '@noble/hashes/sha2.js';
+import { sha256 as sha256Hash, sha512 } from '@noble/hashes/sha2.js';
+import { hmac } from '@noble/hashes/hmac.js';
+import { scryptAsync } from '@noble/hashes/scrypt.js';
+import { HDKey } from '@scure/bip32';
+import { generateMnemonic as bip39GenerateMnemonic, mnemonicToSeed } from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english.js';
+import { getAddressFromPublicKey, getAddressesFromPublicKey } from '../lib/btcAddress';
+import {
+  getAddressFromPublicKey as getTonAddressFromPublicKey,
+  getAddressesFromPublicKey as getTonAddressesFromPublicKey,
+  getLegacyAddressFromPublicKey as getLegacyTonAddressFromPublicKey,
+  isSameAddress as isSameTonAddress
+} from '../lib/tonAddress';
 
 // PRF salt for wallet encryption - must be consistent
 const PRF_SALT = new TextEncoder().encode('canton-wallet-encryption-v1');
@@ -55,32 +67,22 @@ function base58Encode(bytes: Uint8Array): string {
   return result;
 }
 
-// Base64url encoding for TON addresses
-function base64UrlEncode(data: Uint8Array): string {
-  const base64 = btoa(String.fromCharCode(...data));
-  return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
-}
+// HKDF parameters for the original PRF-derived encryption key. Wallets created before
+// per-passkey key wrapping are encrypted directly under this key, so it becomes their wallet key.
+const LEGACY_KEY_SALT = new TextEncoder().encode('canton-wallet-aes-key');
+const LEGACY_KEY_INFO = new TextEncoder().encode('encryption');
 
-// CRC16 for TON addresses
-function crc16(data: Uint8Array): number {
-  const poly = 0x1021;
-  let crc = 0;
-  for (let i = 0; i < data.length; i++) {
-    crc ^= data[i] << 8;
-    for (let j = 0; j < 8; j++) {
-      if (crc & 0x8000) {
-        crc = (crc << 1) ^ poly;
-      } else {
-        crc <<= 1;
-      }
-      crc &= 0xffff;
-    }
-  }
-  return crc;
-}
+// HKDF parameters for the per-passkey key that wraps the wallet key
+const WRAP_KEY_SALT = new TextEncoder().encode('canton-wallet-key-wrap');
+const WRAP_KEY_INFO = new TextEncoder().encode('wrap');
 
-// Derive AES-GCM key from PRF output
-async function deriveEncryptionKey(prfOutput: ArrayBuffer): Promise<CryptoKey> {
+// Derive a key from PRF output using HKDF
+async function derivePrfKey(
+  prfOutput: ArrayBuffer,
+  salt: Uint8Array<ArrayBuffer>,
+  info: Uint8Array<ArrayBuffer>,
+  extractable: boolean
+): Promise<CryptoKey> {
   // Import PRF output as raw key material
   const keyMaterial = await crypto.subtle.importKey(
     'raw',
@@ -92,19 +94,72 @@ async function deriveEncryptionKey(prfOutput: ArrayBuffer): Promise<CryptoKey> {
 
   // Derive AES-256-GCM key using HKDF
   return crypto.subtle.deriveKey(
-    {
-      name: 'HKDF',
-      hash: 'SHA-256',
-      salt: new TextEncoder().encode('canton-wallet-aes-key'),
-      info: new TextEncoder().encode('encryption')
-    },
+    { name: 'HKDF', hash: 'SHA-256', salt, info },
     keyMaterial,
     { name: 'AES-GCM', length: 256 },
-    false,
+    extractable,
+    ['encrypt', 'decrypt']
+  );
+}
+
+// Generate a random wallet key (data-encryption key for chain keys and the seed).
+// It must be extractable so it can be wrapped for each passkey.
+export async function generateWalletKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey(
+    { name: 'AES-GCM', length: 256 },
+    true,
     ['encrypt', 'decrypt']
   );
 }
 
+// Derive the wallet key used before key wrapping existed (AES key straight from one passkey's PRF)
+export async function deriveLegacyWalletKey(prfOutput: ArrayBuffer): Promise<CryptoKey> {
+  return derivePrfKey(prfOutput, LEGACY_KEY_SALT, LEGACY_KEY_INFO, true);
+}
+
+// Wrap the wallet key for one passkey, returning hex(IV + wrapped key)
+export async function wrapWalletKey(prfOutput: ArrayBuffer, walletKey: CryptoKey): Promise<string> {
+  const wrappingKey = await derivePrfKey(prfOutput, WRAP_KEY_SALT, WRAP_KEY_INFO, false);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const wrapped = await crypto.subtle.wrapKey('raw', walletKey, wrappingKey, { name: 'AES-GCM', iv });
+
+  const combined = new Uint8Array(iv.length + wrapped.byteLength);
+  combined.set(iv);
+  combined.set(new Uint8Array(wrapped), iv.length);
+  return bytesToHex(combined);
+}
+
+// Unwrap the wallet key with a passkey's PRF output.
+// Only request an extractable key when it has to be re-wrapped for another passkey.
+export async function unwrapWalletKey(
+  prfOutput: ArrayBuffer,
+  wrappedHex: string,
+  extractable = false
+): Promise<CryptoKey> {
+  const wrappingKey = await derivePrfKey(prfOutput, WRAP_KEY_SALT, WRAP_KEY_INFO, false);
+  const combined = hexToBytes(wrappedHex);
+
+  return crypto.subtle.unwrapKey(
+    'raw',
+    combined.slice(12),
+    wrappingKey,
+    { name: 'AES-GCM', iv: combined.slice(0, 12) },
+    { name: 'AES-GCM', length: 256 },
+    extractable,
+    ['encrypt', 'decrypt']
+  );
+}
+
+// Check that a wallet key decrypts an existing ciphertext
+export async function canDecrypt(walletKey: CryptoKey, encryptedHex: string): Promise<boolean> {
+  try {
+    await decryptAESGCM(walletKey, encryptedHex);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 // Encrypt data with AES-GCM
 async function encryptAESGCM(key: CryptoKey, plaintext: string): Promise<string> {
   const iv = crypto.getRandomValues(new Uint8Array(12)); // 96-bit IV
@@ -142,59 +197,84 @@ async function decryptAESGCM(key: CryptoKey, encryptedHex: string): Promise<stri
 }
 
 // Wallet address types
+export type WalletChainType = 'evm' | 'svm' | 'btc' | 'tron' | 'ton';
+
 export interface WalletData {
-  chainType: 'evm' | 'svm' | 'btc' | 'tron' | 'ton';
+  chainType: WalletChainType;
   address: string;
   privateKeyEncrypted: string;
+  derivationPath: string | null;  // null for legacy wallets created from independent random keys
+  publicKey: string | null;       // compressed secp256k1 key for BTC or Ed25519 key for TON, so every address type can be shown
 }
 
-// Generate a single wallet
-async function generateWallet(
-  chainType: 'evm' | 'svm' | 'btc' | 'tron' | 'ton',
-  encryptionKey: CryptoKey
-): Promise<WalletData> {
-  // Generate 32 random bytes for private key
-  const privateKeyBytes = crypto.getRandomValues(new Uint8Array(32));
-  const privateKeyHex = bytesToHex(privateKeyBytes);
+// Standard derivation paths (account 0, first address) so the mnemonic restores in other wallets.
+// secp256k1 chains use BIP32; ed25519 chains (Solana, TON) use SLIP-0010, which only allows hardened indices.
+// BTC follows BIP84 (native SegWit); the same key also receives on P2PKH. It is not offered for
+// P2TR, which BIP86 derives from m/86', but P2TR outputs it already holds are spent.
+export const DERIVATION_PATHS: Record<WalletChainType, string> = {
+  evm: "m/44'/60'/0'/0/0",
+  svm: "m/44'/501'/0'/0'",
+  btc: "m/84'/0'/0'/0/0",
+  tron: "m/44'/195'/0'/0/0",
+  ton: "m/44'/607'/0'",
+};
+
+// SLIP-0010 ed25519 derivation (hardened indices only)
+function deriveEd25519Key(seed: Uint8Array, path: string): Uint8Array {
+  let I = hmac(sha512, new TextEncoder().encode('ed25519 seed'), seed);
+  let key = I.slice(0, 32);
+  let chainCode = I.slice(32);
+
+  for (const segment of path.split('/').slice(1)) {
+    if (!segment.endsWith("'")) {
+      throw new Error(`ed25519 derivation requires hardened path segments: ${path}`);
+    }
+    const index = (parseInt(segment.slice(0, -1), 10) + 0x80000000) >>> 0;
+    const data = new Uint8Array(37);
+    data[0] = 0x00;
+    data.set(key, 1);
+    new DataView(data.buffer).setUint32(33, index, false);
+    I = hmac(sha512, chainCode, data);
+    key.fill(0);
+    key = I.slice(0, 32);
+    chainCode = I.slice(32);
+  }
 
-  let address: string;
+  return key;
+}
+
+// Derive the private key for a chain from a BIP39 seed
+function deriveChainPrivateKey(seed: Uint8Array, chainType: WalletChainType): Uint8Array {
+  const path = DERIVATION_PATHS[chainType];
+  if (chainType === 'svm' || chainType === 'ton') {
+    return deriveEd25519Key(seed, path);
+  }
+  const node = HDKey.fromMasterSeed(seed).derive(path);
+  if (!node.privateKey) {
+    throw new Error(`Failed to derive ${chainType} key`);
+  }
+  return node.privateKey.slice();
+}
 
+// Compute the on-chain address for a private key
+function deriveAddress(chainType: WalletChainType, privateKeyBytes: Uint8Array): string {
   switch (chainType) {
     case 'evm': {
       // EVM: Keccak256 of uncompressed public key (without 04 prefix), take last 20 bytes
       const publicKey = secp256k1.getPublicKey(privateKeyBytes, false); // uncompressed
       const pubKeyNoPrefix = publicKey.slice(1); // remove 04 prefix
       const hash = keccak_256(pubKeyNoPrefix);
-      address = '0x' + bytesToHex(hash.slice(12)); // last 20 bytes
-      break;
+      return '0x' + bytesToHex(hash.slice(12)); // last 20 bytes
     }
     case 'svm': {
       // Solana: Ed25519 public key as base58
       const publicKey = ed25519.getPublicKey(privateKeyBytes);
-      address = base58Encode(publicKey);
-      break;
+      return base58Encode(publicKey);
     }
     case 'btc': {
-      // Bitcoin P2PKH: RIPEMD160(SHA256(compressed_pubkey)) with version 0x00
-      const publicKey = secp256k1.getPublicKey(privateKeyBytes, true); // compressed
-      const sha256Hash1 = sha256Hash(publicKey);
-      const pubKeyHash = ripemd160(sha256Hash1);
-
-      const versioned = new Uint8Array(21);
-      versioned[0] = 0x00; // mainnet
-      versioned.set(pubKeyHash, 1);
-
-      // Double SHA256 for checksum
-      const check1 = sha256Hash(versioned);
-      const check2 = sha256Hash(check1);
-      const checksum = check2.slice(0, 4);
-
-      const full = new Uint8Array(25);
-      full.set(versioned);
-      full.set(checksum, 21);
-
-      address = base58Encode(full);
-      break;
+      // Bitcoin native SegWit (P2WPKH); wallets created before SegWit support store their P2PKH address.
+      // Stored in mainnet form; testnet mode shows the same key's testnet encodings
+      return getAddressFromPublicKey(secp256k1.getPublicKey(privateKeyBytes, true), 'mainnet', 'p2wpkh');
     }
     case 'tron': {
       // TRON: Keccak256 of uncompressed public key, take last 20 bytes, prefix with 0x41
@@ -216,32 +296,52 @@ async function generateWallet(
       full.set(versioned);
       full.set(checksum, 21);
 
-      address = base58Encode(full);
-      break;
+      return base58Encode(full);
     }
     case 'ton': {
-      // TON: Ed25519 public key hash with workchain and bounceable flag
-      const publicKey = ed25519.getPublicKey(privateKeyBytes);
-      const hash = sha256Hash(publicKey);
-
-      const addressData = new Uint8Array(34);
-      addressData[0] = 0x11; // Bounceable
-      addressData[1] = 0x00; // Workchain 0
-      addressData.set(hash, 2);
+      // TON: wallet v4R2 contract address (StateInit hash), non-bounceable, workchain 0
+      return getTonAddressFromPublicKey(ed25519.getPublicKey(privateKeyBytes));
+    }
+  }
+}
 
-      const crc = crc16(addressData);
-      const full = new Uint8Array(36);
-      full.set(addressData);
-      full[34] = (crc >> 8) & 0xff;
-      full[35] = crc & 0xff;
+// Public key stored alongside the address: BTC derives its address types from it, TON its wallet contract addresses
+function derivePublicKey(chainType: WalletChainType, privateKeyBytes: Uint8Array): string | null {
+  if (chainType === 'btc') {
+    return bytesToHex(secp256k1.getPublicKey(privateKeyBytes, true));
+  }
+  if (chainType === 'ton') {
+    return bytesToHex(ed25519.getPublicKey(privateKeyBytes));
+  }
+  return null;
+}
 
-      address = base64UrlEncode(full);
-      break;
-    }
+// Check a private key against a stored address; BTC wallets may store any of their address types,
+// TON wallets any wallet contract address or the address earlier versions derived
+function keyMatchesAddress(chainType: WalletChainType, privateKeyBytes: Uint8Array, address: string): boolean {
+  if (chainType === 'btc') {
+    return Object.values(getAddressesFromPublicKey(secp256k1.getPublicKey(privateKeyBytes, true))).includes(address);
+  }
+  if (chainType === 'ton') {
+    const publicKey = ed25519.getPublicKey(privateKeyBytes);
+    return [...Object.values(getTonAddressesFromPublicKey(publicKey)), getLegacyTonAddressFromPublicKey(publicKey)]
+      .some(candidate => isSameTonAddress(candidate, address));
   }
+  return deriveAddress(chainType, privateKeyBytes) === address;
+}
 
-  // Encrypt private key with PRF-derived key
-  const privateKeyEncrypted = await encryptAESGCM(encryptionKey, privateKeyHex);
+// Derive a single wallet from the BIP39 seed
+async function generateWallet(
+  chainType: WalletChainType,
+  walletKey: CryptoKey,
+  seed: Uint8Array
+): Promise<WalletData> {
+  const privateKeyBytes = deriveChainPrivateKey(seed, chainType);
+  const address = deriveAddress(chainType, privateKeyBytes);
+  const publicKey = derivePublicKey(chainType, privateKeyBytes);
+
+  // Encrypt private key with the wallet key
+  const privateKeyEncrypted = await encryptAESGCM(walletKey, bytesToHex(privateKeyBytes));
 
   // Zero out private key bytes
   privateKeyBytes.fill(0);
@@ -249,36 +349,450 @@ async function generateWallet(
   return {
     chainType,
     address,
-    privateKeyEncrypted
+    privateKeyEncrypted,
+    derivationPath: DERIVATION_PATHS[chainType],
+    publicKey
   };
 }
 
-// Generate all wallets client-side
-export async function generateAllWallets(prfOutput: ArrayBuffer): Promise<WalletData[]> {
-  return generateWalletsForChains(prfOutput, ['evm', 'svm', 'btc', 'tron', 'ton']);
+// Generate a new 24-word BIP39 mnemonic
+export function generateMnemonic(): string {
+  return bip39GenerateMnemonic(wordlist, 256);
+}
+
+// Encrypt a mnemonic with the wallet key for storage in wallet_seeds
+export async function encryptMnemonic(walletKey: CryptoKey, mnemonic: string): Promise<string> {
+  return encryptAESGCM(walletKey, mnemonic);
 }
 
-// Generate wallets for specific chain types only
+// Decrypt a stored mnemonic with the wallet key
+export async function decryptMnemonic(walletKey: CryptoKey, encryptedHex: string): Promise<string> {
+  return decryptAESGCM(walletKey, encryptedHex);
+}
+
+// Derive wallets for all chain types from a mnemonic
+export async function generateAllWallets(walletKey: CryptoKey, mnemonic: string): Promise<WalletData[]> {
+  return generateWalletsForChains(walletKey, mnemonic, ['evm', 'svm', 'btc', 'tron', 'ton']);
+}
+
+// Derive wallets for specific chain types only
 export async function generateWalletsForChains(
-  prfOutput: ArrayBuffer,
-  chainTypes: Array<'evm' | 'svm' | 'btc' | 'tron' | 'ton'>
+  walletKey: CryptoKey,
+  mnemonic: string,
+  chainTypes: WalletChainType[]
 ): Promise<WalletData[]> {
-  const encryptionKey = await deriveEncryptionKey(prfOutput);
+  const seed = await mnemonicToSeed(mnemonic);
+
+  try {
+    return await Promise.all(
+      chainTypes.map(chainType => generateWallet(chainType, walletKey, seed))
+    );
+  } finally {
+    seed.fill(0);
+  }
+}
+
+// Decrypt a private key with the wallet key
+export async function decryptPrivateKey(
+  walletKey: CryptoKey,
+  encryptedHex: string
+): Promise<string> {
+  return decryptAESGCM(walletKey, encryptedHex);
+}
+
+// Public key of a stored wallet, checked against its address (fills in keys for wallets created before address types)
+export async function recoverWalletPublicKey(
+  walletKey: CryptoKey,
+  wallet: { chainType: WalletChainType; address: string; privateKeyEncrypted: string }
+): Promise<string | null> {
+  const privateKeyBytes = hexToBytes(await decryptAESGCM(walletKey, wallet.privateKeyEncrypted));
+  try {
+    if (!keyMatchesAddress(wallet.chainType, privateKeyBytes, wallet.address)) {
+      throw new Error(`Stored key does not match the ${wallet.chainType} address ${wallet.address}`);
+    }
+    return derivePublicKey(wallet.chainType, privateKeyBytes);
+  } finally {
+    privateKeyBytes.fill(0);
+  }
+}
+
+// ============================================================================
+// Passphrase-encrypted backups
+// ============================================================================
+
+export const BACKUP_FORMAT = 'stratos-wallet-backup';
+export const BACKUP_VERSION = 1;
+
+// scrypt cost for new backups; restore accepts any N up to BACKUP_MAX_SCRYPT_N
+const BACKUP_SCRYPT = { N: 2 ** 17, r: 8, p: 1 };
+const BACKUP_MAX_SCRYPT_N = 2 ** 20;
+
+export interface WalletBackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  kdf: { name: 'scrypt'; N: number; r: number; p: number; salt: string };
+  cipher: 'aes-256-gcm';
+  data: string;  // hex(IV + ciphertext) of the JSON-encoded WalletBackupContents
+}
+
+export interface WalletBackupContents {
+  mnemonic: string | null;
+  wallets: Array<{
+    chainType: WalletChainType;
+    address: string;
+    derivationPath: string | null;
+    privateKey?: string;  // only for wallets not derived from the mnemonic
+  }>;
+}
 
-  const wallets = await Promise.all(
-    chainTypes.map(chainType => generateWallet(chainType, encryptionKey))
+// Stored wallet as returned by /api/wallet/backup
+export interface StoredWallet {
+  chainType: WalletChainType;
+  address: string;
+  privateKeyEncrypted: string;
+  derivationPath: string | null;
+}
+
+async function deriveBackupKey(
+  passphrase: string,
+  kdf: { N: number; r: number; p: number; salt: string }
+): Promise<CryptoKey> {
+  const keyBytes = await scryptAsync(
+    new TextEncoder().encode(passphrase.normalize('NFKD')),
+    hexToBytes(kdf.salt),
+    { N: kdf.N, r: kdf.r, p: kdf.p, dkLen: 32 }
   );
+  try {
+    return await crypto.subtle.importKey('raw', new Uint8Array(keyBytes), 'AES-GCM', false, ['encrypt', 'decrypt']);
+  } finally {
+    keyBytes.fill(0);
+  }
+}
 
-  return wallets;
+/**
+ * Decrypt the seed and chain keys with the wallet key and re-encrypt them under
+ * a passphrase. Wallets derived from the seed are stored by path only.
+ */
+export async function createWalletBackup(
+  walletKey: CryptoKey,
+  seedEncrypted: string | null,
+  wallets: StoredWallet[],
+  passphrase: string
+): Promise<WalletBackupFile> {
+  const contents: WalletBackupContents = {
+    mnemonic: seedEncrypted ? await decryptAESGCM(walletKey, seedEncrypted) : null,
+    wallets: []
+  };
+  for (const wallet of wallets) {
+    const derived = contents.mnemonic !== null && wallet.derivationPath !== null;
+    contents.wallets.push({
+      chainType: wallet.chainType,
+      address: wallet.address,
+      derivationPath: wallet.derivationPath,
+      privateKey: derived ? undefined : await decryptAESGCM(walletKey, wallet.privateKeyEncrypted)
+    });
+  }
+
+  const kdf = { name: 'scrypt' as const, ...BACKUP_SCRYPT, salt: bytesToHex(crypto.getRandomValues(new Uint8Array(16))) };
+  const backupKey = await deriveBackupKey(passphrase, kdf);
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    kdf,
+    cipher: 'aes-256-gcm',
+    data: await encryptAESGCM(backupKey, JSON.stringify(contents))
+  };
 }
 
-// Decrypt a private key using PRF output
-export async function decryptPrivateKey(
-  prfOutput: ArrayBuffer,
-  encryptedHex: string
+/**
+ * Check a backup file's format and decrypt it with the passphrase
+ */
+export async function openWalletBackup(file: unknown, passphrase: string): Promise<WalletBackupContents> {
+  const backup = file as Partial<WalletBackupFile> | null;
+  if (!backup || backup.format !== BACKUP_FORMAT) {
+    throw new Error('Not a wallet backup file');
+  }
+  if (backup.version !== BACKUP_VERSION) {
+    throw new Error(`Unsupported backup version ${backup.version}`);
+  }
+  const kdf = backup.kdf;
+  if (!kdf || kdf.name !== 'scrypt' || !kdf.salt || !(kdf.N > 1) || kdf.N > BACKUP_MAX_SCRYPT_N || !(kdf.r > 0) || !(kdf.p > 0)) {
+    throw new Error('Backup has invalid key derivation parameters');
+  }
+  if (backup.cipher !== 'aes-256-gcm' || !backup.data) {
+    throw new Error('Backup has an unsupported cipher');
+  }
+
+  const backupKey = await deriveBackupKey(passphrase, kdf);
+  let plaintext: string;
+  try {
+    plaintext = await decryptAESGCM(backupKey, backup.data);
+  } catch {
+    throw new Error('Wrong passphrase or corrupted backup');
+  }
+  return JSON.parse(plaintext) as WalletBackupContents;
+}
+
+/**
+ * Re-encrypt a decrypted backup under a wallet key. Every key is checked
+ * against the address it was backed up with before it is accepted.
+ */
+export async function restoreWalletsFromBackup(
+  walletKey: CryptoKey,
+  contents: WalletBackupContents
+): Promise<{ seedEncrypted: string | null; wallets: WalletData[] }> {
+  const seed = contents.mnemonic ? await mnemonicToSeed(contents.mnemonic) : null;
+  const wallets: WalletData[] = [];
+
+  try {
+    for (const wallet of contents.wallets) {
+      if (!(wallet.chainType in DERIVATION_PATHS)) {
+        throw new Error(`Backup contains an unknown chain type: ${wallet.chainType}`);
+      }
+      let privateKeyBytes: Uint8Array;
+      if (wallet.privateKey) {
+        privateKeyBytes = hexToBytes(wallet.privateKey);
+      } else if (seed && wallet.derivationPath) {
+        privateKeyBytes = deriveChainPrivateKey(seed, wallet.chainType);
+      } else {
+        throw new Error(`Backup has no key for the ${wallet.chainType} wallet`);
+      }
+
+      try {
+        if (!keyMatchesAddress(wallet.chainType, privateKeyBytes, wallet.address)) {
+          throw new Error(`Backup key does not match the ${wallet.chainType} address ${wallet.address}`);
+        }
+        wallets.push({
+          chainType: wallet.chainType,
+          address: wallet.address,
+          privateKeyEncrypted: await encryptAESGCM(walletKey, bytesToHex(privateKeyBytes)),
+          derivationPath: wallet.privateKey ? wallet.derivationPath : DERIVATION_PATHS[wallet.chainType],
+          publicKey: derivePublicKey(wallet.chainType, privateKeyBytes)
+        });
+      } finally {
+        privateKeyBytes.fill(0);
+      }
+    }
+  } finally {
+    seed?.fill(0);
+  }
+
+  return {
+    seedEncrypted: contents.mnemonic ? await encryptAESGCM(walletKey, contents.mnemonic) : null,
+    wallets
+  };
+}
+
+// ============================================================================
+// Social recovery (Shamir shares of the wallet key, encrypted to guardians)
+// ============================================================================
+
+// GF(256) log/exp tables over the AES polynomial x^8 + x^4 + x^3 + x + 1, generator 3
+const GF_EXP = new Uint8Array(510);
+const GF_LOG = new Uint8Array(256);
+(() => {
+  let x = 1;
+  for (let i = 0; i < 255; i++) {
+    GF_EXP[i] = x;
+    GF_LOG[x] = i;
+    x ^= ((x << 1) ^ (x & 0x80 ? 0x1b : 0)) & 0xff;
+  }
+  for (let i = 255; i < 510; i++) {
+    GF_EXP[i] = GF_EXP[i - 255];
+  }
+})();
+
+function gfMul(a: number, b: number): number {
+  return a && b ? GF_EXP[GF_LOG[a] + GF_LOG[b]] : 0;
+}
+
+function gfDiv(a: number, b: number): number {
+  return a ? GF_EXP[GF_LOG[a] + 255 - GF_LOG[b]] : 0;
+}
+
+/**
+ * Split a secret into `count` shares, any `threshold` of which recover it.
+ * Each share is [x, y_0, y_1, ...] with x in 1..count.
+ */
+export function splitSecret(secret: Uint8Array, threshold: number, count: number): Uint8Array[] {
+  if (threshold < 1 || threshold > count || count > 255) {
+    throw new Error('Invalid share threshold');
+  }
+  const shares = Array.from({ length: count }, (_, i) => {
+    const share = new Uint8Array(secret.length + 1);
+    share[0] = i + 1;
+    return share;
+  });
+  const coefficients = new Uint8Array(threshold);
+  for (let byte = 0; byte < secret.length; byte++) {
+    coefficients[0] = secret[byte];
+    crypto.getRandomValues(coefficients.subarray(1));
+    for (const share of shares) {
+      // Horner evaluation of the polynomial at x
+      let y = 0;
+      for (let c = threshold - 1; c >= 0; c--) {
+        y = gfMul(y, share[0]) ^ coefficients[c];
+      }
+      share[byte + 1] = y;
+    }
+  }
+  coefficients.fill(0);
+  return shares;
+}
+
+// Recover a secret from at least `threshold` shares by Lagrange interpolation at x = 0
+export function combineShares(shares: Uint8Array[]): Uint8Array {
+  if (shares.length === 0 || new Set(shares.map(s => s[0])).size !== shares.length) {
+    throw new Error('Shares must be distinct');
+  }
+  const secret = new Uint8Array(shares[0].length - 1);
+  for (let byte = 0; byte < secret.length; byte++) {
+    let value = 0;
+    for (const share of shares) {
+      let num = 1;
+      let den = 1;
+      for (const other of shares) {
+        if (other === share) continue;
+        num = gfMul(num, other[0]);
+        den = gfMul(den, other[0] ^ share[0]);
+      }
+      value ^= gfMul(share[byte + 1], gfDiv(num, den));
+    }
+    secret[byte] = value;
+  }
+  return secret;
+}
+
+const RECOVERY_SHARE_SALT = new TextEncoder().encode('canton-wallet-recovery-share');
+const RECOVERY_SHARE_INFO = new TextEncoder().encode('share');
+
+async function importEcdhPrivateKey(pkcs8: Uint8Array): Promise<CryptoKey> {
+  return crypto.subtle.importKey('pkcs8', pkcs8.slice(), { name: 'ECDH', namedCurve: 'P-256' }, false, ['deriveBits']);
+}
+
+// AES key shared between an ECDH private key and the other side's public key
+async function deriveShareKey(privateKey: CryptoKey, publicKeyBytes: Uint8Array): Promise<CryptoKey> {
+  const publicKey = await crypto.subtle.importKey(
+    'raw',
+    publicKeyBytes.slice(),
+    { name: 'ECDH', namedCurve: 'P-256' },
+    false,
+    []
+  );
+  const sharedSecret = await crypto.subtle.deriveBits({ name: 'ECDH', public: publicKey }, privateKey, 256);
+  const keyMaterial = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: RECOVERY_SHARE_SALT, info: RECOVERY_SHARE_INFO },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+// Encrypt a share to a P-256 public key, returning hex(ephemeral public key + IV + ciphertext)
+async function encryptShare(publicKeyHex: string, share: Uint8Array): Promise<string> {
+  const ephemeral = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, false, ['deriveBits']);
+  const ephemeralPublic = new Uint8Array(await crypto.subtle.exportKey('raw', ephemeral.publicKey));
+  const key = await deriveShareKey(ephemeral.privateKey, hexToBytes(publicKeyHex));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, share.slice()));
+
+  const combined = new Uint8Array(ephemeralPublic.length + iv.length + ciphertext.length);
+  combined.set(ephemeralPublic);
+  combined.set(iv, ephemeralPublic.length);
+  combined.set(ciphertext, ephemeralPublic.length + iv.length);
+  return bytesToHex(combined);
+}
+
+async function decryptShare(privateKey: CryptoKey, encryptedHex: string): Promise<Uint8Array> {
+  const combined = hexToBytes(encryptedHex);
+  const key = await deriveShareKey(privateKey, combined.slice(0, 65));
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: combined.slice(65, 77) },
+    key,
+    combined.slice(77)
+  );
+  return new Uint8Array(plaintext);
+}
+
+// Generate a P-256 key pair as hex (uncompressed public key, PKCS#8 private key)
+async function generateEcdhKeyPair(): Promise<{ publicKey: string; privateKey: string }> {
+  const pair = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']);
+  const publicKey = new Uint8Array(await crypto.subtle.exportKey('raw', pair.publicKey));
+  const privateKey = new Uint8Array(await crypto.subtle.exportKey('pkcs8', pair.privateKey));
+  try {
+    return { publicKey: bytesToHex(publicKey), privateKey: bytesToHex(privateKey) };
+  } finally {
+    privateKey.fill(0);
+  }
+}
+
+// Create the user's guardian key pair; the private key is encrypted under the wallet key
+export async function generateGuardianKey(walletKey: CryptoKey): Promise<{ publicKey: string; privateKeyEncrypted: string }> {
+  const { publicKey, privateKey } = await generateEcdhKeyPair();
+  return { publicKey, privateKeyEncrypted: await encryptAESGCM(walletKey, privateKey) };
+}
+
+// Generate the key pair a recovering device keeps until its recovery completes
+export async function generateRecoveryKey(): Promise<{ publicKey: string; privateKey: string }> {
+  return generateEcdhKeyPair();
+}
+
+/**
+ * Split the wallet key (must be extractable) into one share per guardian,
+ * each encrypted to that guardian's public key, in the order given.
+ */
+export async function splitWalletKey(
+  walletKey: CryptoKey,
+  threshold: number,
+  guardianPublicKeys: string[]
+): Promise<string[]> {
+  const raw = new Uint8Array(await crypto.subtle.exportKey('raw', walletKey));
+  const shares = splitSecret(raw, threshold, guardianPublicKeys.length);
+  raw.fill(0);
+  try {
+    return await Promise.all(shares.map((share, i) => encryptShare(guardianPublicKeys[i], share)));
+  } finally {
+    shares.forEach(share => share.fill(0));
+  }
+}
+
+// As a guardian, decrypt a share held for another user and re-encrypt it to a recovering device
+export async function reencryptShare(
+  walletKey: CryptoKey,
+  guardianPrivateKeyEncrypted: string,
+  encryptedShare: string,
+  recoveryPublicKey: string
 ): Promise<string> {
-  const encryptionKey = await deriveEncryptionKey(prfOutput);
-  return decryptAESGCM(encryptionKey, encryptedHex);
+  const privateKeyBytes = hexToBytes(await decryptAESGCM(walletKey, guardianPrivateKeyEncrypted));
+  const guardianKey = await importEcdhPrivateKey(privateKeyBytes);
+  privateKeyBytes.fill(0);
+
+  const share = await decryptShare(guardianKey, encryptedShare);
+  try {
+    return await encryptShare(recoveryPublicKey, share);
+  } finally {
+    share.fill(0);
+  }
+}
+
+// Combine guardian shares on the recovering device into an extractable wallet key
+export async function recoverWalletKey(recoveryPrivateKey: string, encryptedShares: string[]): Promise<CryptoKey> {
+  const privateKeyBytes = hexToBytes(recoveryPrivateKey);
+  const privateKey = await importEcdhPrivateKey(privateKeyBytes);
+  privateKeyBytes.fill(0);
+
+  const shares = await Promise.all(encryptedShares.map(share => decryptShare(privateKey, share)));
+  const raw = combineShares(shares);
+  shares.forEach(share => share.fill(0));
+  try {
+    return await crypto.subtle.importKey('raw', raw.slice(), { name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+  } finally {
+    raw.fill(0);
+  }
 }
 
 // Get PRF extension options for WebAuthn
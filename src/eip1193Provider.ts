@@ -0,0 +1,318 @@
+/**
+ * EIP-1193 Provider for docked apps
+ *
+ * Runs inside an app's iframe and maps the standard Ethereum provider API
+ * onto WalletBridge requests, so dapps built on ethers, viem or wagmi work
+ * without using the Stratos Wallet SDK directly. The provider is announced
+ * with EIP-6963 and installed as window.ethereum when the page has none.
+ */
+
+import type { ConnectionState, EIP712TypedData, EVMTransactionRequest, SendEVMTransactionResult, WalletResponse } from './walletBridge';
+
+export interface RequestArguments {
+  method: string;
+  params?: unknown[] | Record<string, unknown>;
+}
+
+export interface EIP6963ProviderInfo {
+  uuid: string;
+  name: string;
+  icon: string;  // data URI
+  rdns: string;
+}
+
+export class ProviderRpcError extends Error {
+  code: number;
+
+  constructor(code: number, message: string) {
+    super(message);
+    this.name = 'ProviderRpcError';
+    this.code = code;
+  }
+}
+
+// Transaction fields accepted by eth_sendTransaction
+interface RpcTransaction {
+  from?: string;
+  to?: string;
+  value?: string;
+  data?: string;
+  input?: string;
+  gas?: string;
+  gasPrice?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  nonce?: string;
+}
+
+type Listener = (...args: unknown[]) => void;
+
+// Scopes the provider asks for on eth_requestAccounts; personal_sign goes through signMessage
+const PROVIDER_SCOPES = ['read_addresses', 'sign_evm', 'sign_message'];
+
+const DEFAULT_INFO: Omit<EIP6963ProviderInfo, 'uuid'> = {
+  name: 'Stratos Wallet',
+  icon: 'data:image/svg+xml,%3Csvg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 32 32"%3E%3Crect width="32" height="32" rx="8" fill="%236d28d9"/%3E%3Cpath d="M21 11.5c-1-1.3-2.9-2-5-2-2.8 0-4.8 1.4-4.8 3.4 0 4.6 9.8 2.4 9.8 6.9 0 2-2.1 3.7-5 3.7-2.3 0-4.2-.8-5.2-2.2" stroke="white" stroke-width="2.4" fill="none" stroke-linecap="round"/%3E%3C/svg%3E',
+  rdns: 'com.cantondefi.wallet',
+};
+
+function toHexChainId(chainId: number): string {
+  return '0x' + chainId.toString(16);
+}
+
+function paramsArray(params: RequestArguments['params']): unknown[] {
+  return Array.isArray(params) ? params : [];
+}
+
+export class StratosEthereumProvider {
+  readonly isStratos = true;
+  private walletOrigin: string;
+  private pending: Map<string, { resolve: (value: unknown) => void; reject: (error: Error) => void }> = new Map();
+  private listeners: Map<string, Set<Listener>> = new Map();
+  private accounts: string[] = [];
+  private chainId: number | null = null;
+  private nextId = 0;
+
+  constructor(walletOrigin: string) {
+    this.walletOrigin = walletOrigin;
+    window.addEventListener('message', this.handleMessage.bind(this));
+  }
+
+  /**
+   * EIP-1193 request
+   */
+  async request(args: RequestArguments): Promise<unknown> {
+    const params = paramsArray(args.params);
+
+    switch (args.method) {
+      case 'eth_requestAccounts': {
+        const state = await this.call('connect', { scopes: PROVIDER_SCOPES }) as ConnectionState;
+        const evm = state.addresses.find(a => a.chainType === 'evm');
+        if (!evm) {
+          throw new ProviderRpcError(4100, 'The wallet has no EVM address');
+        }
+        this.setAccounts([evm.address]);
+        return this.accounts;
+      }
+
+      case 'eth_accounts':
+        return this.getAccounts();
+
+      case 'eth_chainId':
+        return toHexChainId(await this.getChainId());
+
+      case 'net_version':
+        return String(await this.getChainId());
+
+      case 'eth_sendTransaction': {
+        const tx = (params[0] || {}) as RpcTransaction;
+        await this.requireAccount(tx.from);
+        if (!tx.to) {
+          throw new ProviderRpcError(4200, 'Contract deployment is not supported');
+        }
+        const transaction: EVMTransactionRequest = {
+          to: tx.to,
+          value: tx.value,
+          data: tx.data ?? tx.input,
+          gasLimit: tx.gas,
+          gasPrice: tx.gasPrice,
+          maxFeePerGas: tx.maxFeePerGas,
+          maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+          nonce: tx.nonce !== undefined ? parseInt(tx.nonce, 16) : undefined,
+          chainId: await this.getChainId(),
+        };
+        const result = await this.call('sendEVMTransaction', { transaction }) as SendEVMTransactionResult;
+        return result.transactionHash;
+      }
+
+      case 'personal_sign': {
+        const [message, address] = params as [string, string | undefined];
+        await this.requireAccount(address);
+        const encoding = /^0x([0-9a-fA-F]{2})*$/.test(message) ? 'hex' : 'utf8';
+        return this.call('signMessage', { message, chain: 'evm', encoding });
+      }
+
+      case 'eth_signTypedData_v4': {
+        const [address, data] = params as [string, string | EIP712TypedData];
+        await this.requireAccount(address);
+        const typedData = typeof data === 'string' ? JSON.parse(data) as EIP712TypedData : data;
+        return this.call('signTypedData', { typedData });
+      }
+
+      case 'wallet_switchEthereumChain': {
+        const { chainId } = (params[0] || {}) as { chainId?: string };
+        if (!chainId) {
+          throw new ProviderRpcError(-32602, 'chainId is required');
+        }
+        const id = parseInt(chainId, 16);
+        await this.call('switchEVMChain', { chainId: id });
+        this.setChainId(id);
+        return null;
+      }
+
+      default:
+        // The wallet only forwards read-only methods; anything else fails with 4200
+        return this.call('ethRpc', { method: args.method, params, chainId: await this.getChainId() });
+    }
+  }
+
+  on(event: string, listener: Listener): this {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(listener);
+    return this;
+  }
+
+  removeListener(event: string, listener: Listener): this {
+    this.listeners.get(event)?.delete(listener);
+    return this;
+  }
+
+  private emit(event: string, ...args: unknown[]): void {
+    this.listeners.get(event)?.forEach(listener => {
+      try {
+        listener(...args);
+      } catch (error) {
+        console.error(`[StratosProvider] ${event} listener failed:`, error);
+      }
+    });
+  }
+
+  /**
+   * Accounts the app has been granted, or none before eth_requestAccounts
+   */
+  private async getAccounts(): Promise<string[]> {
+    if (this.accounts.length === 0) {
+      try {
+        this.setAccounts([await this.call('getAddress', { chain: 'evm' }) as string]);
+      } catch {
+        return [];
+      }
+    }
+    return this.accounts;
+  }
+
+  /**
+   * Reject requests for an account other than the wallet's
+   */
+  private async requireAccount(address: string | undefined): Promise<void> {
+    const accounts = await this.getAccounts();
+    if (accounts.length === 0) {
+      throw new ProviderRpcError(4100, 'Call eth_requestAccounts first');
+    }
+    if (address && address.toLowerCase() !== accounts[0].toLowerCase()) {
+      throw new ProviderRpcError(4100, `Unknown account: ${address}`);
+    }
+  }
+
+  private async getChainId(): Promise<number> {
+    if (this.chainId === null) {
+      this.chainId = await this.call('getEVMChainId') as number;
+    }
+    return this.chainId;
+  }
+
+  private setAccounts(accounts: string[]): void {
+    const changed = accounts.length !== this.accounts.length
+      || accounts.some((account, i) => account.toLowerCase() !== this.accounts[i].toLowerCase());
+    this.accounts = accounts;
+    if (changed) {
+      this.emit('accountsChanged', accounts);
+    }
+  }
+
+  private setChainId(chainId: number): void {
+    const previous = this.chainId;
+    this.chainId = chainId;
+    if (previous !== null && previous !== chainId) {
+      this.emit('chainChanged', toHexChainId(chainId));
+    }
+  }
+
+  /**
+   * Send a request to the wallet and wait for its response
+   */
+  private call(method: string, params?: unknown): Promise<unknown> {
+    const id = `eip1193-${Date.now()}-${this.nextId++}`;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      window.parent.postMessage({ id, method, params }, this.walletOrigin);
+    });
+  }
+
+  /**
+   * Handle responses and events from the wallet
+   */
+  private handleMessage(event: MessageEvent): void {
+    if (event.source !== window.parent || event.origin !== this.walletOrigin) {
+      return;
+    }
+
+    const data = event.data as WalletResponse | { type: 'event'; event: string; data: unknown };
+    if (!data || typeof data !== 'object') {
+      return;
+    }
+
+    if ('type' in data && data.type === 'event') {
+      if (data.event === 'accountsChanged') {
+        this.setAccounts(data.data as string[]);
+      } else if (data.event === 'chainChanged') {
+        this.setChainId(data.data as number);
+      }
+      return;
+    }
+
+    if ('id' in data) {
+      const request = this.pending.get(data.id);
+      if (!request) return;
+      this.pending.delete(data.id);
+      if (data.error) {
+        request.reject(new ProviderRpcError(data.error.code, data.error.message));
+      } else {
+        request.resolve(data.result);
+      }
+    }
+  }
+}
+
+/**
+ * Announce a provider to dapps using EIP-6963 discovery
+ */
+export function announceProvider(provider: StratosEthereumProvider, info: EIP6963ProviderInfo): void {
+  const detail = Object.freeze({ info: Object.freeze({ ...info }), provider });
+  const announce = () => window.dispatchEvent(new CustomEvent('eip6963:announceProvider', { detail }));
+  window.addEventListener('eip6963:requestProvider', announce);
+  announce();
+}
+
+/**
+ * Create the provider for an app docked in the wallet, announce it and set
+ * window.ethereum if no other wallet has. Returns null outside an iframe.
+ *
+ * @param walletOrigin Origin of the wallet page; defaults to the embedding page
+ */
+export function installProvider(
+  walletOrigin?: string,
+  info: Partial<EIP6963ProviderInfo> = {}
+): StratosEthereumProvider | null {
+  if (window.parent === window) {
+    return null;
+  }
+
+  const origin = walletOrigin
+    || window.location.ancestorOrigins?.[0]
+    || (document.referrer ? new URL(document.referrer).origin : null);
+  if (!origin) {
+    throw new Error('Cannot determine the wallet origin; pass it to installProvider');
+  }
+
+  const provider = new StratosEthereumProvider(origin);
+  announceProvider(provider, { uuid: crypto.randomUUID(), ...DEFAULT_INFO, ...info });
+
+  const host = window as unknown as { ethereum?: unknown };
+  if (!host.ethereum) {
+    host.ethereum = provider;
+  }
+  return provider;
+}
@@ -0,0 +1,168 @@
+/**
+ * ERC-20 Allowance Scanner
+ *
+ * Finds the token allowances an EVM address has granted by reading its
+ * Approval logs, then checks each token/spender pair's current allowance()
+ * so only live approvals are listed. Revoking sets the allowance to 0 with
+ * an approve() call signed through evmSigner.
+ */
+
+import { rpcCall, getTokenBalance, getTokenMetadata } from './evmSigner';
+import type { EVMTransaction } from './evmSigner';
+
+// ERC20 Approval event topic: keccak256("Approval(address,address,uint256)")
+const APPROVAL_EVENT_TOPIC = '0x8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925';
+
+// Allowances at or above 2^255 are treated as unlimited (max uint256, less whatever was spent)
+const UNLIMITED_THRESHOLD = 1n << 255n;
+
+// When a node refuses a full-history eth_getLogs, scan back this far in chunks instead
+const LOG_CHUNK_BLOCKS = 50_000;
+const FALLBACK_SCAN_BLOCKS = 1_000_000;
+
+export type AllowanceRisk = 'unlimited' | 'exceeds_balance' | 'eoa_spender';
+
+export const ALLOWANCE_RISK_LABELS: Record<AllowanceRisk, string> = {
+  unlimited: 'Unlimited',
+  exceeds_balance: 'More than balance',
+  eoa_spender: 'Spender is not a contract',
+};
+
+export interface TokenAllowance {
+  chainId: number;
+  token: string;
+  tokenSymbol: string | null;
+  tokenDecimals: number | null;
+  spender: string;
+  allowance: bigint;
+  risks: AllowanceRisk[];
+  lastApprovedBlock: number;
+}
+
+export interface AllowanceScan {
+  allowances: TokenAllowance[];
+  // First block whose logs were read; 0 when the whole history was scanned
+  fromBlock: number;
+}
+
+function padAddress(address: string): string {
+  return '0x' + address.slice(2).toLowerCase().padStart(64, '0');
+}
+
+async function ethCall(chainId: number, to: string, data: string): Promise<string> {
+  return await rpcCall(chainId, 'eth_call', [{ to, data }, 'latest']);
+}
+
+async function isContract(chainId: number, address: string): Promise<boolean> {
+  const code = await rpcCall(chainId, 'eth_getCode', [address, 'latest']);
+  return typeof code === 'string' && code !== '0x';
+}
+
+/**
+ * Read the owner's Approval logs, over the whole history if the node allows
+ * it and otherwise over the most recent FALLBACK_SCAN_BLOCKS blocks
+ */
+async function getApprovalLogs(chainId: number, owner: string): Promise<{ logs: any[]; fromBlock: number }> {
+  const topics = [APPROVAL_EVENT_TOPIC, padAddress(owner)];
+
+  try {
+    const logs = await rpcCall(chainId, 'eth_getLogs', [{ fromBlock: 'earliest', toBlock: 'latest', topics }]);
+    return { logs: logs || [], fromBlock: 0 };
+  } catch {
+    // Most hosted nodes cap the block range; fall through to chunked reads
+  }
+
+  const latest = parseInt(await rpcCall(chainId, 'eth_blockNumber', []), 16);
+  const fromBlock = Math.max(0, latest - FALLBACK_SCAN_BLOCKS + 1);
+  const logs: any[] = [];
+  for (let start = fromBlock; start <= latest; start += LOG_CHUNK_BLOCKS) {
+    const end = Math.min(start + LOG_CHUNK_BLOCKS - 1, latest);
+    const chunk = await rpcCall(chainId, 'eth_getLogs', [{
+      fromBlock: '0x' + start.toString(16),
+      toBlock: '0x' + end.toString(16),
+      topics
+    }]);
+    logs.push(...(chunk || []));
+  }
+  return { logs, fromBlock };
+}
+
+/**
+ * List the owner's live ERC-20 allowances on a chain, riskiest first
+ *
+ * @param chainId Chain to scan
+ * @param owner Address that granted the allowances
+ */
+export async function scanAllowances(chainId: number, owner: string): Promise<AllowanceScan> {
+  const { logs, fromBlock } = await getApprovalLogs(chainId, owner);
+
+  // Latest approval per token and spender. ERC-721 Approval logs share the
+  // topic but index the token ID as a fourth topic, so they are skipped.
+  const pairs = new Map<string, { token: string; spender: string; block: number }>();
+  for (const log of logs) {
+    if (!log.topics || log.topics.length !== 3) continue;
+    const token = (log.address as string).toLowerCase();
+    const spender = '0x' + (log.topics[2] as string).slice(26).toLowerCase();
+    const block = parseInt(log.blockNumber, 16);
+    const key = `${token}:${spender}`;
+    const existing = pairs.get(key);
+    if (!existing || block > existing.block) {
+      pairs.set(key, { token, spender, block });
+    }
+  }
+
+  // Current allowance(owner, spender) for every pair
+  const ownerWord = padAddress(owner).slice(2);
+  const current = await Promise.all([...pairs.values()].map(async pair => {
+    const result = await ethCall(chainId, pair.token, '0xdd62ed3e' + ownerWord + padAddress(pair.spender).slice(2));
+    return { ...pair, allowance: BigInt(result || '0x0') };
+  }));
+  const live = current.filter(pair => pair.allowance > 0n);
+
+  const tokens = [...new Set(live.map(pair => pair.token))];
+  const spenders = [...new Set(live.map(pair => pair.spender))];
+  const [metadata, balances, contracts] = await Promise.all([
+    Promise.all(tokens.map(token => getTokenMetadata(chainId, token))),
+    Promise.all(tokens.map(token => getTokenBalance(token, owner, chainId))),
+    Promise.all(spenders.map(spender => isContract(chainId, spender).catch(() => true))),
+  ]);
+
+  const allowances: TokenAllowance[] = live.map(pair => {
+    const tokenIndex = tokens.indexOf(pair.token);
+    const risks: AllowanceRisk[] = [];
+    if (pair.allowance >= UNLIMITED_THRESHOLD) {
+      risks.push('unlimited');
+    } else if (pair.allowance > balances[tokenIndex]) {
+      risks.push('exceeds_balance');
+    }
+    if (!contracts[spenders.indexOf(pair.spender)]) {
+      risks.push('eoa_spender');
+    }
+    return {
+      chainId,
+      token: pair.token,
+      tokenSymbol: metadata[tokenIndex].symbol,
+      tokenDecimals: metadata[tokenIndex].decimals,
+      spender: pair.spender,
+      allowance: pair.allowance,
+      risks,
+      lastApprovedBlock: pair.block,
+    };
+  });
+
+  allowances.sort((a, b) => b.risks.length - a.risks.length || b.lastApprovedBlock - a.lastApprovedBlock);
+  return { allowances, fromBlock };
+}
+
+/**
+ * Build the approve(spender, 0) transaction that revokes an allowance.
+ * Sign it with signAndSendTransaction().
+ */
+export function buildRevokeTransaction(chainId: number, token: string, spender: string): EVMTransaction {
+  return {
+    chainId,
+    to: token,
+    value: '0x0',
+    data: '0x095ea7b3' + padAddress(spender).slice(2) + '0'.repeat(64),
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * EVM Chain Registry
+ *
+ * EVM chains the wallet knows about, stored in the evm_chains table and
+ * managed by superadmins. The wallet loads the enabled chains from
+ * /api/config; the defaults apply until then.
+ *
+ * Mainnet chains are what addresses, assets and the send form refer to by
+ * name. In testnet mode each one runs on its testnetChainId instead.
+ */
+
+import { DEFAULT_EVM_CHAINS } from '../lib/evmChains';
+import type { EvmChain } from '../lib/evmChains';
+
+export type { EvmChain };
+
+let evmChains: EvmChain[] = DEFAULT_EVM_CHAINS.filter(chain => chain.isEnabled);
+
+// Replace the registry with the chains from config
+export function setEvmChains(chains: EvmChain[]): void {
+  evmChains = chains;
+}
+
+export function getEvmChains(): EvmChain[] {
+  return evmChains;
+}
+
+export function getEvmChain(chainId: number): EvmChain | null {
+  return evmChains.find(chain => chain.chainId === chainId) || null;
+}
+
+export function getEvmChainByName(name: string): EvmChain | null {
+  const lower = name.toLowerCase();
+  return evmChains.find(chain => chain.name.toLowerCase() === lower) || null;
+}
+
+// Mainnet chains, the ones addresses, assets and the send form list
+export function getMainnetEvmChains(): EvmChain[] {
+  return evmChains.filter(chain => !chain.isTestnet);
+}
+
+/**
+ * Chain ID a named chain runs on in the wallet's network mode, or null when
+ * the chain is unknown or has no testnet
+ */
+export function resolveEvmChainId(name: string, network: 'mainnet' | 'testnet'): number | null {
+  const chain = getEvmChainByName(name);
+  if (!chain) return null;
+  if (network === 'mainnet' || chain.isTestnet) return chain.chainId;
+  return chain.testnetChainId;
+}
+
+export function getEvmExplorerTxUrl(chainId: number, txHash: string): string | null {
+  const explorerUrl = getEvmChain(chainId)?.explorerUrl;
+  return explorerUrl ? `${explorerUrl.replace(/\/+$/, '')}/tx/${txHash}` : null;
+}
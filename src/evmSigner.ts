@@ -8,6 +8,8 @@
 import { secp256k1 } from '@noble/curves/secp256k1.js';
 import { keccak_256 } from '@noble/hashes/sha3.js';
 import { bytesToHex, hexToBytes } from '@noble/hashes/utils.js';
+import { decodeAbiString } from '../lib/evmAbi';
+import { getEvmChain } from './evmChains';
 
 // RPC endpoints - must be set via setEvmRpcEndpoints() from config
 let rpcEndpoints: Record<number, string> = {};
@@ -22,6 +24,11 @@ export function setEvmRpcEndpoints(endpoints: Record<number | string, string>):
   rpcEndpoints = converted;
 }
 
+// Chain IDs with a configured RPC endpoint
+export function getEvmChainIds(): number[] {
+  return Object.keys(rpcEndpoints).map(Number);
+}
+
 export interface EVMTransaction {
   to: string;
   value?: string;
@@ -37,6 +44,7 @@ export interface EVMTransaction {
 export interface SignedTransaction {
   rawTransaction: string;
   transactionHash: string;
+  nonce: number;
 }
 
 // RLP Encoding
@@ -128,7 +136,7 @@ function parseHex(value: string): Uint8Array {
 }
 
 // RPC Call
-async function rpcCall(chainId: number, method: string, params: any[]): Promise<any> {
+export async function rpcCall(chainId: number, method: string, params: any[]): Promise<any> {
   const rpcUrl = rpcEndpoints[chainId];
   if (!rpcUrl) {
     throw new Error(`Unsupported chain ID: ${chainId}. Available chains: ${Object.keys(rpcEndpoints).join(', ')}`);
@@ -236,9 +244,74 @@ export async function getTokenBalance(tokenAddress: string, walletAddress: strin
   }
 }
 
+// Get a token's symbol and decimals; either is null when the contract does not implement it
+export async function getTokenMetadata(chainId: number, tokenAddress: string): Promise<{ symbol: string | null; decimals: number | null }> {
+  const [symbol, decimals] = await Promise.all([
+    // symbol() selector = 0x95d89b41
+    rpcCall(chainId, 'eth_call', [{ to: tokenAddress, data: '0x95d89b41' }, 'latest'])
+      .then(decodeAbiString)
+      .catch(() => null),
+    // decimals() selector = 0x313ce567
+    rpcCall(chainId, 'eth_call', [{ to: tokenAddress, data: '0x313ce567' }, 'latest'])
+      .then((result: string) => Number(BigInt(result)))
+      .catch(() => null),
+  ]);
+  return { symbol, decimals };
+}
+
+// Nonces reserved per chain and sender, each with the time it was reserved
+const reservedNonces = new Map<string, Map<number, number>>();
+const nonceLocks = new Map<string, Promise<number>>();
+
+// A reservation the node still has not seen after this long was never broadcast or was dropped
+const NONCE_GAP_MS = 60_000;
+
+/**
+ * Reserve the next nonce for a sender
+ *
+ * Reservations for the same chain and sender run one at a time, so concurrent
+ * requests never share a nonce. Each starts from the node's pending
+ * transaction count (eth_getTransactionCount), which settles every earlier
+ * reservation, and skips nonces reserved but not yet seen by the node. A
+ * reservation at the pending count that the node still does not know after
+ * a minute leaves a gap that blocks every later transaction, so that nonce is
+ * handed out again.
+ */
+export async function reserveNonce(chainId: number, address: string): Promise<number> {
+  const key = `${chainId}:${address.toLowerCase()}`;
+  const previous = nonceLocks.get(key) || Promise.resolve(0);
+
+  const next = previous.catch(() => 0).then(async () => {
+    const pendingCount = await getNonce(chainId, address);
+    const reserved = reservedNonces.get(key) || new Map<number, number>();
+    for (const [nonce, reservedAt] of reserved) {
+      if (nonce < pendingCount || (nonce === pendingCount && Date.now() - reservedAt > NONCE_GAP_MS)) {
+        reserved.delete(nonce);
+      }
+    }
+
+    let nonce = pendingCount;
+    while (reserved.has(nonce)) nonce++;
+    reserved.set(nonce, Date.now());
+    reservedNonces.set(key, reserved);
+    return nonce;
+  });
+
+  nonceLocks.set(key, next);
+  return next;
+}
+
+// Give back a reserved nonce whose transaction was never broadcast, so the next request reuses it
+export function releaseNonce(chainId: number, address: string, nonce: number): void {
+  reservedNonces.get(`${chainId}:${address.toLowerCase()}`)?.delete(nonce);
+}
+
 /**
  * Sign an EVM transaction
  *
+ * Without a nonce in `tx`, the next one is reserved for the sender (see
+ * reserveNonce()) and released again if signing fails.
+ *
  * @param tx Transaction parameters
  * @param privateKeyHex Private key as hex string (with or without 0x prefix)
  * @param fromAddress Sender address (for nonce lookup)
@@ -249,22 +322,20 @@ export async function signTransaction(
   privateKeyHex: string,
   fromAddress: string
 ): Promise<SignedTransaction> {
+  const reservedNonce = tx.nonce === undefined ? await reserveNonce(tx.chainId, fromAddress) : null;
+
   // Clean private key
   const cleanPrivateKey = privateKeyHex.startsWith('0x') ? privateKeyHex.slice(2) : privateKeyHex;
   const privateKeyBytes = hexToBytes(cleanPrivateKey);
 
   try {
-  // Get nonce if not provided
-  let nonce = tx.nonce;
-  if (nonce === undefined) {
-    nonce = await getNonce(tx.chainId, fromAddress);
-  }
+  let nonce = reservedNonce ?? tx.nonce!;
   if (typeof nonce === 'string') {
     nonce = parseInt(nonce, 16);
   }
 
   // Determine if EIP-1559 or legacy
-  const isEIP1559 = tx.maxFeePerGas !== undefined || (tx.gasPrice === undefined && tx.chainId !== 56); // BSC doesn't support EIP-1559
+  const isEIP1559 = tx.maxFeePerGas !== undefined || (tx.gasPrice === undefined && getEvmChain(tx.chainId)?.supportsEip1559 !== false);
 
   let gasPrice = tx.gasPrice;
   let maxFeePerGas = tx.maxFeePerGas;
@@ -390,8 +461,12 @@ export async function signTransaction(
 
   return {
     rawTransaction,
-    transactionHash
+    transactionHash,
+    nonce
   };
+  } catch (error) {
+    if (reservedNonce !== null) releaseNonce(tx.chainId, fromAddress, reservedNonce);
+    throw error;
   } finally {
     privateKeyBytes.fill(0);
   }
@@ -406,7 +481,14 @@ export async function signAndSendTransaction(
   fromAddress: string
 ): Promise<{ transactionHash: string; status: 'pending' }> {
   const signed = await signTransaction(tx, privateKeyHex, fromAddress);
-  const txHash = await sendRawTransaction(tx.chainId, signed.rawTransaction);
+
+  let txHash: string;
+  try {
+    txHash = await sendRawTransaction(tx.chainId, signed.rawTransaction);
+  } catch (error) {
+    if (tx.nonce === undefined) releaseNonce(tx.chainId, fromAddress, signed.nonce);
+    throw error;
+  }
 
   return {
     transactionHash: txHash,
@@ -414,17 +496,97 @@ export async function signAndSendTransaction(
   };
 }
 
+export type EVMReplacementAction = 'speedup' | 'cancel';
+
+// Nodes only accept a replacement that raises its fees by at least 10% (geth's default price bump)
+function bumpFee(fee: bigint): bigint {
+  return (fee * 110n + 99n) / 100n;
+}
+
+function maxBigInt(...values: bigint[]): bigint {
+  return values.reduce((a, b) => (a > b ? a : b));
+}
+
+/**
+ * Plan the replacement of one of the sender's pending transactions
+ *
+ * The replacement reuses the original nonce, with fees raised by at least
+ * 10% and to no less than the current network fees. speedup repeats the
+ * original call; cancel is a 0-value transfer to the sender, so the original
+ * call never happens. Sign the result with signAndSendTransaction().
+ *
+ * @param chainId Chain of the pending transaction
+ * @param txHash Transaction to replace
+ * @param action speedup or cancel
+ * @param fromAddress Sender address; the transaction must be sent from it
+ */
+export async function planReplacement(
+  chainId: number,
+  txHash: string,
+  action: EVMReplacementAction,
+  fromAddress: string
+): Promise<EVMTransaction & { nonce: number; gasLimit: string }> {
+  const original = await rpcCall(chainId, 'eth_getTransactionByHash', [txHash]) as {
+    from: string;
+    to: string | null;
+    nonce: string;
+    value: string;
+    input: string;
+    gas: string;
+    gasPrice?: string;
+    maxFeePerGas?: string;
+    maxPriorityFeePerGas?: string;
+    blockNumber: string | null;
+  } | null;
+
+  if (!original) {
+    throw new Error('Transaction not found; it may have been dropped from the mempool');
+  }
+  if (original.blockNumber) {
+    throw new Error('Transaction is already confirmed');
+  }
+  if (original.from.toLowerCase() !== fromAddress.toLowerCase()) {
+    throw new Error('Only transactions sent from this wallet can be replaced');
+  }
+  if (action === 'speedup' && !original.to) {
+    throw new Error('Contract deployments cannot be sped up; cancel instead');
+  }
+
+  const nonce = parseInt(original.nonce, 16);
+  const minedCount = parseInt(await rpcCall(chainId, 'eth_getTransactionCount', [fromAddress, 'latest']), 16);
+  if (nonce < minedCount) {
+    throw new Error('Another transaction with the same nonce is already confirmed');
+  }
+
+  const call = action === 'cancel'
+    ? { to: fromAddress, value: '0x0', data: '0x', gasLimit: '0x5208' }
+    : { to: original.to!, value: original.value, data: original.input, gasLimit: original.gas };
+
+  if (original.maxFeePerGas && original.maxPriorityFeePerGas) {
+    const current = await getFeeData(chainId);
+    const maxPriorityFeePerGas = maxBigInt(bumpFee(BigInt(original.maxPriorityFeePerGas)), BigInt(current.maxPriorityFeePerGas));
+    const maxFeePerGas = maxBigInt(bumpFee(BigInt(original.maxFeePerGas)), BigInt(current.maxFeePerGas), maxPriorityFeePerGas);
+    return { chainId, nonce, ...call, maxFeePerGas: toHex(maxFeePerGas), maxPriorityFeePerGas: toHex(maxPriorityFeePerGas) };
+  }
+
+  const gasPrice = maxBigInt(bumpFee(BigInt(original.gasPrice || '0x0')), BigInt(await getGasPrice(chainId)));
+  return { chainId, nonce, ...call, gasPrice: toHex(gasPrice) };
+}
+
 /**
- * Sign a message (personal_sign / eth_sign)
+ * Sign a message (personal_sign / eth_sign). Strings are signed as UTF-8.
  */
-export function signMessage(message: string, privateKeyHex: string): string {
+export function signMessage(message: string | Uint8Array, privateKeyHex: string): string {
   const cleanPrivateKey = privateKeyHex.startsWith('0x') ? privateKeyHex.slice(2) : privateKeyHex;
   const privateKeyBytes = hexToBytes(cleanPrivateKey);
 
   try {
-    // Ethereum signed message prefix
-    const prefix = '\x19Ethereum Signed Message:\n' + message.length;
-    const prefixedMessage = new TextEncoder().encode(prefix + message);
+    // Ethereum signed message prefix, with the length in bytes
+    const messageBytes = typeof message === 'string' ? new TextEncoder().encode(message) : message;
+    const prefix = new TextEncoder().encode('\x19Ethereum Signed Message:\n' + messageBytes.length);
+    const prefixedMessage = new Uint8Array(prefix.length + messageBytes.length);
+    prefixedMessage.set(prefix);
+    prefixedMessage.set(messageBytes, prefix.length);
     const messageHash = keccak_256(prefixedMessage);
 
     // Sign with recovered format (65 bytes: r(32) + s(32) + recovery(1))
@@ -0,0 +1,316 @@
+/**
+ * EVM Transaction Simulation
+ *
+ * Runs a transaction against the latest block before it is signed and reads
+ * the token movements it would cause, so the approval sheet can show the
+ * sender's net balance changes and the approvals it grants. eth_simulateV1
+ * is tried first, then debug_traceCall with the call tracer; nodes that
+ * support neither only get a revert check through eth_call.
+ */
+
+import { rpcCall, getTokenMetadata } from './evmSigner';
+import { getEvmChain } from './evmChains';
+
+// keccak256("Transfer(address,address,uint256)"), shared by ERC-20 and ERC-721
+const TRANSFER_EVENT_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+// keccak256("Approval(address,address,uint256)"), shared by ERC-20 and ERC-721
+const APPROVAL_EVENT_TOPIC = '0x8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925';
+// keccak256("ApprovalForAll(address,address,bool)")
+const APPROVAL_FOR_ALL_EVENT_TOPIC = '0x17307eab39ab6107e8899845ad3d59bd9653f200f220920489ca2b5937696c31';
+// eth_simulateV1 reports native transfers as Transfer logs from this address when traceTransfers is set
+const NATIVE_TRANSFER_ADDRESS = '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee';
+
+export interface SimulationTransaction {
+  to: string;
+  value?: string;
+  data?: string;
+  gasLimit?: string;
+  chainId: number;
+}
+
+export interface BalanceChange {
+  kind: 'native' | 'erc20' | 'erc721';
+  token: string | null;  // null for the native asset
+  symbol: string | null;
+  decimals: number | null;
+  amount: bigint;  // signed: negative leaves the wallet; a count of NFTs for erc721
+  tokenIds: string[];  // erc721 only
+}
+
+export interface ApprovalEffect {
+  token: string;
+  symbol: string | null;
+  decimals: number | null;
+  spender: string;
+  amount: bigint | null;  // ERC-20 allowance; null for NFT approvals
+  tokenId: string | null;  // single ERC-721 approval
+  approvedForAll: boolean | null;  // ApprovalForAll
+}
+
+export interface EvmSimulation {
+  available: boolean;  // false when the node offers neither eth_simulateV1 nor debug_traceCall
+  method: 'eth_simulateV1' | 'debug_traceCall' | null;
+  reverted: boolean;
+  revertReason: string | null;
+  changes: BalanceChange[];
+  approvals: ApprovalEffect[];
+}
+
+interface RpcLog {
+  address: string;
+  topics: string[];
+  data: string;
+}
+
+interface CallFrame {
+  type: string;
+  from: string;
+  to?: string;
+  value?: string;
+  error?: string;
+  revertReason?: string;
+  logs?: RpcLog[];
+  calls?: CallFrame[];
+}
+
+// Native and token movements read from a simulation, before they are netted
+interface Movement {
+  token: string | null;
+  from: string;
+  to: string;
+  amount: bigint;
+  tokenId: string | null;
+}
+
+function topicAddress(topic: string): string {
+  return '0x' + topic.slice(26).toLowerCase();
+}
+
+function toCall(tx: SimulationTransaction, from: string) {
+  return {
+    from,
+    to: tx.to,
+    value: tx.value || '0x0',
+    data: tx.data || '0x',
+    ...(tx.gasLimit ? { gas: tx.gasLimit } : {})
+  };
+}
+
+// Strip the client prefix from a node's revert message
+function revertReason(message: string): string | null {
+  const reason = message.replace(/^(execution reverted|VM Exception while processing transaction: revert)\s*:?\s*/i, '').trim();
+  return reason || null;
+}
+
+function isRevert(message: string): boolean {
+  return /revert/i.test(message);
+}
+
+/**
+ * Read token movements and approvals from event logs
+ */
+function readLogs(logs: RpcLog[], movements: Movement[], approvals: Omit<ApprovalEffect, 'symbol' | 'decimals'>[], owner: string): void {
+  for (const log of logs) {
+    try {
+      const [topic, ...indexed] = log.topics || [];
+      const token = log.address.toLowerCase();
+      // ERC-721 events index the token ID as a third argument
+      const nft = indexed.length === 3;
+
+      if (topic === TRANSFER_EVENT_TOPIC && indexed.length >= 2) {
+        movements.push({
+          token: token === NATIVE_TRANSFER_ADDRESS ? null : token,
+          from: topicAddress(indexed[0]),
+          to: topicAddress(indexed[1]),
+          amount: nft ? 1n : BigInt(log.data && log.data !== '0x' ? log.data : '0x0'),
+          tokenId: nft ? BigInt(indexed[2]).toString() : null,
+        });
+      } else if (topic === APPROVAL_EVENT_TOPIC && indexed.length >= 2 && topicAddress(indexed[0]) === owner) {
+        approvals.push({
+          token,
+          spender: topicAddress(indexed[1]),
+          amount: nft ? null : BigInt(log.data && log.data !== '0x' ? log.data : '0x0'),
+          tokenId: nft ? BigInt(indexed[2]).toString() : null,
+          approvedForAll: null,
+        });
+      } else if (topic === APPROVAL_FOR_ALL_EVENT_TOPIC && indexed.length === 2 && topicAddress(indexed[0]) === owner) {
+        approvals.push({
+          token,
+          spender: topicAddress(indexed[1]),
+          amount: null,
+          tokenId: null,
+          approvedForAll: BigInt(log.data && log.data !== '0x' ? log.data : '0x0') !== 0n,
+        });
+      }
+    } catch (err) {
+      console.error('Error parsing simulated log:', err);
+    }
+  }
+}
+
+/**
+ * Collect native value transfers and logs from a call tracer tree, skipping
+ * frames that reverted along with everything they called
+ */
+function readCallFrame(frame: CallFrame, movements: Movement[], logs: RpcLog[]): void {
+  if (frame.error) return;
+  const value = frame.value ? BigInt(frame.value) : 0n;
+  if (value > 0n && frame.to && frame.type !== 'DELEGATECALL' && frame.type !== 'STATICCALL') {
+    movements.push({ token: null, from: frame.from.toLowerCase(), to: frame.to.toLowerCase(), amount: value, tokenId: null });
+  }
+  logs.push(...(frame.logs || []));
+  for (const call of frame.calls || []) {
+    readCallFrame(call, movements, logs);
+  }
+}
+
+async function simulateV1(
+  tx: SimulationTransaction,
+  from: string
+): Promise<{ reverted: boolean; revertReason: string | null; movements: Movement[]; logs: RpcLog[] }> {
+  const blocks = await rpcCall(tx.chainId, 'eth_simulateV1', [{
+    blockStateCalls: [{ calls: [toCall(tx, from)] }],
+    traceTransfers: true,
+    validation: false
+  }, 'latest']) as Array<{ calls: Array<{ status: string; logs?: RpcLog[]; error?: { message: string } }> }>;
+
+  const result = blocks?.[0]?.calls?.[0];
+  if (!result) {
+    throw new Error('eth_simulateV1 returned no result');
+  }
+  const reverted = result.status === '0x0';
+  return {
+    reverted,
+    revertReason: reverted && result.error ? revertReason(result.error.message) : null,
+    // Native transfers arrive as logs and are read with the token transfers
+    movements: [],
+    logs: reverted ? [] : result.logs || [],
+  };
+}
+
+async function traceCall(
+  tx: SimulationTransaction,
+  from: string
+): Promise<{ reverted: boolean; revertReason: string | null; movements: Movement[]; logs: RpcLog[] }> {
+  const root = await rpcCall(tx.chainId, 'debug_traceCall', [
+    toCall(tx, from),
+    'latest',
+    { tracer: 'callTracer', tracerConfig: { withLog: true } }
+  ]) as CallFrame | null;
+
+  if (!root) {
+    throw new Error('debug_traceCall returned no result');
+  }
+  const movements: Movement[] = [];
+  const logs: RpcLog[] = [];
+  readCallFrame(root, movements, logs);
+  return {
+    reverted: !!root.error,
+    revertReason: root.error ? root.revertReason || revertReason(root.error) : null,
+    movements,
+    logs,
+  };
+}
+
+/**
+ * Simulate a transaction from the given sender and summarise its effects
+ *
+ * Never throws: when the node cannot simulate, the result has available set
+ * to false and only reports a revert if eth_call found one.
+ *
+ * @param tx Transaction as the app requested it
+ * @param from Sender address (the wallet's EVM address)
+ * @param tokens Known token metadata keyed by lowercase contract address;
+ *               other tokens are looked up on chain
+ */
+export async function simulateEvmTransaction(
+  tx: SimulationTransaction,
+  from: string,
+  tokens: Record<string, { symbol: string; decimals: number }> = {}
+): Promise<EvmSimulation> {
+  const owner = from.toLowerCase();
+  let run: Awaited<ReturnType<typeof simulateV1>> | null = null;
+  let method: EvmSimulation['method'] = null;
+
+  for (const [name, simulate] of [['eth_simulateV1', simulateV1], ['debug_traceCall', traceCall]] as const) {
+    try {
+      run = await simulate(tx, owner);
+      method = name;
+      break;
+    } catch {
+      // Method missing or disabled on this node; try the next one
+    }
+  }
+
+  if (!run) {
+    try {
+      await rpcCall(tx.chainId, 'eth_call', [toCall(tx, owner), 'latest']);
+      return { available: false, method: null, reverted: false, revertReason: null, changes: [], approvals: [] };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const reverted = isRevert(message);
+      return { available: false, method: null, reverted, revertReason: reverted ? revertReason(message) : null, changes: [], approvals: [] };
+    }
+  }
+
+  const movements = [...run.movements];
+  const rawApprovals: Omit<ApprovalEffect, 'symbol' | 'decimals'>[] = [];
+  readLogs(run.logs, movements, rawApprovals, owner);
+
+  // Net each asset for the sender; NFTs are netted per collection
+  const net = new Map<string, { token: string | null; nft: boolean; amount: bigint; tokenIds: string[] }>();
+  for (const move of movements) {
+    const sign = move.to === owner ? 1n : move.from === owner ? -1n : 0n;
+    if (sign === 0n || move.from === move.to) continue;
+    const key = move.token ?? 'native';
+    const entry = net.get(key) || { token: move.token, nft: move.tokenId !== null, amount: 0n, tokenIds: [] };
+    entry.amount += sign * move.amount;
+    if (move.tokenId !== null) entry.tokenIds.push(move.tokenId);
+    net.set(key, entry);
+  }
+
+  // Look up symbols and decimals for tokens the wallet does not list
+  const addresses = [...new Set([
+    ...[...net.values()].map(entry => entry.token),
+    ...rawApprovals.map(approval => approval.token),
+  ].filter((token): token is string => token !== null))];
+  const metadata = new Map(await Promise.all(addresses.map(async token =>
+    [token, tokens[token] || await getTokenMetadata(tx.chainId, token)] as const
+  )));
+
+  const nativeChain = getEvmChain(tx.chainId);
+  const changes: BalanceChange[] = [...net.values()]
+    .filter(entry => entry.amount !== 0n)
+    .map(entry => entry.token === null
+      ? {
+          kind: 'native' as const,
+          token: null,
+          symbol: nativeChain?.nativeSymbol || 'ETH',
+          decimals: nativeChain?.nativeDecimals ?? 18,
+          amount: entry.amount,
+          tokenIds: [],
+        }
+      : {
+          kind: entry.nft ? 'erc721' as const : 'erc20' as const,
+          token: entry.token,
+          symbol: metadata.get(entry.token)?.symbol ?? null,
+          decimals: entry.nft ? 0 : metadata.get(entry.token)?.decimals ?? null,
+          amount: entry.amount,
+          tokenIds: entry.tokenIds,
+        });
+
+  const approvals: ApprovalEffect[] = rawApprovals.map(approval => ({
+    ...approval,
+    symbol: metadata.get(approval.token)?.symbol ?? null,
+    decimals: metadata.get(approval.token)?.decimals ?? null,
+  }));
+
+  return {
+    available: true,
+    method,
+    reverted: run.reverted,
+    revertReason: run.revertReason,
+    changes,
+    approvals,
+  };
+}
@@ -0,0 +1,103 @@
+/**
+ * Signing Session - Keeps an unlocked wallet key in memory for a limited time
+ *
+ * When the user opts in, the wallet key unwrapped by a passkey prompt is held
+ * per scope (a chain such as "chain:evm" or an app such as "app:swap") so that
+ * follow-up signatures in that scope don't prompt again. Keys are
+ * non-extractable CryptoKeys and are only ever held in this module's memory;
+ * they are dropped when the session expires, the tab is hidden or the user
+ * logs out.
+ */
+
+interface HeldKey {
+  key: CryptoKey;
+  expiresAt: number;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export interface SigningSessionInfo {
+  scope: string;
+  expiresAt: number;
+}
+
+const sessions = new Map<string, HeldKey>();
+const listeners = new Set<(active: SigningSessionInfo[]) => void>();
+
+function notify(): void {
+  const active = getActiveSigningSessions();
+  listeners.forEach(listener => listener(active));
+}
+
+/**
+ * Hold a wallet key for a scope. Extractable keys are refused so a held key
+ * can never be exported from memory.
+ */
+export function holdSessionKey(scope: string, key: CryptoKey, minutes: number): void {
+  if (key.extractable) {
+    throw new Error('Signing sessions only hold non-extractable keys');
+  }
+  if (minutes <= 0) return;
+
+  endSigningSession(scope);
+  const durationMs = minutes * 60 * 1000;
+  sessions.set(scope, {
+    key,
+    expiresAt: Date.now() + durationMs,
+    timer: setTimeout(() => endSigningSession(scope), durationMs),
+  });
+  notify();
+}
+
+/**
+ * Get the held key for a scope, or null if there is no live session
+ */
+export function getSessionKey(scope: string): CryptoKey | null {
+  const held = sessions.get(scope);
+  if (!held) return null;
+  if (held.expiresAt <= Date.now()) {
+    endSigningSession(scope);
+    return null;
+  }
+  return held.key;
+}
+
+export function endSigningSession(scope: string): void {
+  const held = sessions.get(scope);
+  if (!held) return;
+  clearTimeout(held.timer);
+  sessions.delete(scope);
+  notify();
+}
+
+/**
+ * Drop every held key (logout, tab hidden, settings changed)
+ */
+export function clearSigningSessions(): void {
+  if (sessions.size === 0) return;
+  sessions.forEach(held => clearTimeout(held.timer));
+  sessions.clear();
+  notify();
+}
+
+export function getActiveSigningSessions(): SigningSessionInfo[] {
+  return Array.from(sessions.entries()).map(([scope, held]) => ({ scope, expiresAt: held.expiresAt }));
+}
+
+/**
+ * Subscribe to session changes. Returns an unsubscribe function.
+ */
+export function onSigningSessionsChange(listener: (active: SigningSessionInfo[]) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// A hidden tab may be left unattended; require a fresh prompt when it comes back
+if (typeof document !== 'undefined') {
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') {
+      clearSigningSessions();
+    }
+  });
+}
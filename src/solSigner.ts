@@ -2,11 +2,14 @@
  * Client-side Solana Transaction Signing
  *
  * Uses @noble/ed25519 for cryptographic operations.
- * Supports SOL transfers and SPL token transfers.
+ * Supports SOL transfers, SPL and Token-2022 token transfers with priority
+ * fees, and signing legacy and v0 transactions that apps build (address
+ * lookup tables included).
  */
 
 import { ed25519 } from '@noble/curves/ed25519.js';
-import { hexToBytes } from '@noble/hashes/utils.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { hexToBytes, concatBytes } from '@noble/hashes/utils.js';
 
 // RPC endpoints - must be set via setSolRpcEndpoints() from config
 let solRpcEndpoints: Record<string, string> = {};
@@ -33,7 +36,7 @@ export interface SignedSolanaTransaction {
 const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
 
 function base58Encode(bytes: Uint8Array): string {
-  const digits = [0];
+  const digits: number[] = [];
   for (let i = 0; i < bytes.length; i++) {
     let carry = bytes[i];
     for (let j = 0; j < digits.length; j++) {
@@ -134,7 +137,24 @@ export async function getBalance(address: string, network: SolanaNetwork = 'main
   return result.value;
 }
 
-// Get SPL token balance
+// Amount held by a token account, from its jsonParsed form or, when the node
+// could not parse it (Token-2022 extensions it does not know), from the raw
+// account data. Both token programs keep the amount at offset 64.
+function readTokenAccountAmount(data: any): bigint {
+  const amount = data?.parsed?.info?.tokenAmount?.amount;
+  if (amount) {
+    return BigInt(amount);
+  }
+  if (Array.isArray(data) && data[1] === 'base64') {
+    const bytes = base64ToBytes(data[0]);
+    if (bytes.length >= 72) {
+      return new DataView(bytes.buffer, bytes.byteOffset).getBigUint64(64, true);
+    }
+  }
+  return 0n;
+}
+
+// Get SPL or Token-2022 token balance
 export async function getTokenBalance(
   tokenMintAddress: string,
   walletAddress: string,
@@ -152,10 +172,7 @@ export async function getTokenBalance(
       // Sum up all token account balances
       let totalBalance = 0n;
       for (const account of result.value) {
-        const tokenAmount = account.account?.data?.parsed?.info?.tokenAmount;
-        if (tokenAmount?.amount) {
-          totalBalance += BigInt(tokenAmount.amount);
-        }
+        totalBalance += readTokenAccountAmount(account.account?.data);
       }
       return totalBalance;
     }
@@ -193,6 +210,28 @@ function encodeCompactU16(value: number): Uint8Array {
   return new Uint8Array(bytes);
 }
 
+function readCompactU16(bytes: Uint8Array, offset: number): [number, number] {
+  let value = 0;
+  let shift = 0;
+  let pos = offset;
+  for (;;) {
+    if (pos >= bytes.length) throw new Error('Truncated transaction');
+    const byte = bytes[pos++];
+    value |= (byte & 0x7f) << shift;
+    if ((byte & 0x80) === 0) break;
+    shift += 7;
+  }
+  return [value, pos];
+}
+
+function base64ToBytes(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
 // System Program ID (11111111111111111111111111111111)
 const SYSTEM_PROGRAM_ID = new Uint8Array(32).fill(0);
 SYSTEM_PROGRAM_ID[0] = 0;
@@ -200,6 +239,40 @@ SYSTEM_PROGRAM_ID[0] = 0;
 // Token Program ID (TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA)
 const TOKEN_PROGRAM_ID = base58Decode('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
 
+// Token-2022 Program ID (TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb)
+const TOKEN_2022_PROGRAM_ID = base58Decode('TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb');
+
+// Memo Program ID (MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr)
+const MEMO_PROGRAM_ID = base58Decode('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
+
+// Associated Token Account Program ID (ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL)
+const ASSOCIATED_TOKEN_PROGRAM_ID = base58Decode('ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL');
+
+// Compute Budget Program ID (ComputeBudget111111111111111111111111111111)
+const COMPUTE_BUDGET_PROGRAM_ID = base58Decode('ComputeBudget111111111111111111111111111111');
+
+// Size of an SPL token account, which sets the rent a new one needs
+const TOKEN_ACCOUNT_SIZE = 165;
+
+// Token-2022 accounts add an account type byte and their extensions.
+// Associated token accounts always carry ImmutableOwner (a 4 byte header
+// with no data); mints with a transfer fee add TransferFeeAmount.
+const TOKEN_2022_ACCOUNT_SIZE = TOKEN_ACCOUNT_SIZE + 1 + 4;
+const TRANSFER_FEE_AMOUNT_SIZE = 4 + 8;
+
+// Compute unit limits for the wallet's own transfers, with headroom over what they use
+const SOL_TRANSFER_COMPUTE_UNITS = 1_000;
+const TOKEN_TRANSFER_COMPUTE_UNITS = 20_000;
+const TOKEN_2022_TRANSFER_COMPUTE_UNITS = 40_000;
+const CREATE_TOKEN_ACCOUNT_COMPUTE_UNITS = 40_000;
+const MEMO_COMPUTE_UNITS = 10_000;
+
+// Cap on the estimated priority fee, in micro-lamports per compute unit
+const MAX_PRIORITY_FEE = 5_000_000;
+
+// Bytes before the addresses in an address lookup table account
+const LOOKUP_TABLE_META_SIZE = 56;
+
 // Create transfer instruction data
 function createTransferInstructionData(lamports: number): Uint8Array {
   // Transfer instruction index is 2
@@ -214,6 +287,403 @@ function createTransferInstructionData(lamports: number): Uint8Array {
   return data;
 }
 
+// ============================================================================
+// MESSAGES
+// ============================================================================
+
+export interface SolanaAddressTableLookup {
+  accountKey: string;
+  writableIndexes: number[];
+  readonlyIndexes: number[];
+}
+
+export interface SolanaCompiledInstruction {
+  programIdIndex: number;
+  accounts: number[];
+  data: Uint8Array;
+}
+
+/**
+ * A legacy or v0 message. Account indexes in instructions run over the
+ * static keys, then the writable and then the read-only lookup table entries.
+ */
+export interface SolanaMessage {
+  version: 'legacy' | 0;
+  header: {
+    numRequiredSignatures: number;
+    numReadonlySignedAccounts: number;
+    numReadonlyUnsignedAccounts: number;
+  };
+  staticAccountKeys: string[];
+  recentBlockhash: string;
+  instructions: SolanaCompiledInstruction[];
+  addressTableLookups: SolanaAddressTableLookup[];  // always empty for legacy messages
+}
+
+export interface DeserializedSolanaTransaction {
+  signatures: Uint8Array[];
+  message: SolanaMessage;
+  messageBytes: Uint8Array;  // the exact bytes that are signed
+}
+
+// Instruction with its accounts, before it is compiled into a message
+interface SolanaInstruction {
+  programId: Uint8Array;
+  keys: Array<{ pubkey: Uint8Array; isSigner: boolean; isWritable: boolean }>;
+  data: Uint8Array;
+}
+
+/**
+ * Parse a serialized legacy or v0 message
+ */
+export function deserializeMessage(bytes: Uint8Array): SolanaMessage {
+  let offset = 0;
+  let version: SolanaMessage['version'] = 'legacy';
+  if (bytes[0] & 0x80) {
+    const v = bytes[0] & 0x7f;
+    if (v !== 0) throw new Error(`Unsupported transaction version: ${v}`);
+    version = 0;
+    offset++;
+  }
+
+  if (offset + 3 > bytes.length) throw new Error('Truncated transaction');
+  const header = {
+    numRequiredSignatures: bytes[offset],
+    numReadonlySignedAccounts: bytes[offset + 1],
+    numReadonlyUnsignedAccounts: bytes[offset + 2],
+  };
+  offset += 3;
+
+  const readKey = () => {
+    if (offset + 32 > bytes.length) throw new Error('Truncated transaction');
+    const key = base58Encode(bytes.slice(offset, offset + 32));
+    offset += 32;
+    return key;
+  };
+  const readBytes = () => {
+    let length: number;
+    [length, offset] = readCompactU16(bytes, offset);
+    if (offset + length > bytes.length) throw new Error('Truncated transaction');
+    const value = bytes.slice(offset, offset + length);
+    offset += length;
+    return value;
+  };
+
+  let keyCount: number;
+  [keyCount, offset] = readCompactU16(bytes, offset);
+  const staticAccountKeys: string[] = [];
+  for (let i = 0; i < keyCount; i++) {
+    staticAccountKeys.push(readKey());
+  }
+  const recentBlockhash = readKey();
+
+  let ixCount: number;
+  [ixCount, offset] = readCompactU16(bytes, offset);
+  const instructions: SolanaCompiledInstruction[] = [];
+  for (let i = 0; i < ixCount; i++) {
+    const programIdIndex = bytes[offset++];
+    const accounts = Array.from(readBytes());
+    const data = readBytes();
+    instructions.push({ programIdIndex, accounts, data });
+  }
+
+  const addressTableLookups: SolanaAddressTableLookup[] = [];
+  if (version === 0) {
+    let lookupCount: number;
+    [lookupCount, offset] = readCompactU16(bytes, offset);
+    for (let i = 0; i < lookupCount; i++) {
+      const accountKey = readKey();
+      const writableIndexes = Array.from(readBytes());
+      const readonlyIndexes = Array.from(readBytes());
+      addressTableLookups.push({ accountKey, writableIndexes, readonlyIndexes });
+    }
+  }
+
+  if (offset !== bytes.length) throw new Error('Unexpected bytes after message');
+  if (header.numRequiredSignatures > staticAccountKeys.length) throw new Error('Message has more signers than accounts');
+
+  return { version, header, staticAccountKeys, recentBlockhash, instructions, addressTableLookups };
+}
+
+/**
+ * Serialize a legacy or v0 message
+ */
+export function serializeMessage(message: SolanaMessage): Uint8Array {
+  const compactBytes = (values: ArrayLike<number>) => concatBytes(encodeCompactU16(values.length), new Uint8Array(Array.from(values)));
+  const parts: Uint8Array[] = [];
+
+  if (message.version === 0) {
+    parts.push(new Uint8Array([0x80]));
+  }
+  parts.push(
+    new Uint8Array([
+      message.header.numRequiredSignatures,
+      message.header.numReadonlySignedAccounts,
+      message.header.numReadonlyUnsignedAccounts,
+    ]),
+    encodeCompactU16(message.staticAccountKeys.length),
+    ...message.staticAccountKeys.map(base58Decode),
+    base58Decode(message.recentBlockhash),
+    encodeCompactU16(message.instructions.length)
+  );
+  for (const ix of message.instructions) {
+    parts.push(new Uint8Array([ix.programIdIndex]), compactBytes(ix.accounts), compactBytes(ix.data));
+  }
+  if (message.version === 0) {
+    parts.push(encodeCompactU16(message.addressTableLookups.length));
+    for (const lookup of message.addressTableLookups) {
+      parts.push(base58Decode(lookup.accountKey), compactBytes(lookup.writableIndexes), compactBytes(lookup.readonlyIndexes));
+    }
+  }
+  return concatBytes(...parts);
+}
+
+/**
+ * Parse a serialized transaction: compact-array of signatures, then the message
+ */
+export function deserializeTransaction(bytes: Uint8Array): DeserializedSolanaTransaction {
+  let [sigCount, offset] = readCompactU16(bytes, 0);
+  const signatures: Uint8Array[] = [];
+  for (let i = 0; i < sigCount; i++) {
+    if (offset + 64 > bytes.length) throw new Error('Truncated transaction');
+    signatures.push(bytes.slice(offset, offset + 64));
+    offset += 64;
+  }
+
+  const messageBytes = bytes.slice(offset);
+  const message = deserializeMessage(messageBytes);
+  if (signatures.length !== message.header.numRequiredSignatures) {
+    throw new Error(`Transaction has ${signatures.length} signature slots but needs ${message.header.numRequiredSignatures}`);
+  }
+  return { signatures, message, messageBytes };
+}
+
+function serializeTransaction(signatures: Uint8Array[], messageBytes: Uint8Array): Uint8Array {
+  return concatBytes(encodeCompactU16(signatures.length), ...signatures, messageBytes);
+}
+
+/**
+ * Compile instructions into a message paid for by the fee payer. Accounts are
+ * ordered writable signers, read-only signers, writable and then read-only
+ * non-signers, as the header requires.
+ */
+function compileMessage(
+  feePayer: Uint8Array,
+  instructions: SolanaInstruction[],
+  recentBlockhash: string,
+  version: SolanaMessage['version'] = 'legacy'
+): SolanaMessage {
+  const accounts = new Map<string, { isSigner: boolean; isWritable: boolean }>();
+  const addAccount = (pubkey: Uint8Array, isSigner: boolean, isWritable: boolean) => {
+    const key = base58Encode(pubkey);
+    const existing = accounts.get(key);
+    accounts.set(key, {
+      isSigner: isSigner || !!existing?.isSigner,
+      isWritable: isWritable || !!existing?.isWritable,
+    });
+  };
+
+  addAccount(feePayer, true, true);
+  for (const ix of instructions) {
+    for (const meta of ix.keys) {
+      addAccount(meta.pubkey, meta.isSigner, meta.isWritable);
+    }
+    addAccount(ix.programId, false, false);
+  }
+
+  // Map keeps insertion order, so the fee payer stays first in its group
+  const entries = [...accounts.entries()];
+  const group = (isSigner: boolean, isWritable: boolean) =>
+    entries.filter(([, meta]) => meta.isSigner === isSigner && meta.isWritable === isWritable).map(([key]) => key);
+  const writableSigners = group(true, true);
+  const readonlySigners = group(true, false);
+  const writableNonSigners = group(false, true);
+  const readonlyNonSigners = group(false, false);
+  const staticAccountKeys = [...writableSigners, ...readonlySigners, ...writableNonSigners, ...readonlyNonSigners];
+
+  return {
+    version,
+    header: {
+      numRequiredSignatures: writableSigners.length + readonlySigners.length,
+      numReadonlySignedAccounts: readonlySigners.length,
+      numReadonlyUnsignedAccounts: readonlyNonSigners.length,
+    },
+    staticAccountKeys,
+    recentBlockhash,
+    instructions: instructions.map(ix => ({
+      programIdIndex: staticAccountKeys.indexOf(base58Encode(ix.programId)),
+      accounts: ix.keys.map(meta => staticAccountKeys.indexOf(base58Encode(meta.pubkey))),
+      data: ix.data,
+    })),
+    addressTableLookups: [],
+  };
+}
+
+// ============================================================================
+// ADDRESS LOOKUP TABLES
+// ============================================================================
+
+/**
+ * Read the addresses stored in address lookup tables, keyed by table
+ * address. Tables that do not exist are left out.
+ */
+async function getAddressLookupTables(
+  tableAddresses: string[],
+  network: SolanaNetwork = 'mainnet'
+): Promise<Record<string, string[]>> {
+  const tables: Record<string, string[]> = {};
+  await Promise.all([...new Set(tableAddresses)].map(async address => {
+    const result = await rpcCall(network, 'getAccountInfo', [address, { encoding: 'base64' }]);
+    if (!result.value) return;
+    const data = base64ToBytes(result.value.data[0]);
+    const addresses: string[] = [];
+    for (let offset = LOOKUP_TABLE_META_SIZE; offset + 32 <= data.length; offset += 32) {
+      addresses.push(base58Encode(data.slice(offset, offset + 32)));
+    }
+    tables[address] = addresses;
+  }));
+  return tables;
+}
+
+/**
+ * Load the lookup tables that serialized v0 transactions use. Transactions
+ * that cannot be parsed are skipped.
+ *
+ * @param transactions Base64 encoded serialized transactions
+ */
+export async function getTransactionLookupTables(
+  transactions: string[],
+  network: SolanaNetwork = 'mainnet'
+): Promise<Record<string, string[]>> {
+  const tableAddresses: string[] = [];
+  for (const transaction of transactions) {
+    try {
+      const { message } = deserializeTransaction(base64ToBytes(transaction));
+      tableAddresses.push(...message.addressTableLookups.map(lookup => lookup.accountKey));
+    } catch {
+      // Shown as undecodable in the preview
+    }
+  }
+  return tableAddresses.length > 0 ? await getAddressLookupTables(tableAddresses, network) : {};
+}
+
+/**
+ * Every account a message uses, in index order: the static keys, then the
+ * writable and read-only lookup table entries. Throws if a table is missing
+ * from tables or an index is past its end.
+ */
+export function getMessageAccountKeys(message: SolanaMessage, tables: Record<string, string[]>): string[] {
+  const writable: string[] = [];
+  const readonly: string[] = [];
+  for (const lookup of message.addressTableLookups) {
+    const table = tables[lookup.accountKey];
+    if (!table) throw new Error(`Address lookup table ${lookup.accountKey} not found`);
+    const entry = (index: number) => {
+      if (index >= table.length) throw new Error(`Index ${index} is past the end of lookup table ${lookup.accountKey}`);
+      return table[index];
+    };
+    writable.push(...lookup.writableIndexes.map(entry));
+    readonly.push(...lookup.readonlyIndexes.map(entry));
+  }
+  return [...message.staticAccountKeys, ...writable, ...readonly];
+}
+
+// ============================================================================
+// PRIORITY FEES
+// ============================================================================
+
+// SetComputeUnitLimit (2): u32 units
+function computeUnitLimitInstruction(units: number): SolanaInstruction {
+  const data = new Uint8Array(5);
+  data[0] = 2;
+  new DataView(data.buffer).setUint32(1, units, true);
+  return { programId: COMPUTE_BUDGET_PROGRAM_ID, keys: [], data };
+}
+
+// SetComputeUnitPrice (3): u64 micro-lamports per compute unit
+function computeUnitPriceInstruction(microLamports: number): SolanaInstruction {
+  const data = new Uint8Array(9);
+  data[0] = 3;
+  new DataView(data.buffer).setBigUint64(1, BigInt(microLamports), true);
+  return { programId: COMPUTE_BUDGET_PROGRAM_ID, keys: [], data };
+}
+
+/**
+ * Estimate a compute unit price, in micro-lamports, from the priority fees
+ * paid recently by transactions that wrote to the same accounts. Uses the
+ * 75th percentile of recent slots; returns 0 if the node has no data.
+ */
+export async function estimatePriorityFee(
+  writableAccounts: string[],
+  network: SolanaNetwork = 'mainnet'
+): Promise<number> {
+  try {
+    const result = await rpcCall(network, 'getRecentPrioritizationFees', [writableAccounts.slice(0, 128)]) as Array<{ slot: number; prioritizationFee: number }>;
+    if (!result || result.length === 0) return 0;
+    const fees = result.map(entry => entry.prioritizationFee).sort((a, b) => a - b);
+    return Math.min(fees[Math.floor((fees.length - 1) * 0.75)], MAX_PRIORITY_FEE);
+  } catch (err) {
+    console.error('Error estimating Solana priority fee:', err);
+    return 0;
+  }
+}
+
+// Lamports paid for a compute unit price over a compute unit limit
+export function getPriorityFeeLamports(computeUnits: number, microLamports: number): number {
+  return Math.ceil((computeUnits * microLamports) / 1_000_000);
+}
+
+// ============================================================================
+// SIGNING
+// ============================================================================
+
+// Split a hex key into the 32-byte signing key and public key
+function loadKeypair(privateKeyHex: string): { privateKeyBytes: Uint8Array; signingKey: Uint8Array; publicKey: Uint8Array } {
+  const cleanKey = privateKeyHex.startsWith('0x') ? privateKeyHex.slice(2) : privateKeyHex;
+  const privateKeyBytes = hexToBytes(cleanKey);
+
+  if (privateKeyBytes.length === 64) {
+    return { privateKeyBytes, signingKey: privateKeyBytes.slice(0, 32), publicKey: privateKeyBytes.slice(32) };
+  } else if (privateKeyBytes.length === 32) {
+    return { privateKeyBytes, signingKey: privateKeyBytes, publicKey: ed25519.getPublicKey(privateKeyBytes) };
+  }
+  privateKeyBytes.fill(0);
+  throw new Error('Invalid private key length');
+}
+
+/**
+ * Build and sign a legacy transaction from the wallet's own instructions,
+ * prefixed with a compute unit limit and, when the network is busy, a
+ * compute unit price from estimatePriorityFee()
+ */
+async function buildSignedTransaction(
+  instructions: SolanaInstruction[],
+  computeUnits: number,
+  signingKey: Uint8Array,
+  publicKey: Uint8Array,
+  network: SolanaNetwork
+): Promise<SignedSolanaTransaction & { priorityFeeLamports: number }> {
+  const writableAccounts = [...new Set(instructions.flatMap(ix => ix.keys.filter(meta => meta.isWritable).map(meta => base58Encode(meta.pubkey))))];
+  const [blockhash, microLamports] = await Promise.all([
+    getRecentBlockhash(network),
+    estimatePriorityFee(writableAccounts, network),
+  ]);
+
+  const budget = [computeUnitLimitInstruction(computeUnits)];
+  if (microLamports > 0) {
+    budget.push(computeUnitPriceInstruction(microLamports));
+  }
+
+  const messageBytes = serializeMessage(compileMessage(publicKey, [...budget, ...instructions], blockhash));
+  const signature = ed25519.sign(messageBytes, signingKey);
+
+  return {
+    rawTransaction: bytesToBase64(serializeTransaction([signature], messageBytes)),
+    signature: base58Encode(signature),
+    priorityFeeLamports: getPriorityFeeLamports(computeUnits, microLamports),
+  };
+}
+
 /**
  * Sign a Solana SOL transfer transaction
  *
@@ -228,98 +698,24 @@ export async function signTransaction(
   privateKeyHex: string,
   network: SolanaNetwork = 'mainnet'
 ): Promise<SignedSolanaTransaction> {
-  const cleanKey = privateKeyHex.startsWith('0x') ? privateKeyHex.slice(2) : privateKeyHex;
-  const privateKeyBytes = hexToBytes(cleanKey);
-
-  // Get the actual 32-byte signing key
-  let signingKey: Uint8Array;
-  let publicKey: Uint8Array;
-
-  if (privateKeyBytes.length === 64) {
-    signingKey = privateKeyBytes.slice(0, 32);
-    publicKey = privateKeyBytes.slice(32);
-  } else if (privateKeyBytes.length === 32) {
-    signingKey = privateKeyBytes;
-    publicKey = ed25519.getPublicKey(signingKey);
-  } else {
-    throw new Error('Invalid private key length');
-  }
+  const { privateKeyBytes, signingKey, publicKey } = loadKeypair(privateKeyHex);
 
   try {
+    // System transfer: [from (signer, writable), to (writable)]
+    const transfer: SolanaInstruction = {
+      programId: SYSTEM_PROGRAM_ID,
+      keys: [
+        { pubkey: publicKey, isSigner: true, isWritable: true },
+        { pubkey: base58Decode(toAddress), isSigner: false, isWritable: true },
+      ],
+      data: createTransferInstructionData(amount),
+    };
 
-  const fromPubkey = publicKey;
-  const toPubkey = base58Decode(toAddress);
-
-  // Get recent blockhash
-  const blockhash = await getRecentBlockhash(network);
-  const blockhashBytes = base58Decode(blockhash);
-
-  // Build transaction message
-  // Header: num_required_signatures, num_readonly_signed, num_readonly_unsigned
-  const header = new Uint8Array([1, 0, 1]); // 1 signer, 0 readonly signed, 1 readonly unsigned (system program)
-
-  // Account keys: from, to, system program
-  const accountKeys = new Uint8Array(32 * 3);
-  accountKeys.set(fromPubkey, 0);
-  accountKeys.set(toPubkey, 32);
-  accountKeys.set(SYSTEM_PROGRAM_ID, 64);
-
-  // Recent blockhash
-  const recentBlockhash = blockhashBytes;
-
-  // Instructions
-  const instructionData = createTransferInstructionData(amount);
-
-  // Instruction format:
-  // - program_id_index: u8
-  // - accounts: compact-array of u8 (account indices)
-  // - data: compact-array of u8
-  const programIdIndex = 2; // System program is at index 2
-  const accountIndices = new Uint8Array([0, 1]); // from (0), to (1)
-
-  const instruction = new Uint8Array(1 + 1 + accountIndices.length + 1 + instructionData.length);
-  let off = 0;
-  instruction[off++] = programIdIndex;
-  instruction[off++] = accountIndices.length;
-  instruction.set(accountIndices, off);
-  off += accountIndices.length;
-  instruction[off++] = instructionData.length;
-  instruction.set(instructionData, off);
-
-  // Build message
-  // Format: header + compact(account_keys) + recent_blockhash + compact(instructions)
-  const numKeys = encodeCompactU16(3);
-  const numInstructions = encodeCompactU16(1);
-
-  const messageLength = header.length + numKeys.length + accountKeys.length + 32 + numInstructions.length + instruction.length;
-  const message = new Uint8Array(messageLength);
-  off = 0;
-  message.set(header, off); off += header.length;
-  message.set(numKeys, off); off += numKeys.length;
-  message.set(accountKeys, off); off += accountKeys.length;
-  message.set(recentBlockhash, off); off += 32;
-  message.set(numInstructions, off); off += numInstructions.length;
-  message.set(instruction, off);
-
-  // Sign message
-  const signature = ed25519.sign(message, signingKey);
-
-  // Build transaction
-  // Format: compact(signatures) + message
-  const numSignatures = encodeCompactU16(1);
-  const transaction = new Uint8Array(numSignatures.length + 64 + message.length);
-  off = 0;
-  transaction.set(numSignatures, off); off += numSignatures.length;
-  transaction.set(signature, off); off += 64;
-  transaction.set(message, off);
-
-  // Encode as base64
-  const rawTransaction = btoa(String.fromCharCode(...transaction));
-
-  return {
-    rawTransaction,
-    signature: base58Encode(signature)
-  };
+    const signed = await buildSignedTransaction([transfer], SOL_TRANSFER_COMPUTE_UNITS, signingKey, publicKey, network);
+    return {
+      rawTransaction: signed.rawTransaction,
+      signature: signed.signature
+    };
   } finally {
     privateKeyBytes.fill(0);
     signingKey.fill(0);
@@ -344,6 +740,39 @@ export async function signAndSendTransaction(
   };
 }
 
+/**
+ * Add the wallet's signature to a serialized legacy or v0 transaction built
+ * by an app. The message bytes are signed exactly as given and other
+ * signatures are kept, so partially signed transactions stay valid.
+ *
+ * @param transaction Base64 encoded serialized transaction
+ * @param privateKeyHex Private key (32 or 64 bytes as hex)
+ * @returns The signed transaction (base64) and the wallet's signature (base58)
+ */
+export function signRawTransaction(transaction: string, privateKeyHex: string): SignedSolanaTransaction {
+  const { signatures, message, messageBytes } = deserializeTransaction(base64ToBytes(transaction));
+  const { privateKeyBytes, signingKey, publicKey } = loadKeypair(privateKeyHex);
+
+  try {
+    const signerIndex = message.staticAccountKeys
+      .slice(0, message.header.numRequiredSignatures)
+      .indexOf(base58Encode(publicKey));
+    if (signerIndex < 0) {
+      throw new Error('Transaction does not require a signature from this wallet');
+    }
+
+    const signature = ed25519.sign(messageBytes, signingKey);
+    signatures[signerIndex] = signature;
+
+    return {
+      rawTransaction: bytesToBase64(serializeTransaction(signatures, messageBytes)),
+      signature: base58Encode(signature)
+    };
+  } finally {
+    privateKeyBytes.fill(0);
+    signingKey.fill(0);
+  }
+}
 
 /**
  * Get token account info
@@ -372,143 +801,275 @@ async function getTokenAccountInfo(
   }
 }
 
+// Program addresses must not be valid ed25519 public keys
+function isOnCurve(bytes: Uint8Array): boolean {
+  try {
+    ed25519.Point.fromBytes(bytes, true);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 /**
- * Create SPL token transfer instruction data
- * Instruction index 3 = Transfer, takes amount as u64
+ * Derive a program address (PDA), trying bump seeds from 255 down until
+ * the hash falls off the curve
  */
-function createTokenTransferInstructionData(amount: bigint): Uint8Array {
-  const data = new Uint8Array(9);
-  data[0] = 3; // Transfer instruction
-  const view = new DataView(data.buffer);
-  view.setBigUint64(1, amount, true);
-  return data;
+function findProgramAddress(seeds: Uint8Array[], programId: Uint8Array): Uint8Array {
+  const marker = new TextEncoder().encode('ProgramDerivedAddress');
+  for (let bump = 255; bump >= 0; bump--) {
+    const address = sha256(concatBytes(...seeds, new Uint8Array([bump]), programId, marker));
+    if (!isOnCurve(address)) {
+      return address;
+    }
+  }
+  throw new Error('Unable to find a program address');
 }
 
 /**
- * Sign and send an SPL token transfer
- *
- * @param toAddress Recipient wallet address (base58)
- * @param amount Amount in token's smallest unit (e.g., for USDC with 6 decimals: 1 USDC = 1_000_000)
- * @param mintAddress Token mint address (base58)
- * @param privateKeyHex Private key (32 or 64 bytes as hex)
- * @param decimals Token decimals (default 6 for USDC)
- * @param network Network (mainnet or devnet)
+ * Derive the associated token account (ATA) of a wallet for a mint. Token-2022
+ * mints derive their accounts with the Token-2022 program ID.
  */
-export async function signAndSendTokenTransfer(
-  toAddress: string,
-  amount: bigint,
+export function getAssociatedTokenAddress(
+  walletAddress: string,
   mintAddress: string,
-  privateKeyHex: string,
-  _decimals: number = 6,
-  network: SolanaNetwork = 'mainnet'
-): Promise<{ signature: string; status: 'pending' }> {
-  const cleanKey = privateKeyHex.startsWith('0x') ? privateKeyHex.slice(2) : privateKeyHex;
-  const privateKeyBytes = hexToBytes(cleanKey);
-
-  let signingKey: Uint8Array;
-  let publicKey: Uint8Array;
+  tokenProgramId: string = base58Encode(TOKEN_PROGRAM_ID)
+): string {
+  return base58Encode(findProgramAddress(
+    [base58Decode(walletAddress), base58Decode(tokenProgramId), base58Decode(mintAddress)],
+    ASSOCIATED_TOKEN_PROGRAM_ID
+  ));
+}
 
-  if (privateKeyBytes.length === 64) {
-    signingKey = privateKeyBytes.slice(0, 32);
-    publicKey = privateKeyBytes.slice(32);
-  } else if (privateKeyBytes.length === 32) {
-    signingKey = privateKeyBytes;
-    publicKey = ed25519.getPublicKey(signingKey);
-  } else {
-    throw new Error('Invalid private key length');
-  }
+export interface TransferFee {
+  basisPoints: number;
+  maximumFee: bigint;  // smallest token units
+}
 
-  const fromWallet = base58Encode(publicKey);
+export interface TokenMint {
+  programId: string;  // Token or Token-2022 program that owns the mint
+  decimals: number;
+  transferFee: TransferFee | null;  // Token-2022 transfer fee in effect this epoch
+  transferHook: boolean;  // Token-2022 transfer hook program set
+}
 
-  // Get sender's token account
-  const senderTokenAccount = await getTokenAccountInfo(fromWallet, mintAddress, network);
-  if (!senderTokenAccount.exists) {
-    throw new Error('Sender has no token account for this token');
+/**
+ * Read a mint account and the Token-2022 extensions that affect transfers
+ */
+export async function getTokenMint(mintAddress: string, network: SolanaNetwork = 'mainnet'): Promise<TokenMint> {
+  const result = await rpcCall(network, 'getAccountInfo', [mintAddress, { encoding: 'jsonParsed', commitment: 'confirmed' }]);
+  const account = result.value;
+  const parsed = account?.data?.parsed;
+  const programs = [base58Encode(TOKEN_PROGRAM_ID), base58Encode(TOKEN_2022_PROGRAM_ID)];
+  if (!account || !programs.includes(account.owner) || parsed?.type !== 'mint') {
+    throw new Error('Address is not an SPL token mint');
   }
 
-  // Get recipient's token account
-  let recipientTokenAccount = await getTokenAccountInfo(toAddress, mintAddress, network);
-
-  // Get recent blockhash
-  const blockhash = await getRecentBlockhash(network);
-  const blockhashBytes = base58Decode(blockhash);
-
-  const senderATAPubkey = base58Decode(senderTokenAccount.address);
-
-  // If recipient doesn't have a token account, we need to create one
-  if (!recipientTokenAccount.exists) {
-    throw new Error('Recipient does not have a token account. They need to create one first or receive tokens from an exchange.');
+  const extensions: any[] = parsed.info.extensions || [];
+  const feeConfig = extensions.find(ext => ext.extension === 'transferFeeConfig')?.state;
+  let transferFee: TransferFee | null = null;
+  if (feeConfig) {
+    // A fee change takes effect from the epoch stored with the newer fee
+    const { epoch } = await rpcCall(network, 'getEpochInfo', []);
+    const fee = epoch >= feeConfig.newerTransferFee.epoch ? feeConfig.newerTransferFee : feeConfig.olderTransferFee;
+    transferFee = { basisPoints: fee.transferFeeBasisPoints, maximumFee: BigInt(fee.maximumFee) };
   }
+  const transferHook = extensions.find(ext => ext.extension === 'transferHook')?.state;
 
-  const recipientATAPubkey = base58Decode(recipientTokenAccount.address);
-
-  // Build SPL Token transfer instruction
-  // Accounts: [source, destination, owner]
-  // Data: Transfer instruction (index 3) + amount (u64)
+  return {
+    programId: account.owner,
+    decimals: parsed.info.decimals,
+    transferFee,
+    transferHook: !!transferHook?.programId
+  };
+}
 
-  // Header: 1 signer (owner), 0 readonly signed, 1 readonly unsigned (token program)
-  const header = new Uint8Array([1, 0, 1]);
+/**
+ * Fee a Token-2022 transfer withholds from the amount, rounded up and capped
+ * at the mint's maximum fee
+ */
+export function calculateTransferFee(amount: bigint, transferFee: TransferFee | null): bigint {
+  if (!transferFee || transferFee.basisPoints === 0 || amount === 0n) {
+    return 0n;
+  }
+  const fee = (amount * BigInt(transferFee.basisPoints) + 9_999n) / 10_000n;
+  return fee < transferFee.maximumFee ? fee : transferFee.maximumFee;
+}
 
-  // Account keys: owner, source ATA, destination ATA, token program
-  const accountKeys = new Uint8Array(32 * 4);
-  accountKeys.set(publicKey, 0);        // 0: owner (signer, writable)
-  accountKeys.set(senderATAPubkey, 32); // 1: source ATA (writable)
-  accountKeys.set(recipientATAPubkey, 64); // 2: destination ATA (writable)
-  accountKeys.set(TOKEN_PROGRAM_ID, 96);   // 3: token program (readonly)
+/**
+ * Whether a token account exists and, for Token-2022, whether its owner has
+ * turned on required memos for incoming transfers
+ */
+async function getTokenAccountState(address: string, network: SolanaNetwork): Promise<{ exists: boolean; memoRequired: boolean }> {
+  const result = await rpcCall(network, 'getAccountInfo', [address, { encoding: 'jsonParsed', commitment: 'confirmed' }]);
+  if (!result.value) {
+    return { exists: false, memoRequired: false };
+  }
+  const extensions: any[] = result.value.data?.parsed?.info?.extensions || [];
+  const memoTransfer = extensions.find(ext => ext.extension === 'memoTransfer')?.state;
+  return { exists: true, memoRequired: !!memoTransfer?.requireIncomingTransferMemos };
+}
 
-  // Transfer instruction
-  const instructionData = createTokenTransferInstructionData(amount);
+export interface TokenTransferQuote {
+  mint: TokenMint;
+  recipientTokenAccount: string;
+  rentLamports: number;  // paid by the sender to create the recipient's token account, 0 when it exists
+  transferFee: bigint;  // withheld from the amount by a Token-2022 transfer fee
+  memoRequired: boolean;  // the recipient's token account only accepts transfers with a memo
+}
 
-  // Instruction format:
-  // - program_id_index: 3 (token program)
-  // - accounts: [1, 2, 0] (source, destination, owner)
-  // - data: transfer instruction
-  const accountIndices = new Uint8Array([1, 2, 0]); // source, dest, owner
+/**
+ * Work out what a token transfer costs before it is signed: the rent for a
+ * new recipient token account, the Token-2022 transfer fee withheld from
+ * the amount, and whether the recipient requires a memo
+ */
+export async function getTokenTransferQuote(
+  toAddress: string,
+  mintAddress: string,
+  amount: bigint,
+  network: SolanaNetwork = 'mainnet'
+): Promise<TokenTransferQuote> {
+  const mint = await getTokenMint(mintAddress, network);
+  const recipientTokenAccount = getAssociatedTokenAddress(toAddress, mintAddress, mint.programId);
+  const recipient = await getTokenAccountState(recipientTokenAccount, network);
+
+  let rentLamports = 0;
+  if (!recipient.exists) {
+    const size = mint.programId === base58Encode(TOKEN_2022_PROGRAM_ID)
+      ? TOKEN_2022_ACCOUNT_SIZE + (mint.transferFee ? TRANSFER_FEE_AMOUNT_SIZE : 0)
+      : TOKEN_ACCOUNT_SIZE;
+    rentLamports = await getMinimumBalanceForRentExemption(size, network);
+  }
 
-  const instruction = new Uint8Array(1 + 1 + accountIndices.length + 1 + instructionData.length);
-  let off = 0;
-  instruction[off++] = 3; // program_id_index (token program)
-  instruction[off++] = accountIndices.length;
-  instruction.set(accountIndices, off);
-  off += accountIndices.length;
-  instruction[off++] = instructionData.length;
-  instruction.set(instructionData, off);
+  return {
+    mint,
+    recipientTokenAccount,
+    rentLamports,
+    transferFee: calculateTransferFee(amount, mint.transferFee),
+    memoRequired: recipient.memoRequired
+  };
+}
 
-  // Build message
-  const numKeys = encodeCompactU16(4);
-  const numInstructions = encodeCompactU16(1);
+/**
+ * Create TransferChecked instruction data (index 12): amount as u64 and the
+ * decimals the program checks against the mint
+ */
+function createTransferCheckedInstructionData(amount: bigint, decimals: number): Uint8Array {
+  const data = new Uint8Array(10);
+  data[0] = 12; // TransferChecked instruction
+  const view = new DataView(data.buffer);
+  view.setBigUint64(1, amount, true);
+  data[9] = decimals;
+  return data;
+}
 
-  const messageLength = header.length + numKeys.length + accountKeys.length + 32 + numInstructions.length + instruction.length;
-  const message = new Uint8Array(messageLength);
-  off = 0;
-  message.set(header, off); off += header.length;
-  message.set(numKeys, off); off += numKeys.length;
-  message.set(accountKeys, off); off += accountKeys.length;
-  message.set(blockhashBytes, off); off += 32;
-  message.set(numInstructions, off); off += numInstructions.length;
-  message.set(instruction, off);
+/**
+ * Sign and send an SPL or Token-2022 token transfer
+ *
+ * The tokens go to the recipient's associated token account with
+ * TransferChecked, under the program that owns the mint. If the account does
+ * not exist yet, the transaction first creates it with the Associated Token
+ * Program's CreateIdempotent instruction, paid for by the sender; the rent
+ * this costs is returned as rentLamports. A Token-2022 transfer fee is
+ * withheld from the amount the recipient gets and returned as transferFee.
+ *
+ * @param toAddress Recipient wallet address (base58)
+ * @param amount Amount in token's smallest unit (e.g., for USDC with 6 decimals: 1 USDC = 1_000_000)
+ * @param mintAddress Token mint address (base58)
+ * @param privateKeyHex Private key (32 or 64 bytes as hex)
+ * @param decimals Token decimals (default 6 for USDC), checked by the token program
+ * @param network Network (mainnet or devnet)
+ * @param memo Memo sent with the transfer; required when the recipient's account requires memos
+ */
+export async function signAndSendTokenTransfer(
+  toAddress: string,
+  amount: bigint,
+  mintAddress: string,
+  privateKeyHex: string,
+  decimals: number = 6,
+  network: SolanaNetwork = 'mainnet',
+  memo?: string
+): Promise<{ signature: string; status: 'pending'; rentLamports: number; priorityFeeLamports: number; transferFee: bigint }> {
+  const { privateKeyBytes, signingKey, publicKey } = loadKeypair(privateKeyHex);
 
-  // Sign message
-  const signature = ed25519.sign(message, signingKey);
+  try {
+    const fromWallet = base58Encode(publicKey);
 
-  // Build transaction
-  const numSignatures = encodeCompactU16(1);
-  const transaction = new Uint8Array(numSignatures.length + 64 + message.length);
-  off = 0;
-  transaction.set(numSignatures, off); off += numSignatures.length;
-  transaction.set(signature, off); off += 64;
-  transaction.set(message, off);
+    const quote = await getTokenTransferQuote(toAddress, mintAddress, amount, network);
+    if (quote.mint.transferHook) {
+      throw new Error('Tokens with a transfer hook are not supported');
+    }
+    if (quote.memoRequired && !memo) {
+      throw new Error("The recipient's token account requires a memo");
+    }
+    const tokenProgramId = base58Decode(quote.mint.programId);
+    const isToken2022 = quote.mint.programId === base58Encode(TOKEN_2022_PROGRAM_ID);
 
-  // Encode as base64
-  const rawTransaction = btoa(String.fromCharCode(...transaction));
+    // Get sender's token account
+    const senderTokenAccount = await getTokenAccountInfo(fromWallet, mintAddress, network);
+    if (!senderTokenAccount.exists) {
+      throw new Error('Sender has no token account for this token');
+    }
 
-  // Send transaction
-  const txSignature = await sendTransaction(rawTransaction, network);
+    // Recipient's associated token account, created in this transaction if missing
+    const recipientATA = base58Decode(quote.recipientTokenAccount);
+    const rentLamports = quote.rentLamports;
+
+    const instructions: SolanaInstruction[] = [];
+    if (rentLamports > 0) {
+      // CreateIdempotent (1): [payer, ata, wallet, mint, system program, token program]
+      instructions.push({
+        programId: ASSOCIATED_TOKEN_PROGRAM_ID,
+        keys: [
+          { pubkey: publicKey, isSigner: true, isWritable: true },
+          { pubkey: recipientATA, isSigner: false, isWritable: true },
+          { pubkey: base58Decode(toAddress), isSigner: false, isWritable: false },
+          { pubkey: base58Decode(mintAddress), isSigner: false, isWritable: false },
+          { pubkey: SYSTEM_PROGRAM_ID, isSigner: false, isWritable: false },
+          { pubkey: tokenProgramId, isSigner: false, isWritable: false },
+        ],
+        data: new Uint8Array([1]),
+      });
+    }
+    // Required memos must come directly before the transfer
+    if (memo) {
+      instructions.push({
+        programId: MEMO_PROGRAM_ID,
+        keys: [],
+        data: new TextEncoder().encode(memo),
+      });
+    }
+    // TransferChecked: [source, mint, destination, owner]
+    instructions.push({
+      programId: tokenProgramId,
+      keys: [
+        { pubkey: base58Decode(senderTokenAccount.address), isSigner: false, isWritable: true },
+        { pubkey: base58Decode(mintAddress), isSigner: false, isWritable: false },
+        { pubkey: recipientATA, isSigner: false, isWritable: true },
+        { pubkey: publicKey, isSigner: true, isWritable: false },
+      ],
+      data: createTransferCheckedInstructionData(amount, decimals),
+    });
+
+    const computeUnits = (isToken2022 ? TOKEN_2022_TRANSFER_COMPUTE_UNITS : TOKEN_TRANSFER_COMPUTE_UNITS)
+      + (rentLamports > 0 ? CREATE_TOKEN_ACCOUNT_COMPUTE_UNITS : 0)
+      + (memo ? MEMO_COMPUTE_UNITS : 0);
+    const signed = await buildSignedTransaction(instructions, computeUnits, signingKey, publicKey, network);
+
+    // Send transaction
+    const txSignature = await sendTransaction(signed.rawTransaction, network);
 
-  return {
-    signature: txSignature,
-    status: 'pending'
-  };
+    return {
+      signature: txSignature,
+      status: 'pending',
+      rentLamports,
+      priorityFeeLamports: signed.priorityFeeLamports,
+      transferFee: quote.transferFee
+    };
+  } finally {
+    privateKeyBytes.fill(0);
+    signingKey.fill(0);
+  }
 }
 
 /**
@@ -0,0 +1,64 @@
+/**
+ * Spending Policy - Client side of the spending limits and transfer rules
+ *
+ * The wallet fetches the policies that apply to the user before every
+ * transfer and refuses the ones that break a rule before asking for a passkey
+ * signature. The rules themselves live in lib/spendingPolicy, which the server
+ * applies when the outgoing transfer is recorded.
+ */
+
+import type { PolicyType, SpendIntent } from '../lib/spendingPolicy';
+import { formatUnits } from './txPreview';
+import { getEvmChain } from './evmChains';
+
+export { evaluateSpend } from '../lib/spendingPolicy';
+export type { SpendIntent, SpendingPolicy } from '../lib/spendingPolicy';
+
+export const POLICY_TYPE_LABELS: Record<PolicyType, string> = {
+  tx_limit: 'Per-transaction limit',
+  daily_limit: 'Daily limit',
+  allow_destination: 'Allowed destination',
+  deny_destination: 'Blocked destination',
+  allow_selector: 'Allowed contract call',
+};
+
+const ERC20_TRANSFER = '0xa9059cbb';
+
+/**
+ * Describe an EVM transaction as a spend. ERC-20 transfers of known tokens are
+ * counted against the token; everything else against the native value.
+ */
+export function evmSpendIntent(
+  tx: { to: string; value?: string; data?: string; chainId: number },
+  tokens: Record<string, { symbol: string; decimals: number }>
+): SpendIntent {
+  const registered = getEvmChain(tx.chainId);
+  const native = registered
+    ? { chain: registered.name, symbol: registered.nativeSymbol, decimals: registered.nativeDecimals }
+    : { chain: `EVM chain ${tx.chainId}`, symbol: 'ETH', decimals: 18 };
+  const data = tx.data && tx.data !== '0x' ? tx.data.toLowerCase() : undefined;
+  const selector = data ? data.slice(0, 10) : undefined;
+  const token = tokens[tx.to.toLowerCase()];
+
+  if (selector === ERC20_TRANSFER && token && data!.length >= 10 + 128) {
+    const recipient = '0x' + data!.slice(10 + 24, 10 + 64);
+    const amount = BigInt('0x' + data!.slice(10 + 64, 10 + 128));
+    return {
+      chainType: 'evm',
+      chain: native.chain,
+      assetSymbol: token.symbol,
+      amount: formatUnits(amount, token.decimals),
+      toAddress: recipient,
+      selector
+    };
+  }
+
+  return {
+    chainType: 'evm',
+    chain: native.chain,
+    assetSymbol: native.symbol,
+    amount: formatUnits(tx.value ? BigInt(tx.value) : 0n, native.decimals),
+    toAddress: tx.to,
+    selector
+  };
+}
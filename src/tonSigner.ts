@@ -2,12 +2,30 @@
  * Client-side TON (The Open Network) Transaction Signing
  *
  * Uses @noble/ed25519 for cryptographic operations.
- * Supports TON transfers.
+ * Supports TON and Jetton (TEP-74) transfers from wallet v4R2 and W5
+ * contracts. Addresses are derived from the wallet's StateInit, and the first
+ * outgoing transfer deploys the contract.
  */
 
 import { ed25519 } from '@noble/curves/ed25519.js';
-import { sha256 } from '@noble/hashes/sha2.js';
 import { bytesToHex, hexToBytes } from '@noble/hashes/utils.js';
+import { beginCell, serializeBoc } from '../lib/tonCell';
+import type { Cell } from '../lib/tonCell';
+import {
+  WALLET_V4R2_ID,
+  WALLET_W5_ID,
+  base64Encode,
+  formatAddress,
+  getAddressFromPublicKey,
+  getWalletStateInit,
+  parseAddress
+} from '../lib/tonAddress';
+import type { TonNetwork, TonWalletVersion } from '../lib/tonAddress';
+import { JETTON_OP_TRANSFER, getJettonWalletAddress, runGetMethod, tonApiCall } from '../lib/tonApi';
+import type { TonTransactionHistory } from '../lib/tonApi';
+
+export type { TonNetwork, TonWalletVersion } from '../lib/tonAddress';
+export type { TonTransactionHistory } from '../lib/tonApi';
 
 // RPC endpoints - must be set via setTonRpcEndpoints() from config
 let tonRpcEndpoints: Record<string, string> = {};
@@ -17,8 +35,6 @@ export function setTonRpcEndpoints(endpoints: Record<string, string>): void {
   tonRpcEndpoints = { ...endpoints };
 }
 
-export type TonNetwork = 'mainnet' | 'testnet';
-
 export interface TonTransaction {
   to: string;
   amount: bigint; // in nanotons (1 TON = 1e9 nanotons)
@@ -28,54 +44,27 @@ export interface TonTransaction {
 
 export interface SignedTonTransaction {
   boc: string; // Base64 encoded BOC
-  hash: string;
+  hash: string; // External message hash (hex)
+  deploy: boolean; // Carries the StateInit that deploys the wallet contract
 }
 
-// Base64 encoding/decoding
-function base64Encode(bytes: Uint8Array): string {
-  return btoa(String.fromCharCode(...bytes));
-}
+// W5 external message opcode ("sign") and send message action tag
+const W5_EXTERNAL_SIGNED = 0x7369676e;
+const W5_ACTION_SEND_MSG = 0x0ec3c86d;
 
-function base64Decode(str: string): Uint8Array {
-  const binary = atob(str);
-  const bytes = new Uint8Array(binary.length);
-  for (let i = 0; i < binary.length; i++) {
-    bytes[i] = binary.charCodeAt(i);
-  }
-  return bytes;
-}
+// Pay forward fees separately and ignore errors (W5 requires +2 on external messages)
+const SEND_MODE = 3;
 
-// Base64url encoding for TON addresses
-function base64UrlEncode(bytes: Uint8Array): string {
-  const base64 = btoa(String.fromCharCode(...bytes));
-  return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
-}
+// How long a signed transfer stays valid
+const VALID_FOR_SECONDS = 60;
 
-function base64UrlDecode(str: string): Uint8Array {
-  let base64 = str.replace(/-/g, '+').replace(/_/g, '/');
-  while (base64.length % 4) {
-    base64 += '=';
-  }
-  return base64Decode(base64);
-}
+// TON attached to a Jetton transfer to pay the Jetton wallets' fees; the
+// excess comes back to the sender
+export const JETTON_TRANSFER_TON = 50_000_000n; // 0.05 TON
 
-// CRC16 for TON addresses
-function crc16(data: Uint8Array): number {
-  const poly = 0x1021;
-  let crc = 0;
-  for (let i = 0; i < data.length; i++) {
-    crc ^= data[i] << 8;
-    for (let j = 0; j < 8; j++) {
-      if (crc & 0x8000) {
-        crc = (crc << 1) ^ poly;
-      } else {
-        crc <<= 1;
-      }
-      crc &= 0xffff;
-    }
-  }
-  return crc;
-}
+// TON forwarded to the recipient with the transfer notification, so their
+// wallet shows the transfer and its comment
+const JETTON_FORWARD_TON = 1n;
 
 // Get public key from private key (Ed25519)
 export function getPublicKey(privateKeyHex: string): Uint8Array {
@@ -95,101 +84,15 @@ export function getPublicKey(privateKeyHex: string): Uint8Array {
   }
 }
 
-// Get TON address from public key (user-friendly format)
-export function getAddressFromPublicKey(
-  publicKey: Uint8Array,
-  workchain: number = 0,
-  bounceable: boolean = true
-): string {
-  // Calculate address hash (simplified - real TON uses StateInit)
-  const addressHash = sha256(publicKey);
-
-  // Build user-friendly address
-  // Format: tag (1 byte) + workchain (1 byte) + hash (32 bytes) + crc16 (2 bytes)
-  const tag = bounceable ? 0x11 : 0x51; // Bounceable or non-bounceable
-
-  const addressData = new Uint8Array(34);
-  addressData[0] = tag;
-  addressData[1] = workchain & 0xff;
-  addressData.set(addressHash, 2);
-
-  const crc = crc16(addressData);
-  const fullAddress = new Uint8Array(36);
-  fullAddress.set(addressData);
-  fullAddress[34] = (crc >> 8) & 0xff;
-  fullAddress[35] = crc & 0xff;
-
-  return base64UrlEncode(fullAddress);
-}
-
 // Get address from private key
-export function getAddressFromPrivateKey(privateKeyHex: string, bounceable: boolean = true): string {
+export function getAddressFromPrivateKey(
+  privateKeyHex: string,
+  version: TonWalletVersion = 'v4r2',
+  bounceable: boolean = false,
+  network: TonNetwork = 'mainnet'
+): string {
   const publicKey = getPublicKey(privateKeyHex);
-  return getAddressFromPublicKey(publicKey, 0, bounceable);
-}
-
-// Parse TON address
-export function parseAddress(address: string): { workchain: number; hash: Uint8Array; bounceable: boolean } {
-  let bytes: Uint8Array;
-
-  if (address.includes(':')) {
-    // Raw format: workchain:hash
-    const [wcStr, hashHex] = address.split(':');
-    const workchain = parseInt(wcStr, 10);
-    const hash = hexToBytes(hashHex);
-    return { workchain, hash, bounceable: true };
-  } else {
-    // User-friendly format
-    bytes = base64UrlDecode(address);
-  }
-
-  if (bytes.length !== 36) {
-    throw new Error('Invalid address length');
-  }
-
-  const tag = bytes[0];
-  const workchain = bytes[1] === 0xff ? -1 : bytes[1];
-  const hash = bytes.slice(2, 34);
-  const checksum = (bytes[34] << 8) | bytes[35];
-
-  // Verify checksum
-  const expectedCrc = crc16(bytes.slice(0, 34));
-  if (checksum !== expectedCrc) {
-    throw new Error('Invalid address checksum');
-  }
-
-  const bounceable = (tag & 0x11) === 0x11;
-
-  return { workchain, hash, bounceable };
-}
-
-// Convert address to raw format
-export function toRawAddress(address: string): string {
-  const { workchain, hash } = parseAddress(address);
-  return `${workchain}:${bytesToHex(hash)}`;
-}
-
-// API call to TON node (HTTP API format)
-async function apiCall(network: TonNetwork, endpoint: string, params?: Record<string, any>): Promise<any> {
-  const baseUrl = tonRpcEndpoints[network];
-
-  const url = new URL(`${baseUrl}${endpoint}`);
-  if (params) {
-    Object.entries(params).forEach(([key, value]) => {
-      url.searchParams.append(key, String(value));
-    });
-  }
-
-  const response = await fetch(url.toString(), {
-    method: 'GET',
-    headers: { 'Content-Type': 'application/json' }
-  });
-
-  const result = await response.json() as any;
-  if (!result.ok) {
-    throw new Error(result.error || 'API call failed');
-  }
-  return result.result;
+  return getAddressFromPublicKey(publicKey, version, bounceable, network);
 }
 
 // JSON-RPC call to TON node (kept for future use)
@@ -218,7 +121,7 @@ void _rpcCall; // Suppress unused warning
 // Get account info
 export async function getAccountInfo(address: string, network: TonNetwork = 'mainnet'): Promise<any> {
   try {
-    return await apiCall(network, '/getAddressInformation', { address });
+    return await tonApiCall(tonRpcEndpoints[network], '/getAddressInformation', { address });
   } catch {
     return null;
   }
@@ -237,7 +140,7 @@ export async function getBalance(address: string, network: TonNetwork = 'mainnet
 // Get seqno for wallet
 export async function getSeqno(address: string, network: TonNetwork = 'mainnet'): Promise<number> {
   try {
-    const result = await apiCall(network, '/runGetMethod', {
+    const result = await tonApiCall(tonRpcEndpoints[network], '/runGetMethod', {
       address,
       method: 'seqno',
       stack: []
@@ -251,6 +154,12 @@ export async function getSeqno(address: string, network: TonNetwork = 'mainnet')
   }
 }
 
+// Account state: 'active', 'uninit' (never deployed) or 'frozen'
+export async function getAccountState(address: string, network: TonNetwork = 'mainnet'): Promise<string> {
+  const info = await tonApiCall(tonRpcEndpoints[network], '/getAddressInformation', { address });
+  return info?.state === 'uninitialized' ? 'uninit' : info?.state || 'uninit';
+}
+
 // Send BOC (Bag of Cells)
 export async function sendBoc(boc: string, network: TonNetwork = 'mainnet'): Promise<any> {
   const baseUrl = tonRpcEndpoints[network];
@@ -264,215 +173,285 @@ export async function sendBoc(boc: string, network: TonNetwork = 'mainnet'): Pro
   return await response.json();
 }
 
-// Simple cell builder for TON
-class CellBuilder {
-  private bits: boolean[] = [];
-  private refs: Uint8Array[] = [];
-
-  writeBit(bit: boolean): this {
-    this.bits.push(bit);
-    return this;
-  }
-
-  writeBits(value: number | bigint, count: number): this {
-    const val = BigInt(value);
-    for (let i = count - 1; i >= 0; i--) {
-      this.bits.push(((val >> BigInt(i)) & 1n) === 1n);
-    }
-    return this;
-  }
-
-  writeUint(value: number | bigint, bits: number): this {
-    return this.writeBits(value, bits);
-  }
+// Text comment: opcode 0, then the text
+function buildComment(message: string): Cell {
+  return beginCell().storeUint(0, 32).storeStringTail(message).endCell();
+}
 
-  writeInt(value: number | bigint, bits: number): this {
-    const val = BigInt(value);
-    if (val < 0n) {
-      const mask = (1n << BigInt(bits)) - 1n;
-      return this.writeBits((val & mask), bits);
-    }
-    return this.writeBits(val, bits);
-  }
+/**
+ * Internal message carrying the transfer. The bounce flag follows the
+ * destination's address format, so non-bounceable addresses (undeployed
+ * wallets) keep the funds instead of sending them back.
+ */
+function buildInternalMessage(toAddress: string, amount: bigint, body: Cell | null): Cell {
+  const destination = parseAddress(toAddress);
+
+  return beginCell()
+    .storeUint(0, 1) // int_msg_info
+    .storeBit(true) // ihr_disabled
+    .storeBit(destination.bounceable)
+    .storeBit(false) // bounced
+    .storeAddress(null) // src, filled in by the contract
+    .storeAddress(destination)
+    .storeCoins(amount)
+    .storeBit(false) // no extra currencies
+    .storeCoins(0n) // ihr_fee
+    .storeCoins(0n) // fwd_fee
+    .storeUint(0, 64) // created_lt
+    .storeUint(0, 32) // created_at
+    .storeBit(false) // no state_init
+    .storeMaybeRef(body)
+    .endCell();
+}
 
-  writeCoins(value: bigint): this {
-    if (value === 0n) {
-      this.writeUint(0, 4);
-      return this;
-    }
-    const bytes = Math.ceil(value.toString(16).length / 2);
-    this.writeUint(bytes, 4);
-    this.writeUint(value, bytes * 8);
-    return this;
+/**
+ * Signed body of a wallet's external message. v4R2 puts the signature
+ * before the request; W5 puts it after.
+ */
+function buildSignedBody(
+  version: TonWalletVersion,
+  network: TonNetwork,
+  seqno: number,
+  internalMessage: Cell,
+  signingKey: Uint8Array
+): Cell {
+  const validUntil = Math.floor(Date.now() / 1000) + VALID_FOR_SECONDS;
+
+  if (version === 'v4r2') {
+    const request = beginCell()
+      .storeUint(WALLET_V4R2_ID, 32)
+      .storeUint(validUntil, 32)
+      .storeUint(seqno, 32)
+      .storeUint(0, 8) // op: simple send
+      .storeUint(SEND_MODE, 8)
+      .storeRef(internalMessage)
+      .endCell();
+    const signature = ed25519.sign(request.hash(), signingKey);
+    return beginCell().storeBytes(signature).storeCell(request).endCell();
   }
 
-  writeAddress(address: string | null): this {
-    if (!address) {
-      this.writeBits(0, 2); // addr_none
-      return this;
-    }
-
-    const { workchain, hash } = parseAddress(address);
+  // W5 out actions: a list of action_send_msg, linked through the first ref
+  const actions = beginCell()
+    .storeRef(beginCell().endCell())
+    .storeUint(W5_ACTION_SEND_MSG, 32)
+    .storeUint(SEND_MODE, 8)
+    .storeRef(internalMessage)
+    .endCell();
+  const request = beginCell()
+    .storeUint(W5_EXTERNAL_SIGNED, 32)
+    .storeUint(WALLET_W5_ID[network], 32)
+    .storeUint(validUntil, 32)
+    .storeUint(seqno, 32)
+    .storeMaybeRef(actions)
+    .storeBit(false) // no extended actions
+    .endCell();
+  const signature = ed25519.sign(request.hash(), signingKey);
+  return beginCell().storeCell(request).storeBytes(signature).endCell();
+}
 
-    this.writeBits(0b10, 2); // addr_std
-    this.writeBit(false); // anycast
-    this.writeInt(workchain, 8);
-    for (let i = 0; i < 32; i++) {
-      this.writeUint(hash[i], 8);
-    }
-    return this;
-  }
+/**
+ * Sign an external message that has the key's wallet contract send one
+ * internal message
+ *
+ * If the wallet has not been deployed yet, the external message carries its
+ * StateInit so this first transfer deploys it (the address must already
+ * hold enough TON for the amount and fees).
+ */
+async function signWalletMessage(
+  internalMessage: Cell,
+  privateKeyHex: string,
+  network: TonNetwork,
+  version: TonWalletVersion
+): Promise<SignedTonTransaction> {
+  const cleanKey = privateKeyHex.startsWith('0x') ? privateKeyHex.slice(2) : privateKeyHex;
+  const privateKeyBytes = hexToBytes(cleanKey);
 
-  writeRef(cell: Uint8Array): this {
-    this.refs.push(cell);
-    return this;
+  let signingKey: Uint8Array;
+  if (privateKeyBytes.length === 64) {
+    signingKey = privateKeyBytes.slice(0, 32);
+  } else if (privateKeyBytes.length === 32) {
+    signingKey = privateKeyBytes;
+  } else {
+    throw new Error('Invalid private key length');
   }
 
-  build(): Uint8Array {
-    // Simplified cell serialization
-    const bitLength = this.bits.length;
-    const byteLength = Math.ceil(bitLength / 8);
-    const data = new Uint8Array(byteLength);
+  try {
+    const publicKey = getPublicKey(privateKeyHex);
+    const stateInit = getWalletStateInit(publicKey, version, network);
+    const fromAddress = formatAddress(0, stateInit.hash(), true);
 
-    for (let i = 0; i < bitLength; i++) {
-      if (this.bits[i]) {
-        data[Math.floor(i / 8)] |= (1 << (7 - (i % 8)));
-      }
+    const state = await getAccountState(fromAddress, network);
+    if (state === 'frozen') {
+      throw new Error('TON wallet is frozen');
     }
-
-    // Add completion tag if not byte-aligned
-    if (bitLength % 8 !== 0) {
-      data[byteLength - 1] |= (1 << (7 - (bitLength % 8)));
+    const deploy = state !== 'active';
+    const seqno = deploy ? 0 : await getSeqno(fromAddress, network);
+
+    const body = buildSignedBody(version, network, seqno, internalMessage, signingKey);
+
+    // ext_in_msg_info from addr_none to the wallet, with the StateInit when deploying
+    const externalMessage = beginCell()
+      .storeUint(0b10, 2)
+      .storeAddress(null)
+      .storeAddress(parseAddress(fromAddress))
+      .storeCoins(0n) // import_fee
+      .storeBit(deploy);
+    if (deploy) {
+      externalMessage.storeBit(true).storeRef(stateInit);
     }
+    const externalCell = externalMessage.storeBit(true).storeRef(body).endCell();
 
-    return data;
-  }
-
-  toCell(): { bits: Uint8Array; refs: Uint8Array[] } {
     return {
-      bits: this.build(),
-      refs: this.refs
+      boc: base64Encode(serializeBoc(externalCell)),
+      hash: bytesToHex(externalCell.hash()),
+      deploy
     };
+  } finally {
+    privateKeyBytes.fill(0);
+    signingKey.fill(0);
   }
 }
 
 /**
- * Sign a TON transaction
- *
- * Note: This is a simplified implementation. Production use requires
- * proper wallet contract interaction and BOC serialization.
+ * Sign a TON transfer from the key's wallet contract, deploying the wallet
+ * if this is its first transfer
  *
  * @param toAddress Recipient address
  * @param amount Amount in nanotons
  * @param privateKeyHex Private key as hex
  * @param message Optional comment message
  * @param network Network (mainnet or testnet)
+ * @param version Wallet contract version
  */
 export async function signTransaction(
   toAddress: string,
   amount: bigint,
   privateKeyHex: string,
   message?: string,
-  network: TonNetwork = 'mainnet'
+  network: TonNetwork = 'mainnet',
+  version: TonWalletVersion = 'v4r2'
 ): Promise<SignedTonTransaction> {
-  const cleanKey = privateKeyHex.startsWith('0x') ? privateKeyHex.slice(2) : privateKeyHex;
-  const privateKeyBytes = hexToBytes(cleanKey);
-
-  let signingKey: Uint8Array;
-  if (privateKeyBytes.length === 64) {
-    signingKey = privateKeyBytes.slice(0, 32);
-  } else if (privateKeyBytes.length === 32) {
-    signingKey = privateKeyBytes;
-  } else {
-    throw new Error('Invalid private key length');
-  }
-
-  try {
-  const fromAddress = getAddressFromPrivateKey(privateKeyHex);
-
-  // Get seqno
-  const seqno = await getSeqno(fromAddress, network);
-
-  // Build internal message (simplified)
-  const internalMsg = new CellBuilder()
-    .writeBit(false) // ihr_disabled
-    .writeBit(true) // bounce
-    .writeBit(false) // bounced
-    .writeAddress(null) // src (will be filled by contract)
-    .writeAddress(toAddress) // dest
-    .writeCoins(amount) // value
-    .writeBit(false) // ihr_fee
-    .writeCoins(0n) // fwd_fee
-    .writeUint(0, 64) // created_lt
-    .writeUint(0, 32) // created_at
-    .writeBit(false) // state_init
-    .writeBit(message ? true : false); // body
-
-  if (message) {
-    // Add comment (0x00000000 prefix for text)
-    const msgBytes = new TextEncoder().encode(message);
-    internalMsg.writeUint(0, 32); // text comment opcode
-    for (const byte of msgBytes) {
-      internalMsg.writeUint(byte, 8);
-    }
-  }
-
-  const internalMsgCell = internalMsg.build();
-
-  // Build signing message
-  const signingMsg = new CellBuilder()
-    .writeUint(698983191, 32) // wallet v4 prefix
-    .writeUint(Math.floor(Date.now() / 1000) + 60, 32) // valid_until
-    .writeUint(seqno, 32) // seqno
-    .writeUint(0, 8) // op (simple send)
-    .writeUint(3, 8); // send_mode
-
-  signingMsg.writeRef(internalMsgCell);
+  const internalMessage = buildInternalMessage(toAddress, amount, message ? buildComment(message) : null);
+  return signWalletMessage(internalMessage, privateKeyHex, network, version);
+}
 
-  const messageToSign = signingMsg.build();
-  const messageHash = sha256(messageToSign);
+/**
+ * Sign and send a TON transaction
+ */
+export async function signAndSendTransaction(
+  toAddress: string,
+  amount: bigint,
+  privateKeyHex: string,
+  message?: string,
+  network: TonNetwork = 'mainnet',
+  version: TonWalletVersion = 'v4r2'
+): Promise<{ hash: string; status: 'pending' | 'failed'; deploy: boolean }> {
+  const signed = await signTransaction(toAddress, amount, privateKeyHex, message, network, version);
+  const result = await sendBoc(signed.boc, network);
 
-  // Sign with Ed25519
-  const signature = ed25519.sign(messageHash, signingKey);
+  return {
+    hash: signed.hash,
+    status: result.ok ? 'pending' : 'failed',
+    deploy: signed.deploy
+  };
+}
 
-  // Build external message with signature
-  const externalMsg = new CellBuilder();
-  for (let i = 0; i < 64; i++) {
-    externalMsg.writeUint(signature[i], 8);
-  }
-  for (let i = 0; i < messageToSign.length; i++) {
-    externalMsg.writeUint(messageToSign[i], 8);
+/**
+ * Get an owner's Jetton balance in the Jetton's smallest units
+ * (get_wallet_data on their Jetton wallet; 0 when it is not deployed)
+ */
+export async function getJettonBalance(
+  ownerAddress: string,
+  jettonMaster: string,
+  network: TonNetwork = 'mainnet'
+): Promise<bigint> {
+  const jettonWallet = await getJettonWalletAddress(tonRpcEndpoints[network], ownerAddress, jettonMaster);
+  if (await getAccountState(jettonWallet, network) !== 'active') {
+    return 0n;
   }
+  const stack = await runGetMethod(tonRpcEndpoints[network], jettonWallet, 'get_wallet_data', []);
+  return BigInt(stack[0]?.[1] || '0');
+}
 
-  const boc = base64Encode(externalMsg.build());
-  const hash = bytesToHex(sha256(externalMsg.build()));
+/**
+ * Body of a Jetton transfer, sent by the owner to their own Jetton wallet.
+ * The recipient is the destination owner; excess TON returns to the sender.
+ */
+function buildJettonTransferBody(
+  toAddress: string,
+  amount: bigint,
+  responseAddress: string,
+  forwardAmount: bigint,
+  message?: string
+): Cell {
+  const body = beginCell()
+    .storeUint(JETTON_OP_TRANSFER, 32)
+    .storeUint(Date.now(), 64) // query_id
+    .storeCoins(amount)
+    .storeAddress(parseAddress(toAddress))
+    .storeAddress(parseAddress(responseAddress))
+    .storeBit(false) // no custom_payload
+    .storeCoins(forwardAmount);
+
+  // forward_payload: the comment in a ref, or empty inline
+  return message
+    ? body.storeBit(true).storeRef(buildComment(message)).endCell()
+    : body.storeBit(false).endCell();
+}
 
-  return {
-    boc,
-    hash
-  };
-  } finally {
-    privateKeyBytes.fill(0);
-    signingKey.fill(0);
-  }
+/**
+ * Sign a Jetton transfer from the key's wallet contract
+ *
+ * The transfer is an internal message to the sender's Jetton wallet carrying
+ * JETTON_TRANSFER_TON for fees plus the forward amount, so the wallet needs
+ * that much TON as well as the Jettons. Like signTransaction, it deploys the wallet if needed.
+ *
+ * @param toAddress Recipient's wallet address (not their Jetton wallet)
+ * @param jettonMaster Jetton master contract address
+ * @param amount Amount in the Jetton's smallest units
+ * @param privateKeyHex Private key as hex
+ * @param message Optional comment, delivered with the transfer notification
+ * @param network Network (mainnet or testnet)
+ * @param version Wallet contract version
+ * @param forwardAmount TON forwarded to the recipient with the notification
+ */
+export async function signJettonTransfer(
+  toAddress: string,
+  jettonMaster: string,
+  amount: bigint,
+  privateKeyHex: string,
+  message?: string,
+  network: TonNetwork = 'mainnet',
+  version: TonWalletVersion = 'v4r2',
+  forwardAmount: bigint = JETTON_FORWARD_TON
+): Promise<SignedTonTransaction> {
+  const fromAddress = getAddressFromPrivateKey(privateKeyHex, version, true, network);
+  const jettonWallet = await getJettonWalletAddress(tonRpcEndpoints[network], fromAddress, jettonMaster);
+
+  const body = buildJettonTransferBody(toAddress, amount, fromAddress, forwardAmount, message);
+  const internalMessage = buildInternalMessage(jettonWallet, JETTON_TRANSFER_TON + forwardAmount, body);
+  return signWalletMessage(internalMessage, privateKeyHex, network, version);
 }
 
 /**
- * Sign and send a TON transaction
+ * Sign and send a Jetton transfer
  */
-export async function signAndSendTransaction(
+export async function signAndSendJettonTransfer(
   toAddress: string,
+  jettonMaster: string,
   amount: bigint,
   privateKeyHex: string,
   message?: string,
-  network: TonNetwork = 'mainnet'
-): Promise<{ hash: string; status: 'pending' | 'failed' }> {
-  const signed = await signTransaction(toAddress, amount, privateKeyHex, message, network);
+  network: TonNetwork = 'mainnet',
+  version: TonWalletVersion = 'v4r2'
+): Promise<{ hash: string; status: 'pending' | 'failed'; deploy: boolean }> {
+  const signed = await signJettonTransfer(toAddress, jettonMaster, amount, privateKeyHex, message, network, version);
   const result = await sendBoc(signed.boc, network);
 
   return {
     hash: signed.hash,
-    status: result.ok ? 'pending' : 'failed'
+    status: result.ok ? 'pending' : 'failed',
+    deploy: signed.deploy
   };
 }
 
@@ -503,22 +482,6 @@ export function signMessage(message: string, privateKeyHex: string): string {
   }
 }
 
-/**
- * TON Transaction history item
- */
-export interface TonTransactionHistory {
-  hash: string;
-  lt: string; // Logical time
-  timestamp: number;
-  type: 'send' | 'receive';
-  amount: bigint; // in nanotons
-  from: string;
-  to: string;
-  message: string | null;
-  fee: bigint;
-  status: 'confirmed';
-}
-
 /**
  * Get transaction history for a TON address
  * Uses TON HTTP API getTransactions endpoint
@@ -529,7 +492,7 @@ export async function getTransactionHistory(
   limit: number = 20
 ): Promise<TonTransactionHistory[]> {
   try {
-    const result = await apiCall(network, '/getTransactions', {
+    const result = await tonApiCall(tonRpcEndpoints[network], '/getTransactions', {
       address,
       limit
     });
@@ -0,0 +1,1019 @@
+/**
+ * Transaction Preview - Decodes bridge signing requests for the approval sheet
+ *
+ * Turns the raw params an embedded app sends (EVM calldata, EIP-712 typed data,
+ * serialized Solana transactions, Bitcoin PSBTs, chain transfers, connect scopes) into labelled
+ * fields the user can read before approving. Decoding is best effort: anything
+ * we cannot parse is shown raw with a warning rather than hidden.
+ */
+
+import { base58, base64 } from '@scure/base';
+import { APP_SCOPE_LABELS } from './walletBridge';
+import type { AppScope } from './walletBridge';
+import { decodePsbt, SIGHASH_TYPE_NAMES } from './btcSigner';
+import type { DecodedPsbt } from './btcSigner';
+import { getEvmChain } from './evmChains';
+import type { EvmSimulation } from './evmSimulation';
+import { deserializeTransaction, getMessageAccountKeys } from './solSigner';
+import type { SolanaMessage } from './solSigner';
+
+export interface PreviewField {
+  label: string;
+  value: string;
+  mono?: boolean;  // addresses, hashes and other values shown in monospace
+}
+
+export interface DecodedCall {
+  name: string;
+  contract: string;
+  args: PreviewField[];
+}
+
+export interface TypedDataNode {
+  name: string;
+  type: string;
+  value?: string;
+  children?: TypedDataNode[];
+}
+
+export interface SolanaInstructionPreview {
+  program: string;
+  name: string;
+  accounts: string[];
+  details: PreviewField[];
+}
+
+export interface BitcoinIOPreview {
+  amount: string;
+  own: boolean;  // input spends from, or output pays to, one of the wallet's addresses
+  details: PreviewField[];
+}
+
+export interface TxPreview {
+  title: string;
+  chain: string | null;
+  fields: PreviewField[];
+  call?: DecodedCall;
+  typedData?: {
+    primaryType: string;
+    domain: PreviewField[];
+    message: TypedDataNode[];
+  };
+  instructions?: SolanaInstructionPreview[];
+  bitcoin?: {
+    inputs: BitcoinIOPreview[];
+    outputs: BitcoinIOPreview[];
+  };
+  message?: string;
+  warnings: string[];
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+const UINT256_MAX = (1n << 256n) - 1n;
+
+export function formatUnits(value: bigint, decimals: number): string {
+  const negative = value < 0n;
+  const abs = negative ? -value : value;
+  const base = 10n ** BigInt(decimals);
+  const whole = abs / base;
+  const fraction = (abs % base).toString().padStart(decimals, '0').replace(/0+$/, '');
+  return `${negative ? '-' : ''}${whole}${fraction ? '.' + fraction : ''}`;
+}
+
+function toBigInt(value: string | number | bigint | undefined): bigint {
+  if (value === undefined || value === null || value === '') return 0n;
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'number') return BigInt(Math.round(value));
+  return BigInt(value);
+}
+
+// ============================================================================
+// EVM
+// ============================================================================
+
+function evmChain(chainId: number | undefined): { name: string; symbol: string; decimals: number } {
+  const chain = chainId !== undefined ? getEvmChain(chainId) : null;
+  if (chain) return { name: chain.name, symbol: chain.nativeSymbol, decimals: chain.nativeDecimals };
+  return { name: `EVM chain ${chainId ?? 'unknown'}`, symbol: 'ETH', decimals: 18 };
+}
+
+// personal_sign messages arrive hex encoded; show them as text when they are UTF-8
+function decodeHexMessage(message: string): string | null {
+  const hex = message.replace(/^0x/, '');
+  if (hex.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(hex)) return null;
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+// Common ERC-20 / ERC-721 selectors
+const EVM_SELECTORS: Record<string, { name: string; params: Array<{ name: string; type: 'address' | 'uint256' | 'bool' }> }> = {
+  a9059cbb: { name: 'transfer', params: [{ name: 'to', type: 'address' }, { name: 'amount', type: 'uint256' }] },
+  '095ea7b3': { name: 'approve', params: [{ name: 'spender', type: 'address' }, { name: 'amount', type: 'uint256' }] },
+  '23b872dd': { name: 'transferFrom', params: [{ name: 'from', type: 'address' }, { name: 'to', type: 'address' }, { name: 'amount', type: 'uint256' }] },
+  '39509351': { name: 'increaseAllowance', params: [{ name: 'spender', type: 'address' }, { name: 'addedValue', type: 'uint256' }] },
+  a22cb465: { name: 'setApprovalForAll', params: [{ name: 'operator', type: 'address' }, { name: 'approved', type: 'bool' }] },
+};
+
+// Shared with simulation previews, so the sheet can drop repeats of the same warning
+const UNLIMITED_APPROVAL_WARNING = 'This grants the spender unlimited access to this token.';
+const APPROVAL_FOR_ALL_WARNING = 'This grants the operator control over all of your tokens in this collection.';
+
+interface KnownToken {
+  symbol: string;
+  decimals: number;
+}
+
+/**
+ * Decode ERC-20 style calldata. Returns null for unknown selectors.
+ */
+export function decodeEvmCall(
+  contract: string,
+  data: string | undefined,
+  token?: KnownToken
+): DecodedCall | null {
+  if (!data || data === '0x') return null;
+  const hex = data.startsWith('0x') ? data.slice(2) : data;
+  const selector = hex.slice(0, 8).toLowerCase();
+  const abi = EVM_SELECTORS[selector];
+  if (!abi || hex.length < 8 + abi.params.length * 64) return null;
+
+  const args = abi.params.map((param, i) => {
+    const word = hex.slice(8 + i * 64, 8 + (i + 1) * 64);
+    if (param.type === 'address') {
+      return { label: param.name, value: '0x' + word.slice(24), mono: true };
+    }
+    if (param.type === 'bool') {
+      return { label: param.name, value: BigInt('0x' + word) === 0n ? 'false' : 'true' };
+    }
+    const amount = BigInt('0x' + word);
+    let value: string;
+    if (amount === UINT256_MAX) {
+      value = 'Unlimited';
+    } else if (token) {
+      value = `${formatUnits(amount, token.decimals)} ${token.symbol}`;
+    } else {
+      value = `${amount.toString()} (raw units)`;
+    }
+    return { label: param.name, value };
+  });
+
+  return { name: abi.name, contract, args };
+}
+
+function previewEvmTransaction(
+  method: string,
+  tx: { to: string; value?: string; data?: string; gasLimit?: string; gasPrice?: string; maxFeePerGas?: string; chainId: number },
+  tokens: Record<string, KnownToken>
+): TxPreview {
+  const chain = evmChain(tx.chainId);
+  const warnings: string[] = [];
+  const fields: PreviewField[] = [
+    { label: 'Network', value: `${chain.name} (chain ${tx.chainId})` },
+    { label: 'To', value: tx.to, mono: true },
+    { label: 'Value', value: `${formatUnits(toBigInt(tx.value), chain.decimals)} ${chain.symbol}` },
+  ];
+
+  const gasLimit = tx.gasLimit ? toBigInt(tx.gasLimit) : null;
+  const feePerGas = tx.maxFeePerGas ? toBigInt(tx.maxFeePerGas) : tx.gasPrice ? toBigInt(tx.gasPrice) : null;
+  if (gasLimit !== null && feePerGas !== null) {
+    fields.push({ label: 'Max network fee', value: `${formatUnits(gasLimit * feePerGas, chain.decimals)} ${chain.symbol}` });
+  } else {
+    fields.push({ label: 'Network fee', value: 'Estimated at signing' });
+  }
+
+  const call = decodeEvmCall(tx.to, tx.data, tokens[tx.to?.toLowerCase()]);
+  if (call) {
+    if (call.name === 'approve' || call.name === 'increaseAllowance') {
+      const amount = call.args[1]?.value;
+      if (amount === 'Unlimited') {
+        warnings.push(UNLIMITED_APPROVAL_WARNING);
+      }
+    }
+    if (call.name === 'setApprovalForAll' && call.args[1]?.value === 'true') {
+      warnings.push(APPROVAL_FOR_ALL_WARNING);
+    }
+  } else if (tx.data && tx.data !== '0x') {
+    fields.push({ label: 'Data', value: tx.data, mono: true });
+    warnings.push('Contract call could not be decoded. Only approve if you trust this app.');
+  }
+
+  return {
+    title: method === 'sendEVMTransaction' ? 'Send transaction' : 'Sign transaction',
+    chain: chain.name,
+    fields,
+    call: call || undefined,
+    warnings,
+  };
+}
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 8)}...${address.slice(-6)}`;
+}
+
+/**
+ * Describe a simulation result for the approval sheet: the sender's net
+ * balance changes and approvals as fields, plus warnings about reverts and
+ * broad approvals
+ */
+export function previewEvmSimulation(simulation: EvmSimulation): { status: string; fields: PreviewField[]; warnings: string[] } {
+  const warnings: string[] = [];
+  if (simulation.reverted) {
+    warnings.push(`This transaction is expected to fail${simulation.revertReason ? `: ${simulation.revertReason}` : ''}. It would still cost gas.`);
+  }
+  if (!simulation.available) {
+    return { status: 'Simulation unavailable', fields: [], warnings };
+  }
+
+  const fields: PreviewField[] = simulation.changes.map(change => {
+    const label = change.symbol || shortAddress(change.token || '');
+    const sign = change.amount > 0n ? '+' : '-';
+    const abs = change.amount < 0n ? -change.amount : change.amount;
+    if (change.kind === 'erc721') {
+      return { label, value: `${sign}${abs} NFT${abs === 1n ? '' : 's'} (#${change.tokenIds.join(', #')})` };
+    }
+    return {
+      label,
+      value: change.decimals !== null ? `${sign}${formatUnits(abs, change.decimals)} ${change.symbol || ''}`.trim() : `${sign}${abs} (raw units)`,
+    };
+  });
+
+  for (const approval of simulation.approvals) {
+    const token = approval.symbol || shortAddress(approval.token);
+    let value: string;
+    if (approval.approvedForAll !== null) {
+      value = approval.approvedForAll ? `All ${token} to ${approval.spender}` : `Removes ${approval.spender}`;
+      if (approval.approvedForAll) {
+        warnings.push(APPROVAL_FOR_ALL_WARNING);
+      }
+    } else if (approval.tokenId !== null) {
+      value = `${token} #${approval.tokenId} to ${approval.spender}`;
+    } else if (approval.amount === UINT256_MAX) {
+      value = `Unlimited ${token} to ${approval.spender}`;
+      warnings.push(UNLIMITED_APPROVAL_WARNING);
+    } else {
+      const amount = approval.amount ?? 0n;
+      value = `${approval.decimals !== null ? formatUnits(amount, approval.decimals) : `${amount} (raw units)`} ${token} to ${approval.spender}`;
+    }
+    fields.push({ label: 'Approval', value });
+  }
+
+  const status = simulation.reverted
+    ? 'Simulation: reverts'
+    : fields.length === 0 ? 'Simulation: no token balance changes' : 'Simulated balance changes';
+  return { status, fields, warnings };
+}
+
+function typedDataTree(
+  types: Record<string, Array<{ name: string; type: string }>>,
+  typeName: string,
+  value: Record<string, unknown>
+): TypedDataNode[] {
+  const members = types[typeName];
+  if (!members) {
+    return Object.entries(value || {}).map(([name, v]) => ({ name, type: typeof v, value: String(v) }));
+  }
+  return members.map(member => typedDataNode(types, member.name, member.type, value?.[member.name]));
+}
+
+function typedDataNode(
+  types: Record<string, Array<{ name: string; type: string }>>,
+  name: string,
+  type: string,
+  value: unknown
+): TypedDataNode {
+  if (type.endsWith('[]') && Array.isArray(value)) {
+    const itemType = type.slice(0, -2);
+    return {
+      name,
+      type,
+      children: value.map((item, i) => typedDataNode(types, `[${i}]`, itemType, item)),
+    };
+  }
+  if (types[type] && value && typeof value === 'object') {
+    return { name, type, children: typedDataTree(types, type, value as Record<string, unknown>) };
+  }
+  return { name, type, value: value === undefined ? '' : String(value) };
+}
+
+function previewTypedData(typedData: {
+  types: Record<string, Array<{ name: string; type: string }>>;
+  primaryType: string;
+  domain: Record<string, unknown>;
+  message: Record<string, unknown>;
+}): TxPreview {
+  const domain: PreviewField[] = Object.entries(typedData.domain || {}).map(([label, value]) => ({
+    label,
+    value: String(value),
+    mono: label === 'verifyingContract' || label === 'salt',
+  }));
+  const chainId = typedData.domain?.chainId !== undefined ? Number(typedData.domain.chainId) : undefined;
+  const warnings: string[] = [];
+  if (/permit/i.test(typedData.primaryType)) {
+    warnings.push('This is a token permit. Signing it lets the spender move your tokens without another approval.');
+  }
+
+  return {
+    title: 'Sign typed data',
+    chain: chainId !== undefined ? evmChain(chainId).name : null,
+    fields: [],
+    typedData: {
+      primaryType: typedData.primaryType,
+      domain,
+      message: typedDataTree(typedData.types, typedData.primaryType, typedData.message),
+    },
+    warnings,
+  };
+}
+
+// ============================================================================
+// SOLANA
+// ============================================================================
+
+const SYSTEM_PROGRAM = '11111111111111111111111111111111';
+const COMPUTE_BUDGET_PROGRAM = 'ComputeBudget111111111111111111111111111111';
+
+const SOLANA_PROGRAMS: Record<string, string> = {
+  '11111111111111111111111111111111': 'System Program',
+  TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA: 'Token Program',
+  TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb: 'Token-2022 Program',
+  ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL: 'Associated Token Program',
+  ComputeBudget111111111111111111111111111111: 'Compute Budget',
+  MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr: 'Memo Program',
+};
+
+function readU64LE(bytes: Uint8Array, offset: number): bigint {
+  let value = 0n;
+  for (let i = 7; i >= 0; i--) {
+    value = (value << 8n) | BigInt(bytes[offset + i]);
+  }
+  return value;
+}
+
+function readU32LE(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+}
+
+function decodeSolanaInstruction(
+  programId: string,
+  accounts: string[],
+  data: Uint8Array
+): { name: string; details: PreviewField[] } {
+  const program = SOLANA_PROGRAMS[programId];
+  if (program === 'System Program' && data.length >= 4) {
+    const index = readU32LE(data, 0);
+    if (index === 2 && data.length >= 12) {
+      return {
+        name: 'Transfer SOL',
+        details: [
+          { label: 'From', value: accounts[0] || '', mono: true },
+          { label: 'To', value: accounts[1] || '', mono: true },
+          { label: 'Amount', value: `${formatUnits(readU64LE(data, 4), 9)} SOL` },
+        ],
+      };
+    }
+    if (index === 0 && data.length >= 20) {
+      return {
+        name: 'Create account',
+        details: [
+          { label: 'New account', value: accounts[1] || '', mono: true },
+          { label: 'Funding', value: `${formatUnits(readU64LE(data, 4), 9)} SOL` },
+        ],
+      };
+    }
+  }
+  if ((program === 'Token Program' || program === 'Token-2022 Program') && data.length >= 1) {
+    switch (data[0]) {
+      case 3:
+        return {
+          name: 'Token transfer',
+          details: [
+            { label: 'Source', value: accounts[0] || '', mono: true },
+            { label: 'Destination', value: accounts[1] || '', mono: true },
+            { label: 'Amount', value: `${readU64LE(data, 1)} (raw units)` },
+          ],
+        };
+      case 4:
+        return {
+          name: 'Token approve',
+          details: [
+            { label: 'Delegate', value: accounts[1] || '', mono: true },
+            { label: 'Amount', value: `${readU64LE(data, 1)} (raw units)` },
+          ],
+        };
+      case 12:
+        return {
+          name: 'Token transfer (checked)',
+          details: [
+            { label: 'Source', value: accounts[0] || '', mono: true },
+            { label: 'Mint', value: accounts[1] || '', mono: true },
+            { label: 'Destination', value: accounts[2] || '', mono: true },
+            { label: 'Amount', value: formatUnits(readU64LE(data, 1), data[9]) },
+          ],
+        };
+      case 13:
+        return {
+          name: 'Token approve (checked)',
+          details: [
+            { label: 'Mint', value: accounts[1] || '', mono: true },
+            { label: 'Delegate', value: accounts[2] || '', mono: true },
+            { label: 'Amount', value: formatUnits(readU64LE(data, 1), data[9]) },
+          ],
+        };
+      case 9:
+        return { name: 'Close token account', details: [{ label: 'Account', value: accounts[0] || '', mono: true }] };
+      case 26:
+        // Token-2022 TransferFeeExtension, TransferCheckedWithFee (1)
+        if (data[1] === 1 && data.length >= 19) {
+          return {
+            name: 'Token transfer (with fee)',
+            details: [
+              { label: 'Source', value: accounts[0] || '', mono: true },
+              { label: 'Mint', value: accounts[1] || '', mono: true },
+              { label: 'Destination', value: accounts[2] || '', mono: true },
+              { label: 'Amount', value: formatUnits(readU64LE(data, 2), data[10]) },
+              { label: 'Transfer fee', value: formatUnits(readU64LE(data, 11), data[10]) },
+            ],
+          };
+        }
+        break;
+    }
+  }
+  if (program === 'Associated Token Program') {
+    return {
+      name: data[0] === 1 ? 'Create token account (idempotent)' : 'Create token account',
+      details: [
+        { label: 'Account', value: accounts[1] || '', mono: true },
+        { label: 'Owner', value: accounts[2] || '', mono: true },
+        { label: 'Mint', value: accounts[3] || '', mono: true },
+      ],
+    };
+  }
+  if (program === 'Compute Budget' && data.length >= 1) {
+    if (data[0] === 2 && data.length >= 5) {
+      return { name: 'Set compute unit limit', details: [{ label: 'Units', value: String(readU32LE(data, 1)) }] };
+    }
+    if (data[0] === 3 && data.length >= 9) {
+      return { name: 'Set compute unit price', details: [{ label: 'Micro-lamports', value: readU64LE(data, 1).toString() }] };
+    }
+  }
+  if (program === 'Memo Program') {
+    return { name: 'Memo', details: [{ label: 'Text', value: new TextDecoder().decode(data) }] };
+  }
+  return {
+    name: program ? 'Instruction' : 'Unknown instruction',
+    details: data.length > 0 ? [{ label: 'Data', value: base58.encode(data), mono: true }] : [],
+  };
+}
+
+// Compute units a transaction gets per instruction when it sets no limit, and the most it can use
+const DEFAULT_COMPUTE_UNITS_PER_INSTRUCTION = 200_000;
+const MAX_COMPUTE_UNITS = 1_400_000;
+
+interface DecodedSolanaTransaction {
+  message: SolanaMessage;
+  feePayer: string;
+  numRequiredSignatures: number;
+  priorityFee: bigint;  // lamports
+  lookupTableCount: number;
+  accountKeys: string[] | null;  // null when lookup table accounts are not resolved
+  resolveKey: (index: number) => string;
+  instructions: SolanaInstructionPreview[];
+}
+
+/**
+ * Decode a serialized transaction's instructions, resolving lookup table
+ * accounts when the tables are given
+ */
+function decodeSolanaTransaction(transaction: string, lookupTables: Record<string, string[]>): DecodedSolanaTransaction {
+  const { message } = deserializeTransaction(base64.decode(transaction));
+
+  let accountKeys: string[] | null = null;
+  try {
+    accountKeys = getMessageAccountKeys(message, lookupTables);
+  } catch {
+    // Tables not loaded (yet); their accounts show as placeholders
+  }
+  const resolveKey = (index: number) =>
+    accountKeys?.[index] ?? message.staticAccountKeys[index] ?? `Lookup table account #${index - message.staticAccountKeys.length}`;
+
+  const instructions = message.instructions.map(ix => {
+    const programId = resolveKey(ix.programIdIndex);
+    const accounts = ix.accounts.map(resolveKey);
+    const decoded = decodeSolanaInstruction(programId, accounts, ix.data);
+    return {
+      program: SOLANA_PROGRAMS[programId] || programId,
+      name: decoded.name,
+      accounts,
+      details: decoded.details,
+    };
+  });
+
+  // Priority fee: compute unit price times the limit, or the default limit when none is set
+  let unitLimit: number | null = null;
+  let unitPrice = 0n;
+  for (const ix of message.instructions) {
+    if (resolveKey(ix.programIdIndex) !== COMPUTE_BUDGET_PROGRAM) continue;
+    if (ix.data[0] === 2 && ix.data.length >= 5) unitLimit = readU32LE(ix.data, 1);
+    if (ix.data[0] === 3 && ix.data.length >= 9) unitPrice = readU64LE(ix.data, 1);
+  }
+  const otherInstructions = message.instructions.filter(ix => resolveKey(ix.programIdIndex) !== COMPUTE_BUDGET_PROGRAM).length;
+  const units = unitLimit ?? Math.min(otherInstructions * DEFAULT_COMPUTE_UNITS_PER_INSTRUCTION, MAX_COMPUTE_UNITS);
+  const priorityFee = (BigInt(units) * unitPrice + 999_999n) / 1_000_000n;
+
+  return {
+    message,
+    feePayer: message.staticAccountKeys[0] || '',
+    numRequiredSignatures: message.header.numRequiredSignatures,
+    priorityFee,
+    lookupTableCount: message.addressTableLookups.length,
+    accountKeys,
+    resolveKey,
+    instructions,
+  };
+}
+
+function solanaWarnings(decoded: DecodedSolanaTransaction[]): string[] {
+  const warnings: string[] = [];
+  if (decoded.some(tx => tx.instructions.some(ix => ix.name === 'Unknown instruction'))) {
+    warnings.push('Some instructions call programs the wallet cannot decode.');
+  }
+  if (decoded.some(tx => tx.lookupTableCount > 0 && !tx.accountKeys)) {
+    warnings.push('Some accounts come from address lookup tables and are shown as placeholders.');
+  }
+  return warnings;
+}
+
+function solanaFeeFields(decoded: DecodedSolanaTransaction[]): PreviewField[] {
+  const baseFee = decoded.reduce((sum, tx) => sum + BigInt(tx.numRequiredSignatures * 5000), 0n);
+  const priorityFee = decoded.reduce((sum, tx) => sum + tx.priorityFee, 0n);
+  return [
+    { label: 'Base fee', value: `${formatUnits(baseFee, 9)} SOL` },
+    ...(priorityFee > 0n ? [{ label: 'Priority fee', value: `${formatUnits(priorityFee, 9)} SOL` }] : []),
+  ];
+}
+
+function solanaDecodeError(title: string, transaction: string, error: unknown): TxPreview {
+  return {
+    title,
+    chain: 'Solana',
+    fields: [{ label: 'Transaction', value: transaction, mono: true }],
+    warnings: [`Transaction could not be decoded: ${error instanceof Error ? error.message : 'unknown error'}`],
+  };
+}
+
+function previewSolanaTransaction(transaction: string, network: string | undefined, lookupTables: Record<string, string[]>): TxPreview {
+  let decoded: DecodedSolanaTransaction;
+  try {
+    decoded = decodeSolanaTransaction(transaction, lookupTables);
+  } catch (error) {
+    return solanaDecodeError('Sign Solana transaction', transaction, error);
+  }
+
+  return {
+    title: 'Sign Solana transaction',
+    chain: 'Solana',
+    fields: [
+      { label: 'Network', value: network || 'mainnet' },
+      { label: 'Fee payer', value: decoded.feePayer, mono: true },
+      ...solanaFeeFields([decoded]),
+    ],
+    instructions: decoded.instructions,
+    warnings: solanaWarnings([decoded]),
+  };
+}
+
+// Several transactions signed in one approval, e.g. the steps of a DEX route
+function previewSolanaTransactions(transactions: string[], network: string | undefined, lookupTables: Record<string, string[]>): TxPreview {
+  const title = `Sign ${transactions.length} Solana transactions`;
+  const decoded: DecodedSolanaTransaction[] = [];
+  for (const transaction of transactions) {
+    try {
+      decoded.push(decodeSolanaTransaction(transaction, lookupTables));
+    } catch (error) {
+      return solanaDecodeError(title, transaction, error);
+    }
+  }
+
+  return {
+    title,
+    chain: 'Solana',
+    fields: [
+      { label: 'Network', value: network || 'mainnet' },
+      { label: 'Fee payer', value: [...new Set(decoded.map(tx => tx.feePayer))].join(', '), mono: true },
+      ...solanaFeeFields(decoded),
+    ],
+    instructions: decoded.flatMap((tx, i) => tx.instructions.map(ix => ({ ...ix, name: `Transaction ${i + 1}: ${ix.name}` }))),
+    warnings: solanaWarnings(decoded),
+  };
+}
+
+/**
+ * What signing a Solana transaction takes out of the wallet in SOL: System
+ * Program transfers and account funding paid from the owner's address.
+ * Token movements are not counted. Amounts are in lamports; lookup tables
+ * must be resolved for transfers to accounts stored in them.
+ */
+export function getSolanaOutflow(
+  transaction: string,
+  owner: string,
+  lookupTables: Record<string, string[]>
+): { amount: bigint; destinations: string[] } {
+  const decoded = decodeSolanaTransaction(transaction, lookupTables);
+
+  let amount = 0n;
+  const destinations: string[] = [];
+  for (const ix of decoded.message.instructions) {
+    if (decoded.resolveKey(ix.programIdIndex) !== SYSTEM_PROGRAM || ix.data.length < 12) continue;
+    const index = readU32LE(ix.data, 0);
+    // Transfer (2) and CreateAccount (0) both carry lamports at offset 4
+    if ((index !== 2 && index !== 0) || decoded.resolveKey(ix.accounts[0]) !== owner) continue;
+    const destination = decoded.resolveKey(ix.accounts[1]);
+    if (destination === owner) continue;
+    amount += readU64LE(ix.data, 4);
+    destinations.push(destination);
+  }
+  return { amount, destinations };
+}
+
+// ============================================================================
+// BITCOIN PSBT
+// ============================================================================
+
+// Sighash types that commit to every output of the transaction
+const ALL_OUTPUTS_SIGHASH_TYPES = [0x00, 0x01, 0x81];
+
+/**
+ * What signing a PSBT takes out of the wallet: its own inputs being signed
+ * minus the outputs paying back to it. SIGHASH_NONE and SIGHASH_SINGLE leave
+ * other outputs open to change after signing, so then every input counts.
+ * Amounts are in satoshis.
+ */
+export function getPsbtOutflow(
+  psbt: DecodedPsbt,
+  ownAddresses: string[],
+  signInputs?: number[]
+): { amount: number; destinations: string[] } {
+  const isOwn = (address: string | null) => !!address && ownAddresses.includes(address);
+  const inputs = psbt.inputs.filter((input, i) =>
+    isOwn(input.address) && !input.finalized && (!signInputs || signInputs.includes(i))
+  );
+  const spent = inputs.reduce((sum, input) => sum + (input.value || 0), 0);
+  const outputsFixed = inputs.every(input => input.sighashType === null || ALL_OUTPUTS_SIGHASH_TYPES.includes(input.sighashType));
+  const returned = outputsFixed
+    ? psbt.outputs.filter(output => isOwn(output.address)).reduce((sum, output) => sum + output.value, 0)
+    : 0;
+
+  return {
+    amount: Math.max(spent - returned, 0),
+    destinations: psbt.outputs
+      .filter(output => output.address && !isOwn(output.address))
+      .map(output => output.address as string)
+  };
+}
+
+function previewPsbt(
+  psbt: string,
+  network: 'mainnet' | 'testnet',
+  signInputs: number[] | undefined,
+  ownAddresses: string[]
+): TxPreview {
+  let decoded: DecodedPsbt;
+  try {
+    decoded = decodePsbt(psbt, network);
+  } catch (error) {
+    return {
+      title: 'Sign Bitcoin PSBT',
+      chain: 'Bitcoin',
+      fields: [{ label: 'PSBT', value: psbt, mono: true }],
+      warnings: [`PSBT could not be decoded: ${error instanceof Error ? error.message : 'unknown error'}`],
+    };
+  }
+
+  const btc = (sats: number) => `${formatUnits(BigInt(sats), 8)} BTC`;
+  const isOwn = (address: string | null) => !!address && ownAddresses.includes(address);
+  const signing = decoded.inputs.map((input, i) =>
+    isOwn(input.address) && !input.finalized && (!signInputs || signInputs.includes(i))
+  );
+  const sighashName = (type: number) => SIGHASH_TYPE_NAMES[type] || `0x${type.toString(16)}`;
+
+  const inputs = decoded.inputs.map((input, i) => ({
+    amount: input.value !== null ? btc(input.value) : 'Unknown amount',
+    own: isOwn(input.address),
+    details: [
+      { label: 'From', value: input.address || 'Unknown script', mono: !!input.address },
+      { label: 'Outpoint', value: `${input.txid}:${input.vout}`, mono: true },
+      ...(input.sighashType !== null ? [{ label: 'Sighash', value: sighashName(input.sighashType) }] : []),
+      ...(input.finalized ? [{ label: 'Status', value: 'Already finalized' }] : signing[i] ? [{ label: 'Status', value: 'Signed by you' }] : []),
+    ],
+  }));
+  const outputs = decoded.outputs.map(output => ({
+    amount: btc(output.value),
+    own: isOwn(output.address),
+    details: [
+      output.address
+        ? { label: 'To', value: output.address, mono: true }
+        : { label: output.script.startsWith('6a') ? 'Data (OP_RETURN)' : 'Script', value: output.script, mono: true },
+    ],
+  }));
+
+  const warnings: string[] = [];
+  const signed = decoded.inputs.filter((_, i) => signing[i]);
+  if (signed.length === 0) {
+    warnings.push('None of the inputs spend from your wallet addresses; the wallet only signs inputs whose scripts contain your key.');
+  }
+  if (signed.some(input => input.sighashType !== null && (input.sighashType & 0x1f) === 0x02)) {
+    warnings.push('Some of your inputs are signed with SIGHASH_NONE: the outputs can be changed after you sign.');
+  }
+  if (signed.some(input => input.sighashType !== null && (input.sighashType & 0x1f) === 0x03)) {
+    warnings.push('Some of your inputs are signed with SIGHASH_SINGLE: only the output with the same index is fixed.');
+  }
+  if (signed.some(input => input.sighashType !== null && (input.sighashType & 0x80) !== 0)) {
+    warnings.push('Some of your inputs are signed with ANYONECANPAY: other inputs can be added after you sign.');
+  }
+  if (decoded.fee === null) {
+    warnings.push('Some input amounts are missing from the PSBT, so the fee cannot be shown.');
+  }
+
+  return {
+    title: 'Sign Bitcoin PSBT',
+    chain: 'Bitcoin',
+    fields: [
+      { label: 'Network', value: network },
+      { label: 'You send', value: btc(getPsbtOutflow(decoded, ownAddresses, signInputs).amount) },
+      { label: 'Network fee', value: decoded.fee !== null ? btc(decoded.fee) : 'Unknown' },
+      ...(decoded.locktime > 0 ? [{ label: 'Locktime', value: String(decoded.locktime) }] : []),
+    ],
+    bitcoin: { inputs, outputs },
+    warnings,
+  };
+}
+
+// ============================================================================
+// ENTRY POINT
+// ============================================================================
+
+/**
+ * Build a preview for a bridge request.
+ *
+ * @param tokens EVM token metadata keyed by lowercase contract address, used to
+ *               format ERC-20 amounts
+ * @param ownAddresses The wallet's Bitcoin addresses, used to tell its own PSBT
+ *                     inputs and change apart from other parties'
+ * @param lookupTables Addresses in the Solana address lookup tables the
+ *                     transactions use, keyed by table address
+ */
+export function buildTxPreview(
+  method: string,
+  params: unknown,
+  tokens: Record<string, KnownToken> = {},
+  ownAddresses: string[] = [],
+  lookupTables: Record<string, string[]> = {}
+): TxPreview {
+  const p = (params || {}) as Record<string, any>;
+
+  switch (method) {
+    case 'connect':
+      return {
+        title: 'Connect app',
+        chain: null,
+        fields: ((p.scopes || []) as AppScope[]).map(scope => ({
+          label: APP_SCOPE_LABELS[scope].label,
+          value: APP_SCOPE_LABELS[scope].description,
+        })),
+        warnings: [],
+      };
+
+    case 'transfer':
+      return {
+        title: 'Transfer',
+        chain: p.chain || 'Canton',
+        fields: [
+          { label: 'To', value: p.to, mono: true },
+          { label: 'Amount', value: `${p.amount} ${p.symbol || ''}`.trim() },
+        ],
+        warnings: [],
+      };
+
+    case 'acceptOffer':
+      return {
+        title: 'Accept transfer offer',
+        chain: 'Canton',
+        fields: [{ label: 'Offer', value: p.contractId, mono: true }],
+        warnings: [],
+      };
+
+    case 'signMessage': {
+      const text = p.encoding === 'hex' ? decodeHexMessage(p.message) : p.message;
+      return {
+        title: 'Sign message',
+        chain: p.chain || null,
+        fields: [],
+        message: text ?? p.message,
+        warnings: text === null ? ['This message is not readable text. Only sign it if you trust this app.'] : [],
+      };
+    }
+
+    case 'switchEVMChain':
+      return {
+        title: 'Switch network',
+        chain: evmChain(p.chainId).name,
+        fields: [{ label: 'Network', value: `${evmChain(p.chainId).name} (chain ${p.chainId})` }],
+        warnings: [],
+      };
+
+    case 'signEVMTransaction':
+    case 'sendEVMTransaction':
+      return previewEvmTransaction(method, p.transaction || {}, tokens);
+
+    case 'signTypedData':
+      return previewTypedData(p.typedData || { types: {}, primaryType: '', domain: {}, message: {} });
+
+    case 'signBTCTransaction':
+    case 'sendBTCTransaction':
+      return {
+        title: method === 'sendBTCTransaction' ? 'Send Bitcoin' : 'Sign Bitcoin transaction',
+        chain: 'Bitcoin',
+        fields: [
+          { label: 'Network', value: p.network || 'mainnet' },
+          { label: 'To', value: p.to, mono: true },
+          { label: 'Amount', value: p.sendMax ? 'Entire balance minus fee' : `${formatUnits(toBigInt(p.amount), 8)} BTC` },
+          {
+            label: 'Network fee',
+            value: p.fee !== undefined
+              ? `${formatUnits(toBigInt(p.fee), 8)} BTC`
+              : p.feeRate !== undefined
+                ? `${p.feeRate} sat/vB`
+                : `${p.feePreset || 'normal'} (estimated at signing)`,
+          },
+        ],
+        warnings: p.sendMax ? ['Spends every coin in the wallet; nothing is left as change.'] : [],
+      };
+
+    case 'signPsbt':
+      return previewPsbt(p.psbt, p.network || 'mainnet', p.signInputs, ownAddresses);
+
+    case 'signSOLTransaction':
+    case 'sendSOLTransaction':
+      return {
+        title: method === 'sendSOLTransaction' ? 'Send SOL' : 'Sign SOL transfer',
+        chain: 'Solana',
+        fields: [
+          { label: 'Network', value: p.network || 'mainnet' },
+          { label: 'To', value: p.to, mono: true },
+          { label: 'Amount', value: `${formatUnits(toBigInt(p.amount), 9)} SOL` },
+          { label: 'Network fee', value: '0.000005 SOL plus a priority fee when the network is busy' },
+        ],
+        warnings: [],
+      };
+
+    case 'signTRONTransaction':
+    case 'sendTRONTransaction':
+      return {
+        title: method === 'sendTRONTransaction' ? 'Send TRX' : 'Sign TRX transfer',
+        chain: 'TRON',
+        fields: [
+          { label: 'Network', value: p.network || 'mainnet' },
+          { label: 'To', value: p.to, mono: true },
+          { label: 'Amount', value: `${formatUnits(toBigInt(p.amount), 6)} TRX` },
+          { label: 'Network fee', value: 'Bandwidth, or TRX if bandwidth is exhausted' },
+        ],
+        warnings: [],
+      };
+
+    case 'signTONTransaction':
+    case 'sendTONTransaction':
+      return {
+        title: method === 'sendTONTransaction' ? 'Send TON' : 'Sign TON transfer',
+        chain: 'TON',
+        fields: [
+          { label: 'Network', value: p.network || 'mainnet' },
+          { label: 'To', value: p.to, mono: true },
+          { label: 'Amount', value: `${formatUnits(toBigInt(p.amount), 9)} TON` },
+          ...(p.message ? [{ label: 'Comment', value: String(p.message) }] : []),
+          { label: 'Network fee', value: 'Deducted from balance (usually under 0.01 TON)' },
+        ],
+        warnings: [],
+      };
+
+    case 'signRawSolanaTransaction':
+      return previewSolanaTransaction(p.transaction, p.network, lookupTables);
+
+    case 'signAllTransactions':
+      return previewSolanaTransactions(p.transactions || [], p.network, lookupTables);
+
+    case 'signRawTonMessage':
+      return {
+        title: 'Sign TON message',
+        chain: 'TON',
+        fields: [
+          { label: 'Network', value: p.network || 'mainnet' },
+          { label: 'To', value: p.to, mono: true },
+          { label: 'Amount', value: `${formatUnits(toBigInt(p.value), 9)} TON` },
+          ...(p.payload ? [{ label: 'Payload', value: String(p.payload), mono: true }] : []),
+        ],
+        warnings: [
+          ...(p.payload ? ['The message body could not be decoded. Only approve if you trust this app.'] : []),
+          ...(p.stateInit ? ['This message deploys a contract.'] : []),
+        ],
+      };
+
+    case 'sendRawSolanaTransaction':
+      return {
+        ...previewSolanaTransaction(p.signedTransaction, p.network, lookupTables),
+        title: 'Broadcast Solana transaction',
+      };
+
+    case 'sendRawTonMessage':
+      return {
+        title: 'Broadcast TON message',
+        chain: 'TON',
+        fields: [
+          { label: 'Network', value: p.network || 'mainnet' },
+          { label: 'Message (BOC)', value: String(p.boc), mono: true },
+        ],
+        warnings: ['This message was signed outside the wallet and cannot be decoded. Only approve if you trust this app.'],
+      };
+
+    case 'broadcastTronTransaction':
+      return {
+        title: 'Broadcast TRON transaction',
+        chain: 'TRON',
+        fields: [
+          { label: 'Network', value: p.network || 'mainnet' },
+          { label: 'Transaction', value: typeof p.signedTransaction === 'string' ? p.signedTransaction : JSON.stringify(p.signedTransaction), mono: true },
+        ],
+        warnings: ['This transaction was signed outside the wallet and cannot be decoded. Only approve if you trust this app.'],
+      };
+
+    case 'triggerTronSmartContract':
+      return {
+        title: 'Call TRON contract',
+        chain: 'TRON',
+        fields: [
+          { label: 'Network', value: p.network || 'mainnet' },
+          { label: 'Contract', value: p.contractAddress, mono: true },
+          { label: 'Function', value: p.functionSelector, mono: true },
+          { label: 'Value', value: `${formatUnits(toBigInt(p.callValue), 6)} TRX` },
+          { label: 'Max fee', value: `${formatUnits(toBigInt(p.feeLimit ?? 100_000_000), 6)} TRX` },
+          ...(p.parameter ? [{ label: 'Parameters', value: String(p.parameter), mono: true }] : []),
+        ],
+        warnings: [],
+      };
+
+    case 'cantonCreate':
+      return {
+        title: 'Create Canton contract',
+        chain: 'Canton',
+        fields: [{ label: 'Template', value: p.templateId, mono: true }],
+        message: JSON.stringify(p.payload, null, 2),
+        warnings: [],
+      };
+
+    case 'cantonExercise':
+      return {
+        title: 'Exercise Canton choice',
+        chain: 'Canton',
+        fields: [
+          { label: 'Template', value: p.templateId, mono: true },
+          { label: 'Contract', value: p.contractId, mono: true },
+          { label: 'Choice', value: p.choice },
+        ],
+        message: JSON.stringify(p.argument, null, 2),
+        warnings: [],
+      };
+
+    case 'grantUserRights':
+      return {
+        title: 'Grant ledger rights',
+        chain: 'Canton',
+        fields: [
+          { label: 'User', value: p.userId, mono: true },
+          ...((p.rights || []) as Array<{ type: string; party?: string }>).map(right => ({
+            label: right.type,
+            value: right.party || 'participant',
+            mono: !!right.party,
+          })),
+        ],
+        warnings: ['This lets another ledger user act with these rights.'],
+      };
+
+    default:
+      return {
+        title: method,
+        chain: null,
+        fields: [],
+        message: JSON.stringify(params, (_k, v) => typeof v === 'bigint' ? v.toString() : v, 2),
+        warnings: ['The wallet does not know how to display this request.'],
+      };
+  }
+}
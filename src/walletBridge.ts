@@ -5,6 +5,11 @@
  * and routes them to the appropriate wallet functions.
  */
 
+import { isAppScope } from '../lib/appScopes';
+import type { AppScope } from '../lib/appScopes';
+
+export type { AppScope } from '../lib/appScopes';
+
 export interface WalletRequest {
   id: string;
   method: string;
@@ -32,6 +37,7 @@ export interface ChainAddress {
   chain: string;
   chainType: 'evm' | 'svm' | 'btc' | 'tron' | 'ton' | 'canton' | 'base';
   address: string;
+  addressType?: 'p2pkh' | 'p2wpkh' | 'p2tr';  // Bitcoin only
   icon?: string;
 }
 
@@ -63,7 +69,7 @@ export interface Transaction {
   to: string;
   chain: string;
   timestamp: string;
-  status: 'pending' | 'confirmed' | 'failed';
+  status: 'pending' | 'confirmed' | 'failed' | 'replaced';
 }
 
 export interface TransferOffer {
@@ -161,9 +167,85 @@ export interface SignTypedDataParams {
   typedData: EIP712TypedData;
 }
 
+export interface SwitchEVMChainParams {
+  chainId: number;
+}
+
+// Read-only JSON-RPC call forwarded to the wallet's node for a chain
+export interface EthRpcParams {
+  method: string;
+  params?: unknown[];
+  chainId?: number;  // defaults to the current EVM chain
+}
+
+// Message signing (hex messages are signed as raw bytes, EVM only)
+export interface SignMessageParams {
+  message: string;
+  chain: string;
+  encoding?: 'utf8' | 'hex';
+}
+
+// Native Transfer Types (amounts in the chain's smallest unit)
+export interface BTCTransferParams {
+  utxos?: Array<{ txid: string; vout: number; value: number }>;
+  to: string;
+  amount: number;  // ignored with sendMax
+  changeAddress?: string;
+  fee?: number;  // fixed fee in satoshis; otherwise estimated from feeRate or feePreset
+  feeRate?: number;  // sat/vB
+  feePreset?: 'slow' | 'normal' | 'fast';  // default 'normal'
+  sendMax?: boolean;  // send the whole balance minus the fee
+  network?: 'mainnet' | 'testnet';
+}
+
+// Bitcoin PSBTs (BIP174, version 0, base64)
+export interface SignPsbtParams {
+  psbt: string;
+  signInputs?: number[];  // input indexes to sign; defaults to every input the wallet can sign
+  network?: 'mainnet' | 'testnet';
+}
+
+export interface SignPsbtResult {
+  psbt: string;
+  signedInputs: number[];
+  txid: string;  // of the unsigned transaction; final only if every input is SegWit
+}
+
+export interface FinalizePsbtParams {
+  psbt: string;
+  broadcast?: boolean;  // broadcast the extracted transaction once every input is finalized
+  network?: 'mainnet' | 'testnet';
+}
+
+export interface FinalizePsbtResult {
+  psbt: string;
+  complete: boolean;  // every input finalized; rawTransaction and txid are set
+  rawTransaction?: string;
+  txid?: string;
+}
+
+export interface SOLTransferParams {
+  to: string;
+  amount: number;
+  network?: 'mainnet' | 'devnet';
+}
+
+export interface TRONTransferParams {
+  to: string;
+  amount: number;
+  network?: 'mainnet' | 'shasta';
+}
+
+export interface TONTransferParams {
+  to: string;
+  amount: bigint;
+  message?: string;
+  network?: 'mainnet' | 'testnet';
+}
+
 // Generic/Raw Transaction Types (for DEX swaps)
 export interface SignRawSolanaTransactionParams {
-  transaction: string; // Base64 encoded serialized transaction
+  transaction: string; // Base64 encoded serialized transaction, legacy or v0
   network?: 'mainnet' | 'devnet';
 }
 
@@ -172,6 +254,17 @@ export interface SignRawSolanaTransactionResult {
   signature: string;
 }
 
+// Transactions signed together with one approval, e.g. the steps of a swap route
+export interface SignAllSolanaTransactionsParams {
+  transactions: string[]; // Base64 encoded serialized transactions, legacy or v0
+  network?: 'mainnet' | 'devnet';
+}
+
+export interface SignAllSolanaTransactionsResult {
+  signedTransactions: string[];
+  signatures: string[];
+}
+
 export interface SendRawSolanaTransactionParams {
   signedTransaction: string;
   network?: 'mainnet' | 'devnet';
@@ -260,10 +353,68 @@ export interface ChatAgentResult {
   conversationId: string;
 }
 
+/**
+ * Error codes returned to apps. Rejections use the EIP-1193 codes so
+ * existing dapp error handling recognises them.
+ */
+export const WalletErrorCode = {
+  INTERNAL_ERROR: -1,
+  USER_REJECTED: 4001,
+  UNAUTHORIZED: 4100,  // method needs a scope the app has not been granted
+  UNSUPPORTED_METHOD: 4200,
+  UNRECOGNIZED_CHAIN: 4902,  // wallet_switchEthereumChain to a chain the wallet has no RPC for
+  POLICY_REJECTED: -32003,  // transfer refused by a spending limit or transfer policy
+} as const;
+
+export class WalletBridgeError extends Error {
+  code: number;
+
+  constructor(code: number, message: string) {
+    super(message);
+    this.name = 'WalletBridgeError';
+    this.code = code;
+  }
+}
+
+/**
+ * What each permission scope an app can request on connect allows
+ */
+export const APP_SCOPE_LABELS: Record<AppScope, { label: string; description: string }> = {
+  read_addresses: { label: 'Read addresses', description: 'See your username, party ID and wallet addresses' },
+  read_balances: { label: 'Read balances', description: 'See your balances, transactions and transfer offers' },
+  canton_read: { label: 'Canton read', description: 'Query Canton contracts visible to you' },
+  canton_act_as: { label: 'Canton act-as', description: 'Transfer, accept offers and submit Canton commands as you' },
+  sign_evm: { label: 'Sign EVM', description: 'Request EVM transaction and typed data signatures' },
+  sign_solana: { label: 'Sign Solana', description: 'Request Solana transaction signatures' },
+  sign_bitcoin: { label: 'Sign Bitcoin', description: 'Request Bitcoin transaction signatures' },
+  sign_tron: { label: 'Sign TRON', description: 'Request TRON transaction signatures and contract calls' },
+  sign_ton: { label: 'Sign TON', description: 'Request TON transaction and message signatures' },
+  sign_message: { label: 'Sign messages', description: 'Request signatures on arbitrary messages' },
+  grant_rights: { label: 'Grant rights', description: 'Grant Canton ledger rights to other users' },
+  chat_agent: { label: 'Chat agent', description: 'Send messages to the wallet assistant' },
+};
+
+/**
+ * Where a request came from
+ */
+export interface RequestContext {
+  origin: string;
+  appId: string | null;
+}
+
+/**
+ * A signing or value-moving request waiting for the user's decision
+ */
+export interface ApprovalRequest extends RequestContext {
+  method: string;
+  params: unknown;
+}
+
 export interface ConnectionState {
   connected: boolean;
   user: AuthUser | null;
   addresses: ChainAddress[];
+  scopes: AppScope[];
 }
 
 export interface WalletBridgeCallbacks {
@@ -272,13 +423,19 @@ export interface WalletBridgeCallbacks {
   getAssets: () => Asset[];
   getTransactions: () => Transaction[];
   getTransferOffers: () => TransferOffer[];
+  // Resolves true only when the user explicitly approves the request
+  onApprovalRequest: (request: ApprovalRequest) => Promise<boolean>;
+  // Scopes the user has granted to an app
+  getGrantedScopes: (appId: string) => AppScope[];
+  // Persists scopes the user approved on connect
+  onGrantScopes: (appId: string, scopes: AppScope[]) => Promise<void>;
   onTransferRequest: (params: {
     to: string;
     amount: string;
     symbol: string;
     chain: string;
   }) => Promise<{ txId: string; status: string }>;
-  onSignMessage: (params: { message: string; chain: string }) => Promise<string>;
+  onSignMessage: (params: SignMessageParams, context?: RequestContext) => Promise<string>;
   onAcceptOffer: (contractId: string) => Promise<{ txId: string; status: string }>;
   onRefresh: () => Promise<void>;
   // Canton Generic Contract Operations
@@ -286,67 +443,35 @@ export interface WalletBridgeCallbacks {
   onCantonCreate?: (params: CantonCreateParams) => Promise<CantonCreateResult>;
   onCantonExercise?: (params: CantonExerciseParams) => Promise<CantonExerciseResult>;
   // EVM Transaction Operations
-  onSignEVMTransaction?: (params: SignEVMTransactionParams) => Promise<SignEVMTransactionResult>;
-  onSendEVMTransaction?: (params: SendEVMTransactionParams) => Promise<SendEVMTransactionResult>;
-  onSignTypedData?: (params: SignTypedDataParams) => Promise<string>;
+  onSignEVMTransaction?: (params: SignEVMTransactionParams, context?: RequestContext) => Promise<SignEVMTransactionResult>;
+  onSendEVMTransaction?: (params: SendEVMTransactionParams, context?: RequestContext) => Promise<SendEVMTransactionResult>;
+  onSignTypedData?: (params: SignTypedDataParams, context?: RequestContext) => Promise<string>;
+  // EVM network used by the EIP-1193 provider in docked apps
+  getEVMChainId?: () => number;
+  getEVMChainIds?: () => number[];
+  onSwitchEVMChain?: (params: SwitchEVMChainParams) => Promise<void>;
+  onEthRpc?: (params: Required<EthRpcParams>) => Promise<unknown>;
   // Bitcoin Transaction Operations
-  onSignBTCTransaction?: (params: {
-    utxos?: Array<{ txid: string; vout: number; value: number }>;
-    to: string;
-    amount: number;
-    changeAddress?: string;
-    fee?: number;
-    network?: 'mainnet' | 'testnet';
-  }) => Promise<{ rawTransaction: string; txid: string }>;
-  onSendBTCTransaction?: (params: {
-    utxos?: Array<{ txid: string; vout: number; value: number }>;
-    to: string;
-    amount: number;
-    changeAddress?: string;
-    fee?: number;
-    network?: 'mainnet' | 'testnet';
-  }) => Promise<{ txid: string; status: string }>;
+  onSignBTCTransaction?: (params: BTCTransferParams, context?: RequestContext) => Promise<{ rawTransaction: string; txid: string; fee: number }>;
+  onSendBTCTransaction?: (params: BTCTransferParams, context?: RequestContext) => Promise<{ txid: string; status: string; fee: number }>;
+  onSignPsbt?: (params: SignPsbtParams, context?: RequestContext) => Promise<SignPsbtResult>;
+  onFinalizePsbt?: (params: FinalizePsbtParams) => Promise<FinalizePsbtResult>;
   // Solana Transaction Operations
-  onSignSOLTransaction?: (params: {
-    to: string;
-    amount: number;
-    network?: 'mainnet' | 'devnet';
-  }) => Promise<{ rawTransaction: string; signature: string }>;
-  onSendSOLTransaction?: (params: {
-    to: string;
-    amount: number;
-    network?: 'mainnet' | 'devnet';
-  }) => Promise<{ signature: string; status: string }>;
+  onSignSOLTransaction?: (params: SOLTransferParams, context?: RequestContext) => Promise<{ rawTransaction: string; signature: string }>;
+  onSendSOLTransaction?: (params: SOLTransferParams, context?: RequestContext) => Promise<{ signature: string; status: string }>;
   // TRON Transaction Operations
-  onSignTRONTransaction?: (params: {
-    to: string;
-    amount: number;
-    network?: 'mainnet' | 'shasta';
-  }) => Promise<{ rawTransaction: string; txID: string; signature: string }>;
-  onSendTRONTransaction?: (params: {
-    to: string;
-    amount: number;
-    network?: 'mainnet' | 'shasta';
-  }) => Promise<{ txID: string; status: string }>;
+  onSignTRONTransaction?: (params: TRONTransferParams, context?: RequestContext) => Promise<{ rawTransaction: string; txID: string; signature: string }>;
+  onSendTRONTransaction?: (params: TRONTransferParams, context?: RequestContext) => Promise<{ txID: string; status: string }>;
   // TON Transaction Operations
-  onSignTONTransaction?: (params: {
-    to: string;
-    amount: bigint;
-    message?: string;
-    network?: 'mainnet' | 'testnet';
-  }) => Promise<{ boc: string; hash: string }>;
-  onSendTONTransaction?: (params: {
-    to: string;
-    amount: bigint;
-    message?: string;
-    network?: 'mainnet' | 'testnet';
-  }) => Promise<{ hash: string; status: string }>;
+  onSignTONTransaction?: (params: TONTransferParams, context?: RequestContext) => Promise<{ boc: string; hash: string }>;
+  onSendTONTransaction?: (params: TONTransferParams, context?: RequestContext) => Promise<{ hash: string; status: string }>;
   // Generic/Raw Transaction Operations (for DEX swaps)
-  onSignRawSolanaTransaction?: (params: SignRawSolanaTransactionParams) => Promise<SignRawSolanaTransactionResult>;
+  onSignRawSolanaTransaction?: (params: SignRawSolanaTransactionParams, context?: RequestContext) => Promise<SignRawSolanaTransactionResult>;
+  onSignAllSolanaTransactions?: (params: SignAllSolanaTransactionsParams, context?: RequestContext) => Promise<SignAllSolanaTransactionsResult>;
   onSendRawSolanaTransaction?: (params: SendRawSolanaTransactionParams) => Promise<SendRawSolanaTransactionResult>;
-  onSignRawTonMessage?: (params: SignRawTonMessageParams) => Promise<SignRawTonMessageResult>;
+  onSignRawTonMessage?: (params: SignRawTonMessageParams, context?: RequestContext) => Promise<SignRawTonMessageResult>;
   onSendRawTonMessage?: (params: SendRawTonMessageParams) => Promise<SendRawTonMessageResult>;
-  onTriggerTronSmartContract?: (params: TriggerTronSmartContractParams) => Promise<TriggerTronSmartContractResult>;
+  onTriggerTronSmartContract?: (params: TriggerTronSmartContractParams, context?: RequestContext) => Promise<TriggerTronSmartContractResult>;
   onBroadcastTronTransaction?: (params: BroadcastTronTransactionParams) => Promise<BroadcastTronTransactionResult>;
   // Canton User Rights
   onGrantUserRights?: (params: GrantUserRightsParams) => Promise<GrantUserRightsResult>;
@@ -369,6 +494,119 @@ const ALLOWED_ORIGINS = [
   'https://main.stratos-rwa.pages.dev',
 ];
 
+// Scopes requested by apps that call connect without a scopes list
+const DEFAULT_SCOPES: AppScope[] = ['read_addresses'];
+
+/**
+ * Scope required by each method. Methods not listed (connect, disconnect)
+ * need no scope.
+ */
+const METHOD_SCOPES: Record<string, AppScope> = {
+  getUser: 'read_addresses',
+  getAddresses: 'read_addresses',
+  getAddress: 'read_addresses',
+  getPartyId: 'read_addresses',
+  getAssets: 'read_balances',
+  getBalance: 'read_balances',
+  getTransactions: 'read_balances',
+  getTransferOffers: 'read_balances',
+  refresh: 'read_balances',
+  cantonQuery: 'canton_read',
+  transfer: 'canton_act_as',
+  acceptOffer: 'canton_act_as',
+  cantonCreate: 'canton_act_as',
+  cantonExercise: 'canton_act_as',
+  signEVMTransaction: 'sign_evm',
+  sendEVMTransaction: 'sign_evm',
+  signTypedData: 'sign_evm',
+  signSOLTransaction: 'sign_solana',
+  sendSOLTransaction: 'sign_solana',
+  signRawSolanaTransaction: 'sign_solana',
+  signAllTransactions: 'sign_solana',
+  sendRawSolanaTransaction: 'sign_solana',
+  signBTCTransaction: 'sign_bitcoin',
+  sendBTCTransaction: 'sign_bitcoin',
+  signPsbt: 'sign_bitcoin',
+  finalizePsbt: 'sign_bitcoin',
+  signTRONTransaction: 'sign_tron',
+  sendTRONTransaction: 'sign_tron',
+  triggerTronSmartContract: 'sign_tron',
+  broadcastTronTransaction: 'sign_tron',
+  signTONTransaction: 'sign_ton',
+  sendTONTransaction: 'sign_ton',
+  signRawTonMessage: 'sign_ton',
+  sendRawTonMessage: 'sign_ton',
+  signMessage: 'sign_message',
+  grantUserRights: 'grant_rights',
+  chatAgent: 'chat_agent',
+};
+
+// Scope an app needs to receive each event
+const EVENT_SCOPES: Record<string, AppScope> = {
+  userChanged: 'read_addresses',
+  addressesChanged: 'read_addresses',
+  accountsChanged: 'read_addresses',
+  assetsChanged: 'read_balances',
+  transactionsChanged: 'read_balances',
+};
+
+/**
+ * JSON-RPC methods apps may call through ethRpc. Anything that signs or
+ * sends goes through the approval methods instead.
+ */
+const EVM_READ_METHODS = new Set([
+  'eth_blockNumber',
+  'eth_call',
+  'eth_estimateGas',
+  'eth_feeHistory',
+  'eth_gasPrice',
+  'eth_getBalance',
+  'eth_getBlockByHash',
+  'eth_getBlockByNumber',
+  'eth_getCode',
+  'eth_getLogs',
+  'eth_getStorageAt',
+  'eth_getTransactionByHash',
+  'eth_getTransactionCount',
+  'eth_getTransactionReceipt',
+  'eth_maxPriorityFeePerGas',
+  'net_version',
+]);
+
+/**
+ * Methods that sign, move value or act on the ledger for the user, mapped to
+ * the callback that handles them. Each one is shown to the user for approval
+ * before it runs.
+ */
+const APPROVAL_METHODS: Record<string, keyof WalletBridgeCallbacks> = {
+  transfer: 'onTransferRequest',
+  signMessage: 'onSignMessage',
+  acceptOffer: 'onAcceptOffer',
+  cantonCreate: 'onCantonCreate',
+  cantonExercise: 'onCantonExercise',
+  signEVMTransaction: 'onSignEVMTransaction',
+  sendEVMTransaction: 'onSendEVMTransaction',
+  signTypedData: 'onSignTypedData',
+  signBTCTransaction: 'onSignBTCTransaction',
+  sendBTCTransaction: 'onSendBTCTransaction',
+  signPsbt: 'onSignPsbt',
+  signSOLTransaction: 'onSignSOLTransaction',
+  sendSOLTransaction: 'onSendSOLTransaction',
+  signTRONTransaction: 'onSignTRONTransaction',
+  sendTRONTransaction: 'onSendTRONTransaction',
+  signTONTransaction: 'onSignTONTransaction',
+  sendTONTransaction: 'onSendTONTransaction',
+  signRawSolanaTransaction: 'onSignRawSolanaTransaction',
+  signAllTransactions: 'onSignAllSolanaTransactions',
+  signRawTonMessage: 'onSignRawTonMessage',
+  triggerTronSmartContract: 'onTriggerTronSmartContract',
+  // Broadcasts sign nothing, but they move funds with a transaction the app signed elsewhere
+  sendRawSolanaTransaction: 'onSendRawSolanaTransaction',
+  sendRawTonMessage: 'onSendRawTonMessage',
+  broadcastTronTransaction: 'onBroadcastTronTransaction',
+  grantUserRights: 'onGrantUserRights',
+};
+
 export class WalletBridge {
   private callbacks: WalletBridgeCallbacks;
   private allowedOrigins: string[];
@@ -421,6 +659,67 @@ export class WalletBridge {
     return this.allowedOrigins.includes(origin);
   }
 
+  /**
+   * Find the registered app whose iframe sent a message
+   */
+  private findAppId(source: MessageEventSource | null): string | null {
+    for (const [appId, iframe] of this.iframeRefs) {
+      if (iframe.contentWindow && iframe.contentWindow === source) {
+        return appId;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Reject a method the app has not been granted the scope for
+   */
+  private requireScope(method: string, appId: string | null): void {
+    const scope = METHOD_SCOPES[method];
+    if (!scope) return;
+    if (!appId || !this.callbacks.getGrantedScopes(appId).includes(scope)) {
+      throw new WalletBridgeError(
+        WalletErrorCode.UNAUTHORIZED,
+        `${method} requires the ${scope} permission; request it with connect`
+      );
+    }
+  }
+
+  /**
+   * Ask the user to grant any requested scopes the app does not have yet
+   */
+  private async connectApp(params: unknown, origin: string, appId: string | null): Promise<AppScope[]> {
+    if (!appId) {
+      throw new WalletBridgeError(WalletErrorCode.UNAUTHORIZED, 'Only registered apps can connect');
+    }
+
+    const requested = (params as { scopes?: string[] } | undefined)?.scopes ?? DEFAULT_SCOPES;
+    const unknown = requested.filter(scope => !isAppScope(scope));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown scopes: ${unknown.join(', ')}`);
+    }
+
+    const granted = this.callbacks.getGrantedScopes(appId);
+    const missing = [...new Set(requested as AppScope[])].filter(scope => !granted.includes(scope));
+    if (missing.length === 0) {
+      return granted;
+    }
+
+    await this.requireApproval('connect', { scopes: missing }, origin, appId);
+    await this.callbacks.onGrantScopes(appId, missing);
+    return [...granted, ...missing];
+  }
+
+  /**
+   * Ask the user to approve a request, rejecting it if they decline
+   */
+  private async requireApproval(method: string, params: unknown, origin: string, appId: string | null): Promise<void> {
+    const approved = await this.callbacks.onApprovalRequest({ method, params, origin, appId });
+    if (!approved) {
+      throw new WalletBridgeError(WalletErrorCode.USER_REJECTED, 'User rejected the request');
+    }
+  }
+
   /**
    * Handle incoming messages from iframes
    */
@@ -441,7 +740,20 @@ export class WalletBridge {
     console.log('[WalletBridge] Received request:', data.method, data.params);
 
     try {
-      const result = await this.processRequest(data.method, data.params);
+      const appId = this.findAppId(event.source);
+      let result: unknown;
+      if (data.method === 'connect') {
+        const scopes = await this.connectApp(data.params, event.origin, appId);
+        result = this.connectionState(scopes);
+      } else {
+        this.requireScope(data.method, appId);
+        // Unsupported methods fail in processRequest without bothering the user
+        const handler = APPROVAL_METHODS[data.method];
+        if (handler && this.callbacks[handler]) {
+          await this.requireApproval(data.method, data.params, event.origin, appId);
+        }
+        result = await this.processRequest(data.method, data.params, { origin: event.origin, appId });
+      }
       this.sendResponse(event.source as Window, event.origin, {
         id: data.id,
         result,
@@ -450,28 +762,32 @@ export class WalletBridge {
       this.sendResponse(event.source as Window, event.origin, {
         id: data.id,
         error: {
-          code: -1,
+          code: error instanceof WalletBridgeError ? error.code : WalletErrorCode.INTERNAL_ERROR,
           message: error instanceof Error ? error.message : 'Unknown error',
         },
       });
     }
   }
 
+  /**
+   * Connection result for an app, revealing the user only with read_addresses
+   */
+  private connectionState(scopes: AppScope[]): ConnectionState {
+    const user = this.callbacks.getUser();
+    const canReadAddresses = scopes.includes('read_addresses');
+    return {
+      connected: user !== null,
+      user: canReadAddresses ? user : null,
+      addresses: canReadAddresses ? this.callbacks.getAddresses() : [],
+      scopes,
+    };
+  }
+
   /**
    * Process a request and return result
    */
-  private async processRequest(method: string, params?: unknown): Promise<unknown> {
+  private async processRequest(method: string, params: unknown, context: RequestContext): Promise<unknown> {
     switch (method) {
-      case 'connect': {
-        const user = this.callbacks.getUser();
-        const addresses = this.callbacks.getAddresses();
-        return {
-          connected: user !== null,
-          user,
-          addresses,
-        } as ConnectionState;
-      }
-
       case 'disconnect':
         return { success: true };
 
@@ -520,8 +836,8 @@ export class WalletBridge {
       }
 
       case 'signMessage': {
-        const signParams = params as { message: string; chain: string };
-        return this.callbacks.onSignMessage(signParams);
+        const signParams = params as SignMessageParams;
+        return this.callbacks.onSignMessage(signParams, context);
       }
 
       case 'getPartyId': {
@@ -575,7 +891,7 @@ export class WalletBridge {
           throw new Error('EVM transaction signing not supported');
         }
         const signTxParams = params as SignEVMTransactionParams;
-        return this.callbacks.onSignEVMTransaction(signTxParams);
+        return this.callbacks.onSignEVMTransaction(signTxParams, context);
       }
 
       case 'sendEVMTransaction': {
@@ -583,7 +899,7 @@ export class WalletBridge {
           throw new Error('EVM transaction sending not supported');
         }
         const sendTxParams = params as SendEVMTransactionParams;
-        return this.callbacks.onSendEVMTransaction(sendTxParams);
+        return this.callbacks.onSendEVMTransaction(sendTxParams, context);
       }
 
       case 'signTypedData': {
@@ -591,7 +907,119 @@ export class WalletBridge {
           throw new Error('EIP-712 typed data signing not supported');
         }
         const typedDataParams = params as SignTypedDataParams;
-        return this.callbacks.onSignTypedData(typedDataParams);
+        return this.callbacks.onSignTypedData(typedDataParams, context);
+      }
+
+      case 'getEVMChainId': {
+        if (!this.callbacks.getEVMChainId) {
+          throw new Error('EVM networks not supported');
+        }
+        return this.callbacks.getEVMChainId();
+      }
+
+      case 'switchEVMChain': {
+        if (!this.callbacks.getEVMChainId || !this.callbacks.getEVMChainIds || !this.callbacks.onSwitchEVMChain) {
+          throw new Error('EVM network switching not supported');
+        }
+        const switchParams = params as SwitchEVMChainParams;
+        if (!this.callbacks.getEVMChainIds().includes(switchParams.chainId)) {
+          throw new WalletBridgeError(WalletErrorCode.UNRECOGNIZED_CHAIN, `Unrecognized chain ID: ${switchParams.chainId}`);
+        }
+        // Only an actual change is shown to the user
+        if (switchParams.chainId !== this.callbacks.getEVMChainId()) {
+          await this.requireApproval(method, params, context.origin, context.appId);
+          await this.callbacks.onSwitchEVMChain(switchParams);
+        }
+        return null;
+      }
+
+      case 'ethRpc': {
+        if (!this.callbacks.getEVMChainId || !this.callbacks.onEthRpc) {
+          throw new Error('EVM RPC not supported');
+        }
+        const rpcParams = params as EthRpcParams;
+        if (!EVM_READ_METHODS.has(rpcParams.method)) {
+          throw new WalletBridgeError(WalletErrorCode.UNSUPPORTED_METHOD, `${rpcParams.method} is not supported`);
+        }
+        return this.callbacks.onEthRpc({
+          method: rpcParams.method,
+          params: rpcParams.params ?? [],
+          chainId: rpcParams.chainId ?? this.callbacks.getEVMChainId(),
+        });
+      }
+
+      // Bitcoin Transaction Operations
+      case 'signBTCTransaction': {
+        if (!this.callbacks.onSignBTCTransaction) {
+          throw new Error('Bitcoin transaction signing not supported');
+        }
+        return this.callbacks.onSignBTCTransaction(params as BTCTransferParams, context);
+      }
+
+      case 'sendBTCTransaction': {
+        if (!this.callbacks.onSendBTCTransaction) {
+          throw new Error('Bitcoin transaction sending not supported');
+        }
+        return this.callbacks.onSendBTCTransaction(params as BTCTransferParams, context);
+      }
+
+      case 'signPsbt': {
+        if (!this.callbacks.onSignPsbt) {
+          throw new Error('PSBT signing not supported');
+        }
+        return this.callbacks.onSignPsbt(params as SignPsbtParams, context);
+      }
+
+      case 'finalizePsbt': {
+        if (!this.callbacks.onFinalizePsbt) {
+          throw new Error('PSBT finalizing not supported');
+        }
+        return this.callbacks.onFinalizePsbt(params as FinalizePsbtParams);
+      }
+
+      // Solana Transaction Operations
+      case 'signSOLTransaction': {
+        if (!this.callbacks.onSignSOLTransaction) {
+          throw new Error('Solana transaction signing not supported');
+        }
+        return this.callbacks.onSignSOLTransaction(params as SOLTransferParams, context);
+      }
+
+      case 'sendSOLTransaction': {
+        if (!this.callbacks.onSendSOLTransaction) {
+          throw new Error('Solana transaction sending not supported');
+        }
+        return this.callbacks.onSendSOLTransaction(params as SOLTransferParams, context);
+      }
+
+      // TRON Transaction Operations
+      case 'signTRONTransaction': {
+        if (!this.callbacks.onSignTRONTransaction) {
+          throw new Error('TRON transaction signing not supported');
+        }
+        return this.callbacks.onSignTRONTransaction(params as TRONTransferParams, context);
+      }
+
+      case 'sendTRONTransaction': {
+        if (!this.callbacks.onSendTRONTransaction) {
+          throw new Error('TRON transaction sending not supported');
+        }
+        return this.callbacks.onSendTRONTransaction(params as TRONTransferParams, context);
+      }
+
+      // TON Transaction Operations
+      case 'signTONTransaction': {
+        if (!this.callbacks.onSignTONTransaction) {
+          throw new Error('TON transaction signing not supported');
+        }
+        return this.callbacks.onSignTONTransaction(params as TONTransferParams, context);
+      }
+
+      case 'sendTONTransaction': {
+        if (!this.callbacks.onSendTONTransaction) {
+          throw new Error('TON transaction sending not supported');
+        }
+        return this.callbacks.onSendTONTransaction(params as TONTransferParams, context);
       }
 
       // Generic/Raw Transaction Operations (for DEX swaps)
@@ -600,7 +1028,18 @@ export class WalletBridge {
           throw new Error('Raw Solana transaction signing not supported');
         }
         const solanaSignParams = params as SignRawSolanaTransactionParams;
-        return this.callbacks.onSignRawSolanaTransaction(solanaSignParams);
+        return this.callbacks.onSignRawSolanaTransaction(solanaSignParams, context);
+      }
+
+      case 'signAllTransactions': {
+        if (!this.callbacks.onSignAllSolanaTransactions) {
+          throw new Error('Solana batch signing not supported');
+        }
+        const solanaSignAllParams = params as SignAllSolanaTransactionsParams;
+        if (!Array.isArray(solanaSignAllParams?.transactions) || solanaSignAllParams.transactions.length === 0) {
+          throw new Error('transactions must be a non-empty array');
+        }
+        return this.callbacks.onSignAllSolanaTransactions(solanaSignAllParams, context);
       }
 
       case 'sendRawSolanaTransaction': {
@@ -616,7 +1055,7 @@ export class WalletBridge {
           throw new Error('Raw TON message signing not supported');
         }
         const tonSignParams = params as SignRawTonMessageParams;
-        return this.callbacks.onSignRawTonMessage(tonSignParams);
+        return this.callbacks.onSignRawTonMessage(tonSignParams, context);
       }
 
       case 'sendRawTonMessage': {
@@ -632,7 +1071,7 @@ export class WalletBridge {
           throw new Error('TRON smart contract triggering not supported');
         }
         const tronTriggerParams = params as TriggerTronSmartContractParams;
-        return this.callbacks.onTriggerTronSmartContract(tronTriggerParams);
+        return this.callbacks.onTriggerTronSmartContract(tronTriggerParams, context);
       }
 
       case 'broadcastTronTransaction': {
@@ -675,7 +1114,7 @@ export class WalletBridge {
   }
 
   /**
-   * Send event to all registered iframes
+   * Send event to all registered iframes allowed to see it
    */
   sendEvent(event: string, data: unknown): void {
     const message = {
@@ -684,7 +1123,12 @@ export class WalletBridge {
       data,
     };
 
+    const scope = EVENT_SCOPES[event];
+
     this.iframeRefs.forEach((iframe, appId) => {
+      if (scope && !this.callbacks.getGrantedScopes(appId).includes(scope)) {
+        return;
+      }
       try {
         if (iframe.contentWindow) {
           // Get iframe origin
@@ -719,6 +1163,17 @@ export class WalletBridge {
   notifyAddressesChanged(): void {
     const addresses = this.callbacks.getAddresses();
     this.sendEvent('addressesChanged', addresses);
+    const evm = addresses.find(a => a.chainType === 'evm');
+    this.sendEvent('accountsChanged', evm ? [evm.address] : []);
+  }
+
+  /**
+   * Notify apps of a change to the EVM network
+   */
+  notifyEVMChainChanged(): void {
+    if (this.callbacks.getEVMChainId) {
+      this.sendEvent('chainChanged', this.callbacks.getEVMChainId());
+    }
   }
 
   /**